@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "weather_locations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lon" DOUBLE PRECISION NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "weather_locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "weather_observations" (
+    "id" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lon" DOUBLE PRECISION NOT NULL,
+    "observedAt" TIMESTAMP(3) NOT NULL,
+    "temperature" DOUBLE PRECISION NOT NULL,
+    "feelsLike" DOUBLE PRECISION,
+    "humidity" DOUBLE PRECISION NOT NULL,
+    "pressure" DOUBLE PRECISION NOT NULL,
+    "windSpeed" DOUBLE PRECISION NOT NULL,
+    "windDirection" DOUBLE PRECISION,
+    "precipitation" DOUBLE PRECISION NOT NULL,
+    "weatherMain" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "icon" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "weather_observations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "forecast_snapshots" (
+    "id" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lon" DOUBLE PRECISION NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL,
+    "forecastFor" TIMESTAMP(3) NOT NULL,
+    "temperature" DOUBLE PRECISION NOT NULL,
+    "humidity" DOUBLE PRECISION NOT NULL,
+    "pressure" DOUBLE PRECISION NOT NULL,
+    "windSpeed" DOUBLE PRECISION NOT NULL,
+    "precipitation" DOUBLE PRECISION NOT NULL,
+    "weatherMain" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "icon" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "forecast_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weather_locations_lat_lon_key" ON "weather_locations"("lat", "lon");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weather_observations_lat_lon_observedAt_key" ON "weather_observations"("lat", "lon", "observedAt");
+
+-- CreateIndex
+CREATE INDEX "forecast_snapshots_lat_lon_forecastFor_idx" ON "forecast_snapshots"("lat", "lon", "forecastFor");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "forecast_snapshots_lat_lon_issuedAt_forecastFor_key" ON "forecast_snapshots"("lat", "lon", "issuedAt", "forecastFor");
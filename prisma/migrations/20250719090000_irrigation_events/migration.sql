@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "irrigation_events" (
+    "id" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lon" DOUBLE PRECISION NOT NULL,
+    "date" TEXT NOT NULL,
+    "amountMm" DOUBLE PRECISION NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "irrigation_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "irrigation_events_lat_lon_date_idx" ON "irrigation_events"("lat", "lon", "date");
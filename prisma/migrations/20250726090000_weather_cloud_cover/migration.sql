@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "forecast_snapshots" ADD COLUMN     "cloudCover" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "weather_observations" ADD COLUMN     "cloudCover" DOUBLE PRECISION;
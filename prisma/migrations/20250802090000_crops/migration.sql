@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "crops" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "frostKillTemp" DOUBLE PRECISION NOT NULL,
+    "heatStressTemp" DOUBLE PRECISION NOT NULL,
+    "gddBase" DOUBLE PRECISION NOT NULL,
+    "gddUpper" DOUBLE PRECISION NOT NULL,
+    "kcInitial" DOUBLE PRECISION NOT NULL,
+    "kcMid" DOUBLE PRECISION NOT NULL,
+    "kcEnd" DOUBLE PRECISION NOT NULL,
+    "initialDays" INTEGER NOT NULL,
+    "developmentDays" INTEGER NOT NULL,
+    "midDays" INTEGER NOT NULL,
+    "lateDays" INTEGER NOT NULL,
+    "rootDepth" DOUBLE PRECISION NOT NULL,
+    "depletionFraction" DOUBLE PRECISION NOT NULL,
+    "seasonalWaterMm" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "crops_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crops_code_key" ON "crops"("code");
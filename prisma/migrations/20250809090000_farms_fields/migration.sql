@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "farms" (
+    "id" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION,
+    "lon" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "farms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fields" (
+    "id" TEXT NOT NULL,
+    "farmId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "boundary" JSONB,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lon" DOUBLE PRECISION NOT NULL,
+    "areaHa" DOUBLE PRECISION,
+    "soil" TEXT,
+    "irrigationType" TEXT,
+    "cropCode" TEXT,
+    "sowingDate" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fields_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "farms_owner_idx" ON "farms"("owner");
+
+-- CreateIndex
+CREATE INDEX "fields_farmId_idx" ON "fields"("farmId");
+
+-- AddForeignKey
+ALTER TABLE "fields" ADD CONSTRAINT "fields_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "crops" ADD COLUMN     "stages" JSONB;
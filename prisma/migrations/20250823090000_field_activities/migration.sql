@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "field_activities" (
+    "id" TEXT NOT NULL,
+    "fieldId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "performedAt" TIMESTAMP(3),
+    "amountMm" DOUBLE PRECISION,
+    "durationHours" DOUBLE PRECISION,
+    "product" TEXT,
+    "productClass" TEXT,
+    "rate" DOUBLE PRECISION,
+    "rateUnit" TEXT,
+    "reEntryHours" DOUBLE PRECISION,
+    "preHarvestDays" INTEGER,
+    "cropCode" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "field_activities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "field_activities_fieldId_date_idx" ON "field_activities"("fieldId", "date");
+
+-- AddForeignKey
+ALTER TABLE "field_activities" ADD CONSTRAINT "field_activities_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "alert_subscriptions" (
+    "id" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "name" TEXT,
+    "fieldId" TEXT,
+    "lat" DOUBLE PRECISION,
+    "lon" DOUBLE PRECISION,
+    "alertTypes" TEXT[],
+    "minSeverity" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alerts" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "peakSeverity" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "action" TEXT,
+    "details" JSONB,
+    "raisedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "escalatedAt" TIMESTAMP(3),
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_subscriptions_owner_idx" ON "alert_subscriptions"("owner");
+
+-- CreateIndex
+CREATE INDEX "alert_subscriptions_fieldId_idx" ON "alert_subscriptions"("fieldId");
+
+-- CreateIndex
+CREATE INDEX "alerts_subscriptionId_type_status_idx" ON "alerts"("subscriptionId", "type", "status");
+
+-- CreateIndex
+CREATE INDEX "alerts_status_raisedAt_idx" ON "alerts"("status", "raisedAt");
+
+-- AddForeignKey
+ALTER TABLE "alert_subscriptions" ADD CONSTRAINT "alert_subscriptions_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "alert_subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
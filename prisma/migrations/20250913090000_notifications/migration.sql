@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "notification_contacts" (
+    "id" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "name" TEXT,
+    "phone" TEXT,
+    "email" TEXT,
+    "channels" TEXT[],
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "commodities" TEXT[],
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_contacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "transport" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "providerMessageId" TEXT,
+    "eventId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_contacts_owner_idx" ON "notification_contacts"("owner");
+
+-- CreateIndex
+CREATE INDEX "notifications_contactId_createdAt_idx" ON "notifications"("contactId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "notification_contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "fields" ADD COLUMN     "advisoryPriority" TEXT,
+ADD COLUMN     "advisoryCheckedAt" TIMESTAMP(3);
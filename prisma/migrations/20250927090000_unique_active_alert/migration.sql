@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN     "activeType" TEXT;
+
+-- Resolve all but the latest of any duplicate active alerts
+UPDATE "alerts" AS "older" SET "status" = 'resolved', "resolvedAt" = CURRENT_TIMESTAMP
+WHERE "older"."status" = 'active' AND EXISTS (
+  SELECT 1 FROM "alerts" AS "newer"
+  WHERE "newer"."subscriptionId" = "older"."subscriptionId" AND "newer"."type" = "older"."type"
+    AND "newer"."status" = 'active' AND ("newer"."raisedAt", "newer"."id") > ("older"."raisedAt", "older"."id")
+);
+
+UPDATE "alerts" SET "activeType" = "type" WHERE "status" = 'active';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alerts_subscriptionId_activeType_key" ON "alerts"("subscriptionId", "activeType");
@@ -8,13 +8,21 @@ import cors from "cors";
 
 
 import farmRoutes from "./routes/farm";
+import fieldRoutes from "./routes/fields";
 import weatherRoutes from "./routes/weather"; 
 import marketRoutes from "./routes/market";
+import alertRoutes from "./routes/alerts";
+import webhookRoutes from "./routes/webhooks";
+import notificationRoutes from "./routes/notifications";
+import streamRoutes from "./routes/stream";
+import schedulerService from "./lib/scheduler";
+import { weatherService } from "./services/weather";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 
+console.log('🌦️ Weather provider:', weatherService.providerName);
 console.log('🔑 API Key loaded:', process.env.OPEN_WEATHER_KEY ? 'YES' : 'NO');
 
 
@@ -32,8 +40,13 @@ app.get("/", (req, res) => {
 
 
 app.use("/api/farm", farmRoutes);
+app.use("/api/farm", fieldRoutes);
 app.use("/api/weather", weatherRoutes);
 app.use("/api/market", marketRoutes);
+app.use("/api/alerts", alertRoutes);
+app.use("/api/webhooks", webhookRoutes);
+app.use("/api/notifications", notificationRoutes);
+app.use("/api/stream", streamRoutes);
 
 
 app.get("/api/market-prices", async (req, res) => {
@@ -43,6 +56,7 @@ app.get("/api/market-prices", async (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`🚀 FarmAssist Backend is running on port http://localhost:${PORT}`);
+  schedulerService.init();
 });
 
 export default app;
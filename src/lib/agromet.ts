@@ -0,0 +1,256 @@
+export type GddMethod = "average" | "modified" | "sine";
+
+/**
+ * Daily growing degree days from min/max temperature.
+ *
+ * - average: (Tmax + Tmin) / 2 - base, floored at zero
+ * - modified: Tmax capped at the upper threshold and both temperatures
+ *   floored at the base before averaging
+ * - sine: single-sine method with a horizontal cutoff at the upper threshold
+ */
+export function growingDegreeDays(tmin: number, tmax: number, baseTemp: number, upperTemp: number, method: GddMethod = "average"): number {
+  const low = Math.min(tmin, tmax);
+  const high = Math.max(tmin, tmax);
+
+  switch (method) {
+    case "modified": {
+      const cappedHigh = Math.max(baseTemp, Math.min(high, upperTemp));
+      const cappedLow = Math.max(baseTemp, Math.min(low, upperTemp));
+      return (cappedHigh + cappedLow) / 2 - baseTemp;
+    }
+    case "sine":
+      return singleSineDegreeDays(low, high, baseTemp, upperTemp);
+    default:
+      return Math.max(0, (high + low) / 2 - baseTemp);
+  }
+}
+
+function singleSineDegreeDays(tmin: number, tmax: number, baseTemp: number, upperTemp: number): number {
+  if (tmin >= upperTemp) {
+    return upperTemp - baseTemp;
+  }
+  if (tmax <= baseTemp) {
+    return 0;
+  }
+
+  const mean = (tmax + tmin) / 2;
+  const amplitude = (tmax - tmin) / 2;
+  if (amplitude === 0) {
+    return Math.max(0, Math.min(mean, upperTemp) - baseTemp);
+  }
+
+  const halfPi = Math.PI / 2;
+  const theta2 = tmax > upperTemp ? Math.asin((upperTemp - mean) / amplitude) : halfPi;
+
+  if (tmin >= baseTemp) {
+    return ((mean - baseTemp) * (theta2 + halfPi)
+      + (upperTemp - baseTemp) * (halfPi - theta2)
+      - amplitude * Math.cos(theta2)) / Math.PI;
+  }
+
+  const theta1 = Math.asin((baseTemp - mean) / amplitude);
+  return ((mean - baseTemp) * (theta2 - theta1)
+    + amplitude * (Math.cos(theta1) - Math.cos(theta2))
+    + (upperTemp - baseTemp) * (halfPi - theta2)) / Math.PI;
+}
+
+export interface ReferenceEtInput {
+  tmin: number;
+  tmax: number;
+  humidity: number;
+  windSpeed: number;
+  pressure: number;
+  lat: number;
+  dayOfYear: number;
+  windHeight?: number;
+  elevation?: number;
+}
+
+/**
+ * Saturation vapour pressure (kPa) at a temperature in °C (FAO-56 eq. 11)
+ */
+export function saturationVapourPressure(temp: number): number {
+  return 0.6108 * Math.exp((17.27 * temp) / (temp + 237.3));
+}
+
+/**
+ * Extraterrestrial radiation Ra (MJ/m²/day) for a latitude and day of year (FAO-56 eq. 21)
+ */
+export function extraterrestrialRadiation(lat: number, dayOfYear: number): number {
+  const phi = (lat * Math.PI) / 180;
+  const dr = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365);
+  const delta = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39);
+  const ws = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(delta))));
+
+  return ((24 * 60) / Math.PI) * 0.082 * dr *
+    (ws * Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.sin(ws));
+}
+
+/**
+ * FAO-56 Penman-Monteith daily reference evapotranspiration ET0 (mm/day).
+ *
+ * Inputs are daily min/max air temperature (°C), mean relative humidity (%),
+ * mean wind speed (m/s at `windHeight`, default 10 m) and pressure (hPa).
+ * Solar radiation is estimated from the temperature range with the
+ * Hargreaves radiation formula (kRs = 0.16) and capped at clear-sky radiation.
+ */
+export function referenceEvapotranspiration(input: ReferenceEtInput): number {
+  const { tmin, tmax, humidity, lat, dayOfYear } = input;
+  const windHeight = input.windHeight ?? 10;
+  const elevation = input.elevation ?? 0;
+  const tmean = (tmax + tmin) / 2;
+
+  const es = (saturationVapourPressure(tmax) + saturationVapourPressure(tmin)) / 2;
+  const ea = es * Math.max(0, Math.min(100, humidity)) / 100;
+  const slope = (4098 * saturationVapourPressure(tmean)) / Math.pow(tmean + 237.3, 2);
+  const gamma = 0.000665 * (input.pressure / 10);
+  const u2 = input.windSpeed * 4.87 / Math.log(67.8 * windHeight - 5.42);
+
+  const ra = extraterrestrialRadiation(lat, dayOfYear);
+  const rso = (0.75 + 2e-5 * elevation) * ra;
+  const rs = Math.min(0.16 * Math.sqrt(Math.max(0, tmax - tmin)) * ra, rso);
+  const rns = 0.77 * rs;
+  const sigma = 4.903e-9;
+  const rnl = sigma * ((Math.pow(tmax + 273.16, 4) + Math.pow(tmin + 273.16, 4)) / 2) *
+    (0.34 - 0.14 * Math.sqrt(ea)) *
+    (rso > 0 ? 1.35 * (rs / rso) - 0.35 : 0.05);
+  const rn = rns - rnl;
+
+  const et0 = (0.408 * slope * rn + gamma * (900 / (tmean + 273)) * u2 * (es - ea)) /
+    (slope + gamma * (1 + 0.34 * u2));
+
+  return Math.max(0, et0);
+}
+
+/**
+ * Day of year (1-366) of a YYYY-MM-DD date
+ */
+export function dayOfYear(date: string): number {
+  const time = Date.parse(`${date}T00:00:00Z`);
+  const yearStart = Date.parse(`${date.slice(0, 4)}-01-01T00:00:00Z`);
+  return Math.floor((time - yearStart) / 86400000) + 1;
+}
+
+/**
+ * Dew point (°C) from air temperature and relative humidity (Magnus formula)
+ */
+export function dewPoint(temp: number, humidity: number): number {
+  const a = 17.27;
+  const b = 237.7;
+  const rh = Math.max(1, Math.min(100, humidity));
+  const gamma = Math.log(rh / 100) + (a * temp) / (b + temp);
+  return (b * gamma) / (a - gamma);
+}
+
+/**
+ * Vapour pressure deficit (kPa)
+ */
+export function vapourPressureDeficit(temp: number, humidity: number): number {
+  return saturationVapourPressure(temp) * (1 - Math.max(0, Math.min(100, humidity)) / 100);
+}
+
+/**
+ * Wet-bulb temperature (°C) at sea-level pressure (Stull 2011)
+ */
+export function wetBulbTemperature(temp: number, humidity: number): number {
+  const rh = Math.max(1, Math.min(100, humidity));
+  return temp * Math.atan(0.151977 * Math.sqrt(rh + 8.313659))
+    + Math.atan(temp + rh)
+    - Math.atan(rh - 1.676331)
+    + 0.00391838 * Math.pow(rh, 1.5) * Math.atan(0.023101 * rh)
+    - 4.686035;
+}
+
+/**
+ * Delta T (dry bulb minus wet bulb, °C), the spray evaporation index
+ */
+export function deltaT(temp: number, humidity: number): number {
+  return Math.max(0, temp - wetBulbTemperature(temp, humidity));
+}
+
+export interface MoistureIndices {
+  dewPoint: number;
+  vpd: number;
+  deltaT: number;
+}
+
+/**
+ * Dew point, VPD and Delta T rounded for API responses
+ */
+export function moistureIndices(temp: number, humidity: number): MoistureIndices {
+  return {
+    dewPoint: Math.round(dewPoint(temp, humidity) * 10) / 10,
+    vpd: Math.round(vapourPressureDeficit(temp, humidity) * 100) / 100,
+    deltaT: Math.round(deltaT(temp, humidity) * 10) / 10
+  };
+}
+
+/**
+ * Soil temperature (°C) near 10 cm depth as the running mean of recent daily
+ * mean air temperatures; the soil damps and lags the air signal (Zheng et al.
+ * 1993 use an 11-day window). Oldest value first.
+ */
+export function soilTemperature(dailyMeanAirTemps: number[], windowDays: number = 11): number {
+  const recent = dailyMeanAirTemps.slice(-windowDays);
+  if (recent.length === 0) {
+    return NaN;
+  }
+  return recent.reduce((sum, temp) => sum + temp, 0) / recent.length;
+}
+
+/**
+ * Chill hour weight of one hourly temperature: 1 between 0 and 7.2°C (45°F)
+ */
+export function chillHour(temp: number): number {
+  return temp >= 0 && temp <= 7.2 ? 1 : 0;
+}
+
+/**
+ * Utah model chill units for one hourly temperature (Richardson et al. 1974);
+ * warm hours negate earlier chill
+ */
+export function utahChillUnits(temp: number): number {
+  if (temp < 1.5) return 0;
+  if (temp < 2.5) return 0.5;
+  if (temp < 9.2) return 1;
+  if (temp < 12.5) return 0.5;
+  if (temp < 16) return 0;
+  if (temp <= 18) return -0.5;
+  return -1;
+}
+
+/**
+ * Cumulative chill portions after each hour of a contiguous hourly temperature
+ * series, using the Dynamic model (Fishman et al. 1987). A heat-labile
+ * intermediate builds up in cool hours and is fixed into a permanent portion
+ * once it reaches a critical level, so moderate warmth only erodes the
+ * unfixed intermediate.
+ */
+export function dynamicChillPortions(hourlyTemps: number[]): number[] {
+  const e0 = 4153.5;
+  const e1 = 12888.8;
+  const a0 = 139500;
+  const a1 = 2.567e18;
+  const slope = 1.6;
+  const tetmlt = 277;
+
+  let intermediate = 0;
+  let previousShare = 0;
+  let portions = 0;
+
+  return hourlyTemps.map((temp, i) => {
+    const tempK = temp + 273;
+    const sr = Math.exp(slope * tetmlt * (tempK - tetmlt) / tempK);
+    const share = sr / (1 + sr);
+    const steadyState = (a0 / a1) * Math.exp((e1 - e0) / tempK);
+    const rate = a1 * Math.exp(-e1 / tempK);
+
+    const start = i === 0 ? 0 : intermediate < 1 ? intermediate : intermediate * (1 - previousShare);
+    intermediate = steadyState - (steadyState - start) * Math.exp(-rate);
+    if (intermediate >= 1) {
+      portions += intermediate * share;
+    }
+    previousShare = share;
+    return portions;
+  });
+}
@@ -0,0 +1,88 @@
+export interface CacheStatus {
+  key: string;
+  hit: boolean;
+  coalesced: boolean;
+  age: number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+/**
+ * In-memory TTL cache that also coalesces concurrent loads of the same key
+ * into a single in-flight promise. Failed loads are never cached.
+ */
+export class TtlCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly ttlMs: number, private readonly maxEntries: number = 1000) {}
+
+  /**
+   * Return the cached value for a key, loading it once if missing or expired
+   */
+  async getOrLoad<T>(key: string, loader: () => Promise<T>): Promise<CacheResult<T>> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+
+    if (entry && now - entry.storedAt < this.ttlMs) {
+      return {
+        value: entry.value as T,
+        status: { key, hit: true, coalesced: false, age: Math.round((now - entry.storedAt) / 1000) }
+      };
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      const value = await pending;
+      return {
+        value: value as T,
+        status: { key, hit: false, coalesced: true, age: 0 }
+      };
+    }
+
+    const load = loader()
+      .then(value => {
+        this.store(key, value);
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, load);
+    const value = await load;
+
+    return {
+      value,
+      status: { key, hit: false, coalesced: false, age: 0 }
+    };
+  }
+
+  /**
+   * Drop all cached entries
+   */
+  clear() {
+    this.entries.clear();
+  }
+
+  private store(key: string, value: unknown) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: Date.now() });
+
+    const now = Date.now();
+    for (const [entryKey, entry] of this.entries) {
+      if (this.entries.size <= this.maxEntries && now - entry.storedAt < this.ttlMs) {
+        break;
+      }
+      this.entries.delete(entryKey);
+    }
+  }
+}
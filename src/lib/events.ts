@@ -0,0 +1,61 @@
+import { randomUUID } from "crypto";
+
+export type FarmEventType =
+  | "alert.raised"
+  | "alert.escalated"
+  | "alert.resolved"
+  | "advisory.priority_changed"
+  | "market.prices_updated";
+
+export const FARM_EVENT_TYPES: FarmEventType[] = ["alert.raised", "alert.escalated", "alert.resolved", "advisory.priority_changed", "market.prices_updated"];
+
+export interface FarmEvent<T = any> {
+  id: string;
+  type: FarmEventType;
+  occurredAt: string;
+  data: T;
+}
+
+type Listener = (event: FarmEvent) => void | Promise<void>;
+
+/**
+ * In-process publish/subscribe for domain events. Listeners run after the
+ * publisher returns and their failures are logged, never thrown back.
+ */
+class EventBus {
+  private listeners: Listener[] = [];
+
+  publish<T>(type: FarmEventType, data: T): FarmEvent<T> {
+    const event: FarmEvent<T> = {
+      id: randomUUID(),
+      type,
+      occurredAt: new Date().toISOString(),
+      data
+    };
+
+    for (const listener of this.listeners) {
+      setImmediate(async () => {
+        try {
+          await listener(event);
+        } catch (error) {
+          console.error(`❌ Event listener failed for ${type}:`, error);
+        }
+      });
+    }
+
+    return event;
+  }
+
+  /**
+   * Register a listener for every event; returns a function that removes it
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(item => item !== listener);
+    };
+  }
+}
+
+export const eventBus = new EventBus();
+export default eventBus;
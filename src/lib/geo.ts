@@ -0,0 +1,81 @@
+const COORDINATE_PRECISION = parseInt(process.env.WEATHER_CACHE_PRECISION || "2");
+
+/**
+ * Round a coordinate to the shared weather grid used for caching and storage
+ */
+export function roundCoordinate(value: number, precision: number = COORDINATE_PRECISION): number {
+  return parseFloat(value.toFixed(precision));
+}
+
+const METRES_PER_DEGREE_LAT = 110540;
+const METRES_PER_DEGREE_LON = 111320;
+
+/**
+ * Project a [lon, lat] ring onto a local equirectangular plane in metres.
+ * Accurate to well under 1% for field-sized polygons.
+ */
+function projectRing(ring: [number, number][]): { points: [number, number][]; originLat: number; originLon: number; lonScale: number } {
+  const closed = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+  const vertices = closed ? ring.slice(0, -1) : ring;
+  const originLon = vertices.reduce((sum, point) => sum + point[0], 0) / vertices.length;
+  const originLat = vertices.reduce((sum, point) => sum + point[1], 0) / vertices.length;
+  const lonScale = METRES_PER_DEGREE_LON * Math.cos(originLat * Math.PI / 180);
+
+  return {
+    points: vertices.map(([lon, lat]) => [(lon - originLon) * lonScale, (lat - originLat) * METRES_PER_DEGREE_LAT]),
+    originLat,
+    originLon,
+    lonScale
+  };
+}
+
+/**
+ * Area of a [lon, lat] ring in hectares
+ */
+export function polygonAreaHectares(ring: [number, number][]): number {
+  const { points } = projectRing(ring);
+  let twiceArea = 0;
+  points.forEach(([x1, y1], i) => {
+    const [x2, y2] = points[(i + 1) % points.length];
+    twiceArea += x1 * y2 - x2 * y1;
+  });
+
+  return Math.abs(twiceArea) / 2 / 10000;
+}
+
+/**
+ * Area-weighted centroid of a [lon, lat] ring
+ */
+export function polygonCentroid(ring: [number, number][]): { lat: number; lon: number } {
+  const { points, originLat, originLon, lonScale } = projectRing(ring);
+  let twiceArea = 0;
+  let cx = 0;
+  let cy = 0;
+  points.forEach(([x1, y1], i) => {
+    const [x2, y2] = points[(i + 1) % points.length];
+    const cross = x1 * y2 - x2 * y1;
+    twiceArea += cross;
+    cx += (x1 + x2) * cross;
+    cy += (y1 + y2) * cross;
+  });
+
+  if (twiceArea === 0) {
+    return { lat: originLat, lon: originLon };
+  }
+
+  return {
+    lat: originLat + cy / (3 * twiceArea) / METRES_PER_DEGREE_LAT,
+    lon: originLon + cx / (3 * twiceArea) / lonScale
+  };
+}
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
@@ -0,0 +1,124 @@
+import { MESSAGES } from "./messages";
+
+export type Language = "en" | "hi" | "mr" | "pa" | "te" | "ta";
+
+export const LANGUAGES: Language[] = ["en", "hi", "mr", "pa", "te", "ta"];
+
+export type Translations = { en: string } & Partial<Record<Exclude<Language, "en">, string>>;
+
+export type MessageCode = keyof typeof MESSAGES;
+
+export type MessageParams = Record<string, string | number | MessageRef | (string | MessageRef)[]>;
+
+/**
+ * A catalogue message with its parameters. Parameters may themselves be
+ * messages, or lists of messages, so that words inside a sentence are
+ * translated too.
+ */
+export interface MessageRef {
+  code: MessageCode;
+  params?: MessageParams;
+  lowerFirst?: boolean;
+}
+
+/**
+ * Text fields of a result keyed by field name, each built from one or more messages
+ */
+export type MessageCodes<K extends string> = Record<K, MessageRef[]>;
+
+export function msg(code: MessageCode, params?: MessageParams): MessageRef {
+  return params ? { code, params } : { code };
+}
+
+/**
+ * The catalogue name for a crop, stage, disease or product code. Names that
+ * are not catalogued, or were renamed from the catalogue's English, are kept
+ * as given.
+ */
+export function nameRef(code: string, name: string, lowerFirst = false): MessageRef | string {
+  if (Object.prototype.hasOwnProperty.call(MESSAGES, code) && MESSAGES[code as MessageCode].en === name) {
+    return lowerFirst ? { code: code as MessageCode, lowerFirst } : { code: code as MessageCode };
+  }
+  return lowerFirst ? lowercaseFirst(name) : name;
+}
+
+/**
+ * Lower-case the first letter unless the text starts with an acronym such as NPK
+ */
+function lowercaseFirst(text: string): string {
+  return /^\p{Lu}{2}/u.test(text) ? text : text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+/**
+ * Fill {placeholders} from `vars`; unknown placeholders render empty
+ */
+export function interpolate(template: string, vars: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (_, key) => vars[key] !== undefined ? String(vars[key]) : "");
+}
+
+/**
+ * Render a message in the given language, falling back to English
+ */
+export function t(ref: MessageRef, language: Language): string {
+  const translations: Translations = MESSAGES[ref.code];
+  const vars: Record<string, string | number> = {};
+  Object.entries(ref.params || {}).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      vars[key] = value.map(item => typeof item === "object" ? t(item, language) : item).join(", ");
+    } else {
+      vars[key] = typeof value === "object" ? t(value, language) : value;
+    }
+  });
+
+  const text = interpolate(translations[language] ?? translations.en, vars);
+  return ref.lowerFirst ? lowercaseFirst(text) : text;
+}
+
+export function renderMessages(refs: MessageRef[], language: Language): string {
+  return refs.map(ref => t(ref, language)).join(" ");
+}
+
+/**
+ * Re-render every text field listed in `codes` in another language. List
+ * fields such as notes get one entry per message.
+ */
+export function localizeFields<T extends { codes: Partial<Record<string, MessageRef[]>> }>(value: T, language: Language): T {
+  if (language === "en") {
+    return value;
+  }
+
+  const fields: Record<string, unknown> = value;
+  const rendered: Record<string, string | string[]> = {};
+  Object.entries(value.codes).forEach(([field, refs]) => {
+    if (refs) {
+      rendered[field] = Array.isArray(fields[field])
+        ? refs.map(ref => t(ref, language))
+        : renderMessages(refs, language);
+    }
+  });
+  return { ...value, ...rendered };
+}
+
+/**
+ * Pick the response language from an explicit `lang` parameter, then the
+ * Accept-Language header, then English. Returns null when `lang` is given but
+ * not supported.
+ */
+export function resolveLanguage(lang: unknown, acceptLanguage?: string): Language | null {
+  if (lang !== undefined && lang !== "") {
+    const code = String(lang).toLowerCase().split("-")[0];
+    return LANGUAGES.includes(code as Language) ? code as Language : null;
+  }
+
+  const preferences = (acceptLanguage || "")
+    .split(",")
+    .map(part => {
+      const [tag, ...attributes] = part.trim().split(";");
+      const quality = attributes.find(attribute => attribute.trim().startsWith("q="));
+      return { code: tag.toLowerCase().split("-")[0], quality: quality ? parseFloat(quality.trim().slice(2)) : 1 };
+    })
+    .filter(item => LANGUAGES.includes(item.code as Language) && item.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  return preferences.length > 0 ? preferences[0].code as Language : "en";
+}
@@ -0,0 +1,1298 @@
+import type { Translations } from "./i18n";
+
+/**
+ * Advisory message catalogue keyed by stable codes. Codes are part of the API
+ * response, so rename them only with a migration path for clients.
+ */
+export const MESSAGES = {
+  "common.crops": { en: "crops", hi: "फसलों", mr: "पिके", pa: "ਫ਼ਸਲਾਂ", te: "పంటల", ta: "பயிர்கள்" },
+
+  "crop.rice": { en: "Rice (paddy)", hi: "धान", mr: "भात", pa: "ਝੋਨਾ", te: "వరి", ta: "நெல்" },
+  "crop.maize": { en: "Maize", hi: "मक्का", mr: "मका", pa: "ਮੱਕੀ", te: "మొక్కజొన్న", ta: "மக்காச்சோளம்" },
+  "crop.soybean": { en: "Soybean", hi: "सोयाबीन", mr: "सोयाबीन", pa: "ਸੋਇਆਬੀਨ", te: "సోయాబీన్", ta: "சோயாபீன்ஸ்" },
+  "crop.cotton": { en: "Cotton", hi: "कपास", mr: "कापूस", pa: "ਨਰਮਾ", te: "పత్తి", ta: "பருத்தி" },
+  "crop.mango": { en: "Mango", hi: "आम", mr: "आंबा", pa: "ਅੰਬ", te: "మామిడి", ta: "மா" },
+  "crop.wheat": { en: "Wheat", hi: "गेहूँ", mr: "गहू", pa: "ਕਣਕ", te: "గోధుమ", ta: "கோதுமை" },
+  "crop.chickpea": { en: "Chickpea", hi: "चना", mr: "हरभरा", pa: "ਛੋਲੇ", te: "శనగ", ta: "கொண்டைக்கடலை" },
+  "crop.mustard": { en: "Mustard", hi: "सरसों", mr: "मोहरी", pa: "ਸਰ੍ਹੋਂ", te: "ఆవాలు", ta: "கடுகு" },
+  "crop.potato": { en: "Potato", hi: "आलू", mr: "बटाटा", pa: "ਆਲੂ", te: "బంగాళాదుంప", ta: "உருளைக்கிழங்கு" },
+  "crop.onion": { en: "Onion", hi: "प्याज़", mr: "कांदा", pa: "ਪਿਆਜ਼", te: "ఉల్లి", ta: "வெங்காயம்" },
+  "crop.tomato": { en: "Tomato", hi: "टमाटर", mr: "टोमॅटो", pa: "ਟਮਾਟਰ", te: "టమాటా", ta: "தக்காளி" },
+  "crop.sugarcane": { en: "Sugarcane", hi: "गन्ना", mr: "ऊस", pa: "ਗੰਨਾ", te: "చెరకు", ta: "கரும்பு" },
+
+  // Stage names are keyed by name because crops reuse stage codes such as maturity
+  "stage.germination": { en: "Germination", hi: "अंकुरण", mr: "उगवण", pa: "ਪੁੰਗਰਨਾ", te: "మొలకెత్తడం", ta: "முளைப்பு" },
+  "stage.emergence": { en: "Emergence", hi: "अंकुर निकलना", mr: "रोप उगवणे", pa: "ਉੱਗਣਾ", te: "మొలక బయటకు రావడం", ta: "முளை வெளிவருதல்" },
+  "stage.crown_root_initiation": { en: "Crown root initiation", hi: "शिखर जड़ बनना", mr: "मुकुट मुळे फुटणे", pa: "ਤਾਜ ਜੜ੍ਹਾਂ ਬਣਨਾ", te: "కిరీట వేర్లు ఏర్పడటం", ta: "கிரீட வேர் தோன்றுதல்" },
+  "stage.tillering": { en: "Tillering", hi: "कल्ले निकलना", mr: "फुटवे येणे", pa: "ਬੂਝਾ ਮਾਰਨਾ", te: "పిలకలు వేయడం", ta: "தூர் கட்டுதல்" },
+  "stage.jointing": { en: "Jointing", hi: "तने में गाँठें बनना", mr: "कांडी धरणे", pa: "ਗੰਢਾਂ ਬਣਨਾ", te: "కణుపులు ఏర్పడటం", ta: "கணு உருவாதல்" },
+  "stage.vegetative": { en: "Vegetative", hi: "वानस्पतिक वृद्धि", mr: "शाखीय वाढ", pa: "ਬਨਸਪਤੀ ਵਾਧਾ", te: "శాఖీయ పెరుగుదల", ta: "தழை வளர்ச்சி" },
+  "stage.panicle_initiation": { en: "Panicle initiation", hi: "बाली बनना शुरू", mr: "लोंबी तयार होणे", pa: "ਸਿੱਟਾ ਬਣਨਾ ਸ਼ੁਰੂ", te: "కంకి ఏర్పడటం", ta: "கதிர் உருவாகத் தொடங்குதல்" },
+  "stage.panicle_emergence": { en: "Panicle emergence", hi: "बाली निकलना", mr: "लोंबी बाहेर पडणे", pa: "ਸਿੱਟਾ ਨਿਕਲਣਾ", te: "కంకి బయటకు రావడం", ta: "கதிர் வெளிவருதல்" },
+  "stage.tasseling": { en: "Tasseling", hi: "नर मंजरी निकलना", mr: "तुरा येणे", pa: "ਝੰਡਾ ਨਿਕਲਣਾ", te: "జల్లు వేయడం", ta: "ஆண் பூங்கொத்து வெளிவருதல்" },
+  "stage.silking": { en: "Silking", hi: "भुट्टे में रेशे निकलना", mr: "स्त्रीकेसर येणे", pa: "ਛੱਲੀ ਦੇ ਵਾਲ ਨਿਕਲਣਾ", te: "పీచు వేయడం", ta: "கதிர் நார் வெளிவருதல்" },
+  "stage.flowering": { en: "Flowering", hi: "फूल आना", mr: "फुलोरा", pa: "ਫੁੱਲ ਪੈਣਾ", te: "పూత", ta: "பூக்கும் பருவம்" },
+  "stage.grain_fill": { en: "Grain fill", hi: "दाना भरना", mr: "दाणे भरणे", pa: "ਦਾਣਾ ਭਰਨਾ", te: "గింజ నిండటం", ta: "மணி நிரம்புதல்" },
+  "stage.branching": { en: "Branching", hi: "शाखाएँ निकलना", mr: "फांद्या फुटणे", pa: "ਟਾਹਣੀਆਂ ਨਿਕਲਣਾ", te: "కొమ్మలు వేయడం", ta: "கிளை விடுதல்" },
+  "stage.pod_fill": { en: "Pod fill", hi: "फली भरना", mr: "शेंगा भरणे", pa: "ਫਲੀ ਭਰਨਾ", te: "కాయ నిండటం", ta: "காய் நிரம்புதல்" },
+  "stage.rosette": { en: "Rosette", hi: "रोज़ेट अवस्था", mr: "रोझेट अवस्था", pa: "ਰੋਜ਼ੇਟ ਅਵਸਥਾ", te: "రోసెట్ దశ", ta: "ரோசெட் நிலை" },
+  "stage.squaring": { en: "Squaring", hi: "कली बनना", mr: "पाते लागणे", pa: "ਡੋਡੀ ਬਣਨਾ", te: "మొగ్గ దశ", ta: "மொட்டு விடுதல்" },
+  "stage.boll_development": { en: "Boll development", hi: "टिंडा विकास", mr: "बोंड वाढ", pa: "ਟੀਂਡੇ ਦਾ ਵਾਧਾ", te: "కాయ అభివృద్ధి", ta: "காய் வளர்ச்சி" },
+  "stage.boll_opening": { en: "Boll opening", hi: "टिंडे खुलना", mr: "बोंडे फुटणे", pa: "ਟੀਂਡੇ ਖੁੱਲ੍ਹਣਾ", te: "కాయ పగలడం", ta: "காய் வெடித்தல்" },
+  "stage.grand_growth": { en: "Grand growth", hi: "तीव्र वृद्धि", mr: "जोमदार वाढ", pa: "ਤੇਜ਼ ਵਾਧਾ", te: "వేగవంతమైన పెరుగుదల", ta: "தீவிர வளர்ச்சி" },
+  "stage.fruit_set": { en: "Fruit set", hi: "फल लगना", mr: "फळधारणा", pa: "ਫਲ ਲੱਗਣਾ", te: "పిందె కట్టడం", ta: "பிஞ்சு பிடித்தல்" },
+  "stage.fruit_development": { en: "Fruit development", hi: "फल विकास", mr: "फळ वाढ", pa: "ਫਲ ਦਾ ਵਾਧਾ", te: "కాయ పెరుగుదల", ta: "கனி வளர்ச்சி" },
+  "stage.sprouting": { en: "Sprouting", hi: "अंकुर फूटना", mr: "कोंब फुटणे", pa: "ਫੁਟਾਰਾ", te: "మొలకలు రావడం", ta: "முளை விடுதல்" },
+  "stage.tuber_initiation": { en: "Tuber initiation", hi: "कंद बनना शुरू", mr: "कंद धरणे", pa: "ਗੰਢੀਆਂ ਬਣਨੀਆਂ ਸ਼ੁਰੂ", te: "దుంప ఏర్పడటం", ta: "கிழங்கு உருவாதல்" },
+  "stage.tuber_bulking": { en: "Tuber bulking", hi: "कंद बढ़ना", mr: "कंद पोसणे", pa: "ਗੰਢੀਆਂ ਦਾ ਵਾਧਾ", te: "దుంప పెరుగుదల", ta: "கிழங்கு பருத்தல்" },
+  "stage.bulb_initiation": { en: "Bulb initiation", hi: "गाँठ बनना शुरू", mr: "कांदा धरण्यास सुरुवात", pa: "ਗੰਢ ਬਣਨੀ ਸ਼ੁਰੂ", te: "గడ్డ ఏర్పడటం", ta: "குமிழ் உருவாதல்" },
+  "stage.bulb_development": { en: "Bulb development", hi: "गाँठ का विकास", mr: "कांदा पोसणे", pa: "ਗੰਢ ਦਾ ਵਾਧਾ", te: "గడ్డ పెరుగుదల", ta: "குமிழ் வளர்ச்சி" },
+  "stage.maturity": { en: "Maturity", hi: "परिपक्वता", mr: "पक्वता", pa: "ਪੱਕਣਾ", te: "పక్వత", ta: "முதிர்ச்சி" },
+
+  "risk.late_blight": { en: "Late blight", hi: "पछेती झुलसा", mr: "उशिराचा करपा", pa: "ਪਿਛੇਤਾ ਝੁਲਸ ਰੋਗ", te: "ఆలస్య ఎండు తెగులు", ta: "பின்பருவ இலைக்கருகல்" },
+  "risk.powdery_mildew": { en: "Powdery mildew", hi: "चूर्णिल आसिता", mr: "भुरी", pa: "ਚਿੱਟਾ ਰੋਗ", te: "బూడిద తెగులు", ta: "சாம்பல் நோய்" },
+  "risk.rice_blast": { en: "Rice blast", hi: "धान का झोंका", mr: "भातावरील करपा", pa: "ਝੋਨੇ ਦਾ ਬਲਾਸਟ ਰੋਗ", te: "అగ్గి తెగులు", ta: "குலை நோய்" },
+  "risk.helicoverpa": { en: "Pod borer (Helicoverpa armigera)", hi: "फली छेदक", mr: "घाटे अळी", pa: "ਫਲੀ ਛੇਦਕ ਸੁੰਡੀ", te: "శనగపచ్చ పురుగు", ta: "காய்ப்புழு" },
+  "risk.pink_bollworm": { en: "Pink bollworm", hi: "गुलाबी सुंडी", mr: "शेंदरी बोंडअळी", pa: "ਗੁਲਾਬੀ ਸੁੰਡੀ", te: "గులాబీ రంగు పురుగు", ta: "இளஞ்சிவப்பு காய்ப்புழு" },
+  "risk.fall_armyworm": { en: "Fall armyworm", hi: "फॉल आर्मीवर्म", mr: "लष्करी अळी", pa: "ਫ਼ਾਲ ਆਰਮੀਵਰਮ", te: "కత్తెర పురుగు", ta: "படைப்புழு" },
+
+  "product.contact_fungicide": { en: "Contact fungicide", hi: "संपर्क फफूंदनाशक", mr: "स्पर्शजन्य बुरशीनाशक", pa: "ਸੰਪਰਕ ਉੱਲੀਨਾਸ਼ਕ", te: "స్పర్శ శిలీంధ్రనాశిని", ta: "தொடு பூஞ்சைக்கொல்லி" },
+  "product.systemic_fungicide": { en: "Systemic fungicide", hi: "प्रणालीगत फफूंदनाशक", mr: "आंतरप्रवाही बुरशीनाशक", pa: "ਪ੍ਰਣਾਲੀਗਤ ਉੱਲੀਨਾਸ਼ਕ", te: "అంతర్వాహక శిలీంధ్రనాశిని", ta: "உட்செல் பூஞ்சைக்கொல்லி" },
+  "product.contact_herbicide": { en: "Contact herbicide", hi: "संपर्क खरपतवारनाशक", mr: "स्पर्शजन्य तणनाशक", pa: "ਸੰਪਰਕ ਨਦੀਨਨਾਸ਼ਕ", te: "స్పర్శ కలుపునాశిని", ta: "தொடு களைக்கொல்லி" },
+  "product.systemic_herbicide": { en: "Systemic herbicide", hi: "प्रणालीगत खरपतवारनाशक", mr: "आंतरप्रवाही तणनाशक", pa: "ਪ੍ਰਣਾਲੀਗਤ ਨਦੀਨਨਾਸ਼ਕ", te: "అంతర్వాహక కలుపునాశిని", ta: "உட்செல் களைக்கொல்லி" },
+  "product.insecticide": { en: "Insecticide", hi: "कीटनाशक", mr: "कीटकनाशक", pa: "ਕੀਟਨਾਸ਼ਕ", te: "పురుగుమందు", ta: "பூச்சிக்கொல்லி" },
+  "product.foliar_fertilizer": { en: "Foliar fertilizer", hi: "पर्णीय उर्वरक", mr: "फवारणीचे खत", pa: "ਪੱਤਿਆਂ 'ਤੇ ਛਿੜਕਣ ਵਾਲੀ ਖਾਦ", te: "ఆకులపై పిచికారీ ఎరువు", ta: "இலைவழி உரம்" },
+
+  "fertilizer.urea": { en: "Urea", hi: "यूरिया", mr: "युरिया", pa: "ਯੂਰੀਆ", te: "యూరియా", ta: "யூரியா" },
+  "fertilizer.ammonium_sulphate": { en: "Ammonium sulphate", hi: "अमोनियम सल्फेट", mr: "अमोनियम सल्फेट", pa: "ਅਮੋਨੀਅਮ ਸਲਫੇਟ", te: "అమ్మోనియం సల్ఫేట్", ta: "அம்மோனியம் சல்பேட்" },
+  "fertilizer.can": { en: "Calcium ammonium nitrate", hi: "कैल्शियम अमोनियम नाइट्रेट", mr: "कॅल्शियम अमोनियम नायट्रेट", pa: "ਕੈਲਸ਼ੀਅਮ ਅਮੋਨੀਅਮ ਨਾਈਟ੍ਰੇਟ", te: "కాల్షియం అమ్మోనియం నైట్రేట్", ta: "கால்சியம் அம்மோனியம் நைட்ரேட்" },
+  "fertilizer.dap": { en: "Diammonium phosphate", hi: "डीएपी", mr: "डीएपी", pa: "ਡੀਏਪੀ", te: "డీఏపీ", ta: "டிஏபி" },
+  "fertilizer.npk": { en: "NPK complex", hi: "एनपीके मिश्रित उर्वरक", mr: "एनपीके संयुक्त खत", pa: "ਐਨਪੀਕੇ ਮਿਸ਼ਰਤ ਖਾਦ", te: "ఎన్‌పీకే కాంప్లెక్స్ ఎరువు", ta: "என்பிகே கலப்பு உரம்" },
+  "fertilizer.potash": { en: "Muriate of potash", hi: "म्यूरेट ऑफ पोटाश", mr: "म्युरेट ऑफ पोटॅश", pa: "ਮਿਊਰੇਟ ਆਫ਼ ਪੋਟਾਸ਼", te: "మ్యూరియేట్ ఆఫ్ పొటాష్", ta: "மியூரியேட் ஆஃப் பொட்டாஷ்" },
+  "fertilizer.manure": { en: "Farmyard manure or compost", hi: "गोबर की खाद या कम्पोस्ट", mr: "शेणखत किंवा कंपोस्ट", pa: "ਰੂੜੀ ਦੀ ਖਾਦ ਜਾਂ ਕੰਪੋਸਟ", te: "పశువుల ఎరువు లేదా కంపోస్ట్", ta: "தொழு உரம் அல்லது மட்கிய உரம்" },
+
+  "frost.critical_radiative": {
+    en: "Severe radiative frost expected on clear, calm nights - immediate action required for {crop}",
+    hi: "साफ़, शांत रातों में गंभीर विकिरण पाला संभव - {crop} के लिए तुरंत कार्रवाई करें",
+    mr: "निरभ्र, शांत रात्रींमध्ये तीव्र प्रारण दंव अपेक्षित - {crop}: त्वरित उपाय करा",
+    pa: "ਸਾਫ਼, ਸ਼ਾਂਤ ਰਾਤਾਂ ਵਿੱਚ ਗੰਭੀਰ ਵਿਕਿਰਣ ਕੋਰਾ ਸੰਭਵ - {crop} ਲਈ ਤੁਰੰਤ ਕਾਰਵਾਈ ਕਰੋ",
+    te: "నిర్మలమైన, గాలి లేని రాత్రుల్లో తీవ్రమైన వికిరణ మంచు అవకాశం - {crop} కోసం వెంటనే చర్య తీసుకోండి",
+    ta: "தெளிவான, அமைதியான இரவுகளில் கடும் கதிர்வீச்சு உறைபனி எதிர்பார்க்கப்படுகிறது - {crop}: உடனடி நடவடிக்கை தேவை"
+  },
+  "frost.critical": {
+    en: "Severe frost expected - immediate action required for {crop}",
+    hi: "गंभीर पाला संभव - {crop} के लिए तुरंत कार्रवाई करें",
+    mr: "तीव्र दंव अपेक्षित - {crop}: त्वरित उपाय करा",
+    pa: "ਗੰਭੀਰ ਕੋਰਾ ਸੰਭਵ - {crop} ਲਈ ਤੁਰੰਤ ਕਾਰਵਾਈ ਕਰੋ",
+    te: "తీవ్రమైన మంచు అవకాశం - {crop} కోసం వెంటనే చర్య తీసుకోండి",
+    ta: "கடும் உறைபனி எதிர்பார்க்கப்படுகிறது - {crop}: உடனடி நடவடிக்கை தேவை"
+  },
+  "frost.high_radiative": {
+    en: "Radiative frost likely on clear, calm nights even though air stays above {killTemp}°C",
+    hi: "हवा {killTemp}°C से ऊपर रहने पर भी साफ़, शांत रातों में विकिरण पाला संभव",
+    mr: "हवा {killTemp}°C पेक्षा जास्त राहिली तरी निरभ्र, शांत रात्रींमध्ये प्रारण दंव संभव",
+    pa: "ਹਵਾ {killTemp}°C ਤੋਂ ਉੱਪਰ ਰਹਿਣ ਦੇ ਬਾਵਜੂਦ ਸਾਫ਼, ਸ਼ਾਂਤ ਰਾਤਾਂ ਵਿੱਚ ਵਿਕਿਰਣ ਕੋਰਾ ਸੰਭਵ",
+    te: "గాలి {killTemp}°C పైన ఉన్నా నిర్మలమైన, గాలి లేని రాత్రుల్లో వికిరణ మంచు అవకాశం",
+    ta: "காற்று {killTemp}°C க்கு மேல் இருந்தாலும் தெளிவான, அமைதியான இரவுகளில் கதிர்வீச்சு உறைபனி வாய்ப்பு"
+  },
+  "frost.high": {
+    en: "Hard frost likely - canopy at or below the {killTemp}°C damage threshold for {crop}",
+    hi: "कड़ा पाला संभव - फसल की ऊपरी सतह {crop} की {killTemp}°C क्षति सीमा पर या उससे नीचे",
+    mr: "कडक दंव संभव - पिकाचा वरचा थर {killTemp}°C नुकसान मर्यादेवर किंवा त्याखाली ({crop})",
+    pa: "ਸਖ਼ਤ ਕੋਰਾ ਸੰਭਵ - ਫ਼ਸਲ ਦੀ ਉੱਪਰਲੀ ਸਤ੍ਹਾ {crop} ਦੀ {killTemp}°C ਨੁਕਸਾਨ ਸੀਮਾ 'ਤੇ ਜਾਂ ਹੇਠਾਂ",
+    te: "గట్టి మంచు అవకాశం - పంట పైభాగం {crop} కి {killTemp}°C నష్ట పరిమితి వద్ద లేదా దిగువన",
+    ta: "கடும் உறைபனி வாய்ப்பு - பயிர் மேற்பரப்பு {killTemp}°C சேத வரம்பில் அல்லது அதற்குக் கீழே ({crop})"
+  },
+  "frost.moderate": {
+    en: "Light frost possible - monitor closely",
+    hi: "हल्का पाला संभव - ध्यान से निगरानी करें",
+    mr: "हलके दंव संभव - बारकाईने लक्ष ठेवा",
+    pa: "ਹਲਕਾ ਕੋਰਾ ਸੰਭਵ - ਧਿਆਨ ਨਾਲ ਨਿਗਰਾਨੀ ਕਰੋ",
+    te: "తేలికపాటి మంచు అవకాశం - జాగ్రత్తగా గమనించండి",
+    ta: "லேசான உறைபனி வாய்ப்பு - கவனமாகக் கண்காணிக்கவும்"
+  },
+  "frost.low": {
+    en: "Cool temperatures ahead - minimal frost risk",
+    hi: "आगे ठंडा मौसम - पाले का जोखिम बहुत कम",
+    mr: "पुढे थंड हवामान - दंवाचा धोका अत्यल्प",
+    pa: "ਅੱਗੇ ਠੰਢਾ ਮੌਸਮ - ਕੋਰੇ ਦਾ ਖ਼ਤਰਾ ਬਹੁਤ ਘੱਟ",
+    te: "రాబోయే రోజుల్లో చల్లని వాతావరణం - మంచు ప్రమాదం చాలా తక్కువ",
+    ta: "வரும் நாட்களில் குளிர்ந்த வெப்பநிலை - உறைபனி அபாயம் மிகக் குறைவு"
+  },
+  "frost.none": {
+    en: "No frost risk detected",
+    hi: "पाले का कोई जोखिम नहीं",
+    mr: "दंवाचा धोका नाही",
+    pa: "ਕੋਰੇ ਦਾ ਕੋਈ ਖ਼ਤਰਾ ਨਹੀਂ",
+    te: "మంచు ప్రమాదం లేదు",
+    ta: "உறைபனி அபாயம் இல்லை"
+  },
+  "frost.action.critical": {
+    en: "Cover all sensitive crops, use frost protection methods, move potted plants indoors",
+    hi: "सभी संवेदनशील फसलें ढकें, पाले से बचाव के उपाय अपनाएँ, गमलों के पौधे अंदर रखें",
+    mr: "सर्व संवेदनशील पिके झाका, दंवापासून संरक्षणाचे उपाय करा, कुंड्यांतील रोपे आत ठेवा",
+    pa: "ਸਾਰੀਆਂ ਨਾਜ਼ੁਕ ਫ਼ਸਲਾਂ ਢੱਕੋ, ਕੋਰੇ ਤੋਂ ਬਚਾਅ ਦੇ ਉਪਾਅ ਕਰੋ, ਗਮਲਿਆਂ ਦੇ ਪੌਦੇ ਅੰਦਰ ਰੱਖੋ",
+    te: "సున్నితమైన పంటలన్నిటినీ కప్పండి, మంచు రక్షణ పద్ధతులు పాటించండి, కుండీ మొక్కలను లోపలికి తరలించండి",
+    ta: "உணர்திறன் மிக்க அனைத்து பயிர்களையும் மூடவும், உறைபனி பாதுகாப்பு முறைகளைப் பயன்படுத்தவும், தொட்டிச் செடிகளை உள்ளே வைக்கவும்"
+  },
+  "frost.action.high": {
+    en: "Cover young plants, irrigate before the frost window, harvest sensitive crops",
+    hi: "छोटे पौधे ढकें, पाले से पहले सिंचाई करें, संवेदनशील फसलें काट लें",
+    mr: "लहान रोपे झाका, दंवापूर्वी पाणी द्या, संवेदनशील पिकांची काढणी करा",
+    pa: "ਛੋਟੇ ਪੌਦੇ ਢੱਕੋ, ਕੋਰੇ ਤੋਂ ਪਹਿਲਾਂ ਸਿੰਚਾਈ ਕਰੋ, ਨਾਜ਼ੁਕ ਫ਼ਸਲਾਂ ਦੀ ਕਟਾਈ ਕਰੋ",
+    te: "లేత మొక్కలను కప్పండి, మంచుకు ముందు నీరు పెట్టండి, సున్నితమైన పంటలను కోయండి",
+    ta: "இளம் செடிகளை மூடவும், உறைபனிக்கு முன் நீர் பாய்ச்சவும், உணர்திறன் மிக்க பயிர்களை அறுவடை செய்யவும்"
+  },
+  "frost.action.moderate": {
+    en: "Prepare frost protection materials, monitor weather updates",
+    hi: "पाले से बचाव का सामान तैयार रखें, मौसम की जानकारी देखते रहें",
+    mr: "दंव संरक्षणाचे साहित्य तयार ठेवा, हवामानाची माहिती पाहत राहा",
+    pa: "ਕੋਰੇ ਤੋਂ ਬਚਾਅ ਦਾ ਸਮਾਨ ਤਿਆਰ ਰੱਖੋ, ਮੌਸਮ ਦੀ ਜਾਣਕਾਰੀ ਵੇਖਦੇ ਰਹੋ",
+    te: "మంచు రక్షణ సామగ్రి సిద్ధం చేయండి, వాతావరణ సమాచారం గమనిస్తూ ఉండండి",
+    ta: "உறைபனி பாதுகாப்புப் பொருட்களைத் தயார் செய்யவும், வானிலை தகவல்களைக் கண்காணிக்கவும்"
+  },
+  "frost.action.low": {
+    en: "Normal operations, keep frost protection ready",
+    hi: "सामान्य काम जारी रखें, पाले से बचाव तैयार रखें",
+    mr: "नेहमीची कामे सुरू ठेवा, दंव संरक्षण तयार ठेवा",
+    pa: "ਆਮ ਕੰਮ ਜਾਰੀ ਰੱਖੋ, ਕੋਰੇ ਤੋਂ ਬਚਾਅ ਤਿਆਰ ਰੱਖੋ",
+    te: "సాధారణ పనులు కొనసాగించండి, మంచు రక్షణ సిద్ధంగా ఉంచండి",
+    ta: "வழக்கமான பணிகளைத் தொடரவும், உறைபனி பாதுகாப்பைத் தயாராக வைக்கவும்"
+  },
+  "frost.action.none": {
+    en: "Continue normal farming activities",
+    hi: "सामान्य खेती के काम जारी रखें",
+    mr: "नेहमीची शेतीची कामे सुरू ठेवा",
+    pa: "ਆਮ ਖੇਤੀ ਦੇ ਕੰਮ ਜਾਰੀ ਰੱਖੋ",
+    te: "సాధారణ వ్యవసాయ పనులు కొనసాగించండి",
+    ta: "வழக்கமான விவசாயப் பணிகளைத் தொடரவும்"
+  },
+  "frost.timeframe.period": {
+    en: "From {start} to {end}",
+    hi: "{start} से {end} तक",
+    mr: "{start} पासून {end} पर्यंत",
+    pa: "{start} ਤੋਂ {end} ਤੱਕ",
+    te: "{start} నుండి {end} వరకు",
+    ta: "{start} முதல் {end} வரை"
+  },
+  "frost.timeframe.coldest": {
+    en: "Coldest around {time}",
+    hi: "सबसे ठंडा समय लगभग {time}",
+    mr: "सर्वात थंड वेळ सुमारे {time}",
+    pa: "ਸਭ ਤੋਂ ਠੰਢਾ ਸਮਾਂ ਲਗਭਗ {time}",
+    te: "అత్యంత చల్లని సమయం సుమారు {time}",
+    ta: "மிகக் குளிரான நேரம் சுமார் {time}"
+  },
+  "frost.timeframe.default": { en: "Next 5 days", hi: "अगले 5 दिन", mr: "पुढील 5 दिवस", pa: "ਅਗਲੇ 5 ਦਿਨ", te: "రాబోయే 5 రోజులు", ta: "அடுத்த 5 நாட்கள்" },
+  "frost.stage_sensitive": {
+    en: "({stage} is frost sensitive)",
+    hi: "({stage} पाले के प्रति संवेदनशील है)",
+    mr: "({stage} दंवासाठी संवेदनशील आहे)",
+    pa: "({stage} ਕੋਰੇ ਪ੍ਰਤੀ ਨਾਜ਼ੁਕ ਹੈ)",
+    te: "({stage} మంచుకు సున్నితమైనది)",
+    ta: "({stage} உறைபனிக்கு உணர்திறன் கொண்டது)"
+  },
+
+  "irrigation.skip_rain": {
+    en: "Skip irrigation - adequate rainfall expected",
+    hi: "सिंचाई न करें - पर्याप्त बारिश की संभावना",
+    mr: "पाणी देऊ नका - पुरेसा पाऊस अपेक्षित",
+    pa: "ਸਿੰਚਾਈ ਨਾ ਕਰੋ - ਕਾਫ਼ੀ ਮੀਂਹ ਦੀ ਸੰਭਾਵਨਾ",
+    te: "నీరు పెట్టవద్దు - తగినంత వర్షం అవకాశం",
+    ta: "நீர் பாய்ச்ச வேண்டாம் - போதுமான மழை எதிர்பார்க்கப்படுகிறது"
+  },
+  "irrigation.immediate_heat": {
+    en: "Immediate irrigation required - extreme heat stress conditions",
+    hi: "तुरंत सिंचाई ज़रूरी - अत्यधिक गर्मी का तनाव",
+    mr: "त्वरित पाणी देणे आवश्यक - अति उष्णतेचा ताण",
+    pa: "ਤੁਰੰਤ ਸਿੰਚਾਈ ਲੋੜੀਂਦੀ - ਬਹੁਤ ਜ਼ਿਆਦਾ ਗਰਮੀ ਦਾ ਦਬਾਅ",
+    te: "వెంటనే నీరు పెట్టాలి - తీవ్రమైన వేడి ఒత్తిడి",
+    ta: "உடனடியாக நீர் பாய்ச்ச வேண்டும் - கடும் வெப்ப அழுத்தம்"
+  },
+  "irrigation.within_24h_stress": {
+    en: "Irrigation needed within 24 hours - high stress conditions",
+    hi: "24 घंटे में सिंचाई ज़रूरी - अधिक तनाव की स्थिति",
+    mr: "24 तासांत पाणी देणे आवश्यक - जास्त ताणाची स्थिती",
+    pa: "24 ਘੰਟਿਆਂ ਵਿੱਚ ਸਿੰਚਾਈ ਲੋੜੀਂਦੀ - ਜ਼ਿਆਦਾ ਦਬਾਅ ਦੀ ਸਥਿਤੀ",
+    te: "24 గంటల్లో నీరు పెట్టాలి - అధిక ఒత్తిడి పరిస్థితులు",
+    ta: "24 மணி நேரத்தில் நீர் பாய்ச்ச வேண்டும் - அதிக அழுத்த நிலை"
+  },
+  "irrigation.within_48h_stress": {
+    en: "Plan irrigation within 48 hours - moderate stress detected",
+    hi: "48 घंटे में सिंचाई की योजना बनाएँ - मध्यम तनाव",
+    mr: "48 तासांत पाणी देण्याचे नियोजन करा - मध्यम ताण",
+    pa: "48 ਘੰਟਿਆਂ ਵਿੱਚ ਸਿੰਚਾਈ ਦੀ ਯੋਜਨਾ ਬਣਾਓ - ਦਰਮਿਆਨਾ ਦਬਾਅ",
+    te: "48 గంటల్లో నీరు పెట్టేందుకు ప్రణాళిక చేయండి - మధ్యస్థ ఒత్తిడి",
+    ta: "48 மணி நேரத்தில் நீர் பாய்ச்சத் திட்டமிடவும் - மிதமான அழுத்தம்"
+  },
+  "irrigation.monitor_weather": {
+    en: "Continue monitoring - current conditions adequate",
+    hi: "निगरानी जारी रखें - अभी स्थिति ठीक है",
+    mr: "लक्ष ठेवत राहा - सध्याची स्थिती योग्य आहे",
+    pa: "ਨਿਗਰਾਨੀ ਜਾਰੀ ਰੱਖੋ - ਮੌਜੂਦਾ ਹਾਲਾਤ ਠੀਕ ਹਨ",
+    te: "గమనిస్తూ ఉండండి - ప్రస్తుత పరిస్థితులు సరిపోతాయి",
+    ta: "கண்காணிப்பைத் தொடரவும் - தற்போதைய நிலை போதுமானது"
+  },
+  "irrigation.immediate": {
+    en: "Irrigate now - root zone is below the allowed depletion",
+    hi: "अभी सिंचाई करें - जड़ क्षेत्र में नमी अनुमत सीमा से कम",
+    mr: "आत्ता पाणी द्या - मुळांच्या भागातील ओलावा मर्यादेपेक्षा कमी",
+    pa: "ਹੁਣੇ ਸਿੰਚਾਈ ਕਰੋ - ਜੜ੍ਹ ਖੇਤਰ ਵਿੱਚ ਨਮੀ ਮਨਜ਼ੂਰ ਸੀਮਾ ਤੋਂ ਘੱਟ",
+    te: "ఇప్పుడే నీరు పెట్టండి - వేరు మండలంలో తేమ అనుమతించిన పరిమితి కంటే తక్కువ",
+    ta: "இப்போதே நீர் பாய்ச்சவும் - வேர் மண்டல ஈரம் அனுமதிக்கப்பட்ட அளவை விடக் குறைவு"
+  },
+  "irrigation.skip_balance": {
+    en: "Skip irrigation - forecast rain will refill the root zone",
+    hi: "सिंचाई न करें - अनुमानित बारिश जड़ क्षेत्र को भर देगी",
+    mr: "पाणी देऊ नका - अपेक्षित पाऊस मुळांचा भाग भरून काढेल",
+    pa: "ਸਿੰਚਾਈ ਨਾ ਕਰੋ - ਅਨੁਮਾਨਿਤ ਮੀਂਹ ਜੜ੍ਹ ਖੇਤਰ ਭਰ ਦੇਵੇਗਾ",
+    te: "నీరు పెట్టవద్దు - అంచనా వర్షం వేరు మండలాన్ని నింపుతుంది",
+    ta: "நீர் பாய்ச்ச வேண்டாம் - எதிர்பார்க்கும் மழை வேர் மண்டலத்தை நிரப்பும்"
+  },
+  "irrigation.within_24h": {
+    en: "Irrigation needed within 24 hours",
+    hi: "24 घंटे में सिंचाई ज़रूरी",
+    mr: "24 तासांत पाणी देणे आवश्यक",
+    pa: "24 ਘੰਟਿਆਂ ਵਿੱਚ ਸਿੰਚਾਈ ਲੋੜੀਂਦੀ",
+    te: "24 గంటల్లో నీరు పెట్టాలి",
+    ta: "24 மணி நேரத்தில் நீர் பாய்ச்ச வேண்டும்"
+  },
+  "irrigation.within_48h": {
+    en: "Plan irrigation within 48 hours",
+    hi: "48 घंटे में सिंचाई की योजना बनाएँ",
+    mr: "48 तासांत पाणी देण्याचे नियोजन करा",
+    pa: "48 ਘੰਟਿਆਂ ਵਿੱਚ ਸਿੰਚਾਈ ਦੀ ਯੋਜਨਾ ਬਣਾਓ",
+    te: "48 గంటల్లో నీరు పెట్టేందుకు ప్రణాళిక చేయండి",
+    ta: "48 மணி நேரத்தில் நீர் பாய்ச்சத் திட்டமிடவும்"
+  },
+  "irrigation.monitor": {
+    en: "Continue monitoring - root zone moisture adequate",
+    hi: "निगरानी जारी रखें - जड़ क्षेत्र में नमी पर्याप्त",
+    mr: "लक्ष ठेवत राहा - मुळांच्या भागात पुरेसा ओलावा",
+    pa: "ਨਿਗਰਾਨੀ ਜਾਰੀ ਰੱਖੋ - ਜੜ੍ਹ ਖੇਤਰ ਵਿੱਚ ਨਮੀ ਕਾਫ਼ੀ",
+    te: "గమనిస్తూ ఉండండి - వేరు మండలంలో తేమ సరిపోతుంది",
+    ta: "கண்காணிப்பைத் தொடரவும் - வேர் மண்டல ஈரம் போதுமானது"
+  },
+  "irrigation.already_applied": {
+    en: "Irrigation already applied - check soil moisture before watering again",
+    hi: "सिंचाई हो चुकी है - दोबारा पानी देने से पहले मिट्टी की नमी जाँचें",
+    mr: "पाणी आधीच दिले आहे - पुन्हा देण्यापूर्वी जमिनीतील ओलावा तपासा",
+    pa: "ਸਿੰਚਾਈ ਹੋ ਚੁੱਕੀ ਹੈ - ਮੁੜ ਪਾਣੀ ਦੇਣ ਤੋਂ ਪਹਿਲਾਂ ਮਿੱਟੀ ਦੀ ਨਮੀ ਜਾਂਚੋ",
+    te: "ఇప్పటికే నీరు పెట్టారు - మళ్లీ పెట్టే ముందు నేల తేమ చూడండి",
+    ta: "ஏற்கனவே நீர் பாய்ச்சப்பட்டது - மீண்டும் பாய்ச்சும் முன் மண் ஈரத்தைச் சரிபார்க்கவும்"
+  },
+  "irrigation.stage_critical": {
+    en: "- {stage} is a critical irrigation stage",
+    hi: "- {stage} सिंचाई की महत्वपूर्ण अवस्था है",
+    mr: "- {stage} ही पाणी देण्याची महत्त्वाची अवस्था आहे",
+    pa: "- {stage} ਸਿੰਚਾਈ ਦੀ ਅਹਿਮ ਅਵਸਥਾ ਹੈ",
+    te: "- {stage} నీటి తడికి కీలక దశ",
+    ta: "- {stage} நீர்ப்பாசனத்திற்கு முக்கியமான நிலை"
+  },
+  "irrigation.reason.rain_forecast": {
+    en: "{rain}mm rain forecast in next 48 hours",
+    hi: "अगले 48 घंटों में {rain} मिमी बारिश का पूर्वानुमान",
+    mr: "पुढील 48 तासांत {rain} मिमी पावसाचा अंदाज",
+    pa: "ਅਗਲੇ 48 ਘੰਟਿਆਂ ਵਿੱਚ {rain} ਮਿ.ਮੀ. ਮੀਂਹ ਦੀ ਭਵਿੱਖਬਾਣੀ",
+    te: "రాబోయే 48 గంటల్లో {rain} మి.మీ వర్షం అంచనా",
+    ta: "அடுத்த 48 மணி நேரத்தில் {rain} மி.மீ மழை முன்னறிவிப்பு"
+  },
+  "irrigation.reason.very_high_temp": {
+    en: "Very high temperature ({temp}°C) with low humidity ({humidity}%)",
+    hi: "बहुत अधिक तापमान ({temp}°C) और कम नमी ({humidity}%)",
+    mr: "खूप जास्त तापमान ({temp}°C) आणि कमी आर्द्रता ({humidity}%)",
+    pa: "ਬਹੁਤ ਜ਼ਿਆਦਾ ਤਾਪਮਾਨ ({temp}°C) ਅਤੇ ਘੱਟ ਨਮੀ ({humidity}%)",
+    te: "చాలా ఎక్కువ ఉష్ణోగ్రత ({temp}°C), తక్కువ తేమ ({humidity}%)",
+    ta: "மிக அதிக வெப்பநிலை ({temp}°C), குறைந்த ஈரப்பதம் ({humidity}%)"
+  },
+  "irrigation.reason.high_temp": {
+    en: "High temperature ({temp}°C) with low humidity ({humidity}%)",
+    hi: "अधिक तापमान ({temp}°C) और कम नमी ({humidity}%)",
+    mr: "जास्त तापमान ({temp}°C) आणि कमी आर्द्रता ({humidity}%)",
+    pa: "ਜ਼ਿਆਦਾ ਤਾਪਮਾਨ ({temp}°C) ਅਤੇ ਘੱਟ ਨਮੀ ({humidity}%)",
+    te: "అధిక ఉష్ణోగ్రత ({temp}°C), తక్కువ తేమ ({humidity}%)",
+    ta: "அதிக வெப்பநிலை ({temp}°C), குறைந்த ஈரப்பதம் ({humidity}%)"
+  },
+  "irrigation.reason.moderate_temp": {
+    en: "Moderate temperature ({temp}°C) with moderate humidity ({humidity}%)",
+    hi: "मध्यम तापमान ({temp}°C) और मध्यम नमी ({humidity}%)",
+    mr: "मध्यम तापमान ({temp}°C) आणि मध्यम आर्द्रता ({humidity}%)",
+    pa: "ਦਰਮਿਆਨਾ ਤਾਪਮਾਨ ({temp}°C) ਅਤੇ ਦਰਮਿਆਨੀ ਨਮੀ ({humidity}%)",
+    te: "మధ్యస్థ ఉష్ణోగ్రత ({temp}°C), మధ్యస్థ తేమ ({humidity}%)",
+    ta: "மிதமான வெப்பநிலை ({temp}°C), மிதமான ஈரப்பதம் ({humidity}%)"
+  },
+  "irrigation.reason.acceptable": {
+    en: "Acceptable temperature ({temp}°C) and humidity ({humidity}%)",
+    hi: "तापमान ({temp}°C) और नमी ({humidity}%) ठीक",
+    mr: "तापमान ({temp}°C) आणि आर्द्रता ({humidity}%) योग्य",
+    pa: "ਤਾਪਮਾਨ ({temp}°C) ਅਤੇ ਨਮੀ ({humidity}%) ਠੀਕ",
+    te: "ఉష్ణోగ్రత ({temp}°C), తేమ ({humidity}%) సరిపోతాయి",
+    ta: "வெப்பநிலை ({temp}°C), ஈரப்பதம் ({humidity}%) ஏற்றவை"
+  },
+  "irrigation.reason.deficit_exceeds": {
+    en: "Soil water deficit {deficit}mm exceeds the {raw}mm crops can draw without stress",
+    hi: "मिट्टी में पानी की कमी {deficit} मिमी, जो बिना तनाव उपलब्ध {raw} मिमी से अधिक है",
+    mr: "जमिनीतील पाण्याची तूट {deficit} मिमी, ताणाशिवाय उपलब्ध {raw} मिमी पेक्षा जास्त",
+    pa: "ਮਿੱਟੀ ਵਿੱਚ ਪਾਣੀ ਦੀ ਘਾਟ {deficit} ਮਿ.ਮੀ., ਜੋ ਬਿਨਾਂ ਦਬਾਅ ਮਿਲਣ ਵਾਲੇ {raw} ਮਿ.ਮੀ. ਤੋਂ ਵੱਧ ਹੈ",
+    te: "నేలలో నీటి లోటు {deficit} మి.మీ, ఒత్తిడి లేకుండా పంట తీసుకోగల {raw} మి.మీ కంటే ఎక్కువ",
+    ta: "மண் நீர் பற்றாக்குறை {deficit} மி.மீ, அழுத்தமின்றி பயிர் எடுக்கக்கூடிய {raw} மி.மீ ஐ விட அதிகம்"
+  },
+  "irrigation.reason.rain_refills": {
+    en: "{rain}mm effective rain expected in the next 48 hours against a {deficit}mm deficit",
+    hi: "अगले 48 घंटों में {rain} मिमी प्रभावी बारिश अपेक्षित, कमी {deficit} मिमी",
+    mr: "पुढील 48 तासांत {rain} मिमी प्रभावी पाऊस अपेक्षित, तूट {deficit} मिमी",
+    pa: "ਅਗਲੇ 48 ਘੰਟਿਆਂ ਵਿੱਚ {rain} ਮਿ.ਮੀ. ਪ੍ਰਭਾਵੀ ਮੀਂਹ ਦੀ ਉਮੀਦ, ਘਾਟ {deficit} ਮਿ.ਮੀ.",
+    te: "రాబోయే 48 గంటల్లో {rain} మి.మీ ప్రభావవంతమైన వర్షం అంచనా, లోటు {deficit} మి.మీ",
+    ta: "அடுத்த 48 மணி நேரத்தில் {rain} மி.மீ பயனுள்ள மழை எதிர்பார்ப்பு, பற்றாக்குறை {deficit} மி.மீ"
+  },
+  "irrigation.reason.threshold_on": {
+    en: "Deficit {deficit}mm will reach the {raw}mm allowed depletion on {date}",
+    hi: "{deficit} मिमी की कमी {date} को {raw} मिमी की अनुमत सीमा तक पहुँचेगी",
+    mr: "{deficit} मिमी तूट {date} रोजी {raw} मिमी मर्यादेपर्यंत पोहोचेल",
+    pa: "{deficit} ਮਿ.ਮੀ. ਘਾਟ {date} ਨੂੰ {raw} ਮਿ.ਮੀ. ਮਨਜ਼ੂਰ ਸੀਮਾ ਤੱਕ ਪਹੁੰਚੇਗੀ",
+    te: "{deficit} మి.మీ లోటు {date}న {raw} మి.మీ అనుమతించిన పరిమితికి చేరుతుంది",
+    ta: "{deficit} மி.மீ பற்றாக்குறை {date} அன்று {raw} மி.மீ அனுமதி வரம்பை எட்டும்"
+  },
+  "irrigation.reason.threshold_expected": {
+    en: "Deficit {deficit}mm of {raw}mm allowed; threshold expected on {date}",
+    hi: "{raw} मिमी में से {deficit} मिमी की कमी; सीमा {date} को संभावित",
+    mr: "{raw} मिमी पैकी {deficit} मिमी तूट; मर्यादा {date} रोजी अपेक्षित",
+    pa: "{raw} ਮਿ.ਮੀ. ਵਿੱਚੋਂ {deficit} ਮਿ.ਮੀ. ਘਾਟ; ਸੀਮਾ {date} ਨੂੰ ਸੰਭਾਵਿਤ",
+    te: "అనుమతించిన {raw} మి.మీలో {deficit} మి.మీ లోటు; పరిమితి {date}న అంచనా",
+    ta: "அனுமதிக்கப்பட்ட {raw} மி.மீ இல் {deficit} மி.மீ பற்றாக்குறை; வரம்பு {date} அன்று எதிர்பார்ப்பு"
+  },
+  "irrigation.reason.threshold_beyond": {
+    en: "Deficit {deficit}mm of {raw}mm allowed; threshold not reached within the forecast",
+    hi: "{raw} मिमी में से {deficit} मिमी की कमी; पूर्वानुमान अवधि में सीमा तक नहीं पहुँचेगी",
+    mr: "{raw} मिमी पैकी {deficit} मिमी तूट; अंदाज कालावधीत मर्यादा गाठली जाणार नाही",
+    pa: "{raw} ਮਿ.ਮੀ. ਵਿੱਚੋਂ {deficit} ਮਿ.ਮੀ. ਘਾਟ; ਭਵਿੱਖਬਾਣੀ ਦੌਰਾਨ ਸੀਮਾ ਤੱਕ ਨਹੀਂ ਪਹੁੰਚੇਗੀ",
+    te: "అనుమతించిన {raw} మి.మీలో {deficit} మి.మీ లోటు; అంచనా కాలంలో పరిమితి చేరదు",
+    ta: "அனுமதிக்கப்பட்ட {raw} மி.மீ இல் {deficit} மி.மீ பற்றாக்குறை; முன்னறிவிப்புக் காலத்தில் வரம்பை எட்டாது"
+  },
+  "irrigation.reason.applied_amount": {
+    en: "{amount}mm applied on {date};",
+    hi: "{date} को {amount} मिमी पानी दिया गया;",
+    mr: "{date} रोजी {amount} मिमी पाणी दिले;",
+    pa: "{date} ਨੂੰ {amount} ਮਿ.ਮੀ. ਪਾਣੀ ਦਿੱਤਾ ਗਿਆ;",
+    te: "{date}న {amount} మి.మీ నీరు పెట్టారు;",
+    ta: "{date} அன்று {amount} மி.மீ நீர் பாய்ச்சப்பட்டது;"
+  },
+  "irrigation.reason.applied": {
+    en: "Irrigated on {date};",
+    hi: "{date} को सिंचाई हुई;",
+    mr: "{date} रोजी पाणी दिले;",
+    pa: "{date} ਨੂੰ ਸਿੰਚਾਈ ਹੋਈ;",
+    te: "{date}న నీరు పెట్టారు;",
+    ta: "{date} அன்று நீர் பாய்ச்சப்பட்டது;"
+  },
+  "irrigation.water.deep": {
+    en: "Deep watering recommended - 25-30mm equivalent",
+    hi: "गहरी सिंचाई करें - लगभग 25-30 मिमी",
+    mr: "खोलवर पाणी द्या - सुमारे 25-30 मिमी",
+    pa: "ਡੂੰਘੀ ਸਿੰਚਾਈ ਕਰੋ - ਲਗਭਗ 25-30 ਮਿ.ਮੀ.",
+    te: "లోతుగా నీరు పెట్టండి - సుమారు 25-30 మి.మీ",
+    ta: "ஆழமாக நீர் பாய்ச்சவும் - சுமார் 25-30 மி.மீ"
+  },
+  "irrigation.water.regular": {
+    en: "Regular watering - 15-20mm equivalent",
+    hi: "सामान्य सिंचाई - लगभग 15-20 मिमी",
+    mr: "नेहमीचे पाणी - सुमारे 15-20 मिमी",
+    pa: "ਆਮ ਸਿੰਚਾਈ - ਲਗਭਗ 15-20 ਮਿ.ਮੀ.",
+    te: "సాధారణ నీటి తడి - సుమారు 15-20 మి.మీ",
+    ta: "வழக்கமான நீர்ப்பாசனம் - சுமார் 15-20 மி.மீ"
+  },
+  "irrigation.water.light": {
+    en: "Light watering - 10-15mm equivalent",
+    hi: "हल्की सिंचाई - लगभग 10-15 मिमी",
+    mr: "हलके पाणी - सुमारे 10-15 मिमी",
+    pa: "ਹਲਕੀ ਸਿੰਚਾਈ - ਲਗਭਗ 10-15 ਮਿ.ਮੀ.",
+    te: "తేలికపాటి నీటి తడి - సుమారు 10-15 మి.మీ",
+    ta: "லேசான நீர்ப்பாசனம் - சுமார் 10-15 மி.மீ"
+  },
+  "irrigation.water.apply": {
+    en: "Apply {mm}mm (net) to refill the root zone",
+    hi: "जड़ क्षेत्र भरने के लिए {mm} मिमी (शुद्ध) पानी दें",
+    mr: "मुळांचा भाग भरण्यासाठी {mm} मिमी (निव्वळ) पाणी द्या",
+    pa: "ਜੜ੍ਹ ਖੇਤਰ ਭਰਨ ਲਈ {mm} ਮਿ.ਮੀ. (ਸ਼ੁੱਧ) ਪਾਣੀ ਦਿਓ",
+    te: "వేరు మండలాన్ని నింపేందుకు {mm} మి.మీ (నికర) నీరు పెట్టండి",
+    ta: "வேர் மண்டலத்தை நிரப்ப {mm} மி.மீ (நிகர) நீர் பாய்ச்சவும்"
+  },
+  "irrigation.water.apply_gross": {
+    en: "Apply {mm}mm (net) to refill the root zone - about {gross}mm with {system} irrigation",
+    hi: "जड़ क्षेत्र भरने के लिए {mm} मिमी (शुद्ध) पानी दें - {system} सिंचाई से लगभग {gross} मिमी",
+    mr: "मुळांचा भाग भरण्यासाठी {mm} मिमी (निव्वळ) पाणी द्या - {system} सिंचनाने सुमारे {gross} मिमी",
+    pa: "ਜੜ੍ਹ ਖੇਤਰ ਭਰਨ ਲਈ {mm} ਮਿ.ਮੀ. (ਸ਼ੁੱਧ) ਪਾਣੀ ਦਿਓ - {system} ਸਿੰਚਾਈ ਨਾਲ ਲਗਭਗ {gross} ਮਿ.ਮੀ.",
+    te: "వేరు మండలాన్ని నింపేందుకు {mm} మి.మీ (నికర) నీరు పెట్టండి - {system} సాగుతో సుమారు {gross} మి.మీ",
+    ta: "வேர் மண்டலத்தை நிரப்ப {mm} மி.மீ (நிகர) நீர் பாய்ச்சவும் - {system} பாசனத்தில் சுமார் {gross} மி.மீ"
+  },
+  "irrigation.system.drip": { en: "drip", hi: "ड्रिप", mr: "ठिबक", pa: "ਤੁਪਕਾ", te: "బిందు", ta: "சொட்டு" },
+  "irrigation.system.sprinkler": { en: "sprinkler", hi: "स्प्रिंकलर", mr: "तुषार", pa: "ਫੁਹਾਰਾ", te: "స్ప్రింక్లర్", ta: "தெளிப்பு" },
+  "irrigation.system.furrow": { en: "furrow", hi: "नाली", mr: "सरी", pa: "ਖਾਲ਼", te: "సాళ్ల", ta: "சால்" },
+  "irrigation.system.flood": { en: "flood", hi: "क्यारी", mr: "पाट", pa: "ਖੁੱਲ੍ਹੀ", te: "వరద", ta: "வெள்ள" },
+
+  "check.after_rain": {
+    en: "Check again after rainfall",
+    hi: "बारिश के बाद फिर जाँचें",
+    mr: "पावसानंतर पुन्हा तपासा",
+    pa: "ਮੀਂਹ ਤੋਂ ਬਾਅਦ ਮੁੜ ਜਾਂਚੋ",
+    te: "వర్షం తర్వాత మళ్లీ చూడండి",
+    ta: "மழைக்குப் பிறகு மீண்டும் சரிபார்க்கவும்"
+  },
+  "check.after_irrigating": {
+    en: "Re-check the day after irrigating",
+    hi: "सिंचाई के अगले दिन फिर जाँचें",
+    mr: "पाणी दिल्यानंतर दुसऱ्या दिवशी पुन्हा तपासा",
+    pa: "ਸਿੰਚਾਈ ਤੋਂ ਅਗਲੇ ਦਿਨ ਮੁੜ ਜਾਂਚੋ",
+    te: "నీరు పెట్టిన మరుసటి రోజు మళ్లీ చూడండి",
+    ta: "நீர் பாய்ச்சிய மறுநாள் மீண்டும் சரிபார்க்கவும்"
+  },
+  "check.every_6h": {
+    en: "Monitor every 6 hours",
+    hi: "हर 6 घंटे में निगरानी करें",
+    mr: "दर 6 तासांनी लक्ष ठेवा",
+    pa: "ਹਰ 6 ਘੰਟੇ ਨਿਗਰਾਨੀ ਕਰੋ",
+    te: "ప్రతి 6 గంటలకు గమనించండి",
+    ta: "ஒவ்வொரு 6 மணி நேரமும் கண்காணிக்கவும்"
+  },
+  "check.in_12h": {
+    en: "Check again in 12 hours",
+    hi: "12 घंटे बाद फिर जाँचें",
+    mr: "12 तासांनी पुन्हा तपासा",
+    pa: "12 ਘੰਟਿਆਂ ਬਾਅਦ ਮੁੜ ਜਾਂਚੋ",
+    te: "12 గంటల తర్వాత మళ్లీ చూడండి",
+    ta: "12 மணி நேரத்தில் மீண்டும் சரிபார்க்கவும்"
+  },
+  "check.in_24h": {
+    en: "Check again in 24 hours",
+    hi: "24 घंटे बाद फिर जाँचें",
+    mr: "24 तासांनी पुन्हा तपासा",
+    pa: "24 ਘੰਟਿਆਂ ਬਾਅਦ ਮੁੜ ਜਾਂਚੋ",
+    te: "24 గంటల తర్వాత మళ్లీ చూడండి",
+    ta: "24 மணி நேரத்தில் மீண்டும் சரிபார்க்கவும்"
+  },
+
+  "spray.wind": {
+    en: "Spraying not recommended - wind too strong",
+    hi: "छिड़काव न करें - हवा बहुत तेज़",
+    mr: "फवारणी करू नका - वारा खूप जोरात",
+    pa: "ਛਿੜਕਾਅ ਨਾ ਕਰੋ - ਹਵਾ ਬਹੁਤ ਤੇਜ਼",
+    te: "పిచికారీ చేయవద్దు - గాలి చాలా బలంగా ఉంది",
+    ta: "தெளிக்க வேண்டாம் - காற்று மிக வலுவாக உள்ளது"
+  },
+  "spray.hot": {
+    en: "Spraying not recommended - temperature too high",
+    hi: "छिड़काव न करें - तापमान बहुत अधिक",
+    mr: "फवारणी करू नका - तापमान खूप जास्त",
+    pa: "ਛਿੜਕਾਅ ਨਾ ਕਰੋ - ਤਾਪਮਾਨ ਬਹੁਤ ਜ਼ਿਆਦਾ",
+    te: "పిచికారీ చేయవద్దు - ఉష్ణోగ్రత చాలా ఎక్కువ",
+    ta: "தெளிக்க வேண்டாம் - வெப்பநிலை மிக அதிகம்"
+  },
+  "spray.delta_t_high": {
+    en: "Spraying not recommended - Delta T too high",
+    hi: "छिड़काव न करें - डेल्टा T बहुत अधिक",
+    mr: "फवारणी करू नका - डेल्टा T खूप जास्त",
+    pa: "ਛਿੜਕਾਅ ਨਾ ਕਰੋ - ਡੈਲਟਾ T ਬਹੁਤ ਜ਼ਿਆਦਾ",
+    te: "పిచికారీ చేయవద్దు - డెల్టా T చాలా ఎక్కువ",
+    ta: "தெளிக்க வேண்டாம் - டெல்டா T மிக அதிகம்"
+  },
+  "spray.inversion": {
+    en: "Spraying not recommended - surface temperature inversion likely",
+    hi: "छिड़काव न करें - सतह पर तापमान व्युत्क्रमण की संभावना",
+    mr: "फवारणी करू नका - पृष्ठभागावर तापमान व्युत्क्रमणाची शक्यता",
+    pa: "ਛਿੜਕਾਅ ਨਾ ਕਰੋ - ਸਤ੍ਹਾ 'ਤੇ ਤਾਪਮਾਨ ਉਲਟਾਅ ਦੀ ਸੰਭਾਵਨਾ",
+    te: "పిచికారీ చేయవద్దు - ఉపరితల ఉష్ణోగ్రత విలోమం అవకాశం",
+    ta: "தெளிக்க வேண்டாம் - மேற்பரப்பு வெப்பநிலை தலைகீழ் மாற்றம் வாய்ப்பு"
+  },
+  "spray.delta_t_low": {
+    en: "Spraying not recommended - Delta T too low",
+    hi: "छिड़काव न करें - डेल्टा T बहुत कम",
+    mr: "फवारणी करू नका - डेल्टा T खूप कमी",
+    pa: "ਛਿੜਕਾਅ ਨਾ ਕਰੋ - ਡੈਲਟਾ T ਬਹੁਤ ਘੱਟ",
+    te: "పిచికారీ చేయవద్దు - డెల్టా T చాలా తక్కువ",
+    ta: "தெளிக்க வேண்டாம் - டெல்டா T மிகக் குறைவு"
+  },
+  "spray.marginal": {
+    en: "Spraying possible - use coarse droplets, Delta T is marginal",
+    hi: "छिड़काव संभव - मोटी बूँदें इस्तेमाल करें, डेल्टा T सीमा पर है",
+    mr: "फवारणी शक्य - जाड थेंब वापरा, डेल्टा T मर्यादेवर आहे",
+    pa: "ਛਿੜਕਾਅ ਸੰਭਵ - ਮੋਟੀਆਂ ਬੂੰਦਾਂ ਵਰਤੋ, ਡੈਲਟਾ T ਸੀਮਾ 'ਤੇ ਹੈ",
+    te: "పిచికారీ చేయవచ్చు - పెద్ద తుంపర్లు వాడండి, డెల్టా T సరిహద్దులో ఉంది",
+    ta: "தெளிக்கலாம் - பெரிய துளிகளைப் பயன்படுத்தவும், டெல்டா T எல்லையில் உள்ளது"
+  },
+  "spray.good": {
+    en: "Good spraying conditions available",
+    hi: "छिड़काव के लिए अच्छी स्थिति",
+    mr: "फवारणीसाठी चांगली स्थिती",
+    pa: "ਛਿੜਕਾਅ ਲਈ ਚੰਗੇ ਹਾਲਾਤ",
+    te: "పిచికారీకి అనుకూల పరిస్థితులు",
+    ta: "தெளிப்பதற்கு நல்ல சூழல்"
+  },
+  "spray.poor": {
+    en: "Poor spraying conditions - wait for better weather",
+    hi: "छिड़काव के लिए खराब स्थिति - बेहतर मौसम का इंतज़ार करें",
+    mr: "फवारणीसाठी प्रतिकूल स्थिती - चांगल्या हवामानाची वाट पाहा",
+    pa: "ਛਿੜਕਾਅ ਲਈ ਮਾੜੇ ਹਾਲਾਤ - ਵਧੀਆ ਮੌਸਮ ਦੀ ਉਡੀਕ ਕਰੋ",
+    te: "పిచికారీకి ప్రతికూల పరిస్థితులు - మంచి వాతావరణం కోసం వేచి ఉండండి",
+    ta: "தெளிப்பதற்கு மோசமான சூழல் - நல்ல வானிலைக்காகக் காத்திருக்கவும்"
+  },
+  "spray.reason.wind": {
+    en: "Current wind speed: {wind} km/h (safe limit: <{limit} km/h)",
+    hi: "अभी हवा की गति: {wind} किमी/घं (सुरक्षित सीमा: <{limit} किमी/घं)",
+    mr: "सध्याचा वाऱ्याचा वेग: {wind} किमी/तास (सुरक्षित मर्यादा: <{limit} किमी/तास)",
+    pa: "ਮੌਜੂਦਾ ਹਵਾ ਦੀ ਰਫ਼ਤਾਰ: {wind} ਕਿ.ਮੀ./ਘੰਟਾ (ਸੁਰੱਖਿਅਤ ਸੀਮਾ: <{limit} ਕਿ.ਮੀ./ਘੰਟਾ)",
+    te: "ప్రస్తుత గాలి వేగం: {wind} కి.మీ/గం (సురక్షిత పరిమితి: <{limit} కి.మీ/గం)",
+    ta: "தற்போதைய காற்றின் வேகம்: {wind} கி.மீ/மணி (பாதுகாப்பு வரம்பு: <{limit} கி.மீ/மணி)"
+  },
+  "spray.reason.hot": {
+    en: "Current temperature: {temp}°C (avoid spraying {product} above {limit}°C)",
+    hi: "अभी तापमान: {temp}°C ({limit}°C से ऊपर {product} का छिड़काव न करें)",
+    mr: "सध्याचे तापमान: {temp}°C ({limit}°C पेक्षा जास्त तापमानात {product} फवारू नका)",
+    pa: "ਮੌਜੂਦਾ ਤਾਪਮਾਨ: {temp}°C ({limit}°C ਤੋਂ ਉੱਪਰ {product} ਦਾ ਛਿੜਕਾਅ ਨਾ ਕਰੋ)",
+    te: "ప్రస్తుత ఉష్ణోగ్రత: {temp}°C ({limit}°C పైన {product} పిచికారీ చేయవద్దు)",
+    ta: "தற்போதைய வெப்பநிலை: {temp}°C ({limit}°C க்கு மேல் {product} தெளிக்க வேண்டாம்)"
+  },
+  "spray.reason.delta_t_high": {
+    en: "Delta T {deltaT}°C: droplets evaporate before reaching the target (limit 10°C)",
+    hi: "डेल्टा T {deltaT}°C: बूँदें लक्ष्य तक पहुँचने से पहले उड़ जाती हैं (सीमा 10°C)",
+    mr: "डेल्टा T {deltaT}°C: थेंब लक्ष्यापर्यंत पोहोचण्यापूर्वी बाष्पीभवन होते (मर्यादा 10°C)",
+    pa: "ਡੈਲਟਾ T {deltaT}°C: ਬੂੰਦਾਂ ਨਿਸ਼ਾਨੇ ਤੱਕ ਪਹੁੰਚਣ ਤੋਂ ਪਹਿਲਾਂ ਉੱਡ ਜਾਂਦੀਆਂ ਹਨ (ਸੀਮਾ 10°C)",
+    te: "డెల్టా T {deltaT}°C: తుంపర్లు లక్ష్యాన్ని చేరకముందే ఆవిరవుతాయి (పరిమితి 10°C)",
+    ta: "டெல்டா T {deltaT}°C: துளிகள் இலக்கை அடையும் முன் ஆவியாகின்றன (வரம்பு 10°C)"
+  },
+  "spray.reason.delta_t_low": {
+    en: "Delta T {deltaT}°C: fine droplets stay suspended and drift (minimum 2°C)",
+    hi: "डेल्टा T {deltaT}°C: महीन बूँदें हवा में रुककर बह जाती हैं (न्यूनतम 2°C)",
+    mr: "डेल्टा T {deltaT}°C: बारीक थेंब हवेत तरंगतात आणि वाहून जातात (किमान 2°C)",
+    pa: "ਡੈਲਟਾ T {deltaT}°C: ਬਰੀਕ ਬੂੰਦਾਂ ਹਵਾ ਵਿੱਚ ਟਿਕ ਕੇ ਵਹਿ ਜਾਂਦੀਆਂ ਹਨ (ਘੱਟੋ-ਘੱਟ 2°C)",
+    te: "డెల్టా T {deltaT}°C: సన్నని తుంపర్లు గాలిలో నిలిచి కొట్టుకుపోతాయి (కనీసం 2°C)",
+    ta: "டெல்டா T {deltaT}°C: நுண்துளிகள் காற்றில் மிதந்து அடித்துச் செல்லப்படும் (குறைந்தது 2°C)"
+  },
+  "spray.reason.good": {
+    en: "Low wind ({wind} km/h), suitable temperature ({temp}°C), Delta T {deltaT}°C",
+    hi: "धीमी हवा ({wind} किमी/घं), उपयुक्त तापमान ({temp}°C), डेल्टा T {deltaT}°C",
+    mr: "मंद वारा ({wind} किमी/तास), योग्य तापमान ({temp}°C), डेल्टा T {deltaT}°C",
+    pa: "ਹੌਲੀ ਹਵਾ ({wind} ਕਿ.ਮੀ./ਘੰਟਾ), ਢੁਕਵਾਂ ਤਾਪਮਾਨ ({temp}°C), ਡੈਲਟਾ T {deltaT}°C",
+    te: "తక్కువ గాలి ({wind} కి.మీ/గం), అనుకూల ఉష్ణోగ్రత ({temp}°C), డెల్టా T {deltaT}°C",
+    ta: "குறைந்த காற்று ({wind} கி.மீ/மணி), ஏற்ற வெப்பநிலை ({temp}°C), டெல்டா T {deltaT}°C"
+  },
+  "spray.reason.no_slot": {
+    en: "No slot in the next 24 hours stays within limits and dry for {hours} hours after application",
+    hi: "अगले 24 घंटों में ऐसा कोई समय नहीं जो सीमा में रहे और छिड़काव के बाद {hours} घंटे सूखा रहे",
+    mr: "पुढील 24 तासांत मर्यादेत राहणारी आणि फवारणीनंतर {hours} तास कोरडी राहणारी वेळ नाही",
+    pa: "ਅਗਲੇ 24 ਘੰਟਿਆਂ ਵਿੱਚ ਕੋਈ ਸਮਾਂ ਨਹੀਂ ਜੋ ਸੀਮਾ ਵਿੱਚ ਰਹੇ ਅਤੇ ਛਿੜਕਾਅ ਤੋਂ ਬਾਅਦ {hours} ਘੰਟੇ ਸੁੱਕਾ ਰਹੇ",
+    te: "రాబోయే 24 గంటల్లో పరిమితుల్లో ఉండి, పిచికారీ తర్వాత {hours} గంటలు పొడిగా ఉండే సమయం లేదు",
+    ta: "அடுத்த 24 மணி நேரத்தில் வரம்புக்குள் இருந்து, தெளித்த பின் {hours} மணி நேரம் உலர்ந்திருக்கும் நேரம் இல்லை"
+  },
+  "spray.best_slot": {
+    en: "Best slot {start} to {end} ({rating})",
+    hi: "सबसे अच्छा समय {start} से {end} ({rating})",
+    mr: "सर्वोत्तम वेळ {start} ते {end} ({rating})",
+    pa: "ਸਭ ਤੋਂ ਵਧੀਆ ਸਮਾਂ {start} ਤੋਂ {end} ({rating})",
+    te: "ఉత్తమ సమయం {start} నుండి {end} ({rating})",
+    ta: "சிறந்த நேரம் {start} முதல் {end} வரை ({rating})"
+  },
+  "spray.next_slot": {
+    en: "Next slot {start} to {end}",
+    hi: "अगला समय {start} से {end}",
+    mr: "पुढील वेळ {start} ते {end}",
+    pa: "ਅਗਲਾ ਸਮਾਂ {start} ਤੋਂ {end}",
+    te: "తదుపరి సమయం {start} నుండి {end}",
+    ta: "அடுத்த நேரம் {start} முதல் {end} வரை"
+  },
+  "spray.no_slot": {
+    en: "No suitable slot in the 5-day forecast",
+    hi: "5 दिन के पूर्वानुमान में कोई उपयुक्त समय नहीं",
+    mr: "5 दिवसांच्या अंदाजात योग्य वेळ नाही",
+    pa: "5 ਦਿਨਾਂ ਦੀ ਭਵਿੱਖਬਾਣੀ ਵਿੱਚ ਕੋਈ ਢੁਕਵਾਂ ਸਮਾਂ ਨਹੀਂ",
+    te: "5 రోజుల అంచనాలో అనుకూల సమయం లేదు",
+    ta: "5 நாள் முன்னறிவிப்பில் பொருத்தமான நேரம் இல்லை"
+  },
+  "spray.rating.excellent": { en: "excellent", hi: "उत्तम", mr: "उत्तम", pa: "ਸ਼ਾਨਦਾਰ", te: "అద్భుతం", ta: "மிகச் சிறந்தது" },
+  "spray.rating.good": { en: "good", hi: "अच्छा", mr: "चांगला", pa: "ਚੰਗਾ", te: "మంచిది", ta: "நல்லது" },
+  "spray.rating.fair": { en: "fair", hi: "ठीक", mr: "ठीक", pa: "ਠੀਕ", te: "పర్వాలేదు", ta: "பரவாயில்லை" },
+
+  "spray.note.inversion": {
+    en: "Light wind - watch for temperature inversion and drift",
+    hi: "हल्की हवा - तापमान व्युत्क्रमण और बहाव का ध्यान रखें",
+    mr: "मंद वारा - तापमान व्युत्क्रम आणि फवारा वाहून जाण्याकडे लक्ष द्या",
+    pa: "ਹਲਕੀ ਹਵਾ - ਤਾਪਮਾਨ ਉਲਟਾਅ ਅਤੇ ਛਿੜਕਾਅ ਦੇ ਉੱਡਣ ਦਾ ਧਿਆਨ ਰੱਖੋ",
+    te: "తేలికపాటి గాలి - ఉష్ణోగ్రత విలోమం మరియు మందు కొట్టుకుపోవడాన్ని గమనించండి",
+    ta: "லேசான காற்று - வெப்பநிலை தலைகீழ் மாற்றம் மற்றும் மருந்து சிதறலைக் கவனிக்கவும்"
+  },
+  "spray.note.delta_t": {
+    en: "Delta T above 8°C - use coarse droplets",
+    hi: "डेल्टा T 8°C से ऊपर - मोटी बूँदों का प्रयोग करें",
+    mr: "डेल्टा T 8°C पेक्षा जास्त - मोठे थेंब वापरा",
+    pa: "ਡੈਲਟਾ T 8°C ਤੋਂ ਉੱਪਰ - ਮੋਟੀਆਂ ਬੂੰਦਾਂ ਵਰਤੋ",
+    te: "డెల్టా T 8°C పైన - పెద్ద తుంపర్లు వాడండి",
+    ta: "டெல்டா T 8°C க்கு மேல் - பெரிய துளிகளைப் பயன்படுத்தவும்"
+  },
+  "spray.note.rainfast_beyond_forecast": {
+    en: "Rainfast period extends beyond the forecast - recheck before spraying",
+    hi: "वर्षा-रोधी अवधि पूर्वानुमान से आगे तक है - छिड़काव से पहले फिर जाँचें",
+    mr: "पावसापासून सुरक्षित होण्याचा कालावधी अंदाजाच्या पलीकडे जातो - फवारणीपूर्वी पुन्हा तपासा",
+    pa: "ਮੀਂਹ-ਰੋਧੀ ਮਿਆਦ ਭਵਿੱਖਬਾਣੀ ਤੋਂ ਅੱਗੇ ਤੱਕ ਹੈ - ਛਿੜਕਾਅ ਤੋਂ ਪਹਿਲਾਂ ਦੁਬਾਰਾ ਜਾਂਚੋ",
+    te: "వర్షానికి తట్టుకునే సమయం అంచనాకు మించి ఉంది - పిచికారీకి ముందు మళ్ళీ చూడండి",
+    ta: "மழையால் கழுவப்படாத காலம் முன்னறிவிப்பைத் தாண்டுகிறது - தெளிப்பதற்கு முன் மீண்டும் சரிபார்க்கவும்"
+  },
+
+  "heat.extreme": {
+    en: "Extreme heat stress - immediate action required",
+    hi: "अत्यधिक गर्मी का तनाव - तुरंत कार्रवाई करें",
+    mr: "अति उष्णतेचा ताण - त्वरित उपाय करा",
+    pa: "ਬਹੁਤ ਜ਼ਿਆਦਾ ਗਰਮੀ ਦਾ ਦਬਾਅ - ਤੁਰੰਤ ਕਾਰਵਾਈ ਕਰੋ",
+    te: "తీవ్రమైన వేడి ఒత్తిడి - వెంటనే చర్య తీసుకోండి",
+    ta: "கடும் வெப்ப அழுத்தம் - உடனடி நடவடிக்கை தேவை"
+  },
+  "heat.high": {
+    en: "High heat stress - crops need protection",
+    hi: "अधिक गर्मी का तनाव - फसलों को सुरक्षा चाहिए",
+    mr: "जास्त उष्णतेचा ताण - पिकांना संरक्षण हवे",
+    pa: "ਜ਼ਿਆਦਾ ਗਰਮੀ ਦਾ ਦਬਾਅ - ਫ਼ਸਲਾਂ ਨੂੰ ਬਚਾਅ ਦੀ ਲੋੜ",
+    te: "అధిక వేడి ఒత్తిడి - పంటలకు రక్షణ అవసరం",
+    ta: "அதிக வெப்ப அழுத்தம் - பயிர்களுக்குப் பாதுகாப்பு தேவை"
+  },
+  "heat.moderate": {
+    en: "Moderate heat stress - monitor crops closely",
+    hi: "मध्यम गर्मी का तनाव - फसलों पर नज़र रखें",
+    mr: "मध्यम उष्णतेचा ताण - पिकांवर बारकाईने लक्ष ठेवा",
+    pa: "ਦਰਮਿਆਨਾ ਗਰਮੀ ਦਾ ਦਬਾਅ - ਫ਼ਸਲਾਂ 'ਤੇ ਨਜ਼ਰ ਰੱਖੋ",
+    te: "మధ్యస్థ వేడి ఒత్తిడి - పంటలను జాగ్రత్తగా గమనించండి",
+    ta: "மிதமான வெப்ப அழுத்தம் - பயிர்களைக் கவனமாகக் கண்காணிக்கவும்"
+  },
+  "heat.low": {
+    en: "Mild heat stress possible - maintain normal care",
+    hi: "हल्का गर्मी का तनाव संभव - सामान्य देखभाल जारी रखें",
+    mr: "हलका उष्णतेचा ताण संभव - नेहमीची काळजी घ्या",
+    pa: "ਹਲਕਾ ਗਰਮੀ ਦਾ ਦਬਾਅ ਸੰਭਵ - ਆਮ ਦੇਖਭਾਲ ਜਾਰੀ ਰੱਖੋ",
+    te: "తేలికపాటి వేడి ఒత్తిడి అవకాశం - సాధారణ సంరక్షణ కొనసాగించండి",
+    ta: "லேசான வெப்ப அழுத்தம் வாய்ப்பு - வழக்கமான பராமரிப்பைத் தொடரவும்"
+  },
+  "heat.none": {
+    en: "No heat stress detected",
+    hi: "गर्मी का कोई तनाव नहीं",
+    mr: "उष्णतेचा ताण नाही",
+    pa: "ਗਰਮੀ ਦਾ ਕੋਈ ਦਬਾਅ ਨਹੀਂ",
+    te: "వేడి ఒత్తిడి లేదు",
+    ta: "வெப்ப அழுத்தம் இல்லை"
+  },
+  "heat.action.extreme": {
+    en: "Increase irrigation frequency, provide shade, harvest heat-sensitive crops immediately",
+    hi: "सिंचाई बार-बार करें, छाया दें, गर्मी से प्रभावित होने वाली फसलें तुरंत काटें",
+    mr: "वारंवार पाणी द्या, सावली द्या, उष्णतेला संवेदनशील पिकांची त्वरित काढणी करा",
+    pa: "ਸਿੰਚਾਈ ਵਾਰ-ਵਾਰ ਕਰੋ, ਛਾਂ ਦਿਓ, ਗਰਮੀ ਪ੍ਰਤੀ ਨਾਜ਼ੁਕ ਫ਼ਸਲਾਂ ਤੁਰੰਤ ਵੱਢੋ",
+    te: "తరచుగా నీరు పెట్టండి, నీడ కల్పించండి, వేడికి సున్నితమైన పంటలను వెంటనే కోయండి",
+    ta: "அடிக்கடி நீர் பாய்ச்சவும், நிழல் தரவும், வெப்பத்துக்கு உணர்திறன் மிக்க பயிர்களை உடனே அறுவடை செய்யவும்"
+  },
+  "heat.action.high": {
+    en: "Increase irrigation, apply mulch, avoid field work during peak heat",
+    hi: "सिंचाई बढ़ाएँ, मल्च बिछाएँ, तेज़ गर्मी में खेत का काम न करें",
+    mr: "पाणी वाढवा, आच्छादन करा, कडक उन्हात शेतकाम टाळा",
+    pa: "ਸਿੰਚਾਈ ਵਧਾਓ, ਮਲਚ ਵਿਛਾਓ, ਤਿੱਖੀ ਗਰਮੀ ਵਿੱਚ ਖੇਤ ਦਾ ਕੰਮ ਨਾ ਕਰੋ",
+    te: "నీటి తడులు పెంచండి, మల్చింగ్ చేయండి, ఎండ తీవ్రంగా ఉన్నప్పుడు పొలం పనులు మానండి",
+    ta: "நீர்ப்பாசனத்தை அதிகரிக்கவும், மூடாக்கு இடவும், கடும் வெயிலில் வயல் வேலையைத் தவிர்க்கவும்"
+  },
+  "heat.action.moderate": {
+    en: "Ensure adequate water supply, consider morning/evening irrigation",
+    hi: "पर्याप्त पानी सुनिश्चित करें, सुबह/शाम सिंचाई करें",
+    mr: "पुरेसे पाणी उपलब्ध ठेवा, सकाळी/संध्याकाळी पाणी द्या",
+    pa: "ਕਾਫ਼ੀ ਪਾਣੀ ਯਕੀਨੀ ਬਣਾਓ, ਸਵੇਰੇ/ਸ਼ਾਮ ਸਿੰਚਾਈ ਕਰੋ",
+    te: "తగినంత నీరు అందేలా చూడండి, ఉదయం/సాయంత్రం నీరు పెట్టండి",
+    ta: "போதுமான நீர் இருப்பதை உறுதி செய்யவும், காலை/மாலையில் நீர் பாய்ச்சவும்"
+  },
+  "heat.action.low": {
+    en: "Continue regular irrigation schedule, monitor plant health",
+    hi: "नियमित सिंचाई जारी रखें, पौधों की सेहत देखें",
+    mr: "नियमित पाणी देणे सुरू ठेवा, पिकांच्या आरोग्यावर लक्ष ठेवा",
+    pa: "ਨਿਯਮਤ ਸਿੰਚਾਈ ਜਾਰੀ ਰੱਖੋ, ਪੌਦਿਆਂ ਦੀ ਸਿਹਤ ਵੇਖੋ",
+    te: "క్రమం తప్పకుండా నీరు పెడుతూ మొక్కల ఆరోగ్యాన్ని గమనించండి",
+    ta: "வழக்கமான நீர்ப்பாசனத்தைத் தொடரவும், செடிகளின் நலத்தைக் கண்காணிக்கவும்"
+  },
+  "heat.action.none": {
+    en: "Normal growing conditions - continue standard practices",
+    hi: "सामान्य स्थिति - सामान्य तरीके जारी रखें",
+    mr: "सामान्य वाढीची स्थिती - नेहमीच्या पद्धती सुरू ठेवा",
+    pa: "ਆਮ ਹਾਲਾਤ - ਆਮ ਤਰੀਕੇ ਜਾਰੀ ਰੱਖੋ",
+    te: "సాధారణ పరిస్థితులు - సాధారణ పద్ధతులు కొనసాగించండి",
+    ta: "வழக்கமான வளர்ச்சி நிலை - வழக்கமான நடைமுறைகளைத் தொடரவும்"
+  },
+  "heat.duration": {
+    en: "{hours} hours of elevated temperatures expected",
+    hi: "{hours} घंटे ऊँचे तापमान की संभावना",
+    mr: "{hours} तास जास्त तापमान अपेक्षित",
+    pa: "{hours} ਘੰਟੇ ਉੱਚੇ ਤਾਪਮਾਨ ਦੀ ਸੰਭਾਵਨਾ",
+    te: "{hours} గంటలు అధిక ఉష్ణోగ్రతలు అంచనా",
+    ta: "{hours} மணி நேரம் அதிக வெப்பநிலை எதிர்பார்க்கப்படுகிறது"
+  },
+  "heat.stage_sensitive": {
+    en: "({stage} is heat sensitive)",
+    hi: "({stage} गर्मी के प्रति संवेदनशील है)",
+    mr: "({stage} उष्णतेसाठी संवेदनशील आहे)",
+    pa: "({stage} ਗਰਮੀ ਪ੍ਰਤੀ ਨਾਜ਼ੁਕ ਹੈ)",
+    te: "({stage} వేడికి సున్నితమైనది)",
+    ta: "({stage} வெப்பத்துக்கு உணர்திறன் கொண்டது)"
+  },
+
+  "nutrient.avoid": {
+    en: "Avoid applying {fertilizer} in the forecast period - heavy rain or high loss conditions every day",
+    hi: "पूर्वानुमान अवधि में {fertilizer} न डालें - हर दिन भारी बारिश या अधिक नुकसान की स्थिति",
+    mr: "अंदाज कालावधीत {fertilizer} देऊ नका - दररोज जोरदार पाऊस किंवा जास्त नुकसानीची स्थिती",
+    pa: "ਭਵਿੱਖਬਾਣੀ ਦੀ ਮਿਆਦ ਵਿੱਚ {fertilizer} ਨਾ ਪਾਓ - ਹਰ ਰੋਜ਼ ਭਾਰੀ ਮੀਂਹ ਜਾਂ ਜ਼ਿਆਦਾ ਨੁਕਸਾਨ ਦੇ ਹਾਲਾਤ",
+    te: "అంచనా కాలంలో {fertilizer} వేయవద్దు - ప్రతిరోజూ భారీ వర్షం లేదా ఎక్కువ నష్టం జరిగే పరిస్థితులు",
+    ta: "முன்னறிவிப்புக் காலத்தில் {fertilizer} இட வேண்டாம் - ஒவ்வொரு நாளும் கனமழை அல்லது அதிக இழப்பு நிலை"
+  },
+  "nutrient.hold": {
+    en: "Hold {fertilizer} until {date}",
+    hi: "{date} तक {fertilizer} रोक कर रखें",
+    mr: "{date} पर्यंत {fertilizer} देणे थांबवा",
+    pa: "{date} ਤੱਕ {fertilizer} ਰੋਕ ਕੇ ਰੱਖੋ",
+    te: "{date} వరకు {fertilizer} వేయడం ఆపండి",
+    ta: "{date} வரை {fertilizer} இடுவதை நிறுத்தி வைக்கவும்"
+  },
+  "nutrient.best_day": {
+    en: "Best day for {fertilizer}: {date}",
+    hi: "{fertilizer} के लिए सबसे अच्छा दिन: {date}",
+    mr: "{fertilizer} देण्यासाठी सर्वोत्तम दिवस: {date}",
+    pa: "{fertilizer} ਲਈ ਸਭ ਤੋਂ ਵਧੀਆ ਦਿਨ: {date}",
+    te: "{fertilizer} వేయడానికి ఉత్తమ రోజు: {date}",
+    ta: "{fertilizer} இட சிறந்த நாள்: {date}"
+  },
+  "nutrient.incorporated": {
+    en: "{advice} - light rain after application will incorporate it",
+    hi: "{advice} - डालने के बाद हल्की बारिश इसे मिट्टी में मिला देगी",
+    mr: "{advice} - दिल्यानंतरचा हलका पाऊस ते मातीत मिसळेल",
+    pa: "{advice} - ਪਾਉਣ ਤੋਂ ਬਾਅਦ ਹਲਕਾ ਮੀਂਹ ਇਸਨੂੰ ਮਿੱਟੀ ਵਿੱਚ ਰਲਾ ਦੇਵੇਗਾ",
+    te: "{advice} - వేసిన తర్వాత తేలికపాటి వర్షం దాన్ని మట్టిలో కలుపుతుంది",
+    ta: "{advice} - இட்ட பிறகு பெய்யும் லேசான மழை அதை மண்ணில் கலக்கும்"
+  },
+  "nutrient.rated": { en: "{advice} ({rating})", hi: "{advice} ({rating})", mr: "{advice} ({rating})", pa: "{advice} ({rating})", te: "{advice} ({rating})", ta: "{advice} ({rating})" },
+
+  "disease.late_blight.high": {
+    en: "Late blight infection conditions (Smith period) - protect potato and tomato now",
+    hi: "पछेती झुलसा संक्रमण की स्थिति (स्मिथ अवधि) - आलू और टमाटर को अभी बचाएँ",
+    mr: "उशिराच्या करप्याच्या संसर्गाची स्थिती (स्मिथ कालावधी) - बटाटा आणि टोमॅटोचे आत्ताच संरक्षण करा",
+    pa: "ਪਿਛੇਤੇ ਝੁਲਸ ਰੋਗ ਦੀ ਲਾਗ ਦੇ ਹਾਲਾਤ (ਸਮਿਥ ਮਿਆਦ) - ਆਲੂ ਅਤੇ ਟਮਾਟਰ ਨੂੰ ਹੁਣੇ ਬਚਾਓ",
+    te: "ఆలస్య ఎండు తెగులు సోకే పరిస్థితులు (స్మిత్ కాలం) - బంగాళాదుంప, టమాటాలను ఇప్పుడే కాపాడండి",
+    ta: "பின்பருவ இலைக்கருகல் தொற்று நிலை (ஸ்மித் காலம்) - உருளைக்கிழங்கு மற்றும் தக்காளியை இப்போதே பாதுகாக்கவும்"
+  },
+  "disease.late_blight.moderate": {
+    en: "Warm, humid spell favourable for late blight (Hutton period)",
+    hi: "गर्म, नम मौसम पछेती झुलसा के अनुकूल (हटन अवधि)",
+    mr: "उबदार, दमट हवामान उशिराच्या करप्यास अनुकूल (हटन कालावधी)",
+    pa: "ਗਰਮ, ਸਿੱਲ੍ਹਾ ਮੌਸਮ ਪਿਛੇਤੇ ਝੁਲਸ ਰੋਗ ਲਈ ਅਨੁਕੂਲ (ਹਟਨ ਮਿਆਦ)",
+    te: "వెచ్చని, తేమతో కూడిన వాతావరణం ఆలస్య ఎండు తెగులుకు అనుకూలం (హటన్ కాలం)",
+    ta: "வெப்பமான, ஈரப்பதமான காலநிலை பின்பருவ இலைக்கருகலுக்குச் சாதகம் (ஹட்டன் காலம்)"
+  },
+  "disease.late_blight.low": {
+    en: "Isolated humid days - late blight pressure low",
+    hi: "इक्का-दुक्का नम दिन - पछेती झुलसा का दबाव कम",
+    mr: "तुरळक दमट दिवस - उशिराच्या करप्याचा दाब कमी",
+    pa: "ਇੱਕਾ-ਦੁੱਕਾ ਸਿੱਲ੍ਹੇ ਦਿਨ - ਪਿਛੇਤੇ ਝੁਲਸ ਰੋਗ ਦਾ ਦਬਾਅ ਘੱਟ",
+    te: "అక్కడక్కడ తేమ రోజులు - ఆలస్య ఎండు తెగులు ఒత్తిడి తక్కువ",
+    ta: "ஆங்காங்கே ஈரப்பதமான நாட்கள் - பின்பருவ இலைக்கருகல் அழுத்தம் குறைவு"
+  },
+  "disease.late_blight.none": {
+    en: "Weather unfavourable for late blight",
+    hi: "मौसम पछेती झुलसा के अनुकूल नहीं",
+    mr: "हवामान उशिराच्या करप्यास प्रतिकूल",
+    pa: "ਮੌਸਮ ਪਿਛੇਤੇ ਝੁਲਸ ਰੋਗ ਲਈ ਅਨੁਕੂਲ ਨਹੀਂ",
+    te: "వాతావరణం ఆలస్య ఎండు తెగులుకు అనుకూలం కాదు",
+    ta: "காலநிலை பின்பருவ இலைக்கருகலுக்குச் சாதகமில்லை"
+  },
+  "disease.late_blight.action.high": {
+    en: "Apply a protectant fungicide before the humid spell; use a systemic product if lesions are present",
+    hi: "नम मौसम से पहले सुरक्षात्मक फफूंदनाशक डालें; धब्बे दिखें तो प्रणालीगत दवा का प्रयोग करें",
+    mr: "दमट हवामानापूर्वी संरक्षक बुरशीनाशक फवारा; ठिपके दिसल्यास आंतरप्रवाही औषध वापरा",
+    pa: "ਸਿੱਲ੍ਹੇ ਮੌਸਮ ਤੋਂ ਪਹਿਲਾਂ ਬਚਾਅ ਵਾਲਾ ਉੱਲੀਨਾਸ਼ਕ ਛਿੜਕੋ; ਧੱਬੇ ਦਿਸਣ ਤਾਂ ਪ੍ਰਣਾਲੀਗਤ ਦਵਾਈ ਵਰਤੋ",
+    te: "తేమ వాతావరణానికి ముందే రక్షక శిలీంధ్రనాశిని పిచికారీ చేయండి; మచ్చలు ఉంటే అంతర్వాహక మందు వాడండి",
+    ta: "ஈரப்பதக் காலத்திற்கு முன் பாதுகாப்பு பூஞ்சைக்கொல்லி தெளிக்கவும்; புள்ளிகள் இருந்தால் உட்செல் மருந்தைப் பயன்படுத்தவும்"
+  },
+  "disease.late_blight.action.moderate": {
+    en: "Scout for lesions and keep protectant cover current",
+    hi: "धब्बों की जाँच करें और सुरक्षात्मक छिड़काव जारी रखें",
+    mr: "ठिपक्यांची पाहणी करा आणि संरक्षक फवारणी चालू ठेवा",
+    pa: "ਧੱਬਿਆਂ ਦੀ ਜਾਂਚ ਕਰੋ ਅਤੇ ਬਚਾਅ ਵਾਲਾ ਛਿੜਕਾਅ ਜਾਰੀ ਰੱਖੋ",
+    te: "మచ్చల కోసం పరిశీలించండి, రక్షక పిచికారీ కొనసాగించండి",
+    ta: "புள்ளிகளைக் கண்காணித்து பாதுகாப்புத் தெளிப்பைத் தொடரவும்"
+  },
+  "disease.late_blight.action.none": {
+    en: "No late blight sprays needed",
+    hi: "पछेती झुलसा के लिए छिड़काव की ज़रूरत नहीं",
+    mr: "उशिराच्या करप्यासाठी फवारणीची गरज नाही",
+    pa: "ਪਿਛੇਤੇ ਝੁਲਸ ਰੋਗ ਲਈ ਛਿੜਕਾਅ ਦੀ ਲੋੜ ਨਹੀਂ",
+    te: "ఆలస్య ఎండు తెగులుకు పిచికారీ అవసరం లేదు",
+    ta: "பின்பருவ இலைக்கருகலுக்குத் தெளிப்பு தேவையில்லை"
+  },
+  "disease.late_blight.evidence": {
+    en: "{smith} Smith and {hutton} Hutton periods over {days} days",
+    hi: "{days} दिनों में {smith} स्मिथ और {hutton} हटन अवधियाँ",
+    mr: "{days} दिवसांत {smith} स्मिथ आणि {hutton} हटन कालावधी",
+    pa: "{days} ਦਿਨਾਂ ਵਿੱਚ {smith} ਸਮਿਥ ਅਤੇ {hutton} ਹਟਨ ਮਿਆਦਾਂ",
+    te: "{days} రోజుల్లో {smith} స్మిత్, {hutton} హటన్ కాలాలు",
+    ta: "{days} நாட்களில் {smith} ஸ்மித் மற்றும் {hutton} ஹட்டன் காலங்கள்"
+  },
+  "disease.powdery_mildew.high": {
+    en: "Powdery mildew index high - conditions favour rapid spread",
+    hi: "चूर्णिल आसिता सूचकांक अधिक - स्थितियाँ तेज़ फैलाव के अनुकूल",
+    mr: "भुरी निर्देशांक जास्त - झपाट्याने प्रसारास अनुकूल स्थिती",
+    pa: "ਚਿੱਟੇ ਰੋਗ ਦਾ ਸੂਚਕਾਂਕ ਉੱਚਾ - ਹਾਲਾਤ ਤੇਜ਼ ਫੈਲਾਅ ਲਈ ਅਨੁਕੂਲ",
+    te: "బూడిద తెగులు సూచిక ఎక్కువ - వేగంగా వ్యాపించే పరిస్థితులు",
+    ta: "சாம்பல் நோய்க் குறியீடு அதிகம் - வேகமாகப் பரவச் சாதகமான நிலை"
+  },
+  "disease.powdery_mildew.moderate": {
+    en: "Powdery mildew index moderate",
+    hi: "चूर्णिल आसिता सूचकांक मध्यम",
+    mr: "भुरी निर्देशांक मध्यम",
+    pa: "ਚਿੱਟੇ ਰੋਗ ਦਾ ਸੂਚਕਾਂਕ ਦਰਮਿਆਨਾ",
+    te: "బూడిద తెగులు సూచిక మధ్యస్థం",
+    ta: "சாம்பல் நோய்க் குறியீடு மிதமானது"
+  },
+  "disease.powdery_mildew.low": {
+    en: "Powdery mildew pressure low",
+    hi: "चूर्णिल आसिता का दबाव कम",
+    mr: "भुरीचा दाब कमी",
+    pa: "ਚਿੱਟੇ ਰੋਗ ਦਾ ਦਬਾਅ ਘੱਟ",
+    te: "బూడిద తెగులు ఒత్తిడి తక్కువ",
+    ta: "சாம்பல் நோய் அழுத்தம் குறைவு"
+  },
+  "disease.powdery_mildew.none": {
+    en: "Weather unfavourable for powdery mildew",
+    hi: "मौसम चूर्णिल आसिता के अनुकूल नहीं",
+    mr: "हवामान भुरीस प्रतिकूल",
+    pa: "ਮੌਸਮ ਚਿੱਟੇ ਰੋਗ ਲਈ ਅਨੁਕੂਲ ਨਹੀਂ",
+    te: "వాతావరణం బూడిద తెగులుకు అనుకూలం కాదు",
+    ta: "காலநிலை சாம்பல் நோய்க்குச் சாதகமில்லை"
+  },
+  "disease.powdery_mildew.action.high": {
+    en: "Shorten fungicide intervals (7-10 days) and use sulphur or a systemic fungicide",
+    hi: "फफूंदनाशक छिड़काव का अंतराल घटाएँ (7-10 दिन) और गंधक या प्रणालीगत फफूंदनाशक का प्रयोग करें",
+    mr: "बुरशीनाशक फवारणीतील अंतर कमी करा (7-10 दिवस) आणि गंधक किंवा आंतरप्रवाही बुरशीनाशक वापरा",
+    pa: "ਉੱਲੀਨਾਸ਼ਕ ਛਿੜਕਾਅ ਦਾ ਵਕਫ਼ਾ ਘਟਾਓ (7-10 ਦਿਨ) ਅਤੇ ਗੰਧਕ ਜਾਂ ਪ੍ਰਣਾਲੀਗਤ ਉੱਲੀਨਾਸ਼ਕ ਵਰਤੋ",
+    te: "శిలీంధ్రనాశిని పిచికారీ వ్యవధిని తగ్గించండి (7-10 రోజులు), గంధకం లేదా అంతర్వాహక శిలీంధ్రనాశిని వాడండి",
+    ta: "பூஞ்சைக்கொல்லி இடைவெளியைக் குறைக்கவும் (7-10 நாட்கள்), கந்தகம் அல்லது உட்செல் பூஞ்சைக்கொல்லியைப் பயன்படுத்தவும்"
+  },
+  "disease.powdery_mildew.action.moderate": {
+    en: "Keep to standard fungicide intervals (10-14 days)",
+    hi: "फफूंदनाशक छिड़काव का सामान्य अंतराल (10-14 दिन) रखें",
+    mr: "बुरशीनाशक फवारणीचे नेहमीचे अंतर (10-14 दिवस) पाळा",
+    pa: "ਉੱਲੀਨਾਸ਼ਕ ਛਿੜਕਾਅ ਦਾ ਆਮ ਵਕਫ਼ਾ (10-14 ਦਿਨ) ਰੱਖੋ",
+    te: "సాధారణ శిలీంధ్రనాశిని వ్యవధి (10-14 రోజులు) పాటించండి",
+    ta: "வழக்கமான பூஞ்சைக்கொல்லி இடைவெளியை (10-14 நாட்கள்) பின்பற்றவும்"
+  },
+  "disease.powdery_mildew.action.low": {
+    en: "Extend fungicide intervals; continue scouting",
+    hi: "फफूंदनाशक छिड़काव का अंतराल बढ़ाएँ; निगरानी जारी रखें",
+    mr: "बुरशीनाशक फवारणीतील अंतर वाढवा; पाहणी सुरू ठेवा",
+    pa: "ਉੱਲੀਨਾਸ਼ਕ ਛਿੜਕਾਅ ਦਾ ਵਕਫ਼ਾ ਵਧਾਓ; ਨਿਗਰਾਨੀ ਜਾਰੀ ਰੱਖੋ",
+    te: "శిలీంధ్రనాశిని వ్యవధిని పెంచండి; పరిశీలన కొనసాగించండి",
+    ta: "பூஞ்சைக்கொல்லி இடைவெளியை நீட்டிக்கவும்; கண்காணிப்பைத் தொடரவும்"
+  },
+  "disease.powdery_mildew.action.none": {
+    en: "No powdery mildew sprays needed",
+    hi: "चूर्णिल आसिता के लिए छिड़काव की ज़रूरत नहीं",
+    mr: "भुरीसाठी फवारणीची गरज नाही",
+    pa: "ਚਿੱਟੇ ਰੋਗ ਲਈ ਛਿੜਕਾਅ ਦੀ ਲੋੜ ਨਹੀਂ",
+    te: "బూడిద తెగులుకు పిచికారీ అవసరం లేదు",
+    ta: "சாம்பல் நோய்க்குத் தெளிப்பு தேவையில்லை"
+  },
+  "disease.powdery_mildew.evidence": {
+    en: "Risk index {index} (peak {peak}) on a 0-100 scale",
+    hi: "0-100 पैमाने पर जोखिम सूचकांक {index} (अधिकतम {peak})",
+    mr: "0-100 प्रमाणावर धोका निर्देशांक {index} (कमाल {peak})",
+    pa: "0-100 ਪੈਮਾਨੇ 'ਤੇ ਜੋਖਮ ਸੂਚਕਾਂਕ {index} (ਸਿਖਰ {peak})",
+    te: "0-100 స్కేలుపై ప్రమాద సూచిక {index} (గరిష్ఠం {peak})",
+    ta: "0-100 அளவில் இடர் குறியீடு {index} (உச்சம் {peak})"
+  },
+  "disease.rice_blast.high": {
+    en: "Repeated blast infection periods - high risk of leaf and neck blast",
+    hi: "झोंका रोग के बार-बार संक्रमण काल - पत्ती और गर्दन झोंका का अधिक जोखिम",
+    mr: "करप्याच्या संसर्गाचे वारंवार कालावधी - पानांवरील व मानेवरील करप्याचा जास्त धोका",
+    pa: "ਬਲਾਸਟ ਰੋਗ ਦੀ ਵਾਰ-ਵਾਰ ਲਾਗ ਦੇ ਸਮੇਂ - ਪੱਤੇ ਅਤੇ ਗਰਦਨ ਬਲਾਸਟ ਦਾ ਵੱਧ ਜੋਖਮ",
+    te: "అగ్గి తెగులు పదే పదే సోకే కాలాలు - ఆకు, మెడ అగ్గి తెగులు ప్రమాదం ఎక్కువ",
+    ta: "குலை நோய் தொற்றுக் காலங்கள் மீண்டும் மீண்டும் - இலை மற்றும் கழுத்துக் குலை நோய் இடர் அதிகம்"
+  },
+  "disease.rice_blast.moderate": {
+    en: "One blast infection period expected",
+    hi: "झोंका रोग का एक संक्रमण काल संभावित",
+    mr: "करप्याच्या संसर्गाचा एक कालावधी अपेक्षित",
+    pa: "ਬਲਾਸਟ ਰੋਗ ਦੀ ਲਾਗ ਦਾ ਇੱਕ ਸਮਾਂ ਸੰਭਵ",
+    te: "అగ్గి తెగులు సోకే ఒక కాలం అవకాశం",
+    ta: "ஒரு குலை நோய் தொற்றுக் காலம் எதிர்பார்க்கப்படுகிறது"
+  },
+  "disease.rice_blast.low": {
+    en: "Short leaf wetness periods - blast risk low",
+    hi: "पत्तियाँ कम समय गीली - झोंका रोग का जोखिम कम",
+    mr: "पाने कमी वेळ ओली - करप्याचा धोका कमी",
+    pa: "ਪੱਤੇ ਥੋੜ੍ਹੇ ਸਮੇਂ ਲਈ ਗਿੱਲੇ - ਬਲਾਸਟ ਰੋਗ ਦਾ ਜੋਖਮ ਘੱਟ",
+    te: "ఆకులు తక్కువ సేపు తడిగా - అగ్గి తెగులు ప్రమాదం తక్కువ",
+    ta: "இலை ஈரம் குறுகிய நேரம் - குலை நோய் இடர் குறைவு"
+  },
+  "disease.rice_blast.none": {
+    en: "Leaf wetness too short for blast infection",
+    hi: "झोंका संक्रमण के लिए पत्तियाँ पर्याप्त समय गीली नहीं",
+    mr: "करपा संसर्गासाठी पाने पुरेशी ओली राहत नाहीत",
+    pa: "ਬਲਾਸਟ ਦੀ ਲਾਗ ਲਈ ਪੱਤੇ ਕਾਫ਼ੀ ਸਮਾਂ ਗਿੱਲੇ ਨਹੀਂ",
+    te: "అగ్గి తెగులు సోకడానికి ఆకులు తగినంత సేపు తడిగా లేవు",
+    ta: "குலை நோய்த் தொற்றுக்கு இலை ஈரம் போதுமான நேரம் இல்லை"
+  },
+  "disease.rice_blast.action.high": {
+    en: "Apply tricyclazole or an equivalent blast fungicide; avoid extra nitrogen top-dressing",
+    hi: "ट्राइसाइक्लाज़ोल या समान झोंका-रोधी फफूंदनाशक डालें; अतिरिक्त नाइट्रोजन की टॉप ड्रेसिंग से बचें",
+    mr: "ट्रायसायक्लाझोल किंवा तत्सम करपा-नाशक बुरशीनाशक फवारा; नत्राचा जादा वरखत टाळा",
+    pa: "ਟ੍ਰਾਈਸਾਈਕਲਾਜ਼ੋਲ ਜਾਂ ਇਸ ਵਰਗਾ ਬਲਾਸਟ ਉੱਲੀਨਾਸ਼ਕ ਛਿੜਕੋ; ਵਾਧੂ ਨਾਈਟ੍ਰੋਜਨ ਨਾ ਪਾਓ",
+    te: "ట్రైసైక్లజోల్ లేదా సమానమైన అగ్గి తెగులు మందు పిచికారీ చేయండి; అదనపు నత్రజని పైపాటు వేయవద్దు",
+    ta: "ட்ரைசைக்ளசோல் அல்லது அதற்கு இணையான குலை நோய் பூஞ்சைக்கொல்லி தெளிக்கவும்; கூடுதல் தழைச்சத்து மேலுரம் தவிர்க்கவும்"
+  },
+  "disease.rice_blast.action.moderate": {
+    en: "Scout for spindle-shaped lesions and be ready to spray",
+    hi: "नाव के आकार के धब्बों की जाँच करें और छिड़काव के लिए तैयार रहें",
+    mr: "नावेच्या आकाराच्या ठिपक्यांची पाहणी करा आणि फवारणीस तयार राहा",
+    pa: "ਕਿਸ਼ਤੀ-ਆਕਾਰ ਧੱਬਿਆਂ ਦੀ ਜਾਂਚ ਕਰੋ ਅਤੇ ਛਿੜਕਾਅ ਲਈ ਤਿਆਰ ਰਹੋ",
+    te: "కదురు ఆకారపు మచ్చల కోసం పరిశీలించి, పిచికారీకి సిద్ధంగా ఉండండి",
+    ta: "கதிர் வடிவப் புள்ளிகளைக் கண்காணித்து தெளிக்கத் தயாராக இருக்கவும்"
+  },
+  "disease.rice_blast.action.none": {
+    en: "No blast sprays needed",
+    hi: "झोंका रोग के लिए छिड़काव की ज़रूरत नहीं",
+    mr: "करप्यासाठी फवारणीची गरज नाही",
+    pa: "ਬਲਾਸਟ ਰੋਗ ਲਈ ਛਿੜਕਾਅ ਦੀ ਲੋੜ ਨਹੀਂ",
+    te: "అగ్గి తెగులుకు పిచికారీ అవసరం లేదు",
+    ta: "குலை நோய்க்குத் தெளிப்பு தேவையில்லை"
+  },
+  "disease.rice_blast.evidence": {
+    en: "{infections} infection periods; longest leaf wetness {hours} hours",
+    hi: "{infections} संक्रमण काल; पत्तियाँ अधिकतम {hours} घंटे गीली",
+    mr: "{infections} संसर्ग कालावधी; पाने जास्तीत जास्त {hours} तास ओली",
+    pa: "{infections} ਲਾਗ ਦੇ ਸਮੇਂ; ਪੱਤੇ ਵੱਧ ਤੋਂ ਵੱਧ {hours} ਘੰਟੇ ਗਿੱਲੇ",
+    te: "{infections} సంక్రమణ కాలాలు; ఆకులు గరిష్ఠంగా {hours} గంటలు తడిగా",
+    ta: "{infections} தொற்றுக் காலங்கள்; அதிகபட்ச இலை ஈரம் {hours} மணி நேரம்"
+  },
+  "disease.pest.high": {
+    en: "{pest} generation {generation} expected to emerge around {date}",
+    hi: "{pest} की {generation}वीं पीढ़ी {date} के आसपास निकलने की संभावना",
+    mr: "{pest} ची {generation} वी पिढी {date} च्या सुमारास बाहेर पडण्याची शक्यता",
+    pa: "{pest} ਦੀ {generation}ਵੀਂ ਪੀੜ੍ਹੀ {date} ਦੇ ਆਸ-ਪਾਸ ਨਿਕਲਣ ਦੀ ਸੰਭਾਵਨਾ",
+    te: "{pest} {generation}వ తరం {date} ప్రాంతంలో బయటకు వచ్చే అవకాశం",
+    ta: "{pest} {generation}வது தலைமுறை {date} அளவில் வெளிவர வாய்ப்பு"
+  },
+  "disease.pest.moderate": {
+    en: "{pest} generation {generation} due in about {remaining} degree days",
+    hi: "{pest} की {generation}वीं पीढ़ी लगभग {remaining} डिग्री दिन में",
+    mr: "{pest} ची {generation} वी पिढी सुमारे {remaining} अंश दिवसांत",
+    pa: "{pest} ਦੀ {generation}ਵੀਂ ਪੀੜ੍ਹੀ ਲਗਭਗ {remaining} ਡਿਗਰੀ ਦਿਨਾਂ ਵਿੱਚ",
+    te: "{pest} {generation}వ తరం సుమారు {remaining} డిగ్రీ రోజుల్లో",
+    ta: "{pest} {generation}வது தலைமுறை சுமார் {remaining} டிகிரி நாட்களில்"
+  },
+  "disease.pest.low": {
+    en: "{pest} between generations",
+    hi: "{pest} दो पीढ़ियों के बीच",
+    mr: "{pest} दोन पिढ्यांच्या दरम्यान",
+    pa: "{pest} ਦੋ ਪੀੜ੍ਹੀਆਂ ਦੇ ਵਿਚਕਾਰ",
+    te: "{pest} రెండు తరాల మధ్య",
+    ta: "{pest} இரண்டு தலைமுறைகளுக்கு இடையே"
+  },
+  "disease.pest.action.high": {
+    en: "Install pheromone traps now and scout daily; treat when counts pass the economic threshold",
+    hi: "अभी फेरोमोन ट्रैप लगाएँ और रोज़ निगरानी करें; संख्या आर्थिक सीमा पार करे तो उपचार करें",
+    mr: "आत्ताच कामगंध सापळे लावा आणि दररोज पाहणी करा; संख्या आर्थिक नुकसान पातळी ओलांडल्यास उपाय करा",
+    pa: "ਹੁਣੇ ਫੈਰੋਮੋਨ ਟ੍ਰੈਪ ਲਗਾਓ ਅਤੇ ਰੋਜ਼ ਨਿਗਰਾਨੀ ਕਰੋ; ਗਿਣਤੀ ਆਰਥਿਕ ਸੀਮਾ ਤੋਂ ਵਧੇ ਤਾਂ ਇਲਾਜ ਕਰੋ",
+    te: "ఇప్పుడే లింగాకర్షక బుట్టలు అమర్చి రోజూ పరిశీలించండి; సంఖ్య ఆర్థిక నష్ట పరిమితి దాటితే మందు వేయండి",
+    ta: "இப்போதே இனக்கவர்ச்சிப் பொறிகளை வைத்து தினமும் கண்காணிக்கவும்; எண்ணிக்கை பொருளாதார வரம்பைத் தாண்டினால் மருந்திடவும்"
+  },
+  "disease.pest.action.moderate": {
+    en: "Check pheromone traps and scout twice a week",
+    hi: "फेरोमोन ट्रैप जाँचें और सप्ताह में दो बार निगरानी करें",
+    mr: "कामगंध सापळे तपासा आणि आठवड्यातून दोनदा पाहणी करा",
+    pa: "ਫੈਰੋਮੋਨ ਟ੍ਰੈਪ ਜਾਂਚੋ ਅਤੇ ਹਫ਼ਤੇ ਵਿੱਚ ਦੋ ਵਾਰ ਨਿਗਰਾਨੀ ਕਰੋ",
+    te: "లింగాకర్షక బుట్టలు తనిఖీ చేసి వారానికి రెండుసార్లు పరిశీలించండి",
+    ta: "இனக்கவர்ச்சிப் பொறிகளைச் சரிபார்த்து வாரம் இருமுறை கண்காணிக்கவும்"
+  },
+  "disease.pest.evidence": {
+    en: "{accumulated} degree days accumulated; next generation at {next}",
+    hi: "{accumulated} डिग्री दिन जमा; अगली पीढ़ी {next} पर",
+    mr: "{accumulated} अंश दिवस जमा; पुढील पिढी {next} वर",
+    pa: "{accumulated} ਡਿਗਰੀ ਦਿਨ ਇਕੱਠੇ; ਅਗਲੀ ਪੀੜ੍ਹੀ {next} 'ਤੇ",
+    te: "{accumulated} డిగ్రీ రోజులు చేరాయి; తదుపరి తరం {next} వద్ద",
+    ta: "{accumulated} டிகிரி நாட்கள் சேர்ந்தன; அடுத்த தலைமுறை {next} இல்"
+  },
+  "disease.action.scout": {
+    en: "Continue routine scouting",
+    hi: "नियमित निगरानी जारी रखें",
+    mr: "नियमित पाहणी सुरू ठेवा",
+    pa: "ਨਿਯਮਤ ਨਿਗਰਾਨੀ ਜਾਰੀ ਰੱਖੋ",
+    te: "క్రమం తప్పకుండా పరిశీలన కొనసాగించండి",
+    ta: "வழக்கமான கண்காணிப்பைத் தொடரவும்"
+  },
+
+  "harvest.best_window": {
+    en: "Best harvest window starts {date} ({rating})",
+    hi: "कटाई का सबसे अच्छा समय {date} से ({rating})",
+    mr: "काढणीचा सर्वोत्तम कालावधी {date} पासून ({rating})",
+    pa: "ਵਾਢੀ ਦਾ ਸਭ ਤੋਂ ਵਧੀਆ ਸਮਾਂ {date} ਤੋਂ ({rating})",
+    te: "ఉత్తమ కోత సమయం {date} నుండి ({rating})",
+    ta: "சிறந்த அறுவடைக் காலம் {date} முதல் ({rating})"
+  },
+  "harvest.heavy_rain": {
+    en: "No harvest window in the forecast - heavy rain expected on {dates}; harvest mature crop early if possible",
+    hi: "पूर्वानुमान में कटाई का समय नहीं - {dates} को भारी बारिश संभव; हो सके तो पकी फसल जल्दी काटें",
+    mr: "अंदाजात काढणीचा कालावधी नाही - {dates} रोजी जोरदार पाऊस अपेक्षित; शक्य असल्यास पक्व पीक लवकर काढा",
+    pa: "ਭਵਿੱਖਬਾਣੀ ਵਿੱਚ ਵਾਢੀ ਦਾ ਸਮਾਂ ਨਹੀਂ - {dates} ਨੂੰ ਭਾਰੀ ਮੀਂਹ ਸੰਭਵ; ਹੋ ਸਕੇ ਤਾਂ ਪੱਕੀ ਫ਼ਸਲ ਛੇਤੀ ਵੱਢੋ",
+    te: "అంచనాలో కోత సమయం లేదు - {dates} న భారీ వర్షం అవకాశం; వీలైతే పక్వానికి వచ్చిన పంటను ముందే కోయండి",
+    ta: "முன்னறிவிப்பில் அறுவடைக் காலம் இல்லை - {dates} அன்று கனமழை எதிர்பார்க்கப்படுகிறது; முடிந்தால் முதிர்ந்த பயிரை முன்கூட்டியே அறுவடை செய்யவும்"
+  },
+  "harvest.too_wet": {
+    en: "No harvest window in the forecast - conditions too humid or wet for drying",
+    hi: "पूर्वानुमान में कटाई का समय नहीं - सुखाने के लिए मौसम बहुत नम या गीला",
+    mr: "अंदाजात काढणीचा कालावधी नाही - वाळवण्यासाठी हवामान खूप दमट किंवा ओले",
+    pa: "ਭਵਿੱਖਬਾਣੀ ਵਿੱਚ ਵਾਢੀ ਦਾ ਸਮਾਂ ਨਹੀਂ - ਸੁਕਾਉਣ ਲਈ ਮੌਸਮ ਬਹੁਤ ਸਿੱਲ੍ਹਾ ਜਾਂ ਗਿੱਲਾ",
+    te: "అంచనాలో కోత సమయం లేదు - ఆరబెట్టడానికి వాతావరణం చాలా తేమగా లేదా తడిగా ఉంది",
+    ta: "முன்னறிவிப்பில் அறுவடைக் காலம் இல்லை - உலர்த்துவதற்கு மிக ஈரப்பதமாக அல்லது ஈரமாக உள்ளது"
+  },
+  "harvest.note.rain_after": {
+    en: "{rain}mm of light rain expected after harvest - cover or move produce",
+    hi: "कटाई के बाद {rain} मिमी हल्की बारिश संभव - उपज को ढकें या हटाएँ",
+    mr: "काढणीनंतर {rain} मिमी हलका पाऊस अपेक्षित - माल झाका किंवा हलवा",
+    pa: "ਵਾਢੀ ਤੋਂ ਬਾਅਦ {rain} ਮਿ.ਮੀ. ਹਲਕਾ ਮੀਂਹ ਸੰਭਵ - ਉਪਜ ਨੂੰ ਢੱਕੋ ਜਾਂ ਹਟਾਓ",
+    te: "కోత తర్వాత {rain} మి.మీ తేలికపాటి వర్షం అవకాశం - దిగుబడిని కప్పండి లేదా తరలించండి",
+    ta: "அறுவடைக்குப் பின் {rain} மி.மீ லேசான மழை எதிர்பார்க்கப்படுகிறது - விளைபொருளை மூடவும் அல்லது இடம் மாற்றவும்"
+  },
+  "harvest.note.beyond_forecast": {
+    en: "Weather after harvest is beyond the forecast - recheck before cutting",
+    hi: "कटाई के बाद का मौसम पूर्वानुमान से बाहर - कटाई से पहले फिर जाँचें",
+    mr: "काढणीनंतरचे हवामान अंदाजाच्या पलीकडे - कापणीपूर्वी पुन्हा तपासा",
+    pa: "ਵਾਢੀ ਤੋਂ ਬਾਅਦ ਦਾ ਮੌਸਮ ਭਵਿੱਖਬਾਣੀ ਤੋਂ ਬਾਹਰ - ਵੱਢਣ ਤੋਂ ਪਹਿਲਾਂ ਦੁਬਾਰਾ ਜਾਂਚੋ",
+    te: "కోత తర్వాతి వాతావరణం అంచనాకు మించి ఉంది - కోసే ముందు మళ్ళీ చూడండి",
+    ta: "அறுவடைக்குப் பிந்தைய காலநிலை முன்னறிவிப்புக்கு அப்பால் - அறுக்கும் முன் மீண்டும் சரிபார்க்கவும்"
+  },
+
+  "sowing.out_of_season": {
+    en: "Outside the usual {season} sowing season for {crop}",
+    hi: "{crop} के सामान्य {season} बुवाई मौसम से बाहर",
+    mr: "{crop} च्या नेहमीच्या {season} पेरणी हंगामाबाहेर",
+    pa: "{crop} ਦੇ ਆਮ {season} ਬਿਜਾਈ ਮੌਸਮ ਤੋਂ ਬਾਹਰ",
+    te: "{crop} సాధారణ {season} విత్తే కాలం కాదు",
+    ta: "{crop} வழக்கமான {season} விதைப்புப் பருவத்திற்கு வெளியே"
+  },
+  "sowing.wait_onset": {
+    en: "Wait for monsoon onset before sowing {crop}",
+    hi: "{crop} की बुवाई से पहले मानसून की शुरुआत का इंतज़ार करें",
+    mr: "{crop} पेरणीपूर्वी मान्सूनच्या आगमनाची वाट पाहा",
+    pa: "{crop} ਦੀ ਬਿਜਾਈ ਤੋਂ ਪਹਿਲਾਂ ਮਾਨਸੂਨ ਦੀ ਸ਼ੁਰੂਆਤ ਦੀ ਉਡੀਕ ਕਰੋ",
+    te: "{crop} విత్తే ముందు రుతుపవనాల ఆరంభం కోసం వేచి ఉండండి",
+    ta: "{crop} விதைப்பதற்கு முன் பருவமழை தொடங்கும் வரை காத்திருக்கவும்"
+  },
+  "sowing.prepare_onset": {
+    en: "Onset rains expected in the forecast - prepare land and seed for {crop}",
+    hi: "पूर्वानुमान में शुरुआती बारिश संभव - {crop} के लिए खेत और बीज तैयार करें",
+    mr: "अंदाजात सुरुवातीचा पाऊस अपेक्षित - {crop} साठी जमीन आणि बियाणे तयार ठेवा",
+    pa: "ਭਵਿੱਖਬਾਣੀ ਵਿੱਚ ਸ਼ੁਰੂਆਤੀ ਮੀਂਹ ਸੰਭਵ - {crop} ਲਈ ਖੇਤ ਅਤੇ ਬੀਜ ਤਿਆਰ ਕਰੋ",
+    te: "అంచనాలో ఆరంభ వర్షాలు - {crop} కోసం నేల, విత్తనం సిద్ధం చేయండి",
+    ta: "முன்னறிவிப்பில் தொடக்க மழை எதிர்பார்க்கப்படுகிறது - {crop} க்கு நிலம் மற்றும் விதையைத் தயார் செய்யவும்"
+  },
+  "sowing.too_warm": {
+    en: "Soil still too warm for {crop}",
+    hi: "{crop} के लिए मिट्टी अभी बहुत गर्म",
+    mr: "{crop} साठी माती अजून खूप उष्ण",
+    pa: "{crop} ਲਈ ਮਿੱਟੀ ਅਜੇ ਬਹੁਤ ਗਰਮ",
+    te: "{crop} కోసం నేల ఇంకా చాలా వేడిగా ఉంది",
+    ta: "{crop} க்கு மண் இன்னும் மிக வெப்பமாக உள்ளது"
+  },
+  "sowing.too_cold": {
+    en: "Soil too cold for {crop} germination",
+    hi: "{crop} के अंकुरण के लिए मिट्टी बहुत ठंडी",
+    mr: "{crop} च्या उगवणीसाठी माती खूप थंड",
+    pa: "{crop} ਦੇ ਪੁੰਗਰਨ ਲਈ ਮਿੱਟੀ ਬਹੁਤ ਠੰਢੀ",
+    te: "{crop} మొలకెత్తడానికి నేల చాలా చల్లగా ఉంది",
+    ta: "{crop} முளைப்பதற்கு மண் மிகக் குளிராக உள்ளது"
+  },
+  "sowing.suitable_from": {
+    en: "{advice} - suitable from about {date}",
+    hi: "{advice} - लगभग {date} से उपयुक्त",
+    mr: "{advice} - सुमारे {date} पासून योग्य",
+    pa: "{advice} - ਲਗਭਗ {date} ਤੋਂ ਢੁਕਵਾਂ",
+    te: "{advice} - సుమారు {date} నుండి అనుకూలం",
+    ta: "{advice} - சுமார் {date} முதல் ஏற்றது"
+  },
+  "sowing.heavy_rain": {
+    en: "Heavy rain in the next 48 hours - delay sowing to avoid seed washout and crusting",
+    hi: "अगले 48 घंटों में भारी बारिश - बीज बहने और पपड़ी जमने से बचने के लिए बुवाई टालें",
+    mr: "पुढील 48 तासांत जोरदार पाऊस - बियाणे वाहून जाणे व मातीवर कवच टाळण्यासाठी पेरणी पुढे ढकला",
+    pa: "ਅਗਲੇ 48 ਘੰਟਿਆਂ ਵਿੱਚ ਭਾਰੀ ਮੀਂਹ - ਬੀਜ ਰੁੜ੍ਹਨ ਅਤੇ ਕਰੰਡ ਤੋਂ ਬਚਣ ਲਈ ਬਿਜਾਈ ਟਾਲੋ",
+    te: "రాబోయే 48 గంటల్లో భారీ వర్షం - విత్తనం కొట్టుకుపోకుండా, నేల గట్టిపడకుండా విత్తడం వాయిదా వేయండి",
+    ta: "அடுத்த 48 மணி நேரத்தில் கனமழை - விதை அடித்துச் செல்லப்படுவதையும் மண் இறுகுவதையும் தவிர்க்க விதைப்பைத் தள்ளிவைக்கவும்"
+  },
+  "sowing.suitable": {
+    en: "Conditions suitable for sowing {crop}",
+    hi: "{crop} की बुवाई के लिए स्थितियाँ उपयुक्त",
+    mr: "{crop} पेरणीसाठी अनुकूल स्थिती",
+    pa: "{crop} ਦੀ ਬਿਜਾਈ ਲਈ ਹਾਲਾਤ ਢੁਕਵੇਂ",
+    te: "{crop} విత్తడానికి పరిస్థితులు అనుకూలం",
+    ta: "{crop} விதைப்பதற்கு ஏற்ற நிலை"
+  },
+  "sowing.reason.soil_temp": {
+    en: "Soil temperature about {temp}°C (germination band {min}-{max}°C)",
+    hi: "मिट्टी का तापमान लगभग {temp}°C (अंकुरण सीमा {min}-{max}°C)",
+    mr: "मातीचे तापमान सुमारे {temp}°C (उगवण मर्यादा {min}-{max}°C)",
+    pa: "ਮਿੱਟੀ ਦਾ ਤਾਪਮਾਨ ਲਗਭਗ {temp}°C (ਪੁੰਗਰਨ ਸੀਮਾ {min}-{max}°C)",
+    te: "నేల ఉష్ణోగ్రత సుమారు {temp}°C (మొలకెత్తే పరిధి {min}-{max}°C)",
+    ta: "மண் வெப்பநிலை சுமார் {temp}°C (முளைப்பு வரம்பு {min}-{max}°C)"
+  },
+  "sowing.reason.onset": {
+    en: "Rainfall onset {status} on {date}",
+    hi: "{date} को वर्षा की शुरुआत ({status})",
+    mr: "{date} रोजी पावसाची सुरुवात ({status})",
+    pa: "{date} ਨੂੰ ਮੀਂਹ ਦੀ ਸ਼ੁਰੂਆਤ ({status})",
+    te: "{date} న వర్షారంభం ({status})",
+    ta: "{date} அன்று மழை தொடக்கம் ({status})"
+  },
+  "sowing.reason.onset_forecast": {
+    en: "Rainfall onset {status} on {date} (forecast)",
+    hi: "{date} को वर्षा की शुरुआत ({status}, पूर्वानुमान)",
+    mr: "{date} रोजी पावसाची सुरुवात ({status}, अंदाज)",
+    pa: "{date} ਨੂੰ ਮੀਂਹ ਦੀ ਸ਼ੁਰੂਆਤ ({status}, ਭਵਿੱਖਬਾਣੀ)",
+    te: "{date} న వర్షారంభం ({status}, అంచనా)",
+    ta: "{date} அன்று மழை தொடக்கம் ({status}, முன்னறிவிப்பு)"
+  },
+  "sowing.reason.no_onset": {
+    en: "No rainfall onset since {start}: waiting for {threshold}mm over {days} days",
+    hi: "{start} से वर्षा की शुरुआत नहीं: {days} दिनों में {threshold} मिमी की प्रतीक्षा",
+    mr: "{start} पासून पावसाची सुरुवात नाही: {days} दिवसांत {threshold} मिमीची प्रतीक्षा",
+    pa: "{start} ਤੋਂ ਮੀਂਹ ਦੀ ਸ਼ੁਰੂਆਤ ਨਹੀਂ: {days} ਦਿਨਾਂ ਵਿੱਚ {threshold} ਮਿ.ਮੀ. ਦੀ ਉਡੀਕ",
+    te: "{start} నుండి వర్షారంభం లేదు: {days} రోజుల్లో {threshold} మి.మీ కోసం వేచి ఉంది",
+    ta: "{start} முதல் மழை தொடக்கம் இல்லை: {days} நாட்களில் {threshold} மி.மீ க்காகக் காத்திருக்கிறது"
+  },
+  "sowing.reason.false_starts": {
+    en: "False starts followed by dry spells: {dates}",
+    hi: "झूठी शुरुआत के बाद सूखे दौर: {dates}",
+    mr: "खोट्या सुरुवातीनंतर कोरडे खंड: {dates}",
+    pa: "ਝੂਠੀ ਸ਼ੁਰੂਆਤ ਤੋਂ ਬਾਅਦ ਸੋਕੇ ਦੇ ਦੌਰ: {dates}",
+    te: "తప్పుడు ఆరంభాల తర్వాత పొడి విరామాలు: {dates}",
+    ta: "தவறான தொடக்கங்களுக்குப் பின் வறண்ட இடைவெளிகள்: {dates}"
+  },
+  "sowing.reason.heavy_rain": {
+    en: "25mm+ rain forecast within 2 days",
+    hi: "2 दिनों में 25 मिमी से अधिक बारिश का पूर्वानुमान",
+    mr: "2 दिवसांत 25 मिमीपेक्षा जास्त पावसाचा अंदाज",
+    pa: "2 ਦਿਨਾਂ ਵਿੱਚ 25 ਮਿ.ਮੀ. ਤੋਂ ਵੱਧ ਮੀਂਹ ਦੀ ਭਵਿੱਖਬਾਣੀ",
+    te: "2 రోజుల్లో 25 మి.మీ కంటే ఎక్కువ వర్ష సూచన",
+    ta: "2 நாட்களில் 25 மி.மீ க்கு மேல் மழை முன்னறிவிப்பு"
+  },
+  "sowing.season.kharif": { en: "kharif", hi: "खरीफ", mr: "खरीप", pa: "ਸਾਉਣੀ", te: "ఖరీఫ్", ta: "காரீப்" },
+  "sowing.season.rabi": { en: "rabi", hi: "रबी", mr: "रब्बी", pa: "ਹਾੜ੍ਹੀ", te: "రబీ", ta: "ராபி" },
+  "sowing.onset.provisional": { en: "provisional", hi: "अस्थायी", mr: "तात्पुरती", pa: "ਆਰਜ਼ੀ", te: "తాత్కాలిక", ta: "தற்காலிக" },
+  "sowing.onset.confirmed": { en: "confirmed", hi: "पुष्ट", mr: "निश्चित", pa: "ਪੱਕੀ", te: "నిర్ధారిత", ta: "உறுதி" },
+
+  "advice.urgent": {
+    en: "⚠️ Urgent action required - check all alerts immediately",
+    hi: "⚠️ तुरंत कार्रवाई ज़रूरी - सभी चेतावनियाँ अभी देखें",
+    mr: "⚠️ त्वरित कृती आवश्यक - सर्व इशारे लगेच पाहा",
+    pa: "⚠️ ਤੁਰੰਤ ਕਾਰਵਾਈ ਲੋੜੀਂਦੀ - ਸਾਰੀਆਂ ਚੇਤਾਵਨੀਆਂ ਹੁਣੇ ਵੇਖੋ",
+    te: "⚠️ తక్షణ చర్య అవసరం - అన్ని హెచ్చరికలను వెంటనే చూడండి",
+    ta: "⚠️ உடனடி நடவடிக்கை தேவை - அனைத்து எச்சரிக்கைகளையும் உடனே பார்க்கவும்"
+  },
+  "advice.high": {
+    en: "⚡ High priority - address within 24 hours",
+    hi: "⚡ उच्च प्राथमिकता - 24 घंटे में ध्यान दें",
+    mr: "⚡ उच्च प्राधान्य - 24 तासांत लक्ष द्या",
+    pa: "⚡ ਉੱਚ ਤਰਜੀਹ - 24 ਘੰਟਿਆਂ ਵਿੱਚ ਧਿਆਨ ਦਿਓ",
+    te: "⚡ అధిక ప్రాధాన్యం - 24 గంటల్లో చర్య తీసుకోండి",
+    ta: "⚡ அதிக முன்னுரிமை - 24 மணி நேரத்தில் கவனிக்கவும்"
+  },
+  "advice.medium": {
+    en: "📋 Medium priority - plan accordingly",
+    hi: "📋 मध्यम प्राथमिकता - उसी अनुसार योजना बनाएँ",
+    mr: "📋 मध्यम प्राधान्य - त्यानुसार नियोजन करा",
+    pa: "📋 ਦਰਮਿਆਨੀ ਤਰਜੀਹ - ਉਸ ਅਨੁਸਾਰ ਯੋਜਨਾ ਬਣਾਓ",
+    te: "📋 మధ్యస్థ ప్రాధాన్యం - తదనుగుణంగా ప్రణాళిక చేయండి",
+    ta: "📋 நடுத்தர முன்னுரிமை - அதற்கேற்பத் திட்டமிடவும்"
+  },
+  "advice.spray_ok": {
+    en: "✅ Good conditions for pesticide/herbicide application",
+    hi: "✅ कीटनाशक/खरपतवारनाशक छिड़काव के लिए अच्छी स्थिति",
+    mr: "✅ कीटकनाशक/तणनाशक फवारणीसाठी चांगली स्थिती",
+    pa: "✅ ਕੀਟਨਾਸ਼ਕ/ਨਦੀਨਨਾਸ਼ਕ ਛਿੜਕਾਅ ਲਈ ਚੰਗੇ ਹਾਲਾਤ",
+    te: "✅ పురుగుమందు/కలుపుమందు పిచికారీకి అనుకూల పరిస్థితులు",
+    ta: "✅ பூச்சிக்கொல்லி/களைக்கொல்லி தெளிப்பதற்கு நல்ல சூழல்"
+  },
+  "advice.re_entry": {
+    en: "🚷 Re-entry interval after {product} until {until} - keep workers out of the field without protective equipment",
+    hi: "🚷 {product} के बाद {until} तक खेत में प्रवेश वर्जित - सुरक्षा उपकरण के बिना मज़दूरों को खेत में न जाने दें",
+    mr: "🚷 {product} नंतर {until} पर्यंत शेतात प्रवेश नाही - संरक्षक साधनांशिवाय मजुरांना शेतात जाऊ देऊ नका",
+    pa: "🚷 {product} ਤੋਂ ਬਾਅਦ {until} ਤੱਕ ਖੇਤ ਵਿੱਚ ਦਾਖ਼ਲਾ ਮਨ੍ਹਾ - ਸੁਰੱਖਿਆ ਸਾਮਾਨ ਤੋਂ ਬਿਨਾਂ ਮਜ਼ਦੂਰਾਂ ਨੂੰ ਖੇਤ ਵਿੱਚ ਨਾ ਜਾਣ ਦਿਓ",
+    te: "🚷 {product} తర్వాత {until} వరకు పొలంలో ప్రవేశం వద్దు - రక్షణ సామగ్రి లేకుండా కూలీలను పొలంలోకి పంపవద్దు",
+    ta: "🚷 {product} க்குப் பிறகு {until} வரை வயலுக்குள் நுழைய வேண்டாம் - பாதுகாப்பு உபகரணம் இல்லாமல் தொழிலாளர்களை அனுமதிக்க வேண்டாம்"
+  },
+  "advice.pre_harvest": {
+    en: "⏳ Pre-harvest interval for {product} until {until} - do not harvest before then",
+    hi: "⏳ {product} की कटाई-पूर्व अवधि {until} तक - उससे पहले कटाई न करें",
+    mr: "⏳ {product} चा काढणीपूर्व कालावधी {until} पर्यंत - त्यापूर्वी काढणी करू नका",
+    pa: "⏳ {product} ਦੀ ਵਾਢੀ ਤੋਂ ਪਹਿਲਾਂ ਦੀ ਮਿਆਦ {until} ਤੱਕ - ਉਸ ਤੋਂ ਪਹਿਲਾਂ ਵਾਢੀ ਨਾ ਕਰੋ",
+    te: "⏳ {product} కోత ముందు విరామం {until} వరకు - అంతకు ముందు కోయవద్దు",
+    ta: "⏳ {product} அறுவடைக்கு முந்தைய இடைவெளி {until} வரை - அதற்கு முன் அறுவடை செய்ய வேண்டாம்"
+  },
+  "advice.rain_skip": {
+    en: "💧 Rain expected - save on irrigation costs",
+    hi: "💧 बारिश की संभावना - सिंचाई का खर्च बचाएँ",
+    mr: "💧 पाऊस अपेक्षित - पाणी देण्याचा खर्च वाचवा",
+    pa: "💧 ਮੀਂਹ ਦੀ ਸੰਭਾਵਨਾ - ਸਿੰਚਾਈ ਦਾ ਖ਼ਰਚਾ ਬਚਾਓ",
+    te: "💧 వర్షం అవకాశం - నీటి తడి ఖర్చు ఆదా చేయండి",
+    ta: "💧 மழை எதிர்பார்க்கப்படுகிறது - நீர்ப்பாசனச் செலவைச் சேமிக்கவும்"
+  },
+  "advice.nutrient": { en: "🌱 {message}", hi: "🌱 {message}", mr: "🌱 {message}", pa: "🌱 {message}", te: "🌱 {message}", ta: "🌱 {message}" },
+  "advice.disease": {
+    en: "🦠 High risk of {diseases} - scout fields and plan protective sprays",
+    hi: "🦠 {diseases} का अधिक जोखिम - खेत की जाँच करें और बचाव छिड़काव की योजना बनाएँ",
+    mr: "🦠 {diseases} चा जास्त धोका - शेताची पाहणी करा आणि प्रतिबंधक फवारणीचे नियोजन करा",
+    pa: "🦠 {diseases} ਦਾ ਜ਼ਿਆਦਾ ਖ਼ਤਰਾ - ਖੇਤ ਦਾ ਸਰਵੇਖਣ ਕਰੋ ਅਤੇ ਬਚਾਅ ਛਿੜਕਾਅ ਦੀ ਯੋਜਨਾ ਬਣਾਓ",
+    te: "🦠 {diseases} అధిక ప్రమాదం - పొలాన్ని పరిశీలించి నివారణ పిచికారీకి ప్రణాళిక చేయండి",
+    ta: "🦠 {diseases} அதிக அபாயம் - வயலை ஆய்வு செய்து தடுப்புத் தெளிப்பைத் திட்டமிடவும்"
+  },
+  "advice.optimal": {
+    en: "🌿 Optimal growing conditions - ideal for field work",
+    hi: "🌿 फसल के लिए बेहतरीन स्थिति - खेत के काम के लिए उपयुक्त",
+    mr: "🌿 वाढीसाठी उत्तम स्थिती - शेतकामासाठी योग्य",
+    pa: "🌿 ਵਾਧੇ ਲਈ ਵਧੀਆ ਹਾਲਾਤ - ਖੇਤ ਦੇ ਕੰਮ ਲਈ ਢੁਕਵੇਂ",
+    te: "🌿 పంట పెరుగుదలకు అనుకూల పరిస్థితులు - పొలం పనులకు అనువైనది",
+    ta: "🌿 வளர்ச்சிக்கு ஏற்ற சூழல் - வயல் வேலைக்கு உகந்தது"
+  },
+  "advice.stage_frost": {
+    en: "🌸 Crop is at {stage} - frost now damages yield directly",
+    hi: "🌸 फसल {stage} अवस्था में है - अभी पाला सीधे उपज घटाएगा",
+    mr: "🌸 पीक {stage} अवस्थेत आहे - आता दंवामुळे थेट उत्पादन घटेल",
+    pa: "🌸 ਫ਼ਸਲ {stage} ਅਵਸਥਾ ਵਿੱਚ ਹੈ - ਹੁਣ ਕੋਰਾ ਸਿੱਧਾ ਝਾੜ ਘਟਾਏਗਾ",
+    te: "🌸 పంట {stage} దశలో ఉంది - ఇప్పుడు మంచు నేరుగా దిగుబడిని దెబ్బతీస్తుంది",
+    ta: "🌸 பயிர் {stage} நிலையில் உள்ளது - இப்போது உறைபனி நேரடியாக மகசூலைப் பாதிக்கும்"
+  },
+  "advice.stage_water": {
+    en: "💧 {stage} is a critical irrigation stage - do not let the root zone dry out",
+    hi: "💧 {stage} सिंचाई की महत्वपूर्ण अवस्था है - जड़ क्षेत्र को सूखने न दें",
+    mr: "💧 {stage} ही पाणी देण्याची महत्त्वाची अवस्था आहे - मुळांचा भाग कोरडा पडू देऊ नका",
+    pa: "💧 {stage} ਸਿੰਚਾਈ ਦੀ ਅਹਿਮ ਅਵਸਥਾ ਹੈ - ਜੜ੍ਹ ਖੇਤਰ ਨੂੰ ਸੁੱਕਣ ਨਾ ਦਿਓ",
+    te: "💧 {stage} నీటి తడికి కీలక దశ - వేరు మండలం ఎండిపోనివ్వకండి",
+    ta: "💧 {stage} நீர்ப்பாசனத்திற்கு முக்கியமான நிலை - வேர் மண்டலம் உலர விடாதீர்கள்"
+  },
+  "advice.stage_heat": {
+    en: "🔥 Heat at {stage} reduces yield - irrigate in the evening to cool the canopy",
+    hi: "🔥 {stage} अवस्था में गर्मी उपज घटाती है - फसल को ठंडा रखने के लिए शाम को सिंचाई करें",
+    mr: "🔥 {stage} अवस्थेत उष्णतेमुळे उत्पादन घटते - पीक थंड ठेवण्यासाठी संध्याकाळी पाणी द्या",
+    pa: "🔥 {stage} ਅਵਸਥਾ ਵਿੱਚ ਗਰਮੀ ਝਾੜ ਘਟਾਉਂਦੀ ਹੈ - ਫ਼ਸਲ ਠੰਢੀ ਰੱਖਣ ਲਈ ਸ਼ਾਮ ਨੂੰ ਸਿੰਚਾਈ ਕਰੋ",
+    te: "🔥 {stage} దశలో వేడి దిగుబడిని తగ్గిస్తుంది - పంటను చల్లబరచడానికి సాయంత్రం నీరు పెట్టండి",
+    ta: "🔥 {stage} நிலையில் வெப்பம் மகசூலைக் குறைக்கும் - பயிரைக் குளிர்விக்க மாலையில் நீர் பாய்ச்சவும்"
+  },
+  "advice.maturity": {
+    en: "🌾 Crop has reached maturity - plan harvest",
+    hi: "🌾 फसल पक गई है - कटाई की योजना बनाएँ",
+    mr: "🌾 पीक तयार झाले आहे - काढणीचे नियोजन करा",
+    pa: "🌾 ਫ਼ਸਲ ਪੱਕ ਗਈ ਹੈ - ਵਾਢੀ ਦੀ ਯੋਜਨਾ ਬਣਾਓ",
+    te: "🌾 పంట కోతకు వచ్చింది - కోత ప్రణాళిక చేయండి",
+    ta: "🌾 பயிர் முதிர்ந்துவிட்டது - அறுவடையைத் திட்டமிடவும்"
+  },
+  "advice.check_updates": {
+    en: "📱 Check updates every 12-24 hours for changing conditions",
+    hi: "📱 बदलते मौसम के लिए हर 12-24 घंटे में जानकारी देखें",
+    mr: "📱 बदलत्या हवामानासाठी दर 12-24 तासांनी माहिती पाहा",
+    pa: "📱 ਬਦਲਦੇ ਹਾਲਾਤ ਲਈ ਹਰ 12-24 ਘੰਟੇ ਜਾਣਕਾਰੀ ਵੇਖੋ",
+    te: "📱 మారుతున్న పరిస్థితుల కోసం ప్రతి 12-24 గంటలకు సమాచారం చూడండి",
+    ta: "📱 மாறும் நிலைமைகளுக்கு ஒவ்வொரு 12-24 மணி நேரமும் தகவல்களைப் பார்க்கவும்"
+  }
+} satisfies Record<string, Translations>;
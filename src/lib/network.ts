@@ -0,0 +1,68 @@
+import { promises as dns } from "dns";
+import { isIP } from "net";
+
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4]
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((value, octet) => value * 256 + parseInt(octet), 0);
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private, shared, multicast or reserved
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  if (isIP(address) === 4) {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+      const size = Math.pow(2, 32 - bits);
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+    });
+  }
+
+  const normalized = address.toLowerCase();
+  return normalized === "::" || normalized === "::1" ||
+    /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized) || normalized.startsWith("ff");
+}
+
+/**
+ * Whether a URL host name is a private address or a name reserved for local networks
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (isIP(host)) {
+    return isPrivateAddress(host);
+  }
+  return host === "localhost" || /\.(localhost|local|internal|lan|home\.arpa)$/.test(host);
+}
+
+/**
+ * Whether a host name is, or resolves to, an address on a private network
+ */
+export async function resolvesToPrivateNetwork(hostname: string): Promise<boolean> {
+  if (isPrivateHost(hostname)) {
+    return true;
+  }
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) {
+    return false;
+  }
+
+  const addresses = await dns.lookup(host, { all: true });
+  return addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address));
+}
@@ -1,7 +1,18 @@
 import * as cron from "node-cron";
 import { marketService } from "../services/market";
+import { weatherService } from "../services/weather";
+import { weatherHistoryService } from "../services/history";
+import { alertService } from "../services/alerts";
+import { webhookService } from "../services/webhooks";
+import { notificationService } from "../services/notifications";
+import { advisoryMonitorService } from "../services/monitor";
+import { streamService } from "../services/stream";
 
 class SchedulerService {
+  private readonly MARKET_SCRAPE = process.env.MARKET_SCRAPE !== "false";
+  private readonly MARKET_FETCH_ON_BOOT = process.env.MARKET_FETCH_ON_BOOT !== "false";
+  // Snapshots of the local provider would store fixture data as observed history
+  private readonly WEATHER_SNAPSHOT = (process.env.WEATHER_SNAPSHOT ?? String(process.env.WEATHER_PROVIDER !== "local")) !== "false";
   private isInitialized = false;
 
   /**
@@ -12,17 +23,62 @@ class SchedulerService {
       return;
     }
 
-    cron.schedule("0 * * * *", async () => {
+    if (this.MARKET_SCRAPE) {
+      cron.schedule("0 * * * *", async () => {
+        try {
+          await marketService.fetchAndSaveMarketPrices();
+        } catch (error) {
+          console.error("❌ Scheduled market price update failed:", error);
+        }
+      });
+    }
+
+    if (this.WEATHER_SNAPSHOT) {
+      cron.schedule("15 * * * *", async () => {
+        try {
+          await this.snapshotWeather();
+        } catch (error) {
+          console.error("❌ Scheduled weather snapshot failed:", error);
+        }
+      });
+    }
+
+    // After the snapshot so alerts see the latest observations
+    cron.schedule("30 * * * *", async () => {
+      try {
+        await this.evaluateAlerts();
+      } catch (error) {
+        console.error("❌ Scheduled alert evaluation failed:", error);
+      }
+    });
+
+    cron.schedule("40 * * * *", async () => {
       try {
-        await marketService.fetchAndSaveMarketPrices();
+        await this.checkAdvisories();
       } catch (error) {
-        console.error("❌ Scheduled market price update failed:", error);
+        console.error("❌ Scheduled advisory check failed:", error);
       }
     });
 
-    this.runInitialFetch();
+    cron.schedule("* * * * *", async () => {
+      try {
+        await webhookService.retryDue();
+      } catch (error) {
+        console.error("❌ Scheduled webhook retry failed:", error);
+      }
+    });
+
+    webhookService.init();
+    notificationService.init();
+    streamService.init();
+
+    if (this.MARKET_FETCH_ON_BOOT) {
+      this.runInitialFetch();
+    }
     this.isInitialized = true;
-    console.log("✅ Market price scheduler initialized");
+    console.log("✅ Alert, advisory, webhook and notification scheduler initialized");
+    console.log(`📈 Market price scraping: ${this.MARKET_SCRAPE ? "hourly" : "off"}, on startup: ${this.MARKET_FETCH_ON_BOOT ? "yes" : "no"}`);
+    console.log(`🌦️ Weather snapshots: ${this.WEATHER_SNAPSHOT ? "hourly" : "off"}`);
   }
 
   /**
@@ -36,6 +92,42 @@ class SchedulerService {
     }
   }
 
+  /**
+   * Snapshot current weather and forecast for every active registered location
+   */
+  async snapshotWeather() {
+    const locations = await weatherHistoryService.listLocations(true);
+    let observations = 0;
+    let forecastRows = 0;
+
+    for (const location of locations) {
+      try {
+        const result = await weatherService.captureSnapshot(location.lat, location.lon);
+        observations += result.observations;
+        forecastRows += result.forecastRows;
+      } catch (error) {
+        console.error(`❌ Weather snapshot failed for ${location.name}:`, error);
+      }
+    }
+
+    console.log(`🌦️ Weather snapshot: ${observations} observations, ${forecastRows} forecast rows for ${locations.length} locations`);
+    return { locations: locations.length, observations, forecastRows };
+  }
+
+  /**
+   * Evaluate frost, heat and irrigation alerts for every active subscription
+   */
+  async evaluateAlerts() {
+    return alertService.evaluateAll();
+  }
+
+  /**
+   * Recompute field advisories and publish priority changes
+   */
+  async checkAdvisories() {
+    return advisoryMonitorService.checkAll();
+  }
+
   /**
    * Manually trigger market price update
    */
@@ -0,0 +1,52 @@
+export interface TimezoneInfo {
+  offsetSeconds: number;
+  utcOffset: string;
+}
+
+/**
+ * Describe a fixed UTC offset, e.g. 19800 -> "+05:30"
+ */
+export function describeOffset(offsetSeconds: number): TimezoneInfo {
+  const sign = offsetSeconds < 0 ? "-" : "+";
+  const minutes = Math.round(Math.abs(offsetSeconds) / 60);
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+
+  return { offsetSeconds, utcOffset: `${sign}${hh}:${mm}` };
+}
+
+/**
+ * Rough offset from longitude (nearest half hour) when the provider gives none
+ */
+export function estimateOffset(lon: number): number {
+  return Math.round((lon / 15) * 2) / 2 * 3600;
+}
+
+/**
+ * Local wall-clock date (YYYY-MM-DD) of a unix timestamp
+ */
+export function toLocalDate(timestamp: number, offsetSeconds: number): string {
+  return new Date((timestamp + offsetSeconds) * 1000).toISOString().split('T')[0];
+}
+
+/**
+ * Local wall-clock hour (0-23) of a unix timestamp
+ */
+export function toLocalHour(timestamp: number, offsetSeconds: number): number {
+  return new Date((timestamp + offsetSeconds) * 1000).getUTCHours();
+}
+
+/**
+ * ISO 8601 timestamp in local time with its offset, e.g. 2025-07-01T08:30:00+05:30
+ */
+export function toLocalISOString(timestamp: number, offsetSeconds: number): string {
+  const local = new Date((timestamp + offsetSeconds) * 1000).toISOString().split('.')[0];
+  return `${local}${describeOffset(offsetSeconds).utcOffset}`;
+}
+
+/**
+ * Unix timestamp of local midnight at the start of a YYYY-MM-DD date
+ */
+export function localMidnight(date: string, offsetSeconds: number): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000) - offsetSeconds;
+}
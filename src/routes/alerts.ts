@@ -0,0 +1,312 @@
+import { Router } from "express";
+import { ALERT_SEVERITIES, ALERT_TYPES, alertService, AlertSeverity, AlertStatus, AlertSubscriptionInput, AlertType } from "../services/alerts";
+import { farmService } from "../services/farm";
+import { LANGUAGES, resolveLanguage } from "../lib/i18n";
+import schedulerService from "../lib/scheduler";
+
+const router = Router();
+
+/**
+ * A subscription is evaluated for its field or, without one, for its coordinates
+ */
+function hasTarget(target: Pick<AlertSubscriptionInput, "fieldId" | "lat" | "lon">): boolean {
+  return !!target.fieldId || (target.lat != null && target.lon != null);
+}
+
+/**
+ * Validate a subscription body. With `partial` only the supplied properties are
+ * checked; a new subscription needs either a fieldId or lat and lon.
+ */
+async function parseSubscriptionInput(body: any, partial: boolean): Promise<{ input?: Partial<AlertSubscriptionInput>; error?: string }> {
+  const input: Partial<AlertSubscriptionInput> = {};
+
+  if (body.owner !== undefined || !partial) {
+    if (typeof body.owner !== "string" || body.owner.trim() === "") {
+      return { error: "owner is required" };
+    }
+    input.owner = body.owner.trim();
+  }
+
+  if (body.name !== undefined) {
+    if (body.name !== null && typeof body.name !== "string") {
+      return { error: "name must be a string" };
+    }
+    input.name = body.name;
+  }
+
+  if (body.fieldId !== undefined) {
+    if (body.fieldId !== null) {
+      const field = typeof body.fieldId === "string" ? await farmService.getField(body.fieldId) : null;
+      if (!field) {
+        return { error: `Unknown field: ${body.fieldId}` };
+      }
+    }
+    input.fieldId = body.fieldId;
+  }
+
+  for (const key of ["lat", "lon"] as const) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && (typeof body[key] !== "number" || isNaN(body[key]))) {
+      return { error: `${key} must be a number` };
+    }
+    input[key] = body[key];
+  }
+
+  if (!partial && !hasTarget(input)) {
+    return { error: "Please provide a fieldId or lat and lon" };
+  }
+
+  if (body.alertTypes !== undefined || !partial) {
+    if (!Array.isArray(body.alertTypes) || body.alertTypes.length === 0 || !body.alertTypes.every((type: any) => ALERT_TYPES.includes(type))) {
+      return { error: `alertTypes must be a non-empty list of: ${ALERT_TYPES.join(", ")}` };
+    }
+    input.alertTypes = Array.from(new Set(body.alertTypes as AlertType[]));
+  }
+
+  if (body.minSeverity !== undefined || !partial) {
+    const minSeverity = body.minSeverity ?? "moderate";
+    if (!ALERT_SEVERITIES.includes(minSeverity)) {
+      return { error: `minSeverity must be one of: ${ALERT_SEVERITIES.join(", ")}` };
+    }
+    input.minSeverity = minSeverity as AlertSeverity;
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") {
+      return { error: "active must be true or false" };
+    }
+    input.active = body.active;
+  }
+
+  return { input };
+}
+
+
+router.get("/subscriptions", async (req, res) => {
+  try {
+    const subscriptions = await alertService.listSubscriptions(req.query.owner as string | undefined);
+    return res.json({ success: true, data: subscriptions, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in alert subscriptions endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list alert subscriptions"
+    });
+  }
+});
+
+
+router.post("/subscriptions", async (req, res) => {
+  try {
+    const { input, error } = await parseSubscriptionInput(req.body || {}, false);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid subscription",
+        message: error
+      });
+    }
+
+    const subscription = await alertService.createSubscription(input as AlertSubscriptionInput);
+    return res.status(201).json({ success: true, data: subscription, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in create alert subscription endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to create alert subscription"
+    });
+  }
+});
+
+
+router.get("/subscriptions/:id", async (req, res) => {
+  try {
+    const subscription = await alertService.getSubscription(req.params.id);
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: "Subscription not found"
+      });
+    }
+
+    return res.json({ success: true, data: subscription, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in alert subscription endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to fetch alert subscription"
+    });
+  }
+});
+
+
+router.patch("/subscriptions/:id", async (req, res) => {
+  try {
+    const { input, error } = await parseSubscriptionInput(req.body || {}, true);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid subscription",
+        message: error
+      });
+    }
+
+    const existing = await alertService.getSubscription(req.params.id);
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: "Subscription not found"
+      });
+    }
+
+    if (!hasTarget({ ...existing, ...input })) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid subscription",
+        message: "A subscription needs a fieldId or lat and lon"
+      });
+    }
+
+    const subscription = await alertService.updateSubscription(req.params.id, input!);
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: "Subscription not found"
+      });
+    }
+
+    return res.json({ success: true, data: subscription, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in update alert subscription endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to update alert subscription"
+    });
+  }
+});
+
+
+router.delete("/subscriptions/:id", async (req, res) => {
+  try {
+    const deleted = await alertService.deleteSubscription(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "Subscription not found"
+      });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Error in delete alert subscription endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to delete alert subscription"
+    });
+  }
+});
+
+
+router.post("/evaluate", async (req, res) => {
+  try {
+    const result = await schedulerService.evaluateAlerts();
+    return res.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error in alert evaluation endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to evaluate alerts"
+    });
+  }
+});
+
+
+router.get("/", async (req, res) => {
+  try {
+    const { status, owner, subscriptionId, fieldId, limit } = req.query;
+    if (status && status !== "active" && status !== "resolved") {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "status must be active or resolved"
+      });
+    }
+
+    const take = limit ? parseInt(limit as string) : undefined;
+    if (take !== undefined && (isNaN(take) || take <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "limit must be a positive integer"
+      });
+    }
+
+    const language = resolveLanguage(req.query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
+      });
+    }
+
+    const alerts = await alertService.listAlerts({
+      status: status as AlertStatus | undefined,
+      owner: owner as string | undefined,
+      subscriptionId: subscriptionId as string | undefined,
+      fieldId: fieldId as string | undefined,
+      limit: take
+    }, language);
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
+    return res.json({ success: true, data: alerts, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in alerts endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list alerts"
+    });
+  }
+});
+
+
+router.get("/:id", async (req, res) => {
+  try {
+    const language = resolveLanguage(req.query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
+      });
+    }
+
+    const alert = await alertService.getAlert(req.params.id, language);
+    if (!alert) {
+      return res.status(404).json({
+        success: false,
+        error: "Alert not found"
+      });
+    }
+
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
+    return res.json({ success: true, data: alert, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in alert endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to fetch alert"
+    });
+  }
+});
+
+export default router;
@@ -1,26 +1,171 @@
 import { Router } from "express";
-import { agriculturalService } from "../services/agricultural";
+import { agriculturalService, AdvisoryOptions } from "../services/agricultural";
+import { SOIL_PRESETS, SoilTexture, waterBalanceService } from "../services/waterbalance";
+import { cropService, CropInput } from "../services/crops";
+import { farmService, IRRIGATION_TYPES, IrrigationType } from "../services/farm";
+import { phenologyService } from "../services/phenology";
+import { diseaseRiskService } from "../services/disease";
+import { PRODUCT_CLASSES, ProductClass, sprayPlannerService } from "../services/spraying";
+import { HARVEST_PROFILES, HarvestType, harvestService } from "../services/harvest";
+import { sowingService } from "../services/sowing";
+import { CHILL_VARIETIES, ChillVariety, chillService } from "../services/chill";
+import { FERTILIZER_TYPES, FertilizerType, nutrientAdvisorService } from "../services/nutrient";
+import { LANGUAGES, resolveLanguage } from "../lib/i18n";
 
 const router = Router();
 
+/**
+ * Parse optional crop and soil water balance parameters from the query string.
+ * A crop profile supplies root depth, allowed depletion and Kc unless given explicitly;
+ * the irrigation type turns the net refill into the depth to run through that system.
+ */
+async function parseAdvisoryOptions(query: any): Promise<{ options?: AdvisoryOptions; error?: string }> {
+  const { crop, sowingDate, soil, irrigationType, rootDepth, mad, kc, since, product, fertilizer, fieldId } = query;
+  let options: AdvisoryOptions = {};
+
+  if (sowingDate && !/^\d{4}-\d{2}-\d{2}$/.test(sowingDate as string)) {
+    return { error: "sowingDate must be in YYYY-MM-DD format" };
+  }
+
+  if (crop) {
+    const profile = await cropService.getCrop(crop as string);
+    if (!profile) {
+      return { error: `Unknown crop: ${crop}` };
+    }
+    options = { ...cropService.getWaterBalanceOptions(profile, sowingDate as string | undefined), crop: profile };
+  }
+
+  if (sowingDate) {
+    options.sowingDate = sowingDate as string;
+  }
+
+  if (soil) {
+    if (!Object.prototype.hasOwnProperty.call(SOIL_PRESETS, soil as string)) {
+      return { error: `soil must be one of: ${Object.keys(SOIL_PRESETS).join(", ")}` };
+    }
+    options.soil = soil as SoilTexture;
+  }
+
+  if (irrigationType) {
+    if (!IRRIGATION_TYPES.includes(irrigationType as IrrigationType)) {
+      return { error: `irrigationType must be one of: ${IRRIGATION_TYPES.join(", ")}` };
+    }
+    options.irrigationType = irrigationType as IrrigationType;
+  }
+
+  const numbers: [string, unknown, "rootDepth" | "managementAllowedDepletion" | "cropCoefficient"][] = [
+    ["rootDepth", rootDepth, "rootDepth"],
+    ["mad", mad, "managementAllowedDepletion"],
+    ["kc", kc, "cropCoefficient"]
+  ];
+  for (const [name, value, key] of numbers) {
+    if (value === undefined) continue;
+    const parsed = parseFloat(value as string);
+    if (isNaN(parsed) || parsed <= 0) {
+      return { error: `${name} must be a positive number` };
+    }
+    options[key] = parsed;
+  }
+
+  if (since) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(since as string)) {
+      return { error: "since must be in YYYY-MM-DD format" };
+    }
+    options.startDate = since as string;
+  }
+
+  if (product) {
+    if (!Object.prototype.hasOwnProperty.call(PRODUCT_CLASSES, product as string)) {
+      return { error: `product must be one of: ${Object.keys(PRODUCT_CLASSES).join(", ")}` };
+    }
+    options.sprayProduct = product as ProductClass;
+  }
+
+  if (fertilizer) {
+    if (!Object.prototype.hasOwnProperty.call(FERTILIZER_TYPES, fertilizer as string)) {
+      return { error: `fertilizer must be one of: ${Object.keys(FERTILIZER_TYPES).join(", ")}` };
+    }
+    options.fertilizer = fertilizer as FertilizerType;
+  }
+
+  if (fieldId) {
+    options.fieldId = fieldId as string;
+  }
+
+  return { options };
+}
+
+/**
+ * Resolve coordinates from a stored field (fieldId) or lat/lon. Explicit query
+ * parameters override the field's stored crop, sowing date, soil and irrigation type.
+ */
+async function resolveAdvisoryQuery(query: any): Promise<{ lat?: number; lon?: number; query: any; fieldNotFound?: boolean }> {
+  if (!query.fieldId) {
+    return {
+      lat: query.lat ? parseFloat(query.lat as string) : undefined,
+      lon: query.lon ? parseFloat(query.lon as string) : undefined,
+      query
+    };
+  }
+
+  const field = await farmService.getField(query.fieldId as string);
+  if (!field) {
+    return { query, fieldNotFound: true };
+  }
+
+  return {
+    lat: field.lat,
+    lon: field.lon,
+    query: { crop: field.cropCode, sowingDate: field.sowingDate, soil: field.soil, irrigationType: field.irrigationType, ...query }
+  };
+}
+
 
 router.get("/advisory", async (req, res) => {
   try {
-    const { lat, lon } = req.query;
-    
-    if (!lat || !lon) {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
       return res.status(400).json({
         success: false,
         error: "Missing coordinates",
-        message: "Please provide lat and lon parameters"
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions(query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error
+      });
+    }
+
+    const language = resolveLanguage(query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
       });
     }
 
     const advisory = await agriculturalService.getCropAdvisory(
-      parseFloat(lat as string), 
-      parseFloat(lon as string)
+      lat,
+      lon,
+      { ...options, language }
     );
     
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
     res.json(advisory);
   } catch (error) {
     console.error("Error in farm advisory endpoint:", error);
@@ -35,21 +180,49 @@ router.get("/advisory", async (req, res) => {
 
 router.get("/frost-alert", async (req, res) => {
   try {
-    const { lat, lon } = req.query;
-    
-    if (!lat || !lon) {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
       return res.status(400).json({
         success: false,
         error: "Missing coordinates",
-        message: "Please provide lat and lon parameters"
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions({ crop: query.crop, sowingDate: query.sowingDate });
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error
+      });
+    }
+
+    const language = resolveLanguage(query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
       });
     }
 
     const frostAlert = await agriculturalService.getFrostAlert(
-      parseFloat(lat as string), 
-      parseFloat(lon as string)
+      lat,
+      lon,
+      { ...options, language }
     );
     
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
     res.json(frostAlert);
   } catch (error) {
     console.error("Error in frost alert endpoint:", error);
@@ -64,21 +237,49 @@ router.get("/frost-alert", async (req, res) => {
 
 router.get("/irrigation-advice", async (req, res) => {
   try {
-    const { lat, lon } = req.query;
-    
-    if (!lat || !lon) {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
       return res.status(400).json({
         success: false,
         error: "Missing coordinates",
-        message: "Please provide lat and lon parameters"
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions(query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error
+      });
+    }
+
+    const language = resolveLanguage(query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
       });
     }
 
     const irrigationAdvice = await agriculturalService.getIrrigationAdvice(
-      parseFloat(lat as string), 
-      parseFloat(lon as string)
+      lat,
+      lon,
+      { ...options, language }
     );
     
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
     res.json(irrigationAdvice);
   } catch (error) {
     console.error("Error in irrigation advice endpoint:", error);
@@ -90,4 +291,648 @@ router.get("/irrigation-advice", async (req, res) => {
   }
 });
 
-export default router; 
\ No newline at end of file
+router.get("/phenology", async (req, res) => {
+  try {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions({ crop: query.crop, sowingDate: query.sowingDate });
+    if (error || !options?.crop || !options.sowingDate) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error || "Please provide crop and sowingDate (YYYY-MM-DD)"
+      });
+    }
+
+    const phenology = await phenologyService.getPhenology(lat, lon, options.crop, options.sowingDate);
+    return res.json(phenology);
+  } catch (error) {
+    console.error("Error in phenology endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to determine crop stage"
+    });
+  }
+});
+
+
+router.get("/disease-risk", async (req, res) => {
+  try {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions({ crop: query.crop, sowingDate: query.sowingDate });
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error
+      });
+    }
+
+    const language = resolveLanguage(query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
+      });
+    }
+
+    const diseaseRisk = await diseaseRiskService.getDiseaseRisk(lat, lon, { ...options, language });
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
+    return res.json(diseaseRisk);
+  } catch (error) {
+    console.error("Error in disease risk endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to assess disease risk"
+    });
+  }
+});
+
+
+router.get("/spray-plan", async (req, res) => {
+  try {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions({ product: query.product });
+    const limit = query.limit ? parseInt(query.limit as string) : 10;
+    if (error || isNaN(limit) || limit < 1) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error || "limit must be a positive integer"
+      });
+    }
+
+    const language = resolveLanguage(query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
+      });
+    }
+
+    const plan = await sprayPlannerService.getSprayPlan(lat, lon, options!.sprayProduct, limit, language);
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
+    return res.json(plan);
+  } catch (error) {
+    console.error("Error in spray plan endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to plan spray slots"
+    });
+  }
+});
+
+
+router.get("/harvest-windows", async (req, res) => {
+  try {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions({ crop: query.crop });
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error
+      });
+    }
+
+    const { type } = query;
+    if (type && !Object.prototype.hasOwnProperty.call(HARVEST_PROFILES, type as string)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `type must be one of: ${Object.keys(HARVEST_PROFILES).join(", ")}`
+      });
+    }
+
+    const language = resolveLanguage(query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
+      });
+    }
+
+    const plan = await harvestService.getHarvestWindows(lat, lon, options!.crop, type as HarvestType | undefined, language);
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
+    return res.json(plan);
+  } catch (error) {
+    console.error("Error in harvest windows endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to find harvest windows"
+    });
+  }
+});
+
+
+router.get("/nutrient-advice", async (req, res) => {
+  try {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions({ fertilizer: query.fertilizer, soil: query.soil });
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error
+      });
+    }
+
+    const language = resolveLanguage(query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
+      });
+    }
+
+    const advice = await nutrientAdvisorService.getNutrientAdvice(lat, lon, options!.fertilizer, options!.soil, language);
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
+    return res.json(advice);
+  } catch (error) {
+    console.error("Error in nutrient advice endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to generate nutrient advice"
+    });
+  }
+});
+
+
+router.get("/sowing-advice", async (req, res) => {
+  try {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    if (!query.crop) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing crop",
+        message: "Please provide a crop parameter or a fieldId with a crop"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions({ crop: query.crop });
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error
+      });
+    }
+
+    const { seasonStart, irrigated, irrigationType } = query;
+    if (seasonStart && !/^\d{4}-\d{2}-\d{2}$/.test(seasonStart as string)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "seasonStart must be in YYYY-MM-DD format"
+      });
+    }
+
+    const language = resolveLanguage(query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
+      });
+    }
+
+    const advice = await sowingService.getSowingAdvice(lat, lon, options!.crop!, {
+      seasonStart: seasonStart as string | undefined,
+      irrigated: irrigated !== undefined ? irrigated === "true" : irrigationType !== undefined && irrigationType !== "rainfed",
+      language
+    });
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
+    return res.json(advice);
+  } catch (error) {
+    console.error("Error in sowing advice endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to generate sowing advice"
+    });
+  }
+});
+
+
+router.get("/chill", async (req, res) => {
+  try {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { startDate, variety } = query;
+    if (startDate && !/^\d{4}-\d{2}-\d{2}$/.test(startDate as string)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "startDate must be in YYYY-MM-DD format"
+      });
+    }
+
+    if (variety && !Object.prototype.hasOwnProperty.call(CHILL_VARIETIES, variety as string)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `variety must be one of: ${Object.keys(CHILL_VARIETIES).join(", ")}`
+      });
+    }
+
+    // Explicit requirements override the variety's, or define a custom one without a variety
+    let requirement: ChillVariety | undefined = variety ? { ...CHILL_VARIETIES[variety as string] } : undefined;
+    for (const model of ["chillHours", "utahUnits", "chillPortions"] as const) {
+      if (query[model] === undefined) continue;
+      const parsed = parseFloat(query[model] as string);
+      if (isNaN(parsed) || parsed <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid parameters",
+          message: `${model} must be a positive number`
+        });
+      }
+      requirement = requirement || { code: "custom", crop: "custom", name: "Custom requirement", chillHours: 0, utahUnits: 0, chillPortions: 0 };
+      requirement[model] = parsed;
+    }
+
+    const language = resolveLanguage(query.lang, req.headers["accept-language"]);
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
+      });
+    }
+
+    const chill = await chillService.getChillAccumulation(lat, lon, startDate as string | undefined, requirement);
+    res.set("Content-Language", language);
+    res.vary("Accept-Language");
+    return res.json(chill);
+  } catch (error) {
+    console.error("Error in chill endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to calculate chill accumulation"
+    });
+  }
+});
+
+
+router.get("/chill/varieties", async (req, res) => {
+  return res.json({
+    success: true,
+    data: Object.values(CHILL_VARIETIES),
+    timestamp: new Date().toISOString()
+  });
+});
+
+
+router.get("/water-balance", async (req, res) => {
+  try {
+    const { lat, lon, query, fieldNotFound } = await resolveAdvisoryQuery(req.query);
+
+    if (fieldNotFound) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (lat === undefined || lon === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters or a fieldId"
+      });
+    }
+
+    const { options, error } = await parseAdvisoryOptions(query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error
+      });
+    }
+
+    const balance = await waterBalanceService.getWaterBalance(
+      lat,
+      lon,
+      options
+    );
+    
+    return res.json(balance);
+  } catch (error) {
+    console.error("Error in water balance endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to calculate water balance"
+    });
+  }
+});
+
+
+router.get("/irrigation-events", async (req, res) => {
+  try {
+    const { lat, lon, since } = req.query;
+    
+    if (!lat || !lon) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters"
+      });
+    }
+
+    const events = await waterBalanceService.listIrrigations(
+      parseFloat(lat as string), 
+      parseFloat(lon as string),
+      (since as string) || "0000-01-01"
+    );
+    
+    return res.json({ success: true, data: events });
+  } catch (error) {
+    console.error("Error in irrigation events endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list irrigation events"
+    });
+  }
+});
+
+
+router.post("/irrigation-events", async (req, res) => {
+  try {
+    const { lat, lon, date, amountMm, note } = req.body || {};
+
+    if (lat === undefined || lon === undefined || isNaN(parseFloat(lat)) || isNaN(parseFloat(lon))) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon in the request body"
+      });
+    }
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(parseFloat(amountMm)) || parseFloat(amountMm) <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid irrigation event",
+        message: "Please provide date (YYYY-MM-DD) and a positive amountMm"
+      });
+    }
+
+    const event = await waterBalanceService.logIrrigation(
+      parseFloat(lat),
+      parseFloat(lon),
+      date,
+      parseFloat(amountMm),
+      note
+    );
+
+    return res.status(201).json({ success: true, data: event });
+  } catch (error) {
+    console.error("Error in log irrigation endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to log irrigation event"
+    });
+  }
+});
+
+router.get("/crops", async (req, res) => {
+  try {
+    const crops = await cropService.listCrops();
+    return res.json(crops);
+  } catch (error) {
+    console.error("Error in crops endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list crops"
+    });
+  }
+});
+
+
+router.get("/crops/:code", async (req, res) => {
+  try {
+    const crop = await cropService.getCrop(req.params.code);
+    if (!crop) {
+      return res.status(404).json({
+        success: false,
+        error: "Crop not found",
+        message: `No crop profile for ${req.params.code}`
+      });
+    }
+
+    return res.json({ success: true, data: crop, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in crop endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to fetch crop"
+    });
+  }
+});
+
+
+router.put("/crops/:code", async (req, res) => {
+  try {
+    const body = req.body || {};
+    const numbers = [
+      body.frostKillTemp, body.heatStressTemp, body.gddBase, body.gddUpper,
+      body.kc?.initial, body.kc?.mid, body.kc?.end,
+      body.stageDays?.initial, body.stageDays?.development, body.stageDays?.mid, body.stageDays?.late,
+      body.rootDepth, body.depletionFraction, body.seasonalWaterMm
+    ];
+
+    if (!body.name || !body.category || numbers.some(value => typeof value !== "number" || isNaN(value))) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid crop profile",
+        message: "Please provide name, category, frostKillTemp, heatStressTemp, gddBase, gddUpper, kc {initial, mid, end}, stageDays {initial, development, mid, late}, rootDepth, depletionFraction and seasonalWaterMm"
+      });
+    }
+
+    if (body.gddUpper <= body.gddBase || body.depletionFraction <= 0 || body.depletionFraction >= 1 || body.rootDepth <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid crop profile",
+        message: "gddUpper must exceed gddBase, depletionFraction must be between 0 and 1 and rootDepth must be positive"
+      });
+    }
+
+    // Stages left out keep the ones already stored for the crop
+    const stages = body.stages;
+    const validStages = stages === undefined || Array.isArray(stages) && stages.every((stage: any, i: number) =>
+      typeof stage.code === "string" && typeof stage.name === "string" &&
+      typeof stage.startGdd === "number" && (i === 0 || stage.startGdd > stages[i - 1].startGdd) &&
+      Array.isArray(stage.critical) && stage.critical.every((item: any) => ["frost", "water", "heat"].includes(item))
+    );
+    if (!validStages) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid crop profile",
+        message: "stages must be a list of {code, name, startGdd, critical} in increasing startGdd order, critical being frost, water or heat"
+      });
+    }
+
+    const definition: CropInput = {
+      code: req.params.code.trim().toLowerCase(),
+      name: body.name,
+      category: body.category,
+      frostKillTemp: body.frostKillTemp,
+      heatStressTemp: body.heatStressTemp,
+      gddBase: body.gddBase,
+      gddUpper: body.gddUpper,
+      kc: { initial: body.kc.initial, mid: body.kc.mid, end: body.kc.end },
+      stageDays: {
+        initial: body.stageDays.initial,
+        development: body.stageDays.development,
+        mid: body.stageDays.mid,
+        late: body.stageDays.late
+      },
+      rootDepth: body.rootDepth,
+      depletionFraction: body.depletionFraction,
+      seasonalWaterMm: body.seasonalWaterMm,
+      stages
+    };
+
+    const crop = await cropService.saveCrop(definition);
+    return res.json({ success: true, data: crop, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in save crop endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to save crop"
+    });
+  }
+});
+
+export default router;
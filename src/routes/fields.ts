@@ -0,0 +1,610 @@
+import { Router } from "express";
+import { farmService, FarmInput, FieldInput, GeoPolygon, IRRIGATION_TYPES, IrrigationType } from "../services/farm";
+import { SOIL_PRESETS, SoilTexture } from "../services/waterbalance";
+import { cropService } from "../services/crops";
+import { ACTIVITY_TYPES, activityService, ActivityType, FieldActivityInput } from "../services/activity";
+import { PRODUCT_CLASSES, ProductClass } from "../services/spraying";
+
+const router = Router();
+
+/**
+ * Check a GeoJSON Polygon with a single closed [lon, lat] outer ring
+ */
+function isPolygon(value: any): value is GeoPolygon {
+  if (!value || value.type !== "Polygon" || !Array.isArray(value.coordinates) || !Array.isArray(value.coordinates[0])) {
+    return false;
+  }
+
+  const ring = value.coordinates[0];
+  const validPoints = ring.every((point: any) =>
+    Array.isArray(point) && point.length >= 2 &&
+    typeof point[0] === "number" && Math.abs(point[0]) <= 180 &&
+    typeof point[1] === "number" && Math.abs(point[1]) <= 90
+  );
+
+  const closed = validPoints && ring.length >= 4 &&
+    ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+
+  return closed;
+}
+
+/**
+ * Validate a farm body. With `partial` only the supplied properties are checked.
+ */
+function parseFarmInput(body: any, partial: boolean): { input?: Partial<FarmInput>; error?: string } {
+  const input: Partial<FarmInput> = {};
+
+  for (const key of ["owner", "name"] as const) {
+    if (body[key] === undefined && partial) continue;
+    if (typeof body[key] !== "string" || body[key].trim() === "") {
+      return { error: `${key} is required` };
+    }
+    input[key] = body[key].trim();
+  }
+
+  for (const key of ["lat", "lon"] as const) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && (typeof body[key] !== "number" || isNaN(body[key]))) {
+      return { error: `${key} must be a number` };
+    }
+    input[key] = body[key];
+  }
+
+  return { input };
+}
+
+/**
+ * Validate a field body. With `partial` only the supplied properties are checked.
+ */
+async function parseFieldInput(body: any, partial: boolean): Promise<{ input?: Partial<FieldInput>; error?: string }> {
+  const input: Partial<FieldInput> = {};
+
+  if (!partial) {
+    if (typeof body.farmId !== "string" || body.farmId === "") {
+      return { error: "farmId is required" };
+    }
+    input.farmId = body.farmId;
+  }
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || body.name.trim() === "") {
+      return { error: "name is required" };
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.boundary !== undefined) {
+    if (body.boundary !== null && !isPolygon(body.boundary)) {
+      return { error: "boundary must be a GeoJSON Polygon with a closed [lon, lat] ring" };
+    }
+    input.boundary = body.boundary;
+  }
+
+  for (const key of ["lat", "lon", "areaHa"] as const) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== "number" || isNaN(body[key]) || (key === "areaHa" && body[key] <= 0)) {
+      return { error: `${key} must be ${key === "areaHa" ? "a positive number" : "a number"}` };
+    }
+    input[key] = body[key];
+  }
+
+  if (!partial && !input.boundary && (input.lat === undefined || input.lon === undefined)) {
+    return { error: "Please provide a boundary polygon or lat and lon" };
+  }
+
+  if (body.soil !== undefined) {
+    if (body.soil !== null && !Object.prototype.hasOwnProperty.call(SOIL_PRESETS, body.soil)) {
+      return { error: `soil must be one of: ${Object.keys(SOIL_PRESETS).join(", ")}` };
+    }
+    input.soil = body.soil as SoilTexture | null;
+  }
+
+  if (body.irrigationType !== undefined) {
+    if (body.irrigationType !== null && !IRRIGATION_TYPES.includes(body.irrigationType)) {
+      return { error: `irrigationType must be one of: ${IRRIGATION_TYPES.join(", ")}` };
+    }
+    input.irrigationType = body.irrigationType as IrrigationType | null;
+  }
+
+  if (body.cropCode !== undefined) {
+    if (body.cropCode !== null) {
+      const crop = typeof body.cropCode === "string" ? await cropService.getCrop(body.cropCode) : null;
+      if (!crop) {
+        return { error: `Unknown crop: ${body.cropCode}` };
+      }
+      input.cropCode = crop.code;
+    } else {
+      input.cropCode = null;
+    }
+  }
+
+  if (body.sowingDate !== undefined) {
+    if (body.sowingDate !== null && !/^\d{4}-\d{2}-\d{2}$/.test(body.sowingDate)) {
+      return { error: "sowingDate must be in YYYY-MM-DD format" };
+    }
+    input.sowingDate = body.sowingDate;
+  }
+
+  return { input };
+}
+
+/**
+ * Validate an activity body. With `partial` only the supplied properties are
+ * checked; otherwise the fields each activity type needs are required.
+ */
+async function parseActivityInput(body: any, partial: boolean): Promise<{ input?: Partial<FieldActivityInput>; error?: string }> {
+  const input: Partial<FieldActivityInput> = {};
+
+  if (body.type !== undefined || !partial) {
+    if (!ACTIVITY_TYPES.includes(body.type)) {
+      return { error: `type must be one of: ${ACTIVITY_TYPES.join(", ")}` };
+    }
+    input.type = body.type as ActivityType;
+  }
+
+  if (body.date !== undefined || !partial) {
+    if (typeof body.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(body.date)) {
+      return { error: "date must be in YYYY-MM-DD format" };
+    }
+    input.date = body.date;
+  }
+
+  if (body.performedAt !== undefined) {
+    if (body.performedAt !== null && (typeof body.performedAt !== "string" || isNaN(Date.parse(body.performedAt)))) {
+      return { error: "performedAt must be an ISO 8601 timestamp" };
+    }
+    input.performedAt = body.performedAt;
+  }
+
+  for (const key of ["amountMm", "durationHours", "rate", "reEntryHours", "preHarvestDays"] as const) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null &&
+      (typeof body[key] !== "number" || isNaN(body[key]) || body[key] < 0 || (key === "preHarvestDays" && !Number.isInteger(body[key])))) {
+      return { error: `${key} must be a ${key === "preHarvestDays" ? "whole number of days" : "non-negative number"}` };
+    }
+    input[key] = body[key];
+  }
+
+  if (body.applicationRate !== undefined) {
+    if (typeof body.applicationRate !== "number" || isNaN(body.applicationRate) || body.applicationRate < 0) {
+      return { error: "applicationRate must be a non-negative number" };
+    }
+    input.applicationRate = body.applicationRate;
+  }
+
+  for (const key of ["product", "rateUnit", "note"] as const) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && typeof body[key] !== "string") {
+      return { error: `${key} must be a string` };
+    }
+    input[key] = body[key] === null ? null : body[key].trim();
+  }
+
+  if (body.productClass !== undefined) {
+    if (body.productClass !== null && !Object.prototype.hasOwnProperty.call(PRODUCT_CLASSES, body.productClass)) {
+      return { error: `productClass must be one of: ${Object.keys(PRODUCT_CLASSES).join(", ")}` };
+    }
+    input.productClass = body.productClass as ProductClass | null;
+  }
+
+  if (body.cropCode !== undefined) {
+    if (body.cropCode !== null) {
+      const crop = typeof body.cropCode === "string" ? await cropService.getCrop(body.cropCode) : null;
+      if (!crop) {
+        return { error: `Unknown crop: ${body.cropCode}` };
+      }
+      input.cropCode = crop.code;
+    } else {
+      input.cropCode = null;
+    }
+  }
+
+  if (!partial) {
+    if (input.type === "irrigation" && input.amountMm == null && input.durationHours == null) {
+      return { error: "Irrigation needs amountMm or durationHours" };
+    }
+    if ((input.type === "spray" || input.type === "fertilizer") && !input.product) {
+      return { error: `product is required for ${input.type}` };
+    }
+    if (input.type === "sowing" && !input.cropCode) {
+      return { error: "cropCode is required for sowing" };
+    }
+  }
+
+  return { input };
+}
+
+
+router.get("/farms", async (req, res) => {
+  try {
+    const farms = await farmService.listFarms(req.query.owner as string | undefined);
+    return res.json({ success: true, data: farms, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in farms endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list farms"
+    });
+  }
+});
+
+
+router.post("/farms", async (req, res) => {
+  try {
+    const { input, error } = parseFarmInput(req.body || {}, false);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid farm",
+        message: error
+      });
+    }
+
+    const farm = await farmService.createFarm(input as FarmInput);
+    return res.status(201).json({ success: true, data: farm, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in create farm endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to create farm"
+    });
+  }
+});
+
+
+router.get("/farms/:id", async (req, res) => {
+  try {
+    const farm = await farmService.getFarm(req.params.id);
+    if (!farm) {
+      return res.status(404).json({
+        success: false,
+        error: "Farm not found"
+      });
+    }
+
+    return res.json({ success: true, data: farm, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in farm endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to fetch farm"
+    });
+  }
+});
+
+
+router.patch("/farms/:id", async (req, res) => {
+  try {
+    const { input, error } = parseFarmInput(req.body || {}, true);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid farm",
+        message: error
+      });
+    }
+
+    const farm = await farmService.updateFarm(req.params.id, input!);
+    if (!farm) {
+      return res.status(404).json({
+        success: false,
+        error: "Farm not found"
+      });
+    }
+
+    return res.json({ success: true, data: farm, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in update farm endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to update farm"
+    });
+  }
+});
+
+
+router.delete("/farms/:id", async (req, res) => {
+  try {
+    const deleted = await farmService.deleteFarm(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "Farm not found"
+      });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Error in delete farm endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to delete farm"
+    });
+  }
+});
+
+
+router.get("/fields", async (req, res) => {
+  try {
+    const fields = await farmService.listFields(req.query.farmId as string | undefined);
+    return res.json({ success: true, data: fields, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in fields endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list fields"
+    });
+  }
+});
+
+
+router.post("/fields", async (req, res) => {
+  try {
+    const { input, error } = await parseFieldInput(req.body || {}, false);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid field",
+        message: error
+      });
+    }
+
+    const farm = await farmService.getFarm(input!.farmId!);
+    if (!farm) {
+      return res.status(404).json({
+        success: false,
+        error: "Farm not found"
+      });
+    }
+
+    const field = await farmService.createField(input as FieldInput);
+    return res.status(201).json({ success: true, data: field, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in create field endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to create field"
+    });
+  }
+});
+
+
+router.get("/fields/:id", async (req, res) => {
+  try {
+    const field = await farmService.getField(req.params.id);
+    if (!field) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    return res.json({ success: true, data: field, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in field endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to fetch field"
+    });
+  }
+});
+
+
+router.patch("/fields/:id", async (req, res) => {
+  try {
+    const { input, error } = await parseFieldInput(req.body || {}, true);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid field",
+        message: error
+      });
+    }
+
+    const field = await farmService.updateField(req.params.id, input!);
+    if (!field) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    return res.json({ success: true, data: field, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in update field endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to update field"
+    });
+  }
+});
+
+
+router.delete("/fields/:id", async (req, res) => {
+  try {
+    const deleted = await farmService.deleteField(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Error in delete field endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to delete field"
+    });
+  }
+});
+
+router.get("/fields/:id/activities", async (req, res) => {
+  try {
+    const { type, since } = req.query;
+    if (type && !ACTIVITY_TYPES.includes(type as ActivityType)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `type must be one of: ${ACTIVITY_TYPES.join(", ")}`
+      });
+    }
+    if (since && !/^\d{4}-\d{2}-\d{2}$/.test(since as string)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "since must be in YYYY-MM-DD format"
+      });
+    }
+
+    const field = await farmService.getField(req.params.id);
+    if (!field) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    const activities = await activityService.listActivities(field.id, {
+      type: type as ActivityType | undefined,
+      since: since as string | undefined
+    });
+    return res.json({ success: true, data: activities, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in field activities endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list field activities"
+    });
+  }
+});
+
+
+router.post("/fields/:id/activities", async (req, res) => {
+  try {
+    const { input, error } = await parseActivityInput(req.body || {}, false);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid activity",
+        message: error
+      });
+    }
+
+    const field = await farmService.getField(req.params.id);
+    if (!field) {
+      return res.status(404).json({
+        success: false,
+        error: "Field not found"
+      });
+    }
+
+    if (input!.type === "irrigation" && input!.amountMm == null && input!.applicationRate === undefined &&
+      (!field.irrigationType || field.irrigationType === "rainfed")) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid activity",
+        message: "Provide amountMm or applicationRate; the field has no irrigation system to convert durationHours"
+      });
+    }
+
+    const activity = await activityService.createActivity(field, input as FieldActivityInput);
+    return res.status(201).json({ success: true, data: activity, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in create field activity endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to log field activity"
+    });
+  }
+});
+
+
+router.get("/activities/:id", async (req, res) => {
+  try {
+    const activity = await activityService.getActivity(req.params.id);
+    if (!activity) {
+      return res.status(404).json({
+        success: false,
+        error: "Activity not found"
+      });
+    }
+
+    return res.json({ success: true, data: activity, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in activity endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to fetch activity"
+    });
+  }
+});
+
+
+router.patch("/activities/:id", async (req, res) => {
+  try {
+    const { input, error } = await parseActivityInput(req.body || {}, true);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid activity",
+        message: error
+      });
+    }
+
+    const activity = await activityService.updateActivity(req.params.id, input!);
+    if (!activity) {
+      return res.status(404).json({
+        success: false,
+        error: "Activity not found"
+      });
+    }
+
+    return res.json({ success: true, data: activity, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in update activity endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to update activity"
+    });
+  }
+});
+
+
+router.delete("/activities/:id", async (req, res) => {
+  try {
+    const deleted = await activityService.deleteActivity(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "Activity not found"
+      });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Error in delete activity endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to delete activity"
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,314 @@
+import { Router } from "express";
+import { alertService } from "../services/alerts";
+import { NotificationContactInput, notificationService, NotificationStatus } from "../services/notifications";
+import { Language, LANGUAGES } from "../lib/i18n";
+import { renderAlertMessage } from "../services/templates";
+import { NOTIFICATION_CHANNELS, NotificationChannel } from "../services/transports";
+
+const router = Router();
+
+const PHONE_PATTERN = /^\+[1-9]\d{7,14}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validate a contact body. With `partial` only the supplied properties are
+ * checked, against the existing contact for channel requirements: sms and
+ * whatsapp need an E.164 phone number and email needs an address.
+ */
+function parseContactInput(body: any, partial: boolean, existing?: { phone?: string; email?: string; channels: NotificationChannel[] }): { input?: Partial<NotificationContactInput>; error?: string } {
+  const input: Partial<NotificationContactInput> = {};
+
+  if (body.owner !== undefined || !partial) {
+    if (typeof body.owner !== "string" || body.owner.trim() === "") {
+      return { error: "owner is required" };
+    }
+    input.owner = body.owner.trim();
+  }
+
+  if (body.name !== undefined) {
+    if (body.name !== null && typeof body.name !== "string") {
+      return { error: "name must be a string" };
+    }
+    input.name = body.name;
+  }
+
+  if (body.phone !== undefined) {
+    if (body.phone !== null && (typeof body.phone !== "string" || !PHONE_PATTERN.test(body.phone))) {
+      return { error: "phone must be in E.164 format, e.g. +919812345678" };
+    }
+    input.phone = body.phone;
+  }
+
+  if (body.email !== undefined) {
+    if (body.email !== null && (typeof body.email !== "string" || !EMAIL_PATTERN.test(body.email))) {
+      return { error: "email must be a valid address" };
+    }
+    input.email = body.email;
+  }
+
+  if (body.channels !== undefined || !partial) {
+    if (!Array.isArray(body.channels) || body.channels.length === 0 || !body.channels.every((channel: any) => NOTIFICATION_CHANNELS.includes(channel))) {
+      return { error: `channels must be a non-empty list of: ${NOTIFICATION_CHANNELS.join(", ")}` };
+    }
+    input.channels = Array.from(new Set(body.channels as NotificationChannel[]));
+  }
+
+  if (body.language !== undefined) {
+    if (!LANGUAGES.includes(body.language)) {
+      return { error: `language must be one of: ${LANGUAGES.join(", ")}` };
+    }
+    input.language = body.language;
+  }
+
+  if (body.commodities !== undefined) {
+    if (!Array.isArray(body.commodities) || !body.commodities.every((commodity: any) => typeof commodity === "string" && commodity.trim() !== "")) {
+      return { error: "commodities must be a list of commodity names" };
+    }
+    input.commodities = body.commodities.map((commodity: string) => commodity.trim());
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") {
+      return { error: "active must be true or false" };
+    }
+    input.active = body.active;
+  }
+
+  const channels = input.channels ?? existing?.channels ?? [];
+  const phone = input.phone !== undefined ? input.phone : existing?.phone;
+  const email = input.email !== undefined ? input.email : existing?.email;
+  if ((channels.includes("sms") || channels.includes("whatsapp")) && !phone) {
+    return { error: "phone is required for sms and whatsapp" };
+  }
+  if (channels.includes("email") && !email) {
+    return { error: "email is required for the email channel" };
+  }
+
+  return { input };
+}
+
+
+router.get("/contacts", async (req, res) => {
+  try {
+    const contacts = await notificationService.listContacts(req.query.owner as string | undefined);
+    return res.json({ success: true, data: contacts, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in notification contacts endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list notification contacts"
+    });
+  }
+});
+
+
+router.post("/contacts", async (req, res) => {
+  try {
+    const { input, error } = parseContactInput(req.body || {}, false);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid contact",
+        message: error
+      });
+    }
+
+    const contact = await notificationService.createContact(input as NotificationContactInput);
+    return res.status(201).json({ success: true, data: contact, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in create notification contact endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to create notification contact"
+    });
+  }
+});
+
+
+router.get("/contacts/:id", async (req, res) => {
+  try {
+    const contact = await notificationService.getContact(req.params.id);
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        error: "Contact not found"
+      });
+    }
+
+    return res.json({ success: true, data: contact, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in notification contact endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to fetch notification contact"
+    });
+  }
+});
+
+
+router.patch("/contacts/:id", async (req, res) => {
+  try {
+    const existing = await notificationService.getContact(req.params.id);
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: "Contact not found"
+      });
+    }
+
+    const { input, error } = parseContactInput(req.body || {}, true, existing);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid contact",
+        message: error
+      });
+    }
+
+    const contact = await notificationService.updateContact(req.params.id, input!);
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        error: "Contact not found"
+      });
+    }
+
+    return res.json({ success: true, data: contact, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in update notification contact endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to update notification contact"
+    });
+  }
+});
+
+
+router.delete("/contacts/:id", async (req, res) => {
+  try {
+    const deleted = await notificationService.deleteContact(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "Contact not found"
+      });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Error in delete notification contact endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to delete notification contact"
+    });
+  }
+});
+
+
+router.post("/contacts/:id/test", async (req, res) => {
+  try {
+    const contact = await notificationService.getContact(req.params.id);
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        error: "Contact not found"
+      });
+    }
+
+    const notifications = await notificationService.sendTest(contact);
+    return res.json({ success: true, data: notifications, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in test notification endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to send test notification"
+    });
+  }
+});
+
+
+router.get("/preview", async (req, res) => {
+  try {
+    const { alertId, lang, place } = req.query;
+    if (!alertId) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "alertId is required"
+      });
+    }
+
+    const language = (lang as string | undefined) ?? "en";
+    if (!LANGUAGES.includes(language as Language)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: `lang must be one of: ${LANGUAGES.join(", ")}`
+      });
+    }
+
+    const alert = await alertService.getAlert(alertId as string);
+    if (!alert) {
+      return res.status(404).json({
+        success: false,
+        error: "Alert not found"
+      });
+    }
+
+    const message = renderAlertMessage(alert, place as string | undefined, language as Language);
+    return res.json({ success: true, data: message, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in notification preview endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to render notification"
+    });
+  }
+});
+
+
+router.get("/", async (req, res) => {
+  try {
+    const { contactId, owner, status, limit } = req.query;
+    if (status && status !== "sent" && status !== "failed") {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "status must be sent or failed"
+      });
+    }
+
+    const take = limit ? parseInt(limit as string) : undefined;
+    if (take !== undefined && (isNaN(take) || take <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "limit must be a positive integer"
+      });
+    }
+
+    const notifications = await notificationService.listNotifications({
+      contactId: contactId as string | undefined,
+      owner: owner as string | undefined,
+      status: status as NotificationStatus | undefined,
+      limit: take
+    });
+    return res.json({ success: true, data: notifications, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in notifications endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list notifications"
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,103 @@
+import { Router } from "express";
+import { FARM_EVENT_TYPES, FarmEventType } from "../lib/events";
+import { StreamFilter, streamService } from "../services/stream";
+
+const router = Router();
+
+/**
+ * Comma-separated or repeated query values as a flat list
+ */
+function parseList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value !== undefined ? [value] : [];
+  return values
+    .flatMap(item => String(item).split(","))
+    .map(item => item.trim())
+    .filter(item => item !== "");
+}
+
+/**
+ * Validate what a client subscribes to: fields, an owner, locations as
+ * "lat,lon" pairs separated by semicolons (or a single lat and lon) with a
+ * match radius, commodities and, optionally, a subset of event types
+ */
+function parseStreamFilter(query: any): { filter?: StreamFilter; error?: string } {
+  const locations: StreamFilter["locations"] = [];
+  const pairs = (Array.isArray(query.locations) ? query.locations : query.locations !== undefined ? [query.locations] : [])
+    .flatMap((item: any) => String(item).split(";"))
+    .filter((item: string) => item.trim() !== "");
+  if (query.lat !== undefined || query.lon !== undefined) {
+    pairs.push(`${query.lat},${query.lon}`);
+  }
+
+  for (const pair of pairs) {
+    const [lat, lon] = pair.split(",").map((value: string) => parseFloat(value));
+    if (isNaN(lat) || isNaN(lon) || lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+      return { error: `Invalid location: ${pair}` };
+    }
+    locations.push({ lat, lon });
+  }
+
+  const radiusKm = query.radiusKm !== undefined ? parseFloat(query.radiusKm as string) : 10;
+  if (isNaN(radiusKm) || radiusKm <= 0) {
+    return { error: "radiusKm must be a positive number" };
+  }
+
+  const events = parseList(query.events);
+  if (!events.every(type => FARM_EVENT_TYPES.includes(type as FarmEventType))) {
+    return { error: `events must be a list of: ${FARM_EVENT_TYPES.join(", ")}` };
+  }
+
+  const filter: StreamFilter = {
+    fieldIds: parseList(query.fieldId),
+    locations,
+    radiusKm,
+    owner: query.owner ? String(query.owner) : undefined,
+    commodities: parseList(query.commodities).map(commodity => commodity.toLowerCase()),
+    events: events.length > 0 ? Array.from(new Set(events as FarmEventType[])) : FARM_EVENT_TYPES
+  };
+
+  if (filter.fieldIds.length === 0 && filter.locations.length === 0 && !filter.owner && filter.commodities.length === 0) {
+    return { error: "Please provide fieldId, locations, lat and lon, owner or commodities" };
+  }
+
+  return { filter };
+}
+
+
+router.get("/", (req, res): void => {
+  try {
+    const { filter, error } = parseStreamFilter(req.query);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: error
+      });
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+
+    const lastEventId = req.headers["last-event-id"] || req.query.lastEventId;
+    const disconnect = streamService.connect(res, filter!, lastEventId ? String(lastEventId) : undefined);
+    req.on("close", disconnect);
+  } catch (error) {
+    console.error("Error opening event stream:", error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "Failed to open event stream"
+      });
+      return;
+    }
+    res.end();
+  }
+});
+
+export default router;
@@ -1,8 +1,35 @@
 import { Router } from "express";
 import { weatherService } from "../services/weather";
+import { weatherHistoryService } from "../services/history";
+import { gddService } from "../services/gdd";
+import { sowingService } from "../services/sowing";
+import schedulerService from "../lib/scheduler";
 
 const router = Router();
 
+/**
+ * Longest history one request may cover: a full season with room to spare
+ */
+const MAX_HISTORY_DAYS = 366;
+
+/**
+ * Check a history range is readable, ordered and no longer than MAX_HISTORY_DAYS
+ */
+function validateHistoryRange(startDate: string, endDate: string): string | null {
+  const start = Date.parse(startDate);
+  const end = Date.parse(endDate);
+  if (isNaN(start) || isNaN(end)) {
+    return "start and end must be dates in YYYY-MM-DD format";
+  }
+  if (start > end) {
+    return "start must not be after end";
+  }
+  if (end - start > MAX_HISTORY_DAYS * 86400000) {
+    return `The range may cover at most ${MAX_HISTORY_DAYS} days`;
+  }
+  return null;
+}
+
 
 router.get("/current", async (req, res) => {
   try {
@@ -35,7 +62,7 @@ router.get("/current", async (req, res) => {
 
 router.get("/forecast", async (req, res) => {
   try {
-    const { lat, lon } = req.query;
+    const { lat, lon, kc } = req.query;
     
     if (!lat || !lon) {
       return res.status(400).json({
@@ -47,7 +74,8 @@ router.get("/forecast", async (req, res) => {
 
     const forecast = await weatherService.getDailyForecast(
       parseFloat(lat as string), 
-      parseFloat(lon as string)
+      parseFloat(lon as string),
+      kc ? parseFloat(kc as string) : undefined
     );
     
     res.json(forecast);
@@ -149,6 +177,15 @@ router.get("/historical", async (req, res) => {
       endDate = new Date().toISOString().split('T')[0];
     }
 
+    const rangeError = validateHistoryRange(startDate, endDate);
+    if (rangeError) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid range",
+        message: rangeError
+      });
+    }
+
     const historical = await weatherService.getHistoricalWeather(
       parseFloat(lat as string), 
       parseFloat(lon as string),
@@ -180,7 +217,14 @@ router.get("/historical-days", async (req, res) => {
       });
     }
 
-    const numDays = days ? parseInt(days as string) : 7;
+    const numDays = days ? Number(days) : 7;
+    if (!Number.isInteger(numDays) || numDays < 1 || numDays > MAX_HISTORY_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid range",
+        message: `days must be a whole number from 1 to ${MAX_HISTORY_DAYS}`
+      });
+    }
 
     const historical = await weatherService.getHistoricalWeatherByDays(
       parseFloat(lat as string), 
@@ -202,7 +246,7 @@ router.get("/historical-days", async (req, res) => {
 
 router.get("/historical-daily", async (req, res) => {
   try {
-    const { lat, lon, start, end } = req.query;
+    const { lat, lon, start, end, kc } = req.query;
     
     if (!lat || !lon) {
       return res.status(400).json({
@@ -229,11 +273,21 @@ router.get("/historical-daily", async (req, res) => {
       endDate = new Date().toISOString().split('T')[0];
     }
 
+    const rangeError = validateHistoryRange(startDate, endDate);
+    if (rangeError) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid range",
+        message: rangeError
+      });
+    }
+
     const historical = await weatherService.getHistoricalDailyWeather(
       parseFloat(lat as string), 
       parseFloat(lon as string),
       startDate,
-      endDate
+      endDate,
+      kc ? parseFloat(kc as string) : undefined
     );
     
     res.json(historical);
@@ -247,4 +301,183 @@ router.get("/historical-daily", async (req, res) => {
   }
 });
 
-export default router; 
\ No newline at end of file
+router.get("/gdd", async (req, res) => {
+  try {
+    const { lat, lon, sowingDate, base, upper, method } = req.query;
+    
+    if (!lat || !lon) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters"
+      });
+    }
+
+    if (!sowingDate || !/^\d{4}-\d{2}-\d{2}$/.test(sowingDate as string)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sowing date",
+        message: "Please provide sowingDate in YYYY-MM-DD format"
+      });
+    }
+
+    const gddMethod = (method as string) || "average";
+    if (!["average", "modified", "sine"].includes(gddMethod)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid method",
+        message: "method must be one of: average, modified, sine"
+      });
+    }
+
+    const baseTemp = base ? parseFloat(base as string) : 10;
+    const upperTemp = upper ? parseFloat(upper as string) : 30;
+    if (isNaN(baseTemp) || isNaN(upperTemp) || upperTemp <= baseTemp) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid thresholds",
+        message: "base and upper must be numbers with upper above base"
+      });
+    }
+
+    const gdd = await gddService.getSeasonGrowingDegreeDays(
+      parseFloat(lat as string), 
+      parseFloat(lon as string),
+      sowingDate as string,
+      { baseTemp, upperTemp, method: gddMethod as "average" | "modified" | "sine" }
+    );
+    
+    return res.json(gdd);
+  } catch (error) {
+    console.error("Error in GDD endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to calculate growing degree days"
+    });
+  }
+});
+
+
+router.get("/monsoon-onset", async (req, res) => {
+  try {
+    const { lat, lon, seasonStart } = req.query;
+
+    if (!lat || !lon) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon parameters"
+      });
+    }
+
+    if (seasonStart && !/^\d{4}-\d{2}-\d{2}$/.test(seasonStart as string)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid season start",
+        message: "Please provide seasonStart in YYYY-MM-DD format"
+      });
+    }
+
+    const onset = await sowingService.getRainfallOnset(
+      parseFloat(lat as string),
+      parseFloat(lon as string),
+      seasonStart as string | undefined
+    );
+
+    return res.json(onset);
+  } catch (error) {
+    console.error("Error in monsoon onset endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to detect rainfall onset"
+    });
+  }
+});
+
+
+router.get("/locations", async (req, res) => {
+  try {
+    const locations = await weatherHistoryService.listLocations();
+    res.json({ success: true, data: locations });
+  } catch (error) {
+    console.error("Error in weather locations endpoint:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list weather locations"
+    });
+  }
+});
+
+
+router.post("/locations", async (req, res) => {
+  try {
+    const { name, lat, lon } = req.body || {};
+
+    if (lat === undefined || lon === undefined || isNaN(parseFloat(lat)) || isNaN(parseFloat(lon))) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing coordinates",
+        message: "Please provide lat and lon in the request body"
+      });
+    }
+
+    const location = await weatherHistoryService.addLocation(
+      name || `${lat}, ${lon}`,
+      parseFloat(lat),
+      parseFloat(lon)
+    );
+
+    return res.status(201).json({ success: true, data: location });
+  } catch (error) {
+    console.error("Error in add weather location endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to register weather location"
+    });
+  }
+});
+
+
+router.delete("/locations/:id", async (req, res) => {
+  try {
+    const removed = await weatherHistoryService.deactivateLocation(req.params.id);
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: "Not found",
+        message: "Weather location not found"
+      });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Error in remove weather location endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to remove weather location"
+    });
+  }
+});
+
+
+router.post("/snapshots", async (req, res) => {
+  try {
+    const result = await schedulerService.snapshotWeather();
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error in weather snapshot endpoint:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to snapshot weather"
+    });
+  }
+});
+
+export default router;
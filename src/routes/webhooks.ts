@@ -0,0 +1,261 @@
+import { Router } from "express";
+import { FARM_EVENT_TYPES } from "../lib/events";
+import { isPrivateHost } from "../lib/network";
+import { DeliveryStatus, webhookService, WebhookEndpointInput } from "../services/webhooks";
+
+const router = Router();
+
+/**
+ * Validate an endpoint body. With `partial` only the supplied properties are checked.
+ */
+function parseEndpointInput(body: any, partial: boolean): { input?: Partial<WebhookEndpointInput>; error?: string } {
+  const input: Partial<WebhookEndpointInput> = {};
+
+  if (body.url !== undefined || !partial) {
+    let url: URL | null = null;
+    try {
+      url = typeof body.url === "string" ? new URL(body.url) : null;
+    } catch {
+      url = null;
+    }
+    if (!url || url.protocol !== "https:") {
+      return { error: "url must be an https URL" };
+    }
+    if (isPrivateHost(url.hostname)) {
+      return { error: "url must not point to a private network address" };
+    }
+    input.url = body.url;
+  }
+
+  if (body.events !== undefined || !partial) {
+    const allowed = ["*", ...FARM_EVENT_TYPES];
+    if (!Array.isArray(body.events) || body.events.length === 0 || !body.events.every((event: any) => allowed.includes(event))) {
+      return { error: `events must be a non-empty list of: ${allowed.join(", ")}` };
+    }
+    input.events = Array.from(new Set(body.events));
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== "string") {
+      return { error: "description must be a string" };
+    }
+    input.description = body.description;
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") {
+      return { error: "active must be true or false" };
+    }
+    input.active = body.active;
+  }
+
+  if (body.secret !== undefined) {
+    if (typeof body.secret !== "string" || body.secret.length < 16) {
+      return { error: "secret must be at least 16 characters" };
+    }
+    input.secret = body.secret;
+  }
+
+  return { input };
+}
+
+
+router.get("/", async (req, res) => {
+  try {
+    const endpoints = await webhookService.listEndpoints();
+    return res.json({ success: true, data: endpoints, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in webhooks endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list webhooks"
+    });
+  }
+});
+
+
+router.post("/", async (req, res) => {
+  try {
+    const { input, error } = parseEndpointInput(req.body || {}, false);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid webhook",
+        message: error
+      });
+    }
+
+    const endpoint = await webhookService.createEndpoint(input as WebhookEndpointInput);
+    return res.status(201).json({ success: true, data: endpoint, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in create webhook endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to create webhook"
+    });
+  }
+});
+
+
+router.get("/deliveries/:id", async (req, res) => {
+  try {
+    const delivery = await webhookService.getDelivery(req.params.id);
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        error: "Delivery not found"
+      });
+    }
+
+    return res.json({ success: true, data: delivery, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in webhook delivery endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to fetch webhook delivery"
+    });
+  }
+});
+
+
+router.post("/deliveries/:id/redeliver", async (req, res) => {
+  try {
+    const delivery = await webhookService.redeliver(req.params.id);
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        error: "Delivery not found"
+      });
+    }
+
+    return res.status(201).json({ success: true, data: delivery, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in webhook redelivery endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to redeliver webhook"
+    });
+  }
+});
+
+
+router.get("/:id", async (req, res) => {
+  try {
+    const endpoint = await webhookService.getEndpoint(req.params.id);
+    if (!endpoint) {
+      return res.status(404).json({
+        success: false,
+        error: "Webhook not found"
+      });
+    }
+
+    return res.json({ success: true, data: endpoint, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in webhook endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to fetch webhook"
+    });
+  }
+});
+
+
+router.patch("/:id", async (req, res) => {
+  try {
+    const { input, error } = parseEndpointInput(req.body || {}, true);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid webhook",
+        message: error
+      });
+    }
+
+    const endpoint = await webhookService.updateEndpoint(req.params.id, input!);
+    if (!endpoint) {
+      return res.status(404).json({
+        success: false,
+        error: "Webhook not found"
+      });
+    }
+
+    return res.json({ success: true, data: endpoint, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in update webhook endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to update webhook"
+    });
+  }
+});
+
+
+router.delete("/:id", async (req, res) => {
+  try {
+    const deleted = await webhookService.deleteEndpoint(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "Webhook not found"
+      });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Error in delete webhook endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to delete webhook"
+    });
+  }
+});
+
+
+router.get("/:id/deliveries", async (req, res) => {
+  try {
+    const { status, limit } = req.query;
+    if (status && !["pending", "succeeded", "failed"].includes(status as string)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "status must be pending, succeeded or failed"
+      });
+    }
+
+    const take = limit ? parseInt(limit as string) : undefined;
+    if (take !== undefined && (isNaN(take) || take <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid parameters",
+        message: "limit must be a positive integer"
+      });
+    }
+
+    const endpoint = await webhookService.getEndpoint(req.params.id);
+    if (!endpoint) {
+      return res.status(404).json({
+        success: false,
+        error: "Webhook not found"
+      });
+    }
+
+    const deliveries = await webhookService.listDeliveries(endpoint.id, { status: status as DeliveryStatus | undefined, limit: take });
+    return res.json({ success: true, data: deliveries, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error in webhook deliveries endpoint:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "Failed to list webhook deliveries"
+    });
+  }
+});
+
+export default router;
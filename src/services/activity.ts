@@ -0,0 +1,268 @@
+import { FieldActivity as FieldActivityRecord, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { localMidnight, toLocalDate, toLocalISOString } from "../lib/timezone";
+import { Field, farmService, IrrigationType } from "./farm";
+import { ProductClass } from "./spraying";
+
+export type ActivityType = "irrigation" | "spray" | "fertilizer" | "sowing" | "harvest";
+
+export const ACTIVITY_TYPES: ActivityType[] = ["irrigation", "spray", "fertilizer", "sowing", "harvest"];
+
+/**
+ * Typical gross application rates (mm/hour) used to convert irrigation run time to depth
+ */
+export const APPLICATION_RATES: Record<Exclude<IrrigationType, "rainfed">, number> = {
+  drip: 2,
+  sprinkler: 8,
+  furrow: 10,
+  flood: 12
+};
+
+/**
+ * Typical share of applied water that reaches the root zone for each irrigation system
+ */
+export const APPLICATION_EFFICIENCIES: Record<Exclude<IrrigationType, "rainfed">, number> = {
+  drip: 0.9,
+  sprinkler: 0.75,
+  furrow: 0.6,
+  flood: 0.5
+};
+
+export interface FieldActivity {
+  id: string;
+  fieldId: string;
+  type: ActivityType;
+  date: string;
+  performedAt?: string;
+  amountMm?: number;
+  durationHours?: number;
+  product?: string;
+  productClass?: ProductClass;
+  rate?: number;
+  rateUnit?: string;
+  reEntryHours?: number;
+  preHarvestDays?: number;
+  cropCode?: string;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FieldActivityInput {
+  type: ActivityType;
+  date: string;
+  performedAt?: string | null;
+  amountMm?: number | null;
+  durationHours?: number | null;
+  applicationRate?: number;
+  product?: string | null;
+  productClass?: ProductClass | null;
+  rate?: number | null;
+  rateUnit?: string | null;
+  reEntryHours?: number | null;
+  preHarvestDays?: number | null;
+  cropCode?: string | null;
+  note?: string | null;
+}
+
+export interface SprayRestriction {
+  activityId: string;
+  product: string;
+  date: string;
+  reEntryUntil: string | null;
+  reEntryUntilLocal: string | null;
+  preHarvestUntil: string | null;
+  reEntryActive: boolean;
+  preHarvestActive: boolean;
+}
+
+class FieldActivityService {
+  // Sprays logged without a time are assumed to end the working day (18:00 local)
+  private readonly DEFAULT_SPRAY_HOUR = 18;
+
+  /**
+   * List a field's activities, newest first, optionally by type and from a date
+   */
+  async listActivities(fieldId: string, filter: { type?: ActivityType; since?: string } = {}): Promise<FieldActivity[]> {
+    const activities = await prisma.fieldActivity.findMany({
+      where: {
+        fieldId,
+        type: filter.type,
+        date: filter.since ? { gte: filter.since } : undefined,
+      },
+      orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+    });
+
+    return activities.map(activity => this.toActivity(activity));
+  }
+
+  async getActivity(id: string): Promise<FieldActivity | null> {
+    const activity = await prisma.fieldActivity.findUnique({ where: { id } });
+    return activity ? this.toActivity(activity) : null;
+  }
+
+  /**
+   * Log an activity on a field. Irrigation run time is converted to depth with
+   * the field's application rate, and sowing updates the field's crop and sowing date.
+   */
+  async createActivity(field: Field, input: FieldActivityInput): Promise<FieldActivity> {
+    const activity = await prisma.fieldActivity.create({
+      data: {
+        fieldId: field.id,
+        type: input.type,
+        date: input.date,
+        performedAt: input.performedAt ? new Date(input.performedAt) : null,
+        amountMm: this.irrigationDepth(field, input) ?? null,
+        durationHours: input.durationHours ?? null,
+        product: input.product ?? null,
+        productClass: input.productClass ?? null,
+        rate: input.rate ?? null,
+        rateUnit: input.rateUnit ?? null,
+        reEntryHours: input.reEntryHours ?? null,
+        preHarvestDays: input.preHarvestDays ?? null,
+        cropCode: input.cropCode ?? null,
+        note: input.note ?? null,
+      },
+    });
+
+    if (input.type === "sowing" && input.cropCode) {
+      await farmService.updateField(field.id, { cropCode: input.cropCode, sowingDate: input.date });
+    }
+
+    return this.toActivity(activity);
+  }
+
+  /**
+   * Update an activity. Returns null when it does not exist.
+   */
+  async updateActivity(id: string, input: Partial<FieldActivityInput>): Promise<FieldActivity | null> {
+    const existing = await prisma.fieldActivity.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const { applicationRate, performedAt, ...rest } = input;
+    const data: Prisma.FieldActivityUpdateInput = { ...rest };
+    if (performedAt !== undefined) {
+      data.performedAt = performedAt ? new Date(performedAt) : null;
+    }
+    // A new run time only replaces a depth that was missing or derived from the old run time
+    if (input.amountMm === undefined && input.durationHours) {
+      const field = await farmService.getField(existing.fieldId);
+      const type = existing.type as ActivityType;
+      const derived = existing.amountMm === null || (existing.durationHours !== null && field !== null &&
+        this.irrigationDepth(field, { type, durationHours: existing.durationHours }) === existing.amountMm);
+      if (derived) {
+        data.amountMm = field ? this.irrigationDepth(field, { type, durationHours: input.durationHours, applicationRate }) ?? null : null;
+      }
+    }
+
+    const activity = await prisma.fieldActivity.update({
+      where: { id },
+      data,
+    });
+
+    return this.toActivity(activity);
+  }
+
+  async deleteActivity(id: string): Promise<boolean> {
+    const result = await prisma.fieldActivity.deleteMany({ where: { id } });
+    return result.count > 0;
+  }
+
+  /**
+   * Irrigation depths logged on a field since a date, for the soil water balance
+   */
+  async listIrrigations(fieldId: string, since: string): Promise<{ date: string; amountMm: number }[]> {
+    const activities = await this.listActivities(fieldId, { type: "irrigation", since });
+    return activities
+      .filter(activity => activity.amountMm !== undefined)
+      .map(activity => ({ date: activity.date, amountMm: activity.amountMm! }));
+  }
+
+  /**
+   * Days back a logged spray can still restrict the field: its longest
+   * pre-harvest or re-entry interval
+   */
+  async getLongestRestrictionDays(fieldId: string): Promise<number> {
+    const result = await prisma.fieldActivity.aggregate({
+      where: { fieldId, type: "spray" },
+      _max: { preHarvestDays: true, reEntryHours: true },
+    });
+
+    return Math.max(result._max.preHarvestDays ?? 0, Math.ceil((result._max.reEntryHours ?? 0) / 24));
+  }
+
+  /**
+   * Re-entry and pre-harvest intervals of logged sprays that have not yet expired
+   */
+  getSprayRestrictions(activities: FieldActivity[], timezoneOffset: number): SprayRestriction[] {
+    const now = Math.floor(Date.now() / 1000);
+    const today = toLocalDate(now, timezoneOffset);
+
+    return activities
+      .filter(activity => activity.type === "spray" && (activity.reEntryHours || activity.preHarvestDays))
+      .map(activity => {
+        const appliedAt = activity.performedAt
+          ? Math.floor(Date.parse(activity.performedAt) / 1000)
+          : localMidnight(activity.date, timezoneOffset) + this.DEFAULT_SPRAY_HOUR * 3600;
+        const reEntryUntil = activity.reEntryHours ? appliedAt + activity.reEntryHours * 3600 : null;
+        const preHarvestUntil = activity.preHarvestDays
+          ? new Date(Date.parse(activity.date) + activity.preHarvestDays * 86400000).toISOString().split("T")[0]
+          : null;
+
+        return {
+          activityId: activity.id,
+          product: activity.product || "Spray",
+          date: activity.date,
+          reEntryUntil: reEntryUntil !== null ? new Date(reEntryUntil * 1000).toISOString() : null,
+          reEntryUntilLocal: reEntryUntil !== null ? toLocalISOString(reEntryUntil, timezoneOffset) : null,
+          preHarvestUntil,
+          reEntryActive: reEntryUntil !== null && reEntryUntil > now,
+          preHarvestActive: preHarvestUntil !== null && preHarvestUntil > today
+        };
+      })
+      .filter(restriction => restriction.reEntryActive || restriction.preHarvestActive);
+  }
+
+  private irrigationDepth(field: Field, input: Pick<FieldActivityInput, "type" | "amountMm" | "durationHours" | "applicationRate">): number | undefined {
+    if (input.type !== "irrigation") {
+      return input.amountMm ?? undefined;
+    }
+    if (input.amountMm !== undefined && input.amountMm !== null) {
+      return input.amountMm;
+    }
+    if (!input.durationHours) {
+      return undefined;
+    }
+
+    const rate = input.applicationRate
+      ?? (field.irrigationType && field.irrigationType !== "rainfed" ? APPLICATION_RATES[field.irrigationType] : undefined);
+    return rate !== undefined ? Math.round(input.durationHours * rate * 10) / 10 : undefined;
+  }
+
+  private toActivity(activity: FieldActivityRecord): FieldActivity {
+    return {
+      id: activity.id,
+      fieldId: activity.fieldId,
+      type: activity.type as ActivityType,
+      date: activity.date,
+      performedAt: activity.performedAt ? activity.performedAt.toISOString() : undefined,
+      amountMm: activity.amountMm ?? undefined,
+      durationHours: activity.durationHours ?? undefined,
+      product: activity.product ?? undefined,
+      productClass: (activity.productClass as ProductClass | null) ?? undefined,
+      rate: activity.rate ?? undefined,
+      rateUnit: activity.rateUnit ?? undefined,
+      reEntryHours: activity.reEntryHours ?? undefined,
+      preHarvestDays: activity.preHarvestDays ?? undefined,
+      cropCode: activity.cropCode ?? undefined,
+      note: activity.note ?? undefined,
+      createdAt: activity.createdAt.toISOString(),
+      updatedAt: activity.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const activityService = new FieldActivityService();
+export default activityService;
@@ -1,4 +1,14 @@
 import { weatherService } from "./weather";
+import { TimezoneInfo, toLocalDate, toLocalHour, toLocalISOString } from "../lib/timezone";
+import { SoilTexture, WaterBalance, WaterBalanceOptions, waterBalanceService } from "./waterbalance";
+import { CropProfile, GrowthStage } from "./crops";
+import { Phenology, phenologyService } from "./phenology";
+import { DiseaseRiskLevel, diseaseRiskService } from "./disease";
+import { PRODUCT_CLASSES, ProductClass, SpraySlot, sprayPlannerService } from "./spraying";
+import { activityService, APPLICATION_EFFICIENCIES, FieldActivity, SprayRestriction } from "./activity";
+import { IrrigationType } from "./farm";
+import { FERTILIZER_TYPES, FertilizerType, nutrientAdvisorService } from "./nutrient";
+import { Language, localizeFields, MessageCodes, MessageRef, msg, nameRef, renderMessages, t } from "../lib/i18n";
 
 
 export interface FrostAlert {
@@ -7,6 +17,20 @@ export interface FrostAlert {
   action: string;
   timeframe: string;
   temperature: number;
+  minCanopyTemperature: number;
+  periods: FrostPeriod[];
+  codes: MessageCodes<"message" | "action" | "timeframe">;
+}
+
+export interface FrostPeriod {
+  type: "radiative" | "advective";
+  start: string;
+  end: string;
+  localStart: string;
+  localEnd: string;
+  minTemperature: number;
+  minCanopyTemperature: number;
+  minDewPoint: number;
 }
 
 export interface IrrigationAdvice {
@@ -15,6 +39,22 @@ export interface IrrigationAdvice {
   reason: string;
   nextCheck: string;
   waterAmount?: string;
+  deficitMm?: number;
+  thresholdDate?: string | null;
+  applyMm?: number;
+  grossMm?: number;
+  lastIrrigation?: {
+    date: string;
+    amountMm?: number;
+  };
+  waterBalance?: {
+    soil: SoilTexture;
+    totalAvailableWater: number;
+    readilyAvailableWater: number;
+    currentDepletion: number;
+    availableWater: number;
+  };
+  codes: MessageCodes<"message" | "reason" | "nextCheck" | "waterAmount">;
 }
 
 export interface SprayingWindow {
@@ -23,14 +63,24 @@ export interface SprayingWindow {
   bestTime?: string;
   nextOpportunity?: string;
   reason: string;
+  deltaT?: number;
+  deltaTRating?: DeltaTRating;
+  inversionRisk?: boolean;
+  product?: ProductClass;
+  slots?: SpraySlot[];
+  restrictions?: SprayRestriction[];
+  codes: MessageCodes<"message" | "reason" | "bestTime" | "nextOpportunity">;
 }
 
+export type DeltaTRating = "low" | "ideal" | "marginal" | "high";
+
 export interface HeatStressAlert {
   risk: "none" | "low" | "moderate" | "high" | "extreme";
   message: string;
   action: string;
   duration: string;
   temperature: number;
+  codes: MessageCodes<"message" | "action" | "duration">;
 }
 
 export interface CropAdvisory {
@@ -38,14 +88,62 @@ export interface CropAdvisory {
     name: string;
     lat: number;
     lon: number;
+    timezone: TimezoneInfo;
+  };
+  crop?: {
+    code: string;
+    name: string;
+    frostKillTemp: number;
+    heatStressTemp: number;
+    cropCoefficient?: number;
+  };
+  phenology?: {
+    stage: GrowthStage;
+    accumulatedGdd: number;
+    daysSinceSowing: number;
+    nextStage: Phenology["nextStage"];
   };
   frost: FrostAlert;
   irrigation: IrrigationAdvice;
   spraying: SprayingWindow;
   heatStress: HeatStressAlert;
+  diseaseRisk?: {
+    overallRisk: DiseaseRiskLevel;
+    risks: {
+      code: string;
+      name: string;
+      risk: DiseaseRiskLevel;
+      message: string;
+    }[];
+  };
   generalAdvice: string[];
+  generalAdviceCodes: MessageRef[];
   priority: "low" | "medium" | "high" | "urgent";
+  language: Language;
   lastUpdated: string;
+  lastUpdatedLocal: string;
+}
+
+export interface AdvisoryOptions extends WaterBalanceOptions {
+  crop?: CropProfile;
+  sowingDate?: string;
+  sprayProduct?: ProductClass;
+  fertilizer?: FertilizerType;
+  irrigationType?: IrrigationType;
+  language?: Language;
+}
+
+interface AdvisoryAssessment {
+  location: { name: string; lat: number; lon: number };
+  timezone: TimezoneInfo;
+  phenology: Phenology | null;
+  frost: FrostAlert;
+  irrigation: IrrigationAdvice;
+  spraying: SprayingWindow;
+  heatStress: HeatStressAlert;
+  diseaseRisk: CropAdvisory["diseaseRisk"];
+  priority: CropAdvisory["priority"];
+  generalAdvice: MessageRef[];
 }
 
 export interface AdvisoryResponse {
@@ -56,57 +154,130 @@ export interface AdvisoryResponse {
 }
 
 class AgriculturalService {
+  // Minimum diary window; extended to the longest spray restriction logged on the field
+  private readonly ACTIVITY_LOOKBACK_DAYS = 60;
+  private readonly MAX_RADIATIVE_COOLING = 4;
 
   /**
-   * Analyze frost risk from weather data
+   * Estimate crop-canopy temperature for a forecast row. On clear, calm nights
+   * the canopy radiates heat and runs several degrees below screen-height air
+   * temperature; a dew point above the canopy temperature limits that cooling
+   * through the latent heat released by condensation.
    */
-  private analyzeFrostRisk(currentTemp: number, forecastData: any[]): FrostAlert {
-    const minTemps = forecastData.slice(0, 8).map(item => item.temperature); 
-    const lowestTemp = Math.min(...minTemps);
+  private estimateCanopyTemperature(item: any, timezoneOffset: number): number {
+    const hour = toLocalHour(Date.parse(item.datetime) / 1000, timezoneOffset);
+    const night = hour >= 18 || hour < 9;
+    if (!night) {
+      return item.temperature;
+    }
+
+    const cloudCover = item.cloudCover ?? (item.weather?.main === "Clear" ? 0 : 50);
+    const clearFactor = 1 - Math.min(100, Math.max(0, cloudCover)) / 100;
+    const calmFactor = Math.min(1, Math.max(0, (5 - item.windSpeed) / 4));
+    const cooling = this.MAX_RADIATIVE_COOLING * clearFactor * calmFactor;
+
+    return Math.max(item.temperature - cooling, Math.min(item.temperature, item.dewPoint - 1));
+  }
+
+  /**
+   * Analyze frost risk across the whole forecast, including radiative frost on
+   * clear calm nights when air temperature stays above the crop's kill temperature
+   */
+  private analyzeFrostRisk(currentTemp: number, forecastData: any[], timezoneOffset: number, crop?: CropProfile): FrostAlert {
+    const killTemp = crop?.frostKillTemp ?? 0;
+    const cropName = crop ? nameRef(`crop.${crop.code}`, crop.name, true) : msg("common.crops");
+    const rows = forecastData.map(item => ({
+      item,
+      canopyTemp: this.estimateCanopyTemperature(item, timezoneOffset)
+    }));
+    const lowestTemp = rows.length > 0 ? Math.min(...rows.map(row => row.item.temperature)) : currentTemp;
+    const lowestCanopyTemp = rows.length > 0 ? Math.min(...rows.map(row => row.canopyTemp)) : currentTemp;
+
+    const periods: FrostPeriod[] = [];
+    let run: typeof rows = [];
+    const closeRun = () => {
+      if (run.length === 0) return;
+      const first = run[0].item;
+      const last = run[run.length - 1].item;
+      const endTimestamp = Date.parse(last.datetime) / 1000 + 3 * 3600;
+      const minTemperature = Math.min(...run.map(row => row.item.temperature));
+      periods.push({
+        type: minTemperature <= killTemp ? "advective" : "radiative",
+        start: first.datetime,
+        end: new Date(endTimestamp * 1000).toISOString(),
+        localStart: first.localDatetime,
+        localEnd: toLocalISOString(endTimestamp, timezoneOffset),
+        minTemperature,
+        minCanopyTemperature: Math.round(Math.min(...run.map(row => row.canopyTemp)) * 10) / 10,
+        minDewPoint: Math.min(...run.map(row => row.item.dewPoint))
+      });
+      run = [];
+    };
+    rows.forEach(row => {
+      if (row.canopyTemp <= killTemp) {
+        run.push(row);
+      } else {
+        closeRun();
+      }
+    });
+    closeRun();
     
     let risk: FrostAlert["risk"] = "none";
-    let message = "";
-    let action = "";
-    let timeframe = "";
+    let message: MessageRef;
+    let action: MessageRef;
+    let timeframe: MessageRef;
 
-    if (lowestTemp <= -2) {
+    const firstPeriod = periods[0];
+    const radiativeOnly = periods.length > 0 && periods.every(period => period.type === "radiative");
+
+    if (lowestCanopyTemp <= killTemp - 2) {
       risk = "critical";
-      message = "Severe frost expected - immediate action required";
-      action = "Cover all sensitive crops, use frost protection methods, move potted plants indoors";
-      timeframe = "Within next 6-12 hours";
-    } else if (lowestTemp <= 0) {
+      message = radiativeOnly
+        ? msg("frost.critical_radiative", { crop: cropName })
+        : msg("frost.critical", { crop: cropName });
+      action = msg("frost.action.critical");
+    } else if (lowestCanopyTemp <= killTemp) {
       risk = "high";
-      message = "Hard frost likely - protect vulnerable crops";
-      action = "Cover young plants, drain irrigation lines, harvest sensitive crops";
-      timeframe = "Within next 12-24 hours";
-    } else if (lowestTemp <= 2) {
+      message = radiativeOnly
+        ? msg("frost.high_radiative", { killTemp })
+        : msg("frost.high", { killTemp, crop: cropName });
+      action = msg("frost.action.high");
+    } else if (lowestCanopyTemp <= killTemp + 2) {
       risk = "moderate";
-      message = "Light frost possible - monitor closely";
-      action = "Prepare frost protection materials, monitor weather updates";
-      timeframe = "Within next 24-48 hours";
-    } else if (lowestTemp <= 5) {
+      message = msg("frost.moderate");
+      action = msg("frost.action.moderate");
+    } else if (lowestCanopyTemp <= killTemp + 5) {
       risk = "low";
-      message = "Cool temperatures ahead - minimal frost risk";
-      action = "Normal operations, keep frost protection ready";
-      timeframe = "Next 2-3 days";
+      message = msg("frost.low");
+      action = msg("frost.action.low");
     } else {
       risk = "none";
-      message = "No frost risk detected";
-      action = "Continue normal farming activities";
-      timeframe = "Next 5 days";
+      message = msg("frost.none");
+      action = msg("frost.action.none");
     }
 
+    if (firstPeriod) {
+      timeframe = msg("frost.timeframe.period", { start: firstPeriod.localStart, end: firstPeriod.localEnd });
+    } else if (risk !== "none" && rows.length > 0) {
+      const coldest = rows.find(row => row.canopyTemp === lowestCanopyTemp)!;
+      timeframe = msg("frost.timeframe.coldest", { time: coldest.item.localDatetime });
+    } else {
+      timeframe = msg("frost.timeframe.default");
+    }
+
+    const codes = { message: [message], action: [action], timeframe: [timeframe] };
     return {
       risk,
-      message,
-      action,
-      timeframe,
-      temperature: lowestTemp
+      ...this.renderCodes(codes),
+      temperature: lowestTemp,
+      minCanopyTemperature: Math.round(lowestCanopyTemp * 10) / 10,
+      periods,
+      codes
     };
   }
 
   /**
-   * Generate irrigation advice based on weather conditions
+   * Generate irrigation advice based on weather conditions (fallback when no water balance is available)
    */
   private generateIrrigationAdvice(currentWeather: any, forecastData: any[]): IrrigationAdvice {
     const currentTemp = currentWeather.temperature;
@@ -123,125 +294,220 @@ class AgriculturalService {
     const extremeWaterStress = currentTemp > 35 && currentHumidity < 35;
 
     let recommendation: IrrigationAdvice["recommendation"];
-    let message = "";
-    let reason = "";
-    let nextCheck = "";
-    let waterAmount = "";
+    let message: MessageRef;
+    let reason: MessageRef;
+    let nextCheck: MessageRef;
+    let waterAmount: MessageRef[] = [];
+    const conditions = { temp: currentTemp, humidity: currentHumidity };
 
     if (significantRain) {
       recommendation = "skip";
-      message = "Skip irrigation - adequate rainfall expected";
-      reason = `${totalRain.toFixed(1)}mm rain forecast in next 48 hours`;
-      nextCheck = "Check again after rainfall";
+      message = msg("irrigation.skip_rain");
+      reason = msg("irrigation.reason.rain_forecast", { rain: totalRain.toFixed(1) });
+      nextCheck = msg("check.after_rain");
     } else if (extremeWaterStress) {
       recommendation = "immediate";
-      message = "Immediate irrigation required - extreme heat stress conditions";
-      reason = `Very high temperature (${currentTemp}°C) with low humidity (${currentHumidity}%)`;
-      nextCheck = "Monitor every 6 hours";
-      waterAmount = "Deep watering recommended - 25-30mm equivalent";
+      message = msg("irrigation.immediate_heat");
+      reason = msg("irrigation.reason.very_high_temp", conditions);
+      nextCheck = msg("check.every_6h");
+      waterAmount = [msg("irrigation.water.deep")];
     } else if (highWaterStress) {
       recommendation = "within_24h";
-      message = "Irrigation needed within 24 hours - high stress conditions";
-      reason = `High temperature (${currentTemp}°C) with low humidity (${currentHumidity}%)`;
-      nextCheck = "Check again in 12 hours";
-      waterAmount = "Regular watering - 15-20mm equivalent";
+      message = msg("irrigation.within_24h_stress");
+      reason = msg("irrigation.reason.high_temp", conditions);
+      nextCheck = msg("check.in_12h");
+      waterAmount = [msg("irrigation.water.regular")];
     } else if (waterStress) {
       recommendation = "within_48h";
-      message = "Plan irrigation within 48 hours - moderate stress detected";
-      reason = `Moderate temperature (${currentTemp}°C) with moderate humidity (${currentHumidity}%)`;
-      nextCheck = "Check again in 24 hours";
-      waterAmount = "Light watering - 10-15mm equivalent";
+      message = msg("irrigation.within_48h_stress");
+      reason = msg("irrigation.reason.moderate_temp", conditions);
+      nextCheck = msg("check.in_24h");
+      waterAmount = [msg("irrigation.water.light")];
     } else {
       recommendation = "monitor";
-      message = "Continue monitoring - current conditions adequate";
-      reason = `Acceptable temperature (${currentTemp}°C) and humidity (${currentHumidity}%)`;
-      nextCheck = "Check again in 24 hours";
+      message = msg("irrigation.monitor_weather");
+      reason = msg("irrigation.reason.acceptable", conditions);
+      nextCheck = msg("check.in_24h");
     }
 
+    const codes = { message: [message], reason: [reason], nextCheck: [nextCheck], waterAmount };
     return {
       recommendation,
-      message,
-      reason,
-      nextCheck,
-      waterAmount
+      ...this.renderCodes(codes),
+      codes
     };
   }
 
   /**
-   * Determine optimal spraying conditions
+   * Generate irrigation advice from the soil water balance
    */
-  private analyzeSprayingConditions(currentWeather: any, forecastData: any[]): SprayingWindow {
-    const currentWind = currentWeather.windSpeed;
+  private generateWaterBalanceAdvice(balance: WaterBalance, today: string): IrrigationAdvice {
+    const deficit = balance.currentDepletion;
+    const raw = balance.soil.readilyAvailableWater;
+    const upcoming = balance.daily.filter(day => day.projected && day.date >= today);
+    const daysToThreshold = balance.thresholdDate
+      ? Math.round((Date.parse(balance.thresholdDate) - Date.parse(today)) / 86400000)
+      : null;
+    const rainNext48h = upcoming.slice(0, 2).reduce((sum, day) => sum + day.effectiveRainfall, 0);
+
+    let recommendation: IrrigationAdvice["recommendation"];
+    let message: MessageRef;
+    let reason: MessageRef;
+    let nextCheck: MessageRef;
+    let applyMm: number | undefined;
+
+    if (balance.belowThreshold) {
+      recommendation = "immediate";
+      message = msg("irrigation.immediate");
+      reason = msg("irrigation.reason.deficit_exceeds", { deficit, raw });
+      nextCheck = msg("check.after_irrigating");
+      applyMm = Math.round(deficit);
+    } else if (deficit > 0 && rainNext48h >= deficit) {
+      recommendation = "skip";
+      message = msg("irrigation.skip_balance");
+      reason = msg("irrigation.reason.rain_refills", { rain: rainNext48h.toFixed(1), deficit });
+      nextCheck = msg("check.after_rain");
+    } else if (daysToThreshold !== null && daysToThreshold <= 1) {
+      recommendation = "within_24h";
+      message = msg("irrigation.within_24h");
+      reason = msg("irrigation.reason.threshold_on", { deficit, raw, date: balance.thresholdDate! });
+      nextCheck = msg("check.in_12h");
+    } else if (daysToThreshold !== null && daysToThreshold <= 2) {
+      recommendation = "within_48h";
+      message = msg("irrigation.within_48h");
+      reason = msg("irrigation.reason.threshold_on", { deficit, raw, date: balance.thresholdDate! });
+      nextCheck = msg("check.in_24h");
+    } else {
+      recommendation = "monitor";
+      message = msg("irrigation.monitor");
+      reason = balance.thresholdDate
+        ? msg("irrigation.reason.threshold_expected", { deficit, raw, date: balance.thresholdDate })
+        : msg("irrigation.reason.threshold_beyond", { deficit, raw });
+      nextCheck = msg("check.in_24h");
+    }
+
+    if (applyMm === undefined && (recommendation === "within_24h" || recommendation === "within_48h")) {
+      const atThreshold = balance.daily.find(day => day.date === balance.thresholdDate);
+      applyMm = Math.round(atThreshold ? atThreshold.depletion : deficit);
+    }
+
+    const codes = {
+      message: [message],
+      reason: [reason],
+      nextCheck: [nextCheck],
+      waterAmount: applyMm !== undefined ? [msg("irrigation.water.apply", { mm: applyMm })] : []
+    };
+    return {
+      recommendation,
+      ...this.renderCodes(codes),
+      deficitMm: deficit,
+      thresholdDate: balance.thresholdDate,
+      applyMm,
+      waterBalance: {
+        soil: balance.soil.texture,
+        totalAvailableWater: balance.soil.totalAvailableWater,
+        readilyAvailableWater: raw,
+        currentDepletion: deficit,
+        availableWater: balance.availableWater
+      },
+      codes
+    };
+  }
+
+  /**
+   * Determine spraying conditions now and the planned slots for the product class
+   */
+  private analyzeSprayingConditions(currentWeather: any, forecastData: any[], timezoneOffset: number, productClass: ProductClass = "contact_fungicide"): SprayingWindow {
+    const product = PRODUCT_CLASSES[productClass];
+    const currentWind = Math.round(currentWeather.windSpeed * 36) / 10;
     const currentTemp = currentWeather.temperature;
-    
-    
-    const next24h = forecastData.slice(0, 8);
-    
-    
-    const goodWindows = next24h.filter(item => 
-      item.windSpeed < 15 && 
-      (item.precipitation || 0) === 0 && 
-      item.temperature > 10 && item.temperature < 30 
-    );
+    const currentDeltaT = currentWeather.deltaT;
+    const deltaTRating = this.rateDeltaT(currentDeltaT);
+    const inversionRisk = currentDeltaT < 2 && currentWind < product.minWindKmh;
+
+    const slots = sprayPlannerService.findSlots(forecastData, timezoneOffset, product);
+    const byStart = [...slots].sort((a, b) => a.start.localeCompare(b.start));
+    const dayAhead = new Date(Date.now() + 24 * 3600000).toISOString();
+    const slotsNext24h = slots.filter(slot => slot.start < dayAhead);
+    const describeNextWindow = () => byStart.length > 0
+      ? msg("spray.next_slot", { start: byStart[0].localStart, end: byStart[0].localEnd })
+      : msg("spray.no_slot");
 
     let suitable = false;
-    let message = "";
-    let bestTime = "";
-    let nextOpportunity = "";
-    let reason = "";
+    let message: MessageRef;
+    let bestTime: MessageRef[] = [];
+    let nextOpportunity: MessageRef;
+    let reason: MessageRef;
 
-    if (currentWind > 20) {
+    if (currentWind > product.maxWindKmh) {
       suitable = false;
-      message = "Spraying not recommended - wind too strong";
-      reason = `Current wind speed: ${currentWind} km/h (safe limit: <15 km/h)`;
-      const nextGoodWindow = goodWindows[0];
-      if (nextGoodWindow) {
-        const hours = next24h.indexOf(nextGoodWindow) * 3;
-        nextOpportunity = `Next opportunity in ${hours} hours`;
-      } else {
-        nextOpportunity = "Check forecast tomorrow";
-      }
-    } else if (currentTemp > 30) {
+      message = msg("spray.wind");
+      reason = msg("spray.reason.wind", { wind: currentWind, limit: product.maxWindKmh });
+      nextOpportunity = describeNextWindow();
+    } else if (currentTemp > product.maxTemp) {
+      suitable = false;
+      message = msg("spray.hot");
+      reason = msg("spray.reason.hot", { temp: currentTemp, product: nameRef(`product.${product.code}`, product.name, true), limit: product.maxTemp });
+      nextOpportunity = describeNextWindow();
+    } else if (deltaTRating === "high") {
       suitable = false;
-      message = "Spraying not recommended - temperature too high";
-      reason = `Current temperature: ${currentTemp}°C (avoid spraying above 30°C)`;
-      nextOpportunity = "Wait for cooler conditions (early morning/evening)";
-    } else if (goodWindows.length > 0) {
+      message = msg("spray.delta_t_high");
+      reason = msg("spray.reason.delta_t_high", { deltaT: currentDeltaT });
+      nextOpportunity = describeNextWindow();
+    } else if (deltaTRating === "low") {
+      suitable = false;
+      message = inversionRisk
+        ? msg("spray.inversion")
+        : msg("spray.delta_t_low");
+      reason = msg("spray.reason.delta_t_low", { deltaT: currentDeltaT });
+      nextOpportunity = describeNextWindow();
+    } else if (slotsNext24h.length > 0) {
       suitable = true;
-      message = "Good spraying conditions available";
-      reason = `Low wind (${currentWind} km/h), suitable temperature (${currentTemp}°C)`;
-      
-      
-      const morningWindows = goodWindows.filter((_, index) => {
-        const hour = (new Date().getHours() + (index * 3)) % 24;
-        return hour >= 6 && hour <= 10; 
-      });
-      
-      if (morningWindows.length > 0) {
-        bestTime = "Early morning (6-10 AM) recommended for optimal results";
-      } else {
-        bestTime = "Current conditions suitable - spray when convenient";
-      }
+      message = deltaTRating === "marginal"
+        ? msg("spray.marginal")
+        : msg("spray.good");
+      reason = msg("spray.reason.good", { wind: currentWind, temp: currentTemp, deltaT: currentDeltaT });
+      bestTime = [msg("spray.best_slot", {
+        start: slotsNext24h[0].localStart,
+        end: slotsNext24h[0].localEnd,
+        rating: msg(`spray.rating.${slotsNext24h[0].rating}`)
+      })];
+      nextOpportunity = describeNextWindow();
     } else {
       suitable = false;
-      message = "Poor spraying conditions - wait for better weather";
-      reason = "High wind or rain forecast in next 24 hours";
-      nextOpportunity = "Check forecast again in 12 hours";
+      message = msg("spray.poor");
+      reason = msg("spray.reason.no_slot", { hours: product.rainfastHours });
+      nextOpportunity = describeNextWindow();
     }
 
+    const codes = { message: [message], reason: [reason], bestTime, nextOpportunity: [nextOpportunity] };
     return {
       suitable,
-      message,
-      bestTime,
-      nextOpportunity,
-      reason
+      ...this.renderCodes(codes),
+      deltaT: currentDeltaT,
+      deltaTRating,
+      inversionRisk,
+      product: productClass,
+      slots: slots.slice(0, 3),
+      codes
     };
   }
 
   /**
-   * Assess heat stress risk
+   * Classify Delta T against the standard 2-8°C spray band (up to 10°C with coarse droplets)
    */
-  private assessHeatStress(currentWeather: any, forecastData: any[]): HeatStressAlert {
+  private rateDeltaT(deltaT: number): DeltaTRating {
+    if (deltaT < 2) return "low";
+    if (deltaT <= 8) return "ideal";
+    if (deltaT <= 10) return "marginal";
+    return "high";
+  }
+
+  /**
+   * Assess heat stress risk relative to the crop's heat stress temperature (35°C when no crop is given)
+   */
+  private assessHeatStress(currentWeather: any, forecastData: any[], crop?: CropProfile): HeatStressAlert {
+    const threshold = crop?.heatStressTemp ?? 35;
     const currentTemp = currentWeather.temperature;
     const currentHumidity = currentWeather.humidity;
     
@@ -249,122 +515,429 @@ class AgriculturalService {
     const heatIndex = currentTemp + (currentHumidity > 40 ? (currentHumidity - 40) * 0.2 : 0);
     
     
-    const highTempPeriods = forecastData.filter(item => item.temperature > 30).length;
-    const duration = `${highTempPeriods * 3} hours of elevated temperatures expected`;
+    const highTempPeriods = forecastData.filter(item => item.temperature > threshold - 5).length;
+    const duration = msg("heat.duration", { hours: highTempPeriods * 3 });
 
     let risk: HeatStressAlert["risk"] = "none";
-    let message = "";
-    let action = "";
+    let message: MessageRef;
+    let action: MessageRef;
 
-    if (currentTemp > 40 || (currentTemp > 35 && currentHumidity > 70)) {
+    if (currentTemp > threshold + 5 || (currentTemp > threshold && currentHumidity > 70)) {
       risk = "extreme";
-      message = "Extreme heat stress - immediate action required";
-      action = "Increase irrigation frequency, provide shade, harvest heat-sensitive crops immediately";
-    } else if (currentTemp > 35 || (currentTemp > 30 && currentHumidity > 80)) {
+      message = msg("heat.extreme");
+      action = msg("heat.action.extreme");
+    } else if (currentTemp > threshold || (currentTemp > threshold - 5 && currentHumidity > 80)) {
       risk = "high";
-      message = "High heat stress - crops need protection";
-      action = "Increase irrigation, apply mulch, avoid field work during peak heat";
-    } else if (currentTemp > 30 || (currentTemp > 25 && currentHumidity > 85)) {
+      message = msg("heat.high");
+      action = msg("heat.action.high");
+    } else if (currentTemp > threshold - 5 || (currentTemp > threshold - 10 && currentHumidity > 85)) {
       risk = "moderate";
-      message = "Moderate heat stress - monitor crops closely";
-      action = "Ensure adequate water supply, consider morning/evening irrigation";
-    } else if (currentTemp > 25) {
+      message = msg("heat.moderate");
+      action = msg("heat.action.moderate");
+    } else if (currentTemp > threshold - 10) {
       risk = "low";
-      message = "Mild heat stress possible - maintain normal care";
-      action = "Continue regular irrigation schedule, monitor plant health";
+      message = msg("heat.low");
+      action = msg("heat.action.low");
     } else {
       risk = "none";
-      message = "No heat stress detected";
-      action = "Normal growing conditions - continue standard practices";
+      message = msg("heat.none");
+      action = msg("heat.action.none");
     }
 
+    const codes = { message: [message], action: [action], duration: [duration] };
     return {
       risk,
-      message,
-      action,
-      duration,
-      temperature: currentTemp
+      ...this.renderCodes(codes),
+      temperature: currentTemp,
+      codes
+    };
+  }
+
+  /**
+   * Work out the crop's growth stage when both a crop and a sowing date are known
+   */
+  private async getPhenology(lat: number, lon: number, options: AdvisoryOptions): Promise<Phenology | null> {
+    if (!options.crop || !options.sowingDate || options.crop.stages.length === 0) {
+      return null;
+    }
+
+    const phenology = await phenologyService.getPhenology(lat, lon, options.crop, options.sowingDate);
+    return phenology.success && phenology.data ? phenology.data : null;
+  }
+
+  /**
+   * Raise frost risk one level while the crop is at a frost-sensitive stage
+   */
+  private applyStageToFrost(frost: FrostAlert, stage: GrowthStage | null): FrostAlert {
+    const levels: FrostAlert["risk"][] = ["low", "moderate", "high", "critical"];
+    const index = levels.indexOf(frost.risk);
+    if (!stage || !stage.critical.includes("frost") || index < 0 || index === levels.length - 1) {
+      return frost;
+    }
+
+    const codes = { ...frost.codes, message: [...frost.codes.message, msg("frost.stage_sensitive", { stage: this.stageName(stage) })] };
+    return {
+      ...frost,
+      risk: levels[index + 1],
+      message: renderMessages(codes.message, "en"),
+      codes
+    };
+  }
+
+  /**
+   * Bring irrigation forward while the crop is at a moisture-critical stage
+   */
+  private applyStageToIrrigation(irrigation: IrrigationAdvice, stage: GrowthStage | null): IrrigationAdvice {
+    if (!stage || !stage.critical.includes("water")) {
+      return irrigation;
+    }
+
+    const readilyAvailable = irrigation.waterBalance?.readilyAvailableWater;
+    let recommendation = irrigation.recommendation;
+    if (recommendation === "within_24h") {
+      recommendation = "immediate";
+    } else if (recommendation === "within_48h") {
+      recommendation = "within_24h";
+    } else if (recommendation === "monitor" && readilyAvailable !== undefined && (irrigation.deficitMm || 0) >= readilyAvailable / 2) {
+      recommendation = "within_48h";
+    }
+
+    if (recommendation === irrigation.recommendation) {
+      return irrigation;
+    }
+
+    const codes = { ...irrigation.codes, message: [...irrigation.codes.message, msg("irrigation.stage_critical", { stage: this.stageName(stage) })] };
+    return {
+      ...irrigation,
+      recommendation,
+      message: renderMessages(codes.message, "en"),
+      applyMm: irrigation.applyMm ?? (irrigation.deficitMm !== undefined ? Math.round(irrigation.deficitMm) : undefined),
+      codes
+    };
+  }
+
+  /**
+   * Raise heat stress one level while the crop is at a heat-sensitive stage
+   */
+  private applyStageToHeatStress(heatStress: HeatStressAlert, stage: GrowthStage | null): HeatStressAlert {
+    const levels: HeatStressAlert["risk"][] = ["low", "moderate", "high", "extreme"];
+    const index = levels.indexOf(heatStress.risk);
+    if (!stage || !stage.critical.includes("heat") || index < 0 || index === levels.length - 1) {
+      return heatStress;
+    }
+
+    const codes = { ...heatStress.codes, message: [...heatStress.codes.message, msg("heat.stage_sensitive", { stage: this.stageName(stage) })] };
+    return {
+      ...heatStress,
+      risk: levels[index + 1],
+      message: renderMessages(codes.message, "en"),
+      codes
+    };
+  }
+
+  /**
+   * Recent activities from the field diary, reaching back far enough to cover
+   * the longest restriction interval of any spray logged on the field
+   */
+  private async getFieldActivities(options: AdvisoryOptions): Promise<FieldActivity[]> {
+    if (!options.fieldId) {
+      return [];
+    }
+
+    try {
+      const lookbackDays = Math.max(this.ACTIVITY_LOOKBACK_DAYS, await activityService.getLongestRestrictionDays(options.fieldId));
+      const since = new Date(Date.now() - lookbackDays * 86400000).toISOString().split("T")[0];
+      return await activityService.listActivities(options.fieldId, { since });
+    } catch (error) {
+      console.error("❌ Failed to load field activities:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Account for irrigation the farmer has already applied. The water balance
+   * counts logged amounts, including today's; watering it could not count (no
+   * amount logged today, or anything today or yesterday for the weather-only
+   * fallback) holds the recommendation back.
+   */
+  private applyActivityToIrrigation(irrigation: IrrigationAdvice, activities: FieldActivity[], today: string): IrrigationAdvice {
+    const last = activities.find(activity => activity.type === "irrigation" && activity.date <= today);
+    if (!last) {
+      return irrigation;
+    }
+
+    const lastIrrigation = { date: last.date, amountMm: last.amountMm };
+    const yesterday = new Date(Date.parse(today) - 86400000).toISOString().split("T")[0];
+    const pending = ["immediate", "within_24h", "within_48h"].includes(irrigation.recommendation);
+    const counted = irrigation.waterBalance !== undefined && last.amountMm !== undefined;
+    const recent = irrigation.waterBalance ? last.date === today : last.date >= yesterday;
+    if (counted || !recent || !pending) {
+      return { ...irrigation, lastIrrigation };
+    }
+
+    const applied = last.amountMm !== undefined
+      ? msg("irrigation.reason.applied_amount", { amount: last.amountMm, date: last.date })
+      : msg("irrigation.reason.applied", { date: last.date });
+    const codes = {
+      message: [msg("irrigation.already_applied")],
+      reason: [applied, ...irrigation.codes.reason.map((ref, index) => index === 0 ? { ...ref, lowerFirst: true } : ref)],
+      nextCheck: [msg("check.in_24h")],
+      waterAmount: []
+    };
+    return {
+      ...irrigation,
+      recommendation: "monitor",
+      ...this.renderCodes(codes),
+      lastIrrigation,
+      codes
     };
   }
 
+  /**
+   * Gross depth to run through the field's irrigation system for the net refill, from its application efficiency
+   */
+  private applyIrrigationSystem(irrigation: IrrigationAdvice, irrigationType?: IrrigationType): IrrigationAdvice {
+    const pending = ["immediate", "within_24h", "within_48h"].includes(irrigation.recommendation);
+    if (!irrigationType || irrigationType === "rainfed" || irrigation.applyMm === undefined || !pending) {
+      return irrigation;
+    }
+
+    const grossMm = Math.round(irrigation.applyMm / APPLICATION_EFFICIENCIES[irrigationType]);
+    const codes = {
+      ...irrigation.codes,
+      waterAmount: [msg("irrigation.water.apply_gross", { mm: irrigation.applyMm, gross: grossMm, system: msg(`irrigation.system.${irrigationType}`) })]
+    };
+    return {
+      ...irrigation,
+      waterAmount: renderMessages(codes.waterAmount, "en"),
+      grossMm,
+      codes
+    };
+  }
+
+  /**
+   * Attach unexpired re-entry and pre-harvest intervals from logged sprays
+   */
+  private applyActivityToSpraying(spraying: SprayingWindow, activities: FieldActivity[], timezoneOffset: number): SprayingWindow {
+    const restrictions = activityService.getSprayRestrictions(activities, timezoneOffset);
+    return restrictions.length > 0 ? { ...spraying, restrictions } : spraying;
+  }
+
+  /**
+   * Catalogue name for a growth stage; stage names are keyed by name because crops share stage codes
+   */
+  private stageName(stage: GrowthStage, lowerFirst = false): MessageRef | string {
+    return nameRef(`stage.${stage.name.toLowerCase().replace(/[^a-z0-9]+/g, "_")}`, stage.name, lowerFirst);
+  }
+
+  /**
+   * English text for each coded field; callers localize with the same codes
+   */
+  private renderCodes<K extends string>(codes: MessageCodes<K>): Record<K, string> {
+    const rendered = {} as Record<K, string>;
+    (Object.keys(codes) as K[]).forEach(field => {
+      rendered[field] = renderMessages(codes[field], "en");
+    });
+    return rendered;
+  }
+
   /**
    * Generate priority level and general advice
    */
-  private generateOverallAdvice(frost: FrostAlert, irrigation: IrrigationAdvice, spraying: SprayingWindow, heatStress: HeatStressAlert): { priority: CropAdvisory["priority"], generalAdvice: string[] } {
-    const advice: string[] = [];
+  private generateOverallAdvice(frost: FrostAlert, irrigation: IrrigationAdvice, spraying: SprayingWindow, heatStress: HeatStressAlert, stage: GrowthStage | null = null, diseaseRisk?: CropAdvisory["diseaseRisk"], nutrientMessage?: MessageRef): { priority: CropAdvisory["priority"], generalAdvice: MessageRef[] } {
+    const advice: MessageRef[] = [];
     let priority: CropAdvisory["priority"] = "low";
 
     
     if (frost.risk === "critical" || heatStress.risk === "extreme" || irrigation.recommendation === "immediate") {
       priority = "urgent";
-      advice.push("⚠️ Urgent action required - check all alerts immediately");
-    } else if (frost.risk === "high" || heatStress.risk === "high" || irrigation.recommendation === "within_24h") {
+      advice.push(msg("advice.urgent"));
+    } else if (frost.risk === "high" || heatStress.risk === "high" || irrigation.recommendation === "within_24h" || diseaseRisk?.overallRisk === "high") {
       priority = "high";
-      advice.push("⚡ High priority - address within 24 hours");
-    } else if (frost.risk === "moderate" || heatStress.risk === "moderate" || irrigation.recommendation === "within_48h") {
+      advice.push(msg("advice.high"));
+    } else if (frost.risk === "moderate" || heatStress.risk === "moderate" || irrigation.recommendation === "within_48h" || diseaseRisk?.overallRisk === "moderate") {
       priority = "medium";
-      advice.push("📋 Medium priority - plan accordingly");
+      advice.push(msg("advice.medium"));
     }
 
     
     if (spraying.suitable) {
-      advice.push("✅ Good conditions for pesticide/herbicide application");
+      advice.push(msg("advice.spray_ok"));
     }
 
+    (spraying.restrictions || []).forEach(restriction => {
+      if (restriction.reEntryActive) {
+        advice.push(msg("advice.re_entry", { product: restriction.product, until: restriction.reEntryUntilLocal! }));
+      }
+      if (restriction.preHarvestActive) {
+        advice.push(msg("advice.pre_harvest", { product: restriction.product, until: restriction.preHarvestUntil! }));
+      }
+    });
+
     if (irrigation.recommendation === "skip") {
-      advice.push("💧 Rain expected - save on irrigation costs");
+      advice.push(msg("advice.rain_skip"));
+    }
+
+    if (nutrientMessage) {
+      advice.push(msg("advice.nutrient", { message: nutrientMessage }));
+    }
+
+    const highDiseaseRisks = diseaseRisk ? diseaseRisk.risks.filter(item => item.risk === "high") : [];
+    if (highDiseaseRisks.length > 0) {
+      advice.push(msg("advice.disease", { diseases: highDiseaseRisks.map(item => nameRef(`risk.${item.code}`, item.name, true)) }));
     }
 
     if (frost.risk === "none" && heatStress.risk === "none") {
-      advice.push("🌿 Optimal growing conditions - ideal for field work");
+      advice.push(msg("advice.optimal"));
+    }
+
+    if (stage) {
+      if (stage.critical.includes("frost") && frost.risk !== "none") {
+        advice.push(msg("advice.stage_frost", { stage: this.stageName(stage, true) }));
+      }
+      if (stage.critical.includes("water")) {
+        advice.push(msg("advice.stage_water", { stage: this.stageName(stage) }));
+      }
+      if (stage.critical.includes("heat") && heatStress.risk !== "none") {
+        advice.push(msg("advice.stage_heat", { stage: this.stageName(stage, true) }));
+      }
+      if (stage.code === "maturity") {
+        advice.push(msg("advice.maturity"));
+      }
     }
 
     
-    advice.push("📱 Check updates every 12-24 hours for changing conditions");
+    advice.push(msg("advice.check_updates"));
 
     return { priority, generalAdvice: advice };
   }
 
   /**
-   * Get comprehensive crop advisory
+   * Run every advisory rule for a location and rank the result. The full
+   * advisory and the field monitor both go through here so they agree on
+   * priority.
    */
-  async getCropAdvisory(lat: number, lon: number): Promise<AdvisoryResponse> {
-    try {
-      
-      const [currentWeather, hourlyForecast] = await Promise.all([
-        weatherService.getCurrentWeather(lat, lon),
-        weatherService.getHourlyForecast(lat, lon)
-      ]);
+  private async assessAdvisory(lat: number, lon: number, options: AdvisoryOptions): Promise<AdvisoryAssessment> {
+    const [currentWeather, hourlyForecast, waterBalance, phenology, disease, activities] = await Promise.all([
+      weatherService.getCurrentWeather(lat, lon),
+      weatherService.getHourlyForecast(lat, lon),
+      waterBalanceService.getWaterBalance(lat, lon, options),
+      this.getPhenology(lat, lon, options),
+      diseaseRiskService.getDiseaseRisk(lat, lon, options),
+      this.getFieldActivities(options)
+    ]);
 
-      if (!currentWeather.success || !hourlyForecast.success) {
-        throw new Error("Failed to fetch weather data for analysis");
-      }
+    if (!currentWeather.success || !hourlyForecast.success) {
+      throw new Error("Failed to fetch weather data for analysis");
+    }
 
-      const current = currentWeather.data!.current;
-      const forecast = hourlyForecast.data!.forecast;
-      const location = currentWeather.data!.location;
+    const current = currentWeather.data!.current;
+    const forecast = hourlyForecast.data!.forecast;
+    const timezoneOffset = hourlyForecast.data!.location.timezone.offsetSeconds;
 
-      
-      const frost = this.analyzeFrostRisk(current.temperature, forecast);
-      const irrigation = this.generateIrrigationAdvice(current, forecast);
-      const spraying = this.analyzeSprayingConditions(current, forecast);
-      const heatStress = this.assessHeatStress(current, forecast);
-      
-      const { priority, generalAdvice } = this.generateOverallAdvice(frost, irrigation, spraying, heatStress);
+    
+    const stage = phenology ? phenology.stage : null;
+    const today = toLocalDate(Math.floor(Date.now() / 1000), timezoneOffset);
+    const frost = this.applyStageToFrost(
+      this.analyzeFrostRisk(current.temperature, forecast, timezoneOffset, options.crop),
+      stage
+    );
+    const irrigation = this.applyIrrigationSystem(
+      this.applyActivityToIrrigation(
+        this.applyStageToIrrigation(
+          waterBalance.success && waterBalance.data
+            ? this.generateWaterBalanceAdvice(waterBalance.data, today)
+            : this.generateIrrigationAdvice(current, forecast),
+          stage
+        ),
+        activities,
+        today
+      ),
+      options.irrigationType
+    );
+    const spraying = this.applyActivityToSpraying(
+      this.analyzeSprayingConditions(current, forecast, timezoneOffset, options.sprayProduct),
+      activities,
+      timezoneOffset
+    );
+    const heatStress = this.applyStageToHeatStress(this.assessHeatStress(current, forecast, options.crop), stage);
+    
+    const diseaseRisk = disease.success && disease.data ? {
+      overallRisk: disease.data.overallRisk,
+      risks: disease.data.risks.map(item => ({
+        code: item.code,
+        name: item.name,
+        risk: item.risk,
+        message: item.message
+      }))
+    } : undefined;
+    
+    // Fertilizer timing only when the grower has a crop or asked about a product
+    let nutrientMessage: MessageRef | undefined;
+    if (options.crop || options.fertilizer) {
+      const profile = FERTILIZER_TYPES[options.fertilizer || "urea"];
+      const recentRainfall = waterBalance.success && waterBalance.data
+        ? waterBalance.data.daily.filter(day => !day.projected && day.date < today).slice(-3).reduce((sum, day) => sum + day.rainfall, 0)
+        : undefined;
+      const windows = nutrientAdvisorService.findWindows(forecast, timezoneOffset, profile, options.soil || "loam", recentRainfall);
+      nutrientMessage = nutrientAdvisorService.describe(profile, windows, nutrientAdvisorService.pickBest(windows));
+    }
+
+    const { priority, generalAdvice } = this.generateOverallAdvice(frost, irrigation, spraying, heatStress, stage, diseaseRisk, nutrientMessage);
+
+    return {
+      location: currentWeather.data!.location,
+      timezone: hourlyForecast.data!.location.timezone,
+      phenology,
+      frost,
+      irrigation,
+      spraying,
+      heatStress,
+      diseaseRisk,
+      priority,
+      generalAdvice
+    };
+  }
+
+  /**
+   * Get comprehensive crop advisory
+   */
+  async getCropAdvisory(lat: number, lon: number, options: AdvisoryOptions = {}): Promise<AdvisoryResponse> {
+    try {
+      const { location, timezone, phenology, frost, irrigation, spraying, heatStress, diseaseRisk, priority, generalAdvice } = await this.assessAdvisory(lat, lon, options);
+      const language = options.language || "en";
 
       const advisory: CropAdvisory = {
         location: {
           name: location.name,
           lat: location.lat,
-          lon: location.lon
+          lon: location.lon,
+          timezone
         },
-        frost,
-        irrigation,
-        spraying,
-        heatStress,
-        generalAdvice,
+        crop: options.crop ? {
+          code: options.crop.code,
+          name: options.crop.name,
+          frostKillTemp: options.crop.frostKillTemp,
+          heatStressTemp: options.crop.heatStressTemp,
+          cropCoefficient: options.cropCoefficient
+        } : undefined,
+        phenology: phenology ? {
+          stage: phenology.stage,
+          accumulatedGdd: phenology.accumulatedGdd,
+          daysSinceSowing: phenology.daysSinceSowing,
+          nextStage: phenology.nextStage
+        } : undefined,
+        frost: localizeFields(frost, language),
+        irrigation: localizeFields(irrigation, language),
+        spraying: localizeFields(spraying, language),
+        heatStress: localizeFields(heatStress, language),
+        diseaseRisk,
+        generalAdvice: generalAdvice.map(ref => t(ref, language)),
+        generalAdviceCodes: generalAdvice,
         priority,
-        lastUpdated: new Date().toISOString()
+        language,
+        lastUpdated: new Date().toISOString(),
+        lastUpdatedLocal: toLocalISOString(Math.floor(Date.now() / 1000), timezone.offsetSeconds)
       };
 
       return {
@@ -383,20 +956,62 @@ class AgriculturalService {
     }
   }
 
+  /**
+   * Advisory priority and general advice, ranked exactly as the full advisory ranks them
+   */
+  async getAdvisoryPriority(lat: number, lon: number, options: AdvisoryOptions = {}): Promise<{ priority: CropAdvisory["priority"]; generalAdvice: MessageRef[] }> {
+    const { priority, generalAdvice } = await this.assessAdvisory(lat, lon, options);
+    return { priority, generalAdvice };
+  }
+
   /**
    * Get specific frost alert
    */
-  async getFrostAlert(lat: number, lon: number): Promise<{ success: boolean; data?: FrostAlert; error?: string }> {
+  async getFrostAlert(lat: number, lon: number, options: AdvisoryOptions = {}): Promise<{ success: boolean; data?: FrostAlert; error?: string }> {
     try {
-      const forecast = await weatherService.getHourlyForecast(lat, lon);
+      const [forecast, phenology] = await Promise.all([
+        weatherService.getHourlyForecast(lat, lon),
+        this.getPhenology(lat, lon, options)
+      ]);
       if (!forecast.success) throw new Error("Weather data unavailable");
       
       const current = await weatherService.getCurrentWeather(lat, lon);
       const currentTemp = current.data?.current.temperature || 20;
       
-      const frostAlert = this.analyzeFrostRisk(currentTemp, forecast.data!.forecast);
+      const frostAlert = this.applyStageToFrost(
+        this.analyzeFrostRisk(
+          currentTemp,
+          forecast.data!.forecast,
+          forecast.data!.location.timezone.offsetSeconds,
+          options.crop
+        ),
+        phenology ? phenology.stage : null
+      );
       
-      return { success: true, data: frostAlert };
+      return { success: true, data: localizeFields(frostAlert, options.language || "en") };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : "Analysis failed" };
+    }
+  }
+
+  /**
+   * Get specific heat stress alert
+   */
+  async getHeatStressAlert(lat: number, lon: number, options: AdvisoryOptions = {}): Promise<{ success: boolean; data?: HeatStressAlert; error?: string }> {
+    try {
+      const [current, forecast, phenology] = await Promise.all([
+        weatherService.getCurrentWeather(lat, lon),
+        weatherService.getHourlyForecast(lat, lon),
+        this.getPhenology(lat, lon, options)
+      ]);
+      if (!current.success || !forecast.success) throw new Error("Weather data unavailable");
+
+      const heatStress = this.applyStageToHeatStress(
+        this.assessHeatStress(current.data!.current, forecast.data!.forecast, options.crop),
+        phenology ? phenology.stage : null
+      );
+
+      return { success: true, data: localizeFields(heatStress, options.language || "en") };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : "Analysis failed" };
     }
@@ -405,18 +1020,34 @@ class AgriculturalService {
   /**
    * Get irrigation recommendations
    */
-  async getIrrigationAdvice(lat: number, lon: number): Promise<{ success: boolean; data?: IrrigationAdvice; error?: string }> {
+  async getIrrigationAdvice(lat: number, lon: number, options: AdvisoryOptions = {}): Promise<{ success: boolean; data?: IrrigationAdvice; error?: string }> {
     try {
-      const [current, forecast] = await Promise.all([
+      const [current, forecast, waterBalance, phenology, activities] = await Promise.all([
         weatherService.getCurrentWeather(lat, lon),
-        weatherService.getHourlyForecast(lat, lon)
+        weatherService.getHourlyForecast(lat, lon),
+        waterBalanceService.getWaterBalance(lat, lon, options),
+        this.getPhenology(lat, lon, options),
+        this.getFieldActivities(options)
       ]);
       
       if (!current.success || !forecast.success) throw new Error("Weather data unavailable");
       
-      const irrigationAdvice = this.generateIrrigationAdvice(current.data!.current, forecast.data!.forecast);
+      const today = toLocalDate(Math.floor(Date.now() / 1000), forecast.data!.location.timezone.offsetSeconds);
+      const irrigationAdvice = this.applyIrrigationSystem(
+        this.applyActivityToIrrigation(
+          this.applyStageToIrrigation(
+            waterBalance.success && waterBalance.data
+              ? this.generateWaterBalanceAdvice(waterBalance.data, today)
+              : this.generateIrrigationAdvice(current.data!.current, forecast.data!.forecast),
+            phenology ? phenology.stage : null
+          ),
+          activities,
+          today
+        ),
+        options.irrigationType
+      );
       
-      return { success: true, data: irrigationAdvice };
+      return { success: true, data: localizeFields(irrigationAdvice, options.language || "en") };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : "Analysis failed" };
     }
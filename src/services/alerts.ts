@@ -0,0 +1,436 @@
+import { Alert as AlertRecord, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { eventBus } from "../lib/events";
+import { Language, localizeFields, MessageRef, renderMessages } from "../lib/i18n";
+import { AdvisoryOptions, agriculturalService } from "./agricultural";
+import { cropService } from "./crops";
+import { farmService } from "./farm";
+
+export type AlertType = "frost" | "heat" | "irrigation";
+
+export type AlertSeverity = "low" | "moderate" | "high" | "critical";
+
+export type AlertStatus = "active" | "resolved";
+
+export const ALERT_TYPES: AlertType[] = ["frost", "heat", "irrigation"];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ["low", "moderate", "high", "critical"];
+
+export interface AlertSubscription {
+  id: string;
+  owner: string;
+  name?: string;
+  fieldId?: string;
+  lat?: number;
+  lon?: number;
+  alertTypes: AlertType[];
+  minSeverity: AlertSeverity;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertSubscriptionInput {
+  owner: string;
+  name?: string | null;
+  fieldId?: string | null;
+  lat?: number | null;
+  lon?: number | null;
+  alertTypes: AlertType[];
+  minSeverity: AlertSeverity;
+  active?: boolean;
+}
+
+export interface Alert {
+  id: string;
+  subscriptionId: string;
+  type: AlertType;
+  severity: AlertSeverity;
+  peakSeverity: AlertSeverity;
+  status: AlertStatus;
+  message: string;
+  action?: string;
+  details?: any;
+  raisedAt: string;
+  escalatedAt?: string;
+  lastSeenAt: string;
+  resolvedAt?: string;
+}
+
+export interface AlertFilter {
+  owner?: string;
+  subscriptionId?: string;
+  fieldId?: string;
+  status?: AlertStatus;
+  limit?: number;
+}
+
+export interface AlertEvaluation {
+  type: AlertType;
+  severity: AlertSeverity | null;
+  message: string;
+  action?: string;
+  details?: any;
+}
+
+export interface AlertRunSummary {
+  subscriptions: number;
+  raised: number;
+  escalated: number;
+  resolved: number;
+  failed: number;
+}
+
+class AlertService {
+
+  /**
+   * List subscriptions, optionally for a single owner
+   */
+  async listSubscriptions(owner?: string): Promise<AlertSubscription[]> {
+    const subscriptions = await prisma.alertSubscription.findMany({
+      where: owner ? { owner } : undefined,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return subscriptions.map((subscription: any) => this.toSubscription(subscription));
+  }
+
+  async getSubscription(id: string): Promise<AlertSubscription | null> {
+    const subscription = await prisma.alertSubscription.findUnique({ where: { id } });
+    return subscription ? this.toSubscription(subscription) : null;
+  }
+
+  async createSubscription(input: AlertSubscriptionInput): Promise<AlertSubscription> {
+    const subscription = await prisma.alertSubscription.create({
+      data: {
+        owner: input.owner,
+        name: input.name ?? null,
+        fieldId: input.fieldId ?? null,
+        lat: input.lat ?? null,
+        lon: input.lon ?? null,
+        alertTypes: input.alertTypes,
+        minSeverity: input.minSeverity,
+        active: input.active ?? true,
+      },
+    });
+
+    return this.toSubscription(subscription);
+  }
+
+  /**
+   * Update a subscription. Returns null when it does not exist.
+   */
+  async updateSubscription(id: string, input: Partial<AlertSubscriptionInput>): Promise<AlertSubscription | null> {
+    const existing = await prisma.alertSubscription.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const subscription = await prisma.alertSubscription.update({
+      where: { id },
+      data: input,
+    });
+
+    return this.toSubscription(subscription);
+  }
+
+  /**
+   * Delete a subscription and, through the cascade, its alerts
+   */
+  async deleteSubscription(id: string): Promise<boolean> {
+    const result = await prisma.alertSubscription.deleteMany({ where: { id } });
+    return result.count > 0;
+  }
+
+  /**
+   * List alerts, newest first
+   */
+  async listAlerts(filter: AlertFilter = {}, language: Language = "en"): Promise<Alert[]> {
+    const subscription: any = {};
+    if (filter.owner) subscription.owner = filter.owner;
+    if (filter.fieldId) subscription.fieldId = filter.fieldId;
+
+    const alerts = await prisma.alert.findMany({
+      where: {
+        subscriptionId: filter.subscriptionId,
+        status: filter.status,
+        subscription: Object.keys(subscription).length > 0 ? subscription : undefined,
+      },
+      orderBy: { raisedAt: "desc" },
+      take: filter.limit ?? 100,
+    });
+
+    return alerts.map((alert: any) => this.localize(this.toAlert(alert), language));
+  }
+
+  async getAlert(id: string, language: Language = "en"): Promise<Alert | null> {
+    const alert = await prisma.alert.findUnique({ where: { id } });
+    return alert ? this.localize(this.toAlert(alert), language) : null;
+  }
+
+  /**
+   * Evaluate every active subscription, raising, escalating and resolving alerts
+   */
+  async evaluateAll(): Promise<AlertRunSummary> {
+    const subscriptions = await prisma.alertSubscription.findMany({ where: { active: true } });
+    const summary: AlertRunSummary = { subscriptions: subscriptions.length, raised: 0, escalated: 0, resolved: 0, failed: 0 };
+
+    for (const record of subscriptions) {
+      const subscription = this.toSubscription(record);
+      try {
+        const result = await this.evaluateSubscription(subscription);
+        summary.raised += result.raised;
+        summary.escalated += result.escalated;
+        summary.resolved += result.resolved;
+      } catch (error) {
+        summary.failed++;
+        console.error(`❌ Alert evaluation failed for subscription ${subscription.id}:`, error);
+      }
+    }
+
+    console.log(`🚨 Alerts: ${summary.raised} raised, ${summary.escalated} escalated, ${summary.resolved} resolved for ${summary.subscriptions} subscriptions`);
+    return summary;
+  }
+
+  /**
+   * Evaluate one subscription's alert types and reconcile them with its stored alerts
+   */
+  async evaluateSubscription(subscription: AlertSubscription): Promise<{ raised: number; escalated: number; resolved: number }> {
+    const target = await this.resolveTarget(subscription);
+    if (!target) {
+      throw new Error("Subscription has no field or coordinates");
+    }
+
+    const counts = { raised: 0, escalated: 0, resolved: 0 };
+    for (const type of subscription.alertTypes) {
+      const evaluation = await this.evaluate(type, target.lat, target.lon, target.options);
+      const outcome = await this.reconcile(subscription, evaluation, target);
+      if (outcome) {
+        counts[outcome]++;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Run the advisory rule behind an alert type and map its result onto the alert severity scale
+   */
+  private async evaluate(type: AlertType, lat: number, lon: number, options: AdvisoryOptions): Promise<AlertEvaluation> {
+    if (type === "frost") {
+      const result = await agriculturalService.getFrostAlert(lat, lon, options);
+      if (!result.success || !result.data) throw new Error(result.error || "Frost alert unavailable");
+      const frost = result.data;
+      return {
+        type,
+        severity: frost.risk === "none" ? null : frost.risk,
+        message: frost.message,
+        action: frost.action,
+        details: { timeframe: frost.timeframe, minCanopyTemperature: frost.minCanopyTemperature, periods: frost.periods, codes: { message: frost.codes.message, action: frost.codes.action, timeframe: frost.codes.timeframe } }
+      };
+    }
+
+    if (type === "heat") {
+      const result = await agriculturalService.getHeatStressAlert(lat, lon, options);
+      if (!result.success || !result.data) throw new Error(result.error || "Heat stress alert unavailable");
+      const heat = result.data;
+      return {
+        type,
+        severity: heat.risk === "none" ? null : heat.risk === "extreme" ? "critical" : heat.risk,
+        message: heat.message,
+        action: heat.action,
+        details: { duration: heat.duration, temperature: heat.temperature, codes: { message: heat.codes.message, action: heat.codes.action, duration: heat.codes.duration } }
+      };
+    }
+
+    const result = await agriculturalService.getIrrigationAdvice(lat, lon, options);
+    if (!result.success || !result.data) throw new Error(result.error || "Irrigation advice unavailable");
+    const irrigation = result.data;
+    const severities: Partial<Record<typeof irrigation.recommendation, AlertSeverity>> = {
+      immediate: "high",
+      within_24h: "moderate",
+      within_48h: "low"
+    };
+    return {
+      type,
+      severity: severities[irrigation.recommendation] ?? null,
+      message: irrigation.message,
+      action: irrigation.waterAmount || undefined,
+      details: { reason: irrigation.reason, deficitMm: irrigation.deficitMm, applyMm: irrigation.applyMm, grossMm: irrigation.grossMm, thresholdDate: irrigation.thresholdDate, codes: { message: irrigation.codes.message, action: irrigation.codes.waterAmount, reason: irrigation.codes.reason } }
+    };
+  }
+
+  /**
+   * Keep at most one active alert per subscription and type: raise a new one,
+   * escalate it when the severity rises, refresh it otherwise and resolve it
+   * once conditions drop below the subscription's minimum severity. The
+   * activeType column is only set while an alert is active, so its unique
+   * index stops concurrent evaluations raising the same alert twice.
+   */
+  private async reconcile(subscription: AlertSubscription, evaluation: AlertEvaluation, location: { lat: number; lon: number }): Promise<"raised" | "escalated" | "resolved" | null> {
+    const existing = await prisma.alert.findFirst({
+      where: { subscriptionId: subscription.id, type: evaluation.type, status: "active" },
+    });
+    const meetsMinimum = evaluation.severity !== null &&
+      ALERT_SEVERITIES.indexOf(evaluation.severity) >= ALERT_SEVERITIES.indexOf(subscription.minSeverity);
+
+    if (!meetsMinimum) {
+      if (!existing) {
+        return null;
+      }
+      const resolved = await prisma.alert.update({
+        where: { id: existing.id },
+        data: { status: "resolved", activeType: null, resolvedAt: new Date(), lastSeenAt: new Date() },
+      });
+      this.publish("alert.resolved", subscription, resolved, location);
+      return "resolved";
+    }
+
+    const severity = evaluation.severity!;
+    if (!existing) {
+      try {
+        const raised = await prisma.alert.create({
+          data: {
+            subscriptionId: subscription.id,
+            type: evaluation.type,
+            activeType: evaluation.type,
+            severity,
+            peakSeverity: severity,
+            status: "active",
+            message: evaluation.message,
+            action: evaluation.action ?? null,
+            details: evaluation.details ?? null,
+          },
+        });
+        this.publish("alert.raised", subscription, raised, location);
+        return "raised";
+      } catch (error) {
+        // Another evaluation raised it first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          return null;
+        }
+        throw error;
+      }
+    }
+
+    const current = this.toAlert(existing);
+    const escalated = ALERT_SEVERITIES.indexOf(severity) > ALERT_SEVERITIES.indexOf(current.severity);
+    const peakSeverity = ALERT_SEVERITIES.indexOf(severity) > ALERT_SEVERITIES.indexOf(current.peakSeverity) ? severity : current.peakSeverity;
+    const updated = await prisma.alert.update({
+      where: { id: existing.id },
+      data: {
+        severity,
+        peakSeverity,
+        message: evaluation.message,
+        action: evaluation.action ?? null,
+        details: evaluation.details ?? null,
+        lastSeenAt: new Date(),
+        escalatedAt: escalated ? new Date() : undefined,
+      },
+    });
+    if (escalated) {
+      this.publish("alert.escalated", subscription, updated, location);
+    }
+    return escalated ? "escalated" : null;
+  }
+
+  /**
+   * Publish an alert change with the coordinates it was evaluated for, which a
+   * field subscription does not carry itself
+   */
+  private publish(type: "alert.raised" | "alert.escalated" | "alert.resolved", subscription: AlertSubscription, alert: AlertRecord, location: { lat: number; lon: number }) {
+    eventBus.publish(type, {
+      alert: this.toAlert(alert),
+      subscription: {
+        id: subscription.id,
+        owner: subscription.owner,
+        name: subscription.name,
+        fieldId: subscription.fieldId,
+        lat: subscription.lat,
+        lon: subscription.lon
+      },
+      location: { lat: location.lat, lon: location.lon }
+    });
+  }
+
+  /**
+   * Coordinates and advisory options for a subscription; a field supplies its crop and soil
+   */
+  private async resolveTarget(subscription: AlertSubscription): Promise<{ lat: number; lon: number; options: AdvisoryOptions } | null> {
+    if (!subscription.fieldId) {
+      return subscription.lat !== undefined && subscription.lon !== undefined
+        ? { lat: subscription.lat, lon: subscription.lon, options: {} }
+        : null;
+    }
+
+    const field = await farmService.getField(subscription.fieldId);
+    if (!field) {
+      return null;
+    }
+
+    let options: AdvisoryOptions = { fieldId: field.id, soil: field.soil, irrigationType: field.irrigationType, sowingDate: field.sowingDate };
+    const crop = field.cropCode ? await cropService.getCrop(field.cropCode) : null;
+    if (crop) {
+      options = { ...options, ...cropService.getWaterBalanceOptions(crop, field.sowingDate), crop };
+    }
+
+    return { lat: field.lat, lon: field.lon, options };
+  }
+
+  private toSubscription(subscription: any): AlertSubscription {
+    return {
+      id: subscription.id,
+      owner: subscription.owner,
+      name: subscription.name ?? undefined,
+      fieldId: subscription.fieldId ?? undefined,
+      lat: subscription.lat ?? undefined,
+      lon: subscription.lon ?? undefined,
+      alertTypes: subscription.alertTypes,
+      minSeverity: subscription.minSeverity,
+      active: subscription.active,
+      createdAt: subscription.createdAt.toISOString(),
+      updatedAt: subscription.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Render an alert's stored English text in another language from the
+   * message codes kept in its details. Codes for message and action cover the
+   * alert's own text; the rest cover text fields of the details.
+   */
+  private localize(alert: Alert, language: Language): Alert {
+    const codes: Partial<Record<string, MessageRef[]>> | undefined = alert.details?.codes;
+    if (language === "en" || !codes) {
+      return alert;
+    }
+
+    const { message, action, ...detailCodes } = codes;
+    return {
+      ...alert,
+      message: message ? renderMessages(message, language) : alert.message,
+      action: action && action.length > 0 ? renderMessages(action, language) : alert.action,
+      details: { ...localizeFields({ ...alert.details, codes: detailCodes }, language), codes }
+    };
+  }
+
+  private toAlert(alert: AlertRecord): Alert {
+    return {
+      id: alert.id,
+      subscriptionId: alert.subscriptionId,
+      type: alert.type as AlertType,
+      severity: alert.severity as AlertSeverity,
+      peakSeverity: alert.peakSeverity as AlertSeverity,
+      status: alert.status as AlertStatus,
+      message: alert.message,
+      action: alert.action ?? undefined,
+      details: alert.details ?? undefined,
+      raisedAt: alert.raisedAt.toISOString(),
+      escalatedAt: alert.escalatedAt ? alert.escalatedAt.toISOString() : undefined,
+      lastSeenAt: alert.lastSeenAt.toISOString(),
+      resolvedAt: alert.resolvedAt ? alert.resolvedAt.toISOString() : undefined,
+    };
+  }
+}
+
+export const alertService = new AlertService();
+export default alertService;
@@ -0,0 +1,241 @@
+import { chillHour, dynamicChillPortions, utahChillUnits } from "../lib/agromet";
+import { TimezoneInfo, toLocalDate } from "../lib/timezone";
+import { weatherService, WeatherResponse } from "./weather";
+
+export type ChillModel = "chillHours" | "utahUnits" | "chillPortions";
+
+export interface ChillVariety {
+  code: string;
+  crop: string;
+  name: string;
+  chillHours: number;
+  utahUnits: number;
+  chillPortions: number;
+}
+
+export interface ChillTotals {
+  chillHours: number;
+  utahUnits: number;
+  chillPortions: number;
+}
+
+export interface DailyChill extends ChillTotals {
+  date: string;
+  hours: number;
+  minTemperature: number;
+  maxTemperature: number;
+  projected: boolean;
+}
+
+export interface ChillProgress {
+  model: ChillModel;
+  required: number;
+  accumulated: number;
+  percent: number;
+  met: boolean;
+  reachedDate: string | null;
+  projectedDate: string | null;
+  estimatedDate: string | null;
+}
+
+export interface ChillAccumulation {
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+    timezone: TimezoneInfo;
+  };
+  startDate: string;
+  variety: ChillVariety | null;
+  daily: DailyChill[];
+  accumulatedToDate: ChillTotals;
+  projectedTotal: ChillTotals;
+  projectedThrough: string;
+  requirements: ChillProgress[];
+  missingHours: number;
+  timestamp: string;
+}
+
+/**
+ * Typical winter chill requirements of temperate fruit varieties grown in the
+ * hills, in chill hours (0-7.2°C), Utah chill units and Dynamic model portions
+ */
+export const CHILL_VARIETIES: Record<string, ChillVariety> = {
+  apple_royal_delicious: { code: "apple_royal_delicious", crop: "apple", name: "Apple - Royal Delicious", chillHours: 1200, utahUnits: 1100, chillPortions: 70 },
+  apple_red_delicious: { code: "apple_red_delicious", crop: "apple", name: "Apple - Red Delicious", chillHours: 1000, utahUnits: 950, chillPortions: 60 },
+  apple_golden_delicious: { code: "apple_golden_delicious", crop: "apple", name: "Apple - Golden Delicious", chillHours: 900, utahUnits: 850, chillPortions: 55 },
+  apple_anna: { code: "apple_anna", crop: "apple", name: "Apple - Anna (low chill)", chillHours: 300, utahUnits: 250, chillPortions: 20 },
+  pear_bartlett: { code: "pear_bartlett", crop: "pear", name: "Pear - Bartlett", chillHours: 800, utahUnits: 800, chillPortions: 50 },
+  peach_redhaven: { code: "peach_redhaven", crop: "peach", name: "Peach - Redhaven", chillHours: 850, utahUnits: 800, chillPortions: 50 },
+  peach_flordaprince: { code: "peach_flordaprince", crop: "peach", name: "Peach - Flordaprince (low chill)", chillHours: 150, utahUnits: 150, chillPortions: 12 },
+  plum_santa_rosa: { code: "plum_santa_rosa", crop: "plum", name: "Plum - Santa Rosa", chillHours: 400, utahUnits: 400, chillPortions: 30 },
+  apricot_new_castle: { code: "apricot_new_castle", crop: "apricot", name: "Apricot - New Castle", chillHours: 700, utahUnits: 650, chillPortions: 45 },
+  cherry_bing: { code: "cherry_bing", crop: "cherry", name: "Cherry - Bing", chillHours: 1000, utahUnits: 1100, chillPortions: 65 },
+  almond_nonpareil: { code: "almond_nonpareil", crop: "almond", name: "Almond - Nonpareil", chillHours: 400, utahUnits: 400, chillPortions: 25 },
+  walnut_hartley: { code: "walnut_hartley", crop: "walnut", name: "Walnut - Hartley", chillHours: 700, utahUnits: 700, chillPortions: 45 }
+};
+
+class ChillService {
+  private readonly FORECAST_ROW_HOURS = 3;
+  private readonly TREND_DAYS = 14;
+
+  /**
+   * Accumulate chill hours, Utah units and chill portions from the start date
+   * over the hourly history, then project ahead over the forecast
+   */
+  async getChillAccumulation(lat: number, lon: number, startDate?: string, variety?: ChillVariety): Promise<WeatherResponse<ChillAccumulation>> {
+    try {
+      const forecastResponse = await weatherService.getHourlyForecast(lat, lon);
+      if (!forecastResponse.success || !forecastResponse.data) {
+        throw new Error("Failed to fetch forecast for chill projection");
+      }
+
+      const forecast = forecastResponse.data;
+      const offset = forecast.location.timezone.offsetSeconds;
+      const today = toLocalDate(Math.floor(Date.now() / 1000), offset);
+      const start = startDate || this.defaultStartDate(today, lat);
+
+      const hours: { date: string; timestamp: number; temperature: number; projected: boolean }[] = [];
+      let missingHours = 0;
+      if (start <= today) {
+        const historyResponse = await weatherService.getHistoricalWeather(lat, lon, start, new Date().toISOString());
+        if (!historyResponse.success || !historyResponse.data) {
+          throw new Error("Failed to fetch hourly history since the chill start date");
+        }
+
+        historyResponse.data.data
+          .filter(item => item.date >= start)
+          .forEach(item => hours.push({ date: item.date, timestamp: Date.parse(item.datetime) / 1000, temperature: item.temperature, projected: false }));
+        missingHours = historyResponse.data.gaps.reduce((sum, gap) => sum + gap.missingHours, 0);
+      }
+
+      // Forecast rows are 3-hourly; interpolate to hourly so every model sees the same time step
+      const lastObserved = hours.length > 0 ? hours[hours.length - 1].timestamp : 0;
+      const rows = forecast.forecast
+        .map(item => ({ timestamp: Date.parse(item.datetime) / 1000, temperature: item.temperature }))
+        .filter(row => row.timestamp > lastObserved);
+      rows.forEach((row, i) => {
+        const next = rows[i + 1];
+        for (let h = 0; h < this.FORECAST_ROW_HOURS; h++) {
+          const timestamp = row.timestamp + h * 3600;
+          const date = toLocalDate(timestamp, offset);
+          if (date < start) continue;
+          const temperature = next ? row.temperature + (next.temperature - row.temperature) * h / this.FORECAST_ROW_HOURS : row.temperature;
+          hours.push({ date, timestamp, temperature, projected: true });
+        }
+      });
+
+      const portions = dynamicChillPortions(hours.map(hour => hour.temperature));
+      const daily: DailyChill[] = [];
+      const totals: ChillTotals = { chillHours: 0, utahUnits: 0, chillPortions: 0 };
+      let accumulatedToDate: ChillTotals = { ...totals };
+
+      hours.forEach((hour, i) => {
+        totals.chillHours += chillHour(hour.temperature);
+        // Utah totals are not allowed to go negative before chill starts accumulating
+        totals.utahUnits = Math.max(0, totals.utahUnits + utahChillUnits(hour.temperature));
+        totals.chillPortions = portions[i];
+
+        let day = daily[daily.length - 1];
+        if (!day || day.date !== hour.date) {
+          day = { date: hour.date, hours: 0, minTemperature: hour.temperature, maxTemperature: hour.temperature, chillHours: 0, utahUnits: 0, chillPortions: 0, projected: hour.projected };
+          daily.push(day);
+        }
+        day.hours++;
+        day.minTemperature = Math.min(day.minTemperature, hour.temperature);
+        day.maxTemperature = Math.max(day.maxTemperature, hour.temperature);
+        day.chillHours = totals.chillHours;
+        day.utahUnits = totals.utahUnits;
+        day.chillPortions = Math.round(totals.chillPortions * 100) / 100;
+        day.projected = day.projected && hour.projected;
+
+        if (!hour.projected) {
+          accumulatedToDate = { ...totals };
+        }
+      });
+      daily.forEach(day => {
+        day.minTemperature = Math.round(day.minTemperature * 10) / 10;
+        day.maxTemperature = Math.round(day.maxTemperature * 10) / 10;
+      });
+
+      const round = (value: ChillTotals): ChillTotals => ({
+        chillHours: value.chillHours,
+        utahUnits: Math.round(value.utahUnits * 10) / 10,
+        chillPortions: Math.round(value.chillPortions * 100) / 100
+      });
+
+      return {
+        success: true,
+        data: {
+          location: forecast.location,
+          startDate: start,
+          variety: variety || null,
+          daily,
+          accumulatedToDate: round(accumulatedToDate),
+          projectedTotal: round(totals),
+          projectedThrough: daily.length > 0 ? daily[daily.length - 1].date : today,
+          requirements: variety ? this.getProgress(daily, accumulatedToDate, variety) : [],
+          missingHours,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to calculate chill accumulation:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Chill calculation error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Progress towards a variety's requirement in each model it defines. Beyond the forecast
+   * the date is estimated from the average rate over the last two weeks.
+   */
+  private getProgress(daily: DailyChill[], accumulated: ChillTotals, variety: ChillVariety): ChillProgress[] {
+    const models: ChillModel[] = ["chillHours", "utahUnits", "chillPortions"];
+    const observed = daily.filter(day => !day.projected);
+    const last = daily[daily.length - 1];
+
+    return models.filter(model => variety[model] > 0).map(model => {
+      const required = variety[model];
+      const crossing = daily.find(day => day[model] >= required);
+      const met = accumulated[model] >= required;
+
+      let estimatedDate: string | null = null;
+      if (!crossing && last) {
+        const recent = observed.slice(-this.TREND_DAYS - 1);
+        const rate = recent.length > 1 ? (recent[recent.length - 1][model] - recent[0][model]) / (recent.length - 1) : 0;
+        if (rate > 0) {
+          const days = Math.ceil((required - last[model]) / rate);
+          estimatedDate = new Date(Date.parse(last.date) + days * 86400000).toISOString().split("T")[0];
+        }
+      }
+
+      return {
+        model,
+        required,
+        accumulated: model === "chillPortions" ? Math.round(accumulated[model] * 100) / 100 : Math.round(accumulated[model] * 10) / 10,
+        percent: Math.min(100, Math.round((accumulated[model] / required) * 100)),
+        met,
+        reachedDate: met && crossing ? crossing.date : null,
+        projectedDate: !met && crossing ? crossing.date : null,
+        estimatedDate
+      };
+    });
+  }
+
+  /**
+   * Chill season starts on 1 October in the northern hemisphere and 1 April in the southern
+   */
+  private defaultStartDate(today: string, lat: number): string {
+    const year = parseInt(today.slice(0, 4));
+    const start = lat >= 0 ? `${year}-10-01` : `${year}-04-01`;
+    return today >= start ? start : lat >= 0 ? `${year - 1}-10-01` : `${year - 1}-04-01`;
+  }
+}
+
+export const chillService = new ChillService();
+export default chillService;
@@ -0,0 +1,395 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { WaterBalanceOptions } from "./waterbalance";
+
+export type StageSensitivity = "frost" | "water" | "heat";
+
+export interface GrowthStage {
+  code: string;
+  name: string;
+  startGdd: number;
+  critical: StageSensitivity[];
+}
+
+export interface CropProfile {
+  code: string;
+  name: string;
+  category: "cereal" | "pulse" | "oilseed" | "fibre" | "vegetable" | "fruit" | "sugar";
+  frostKillTemp: number;
+  heatStressTemp: number;
+  gddBase: number;
+  gddUpper: number;
+  kc: {
+    initial: number;
+    mid: number;
+    end: number;
+  };
+  stageDays: {
+    initial: number;
+    development: number;
+    mid: number;
+    late: number;
+  };
+  rootDepth: number;
+  depletionFraction: number;
+  seasonalWaterMm: number;
+  stages: GrowthStage[];
+  source: "catalogue" | "database";
+}
+
+export interface CropResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  timestamp: string;
+}
+
+export type CropDefinition = Omit<CropProfile, "source">;
+
+export type CropInput = Omit<CropDefinition, "stages"> & { stages?: GrowthStage[] };
+
+/**
+ * Built-in crop profiles. Crop coefficients, stage lengths, rooting depth and
+ * depletion fractions follow FAO-56 tables 11, 12 and 22 adjusted for Indian
+ * seasons; temperature thresholds are canopy damage/stress onset values.
+ * Stage thresholds are cumulative GDD from sowing (modified method, crop base
+ * and upper temperatures); mango stages count from panicle emergence.
+ */
+export const CROP_CATALOGUE: CropDefinition[] = [
+  {
+    code: "wheat", name: "Wheat", category: "cereal",
+    frostKillTemp: -2, heatStressTemp: 32, gddBase: 5, gddUpper: 30,
+    kc: { initial: 0.3, mid: 1.15, end: 0.35 },
+    stageDays: { initial: 15, development: 25, mid: 50, late: 30 },
+    rootDepth: 1.2, depletionFraction: 0.55, seasonalWaterMm: 450,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 90, critical: [] },
+      { code: "crown_root_initiation", name: "Crown root initiation", startGdd: 200, critical: ["water"] },
+      { code: "tillering", name: "Tillering", startGdd: 320, critical: [] },
+      { code: "jointing", name: "Jointing", startGdd: 550, critical: ["water"] },
+      { code: "flowering", name: "Flowering", startGdd: 900, critical: ["frost", "water", "heat"] },
+      { code: "grain_fill", name: "Grain fill", startGdd: 1050, critical: ["water", "heat"] },
+      { code: "maturity", name: "Maturity", startGdd: 1450, critical: [] }
+    ]
+  },
+  {
+    code: "rice", name: "Rice (paddy)", category: "cereal",
+    frostKillTemp: 2, heatStressTemp: 35, gddBase: 10, gddUpper: 35,
+    kc: { initial: 1.05, mid: 1.2, end: 0.9 },
+    stageDays: { initial: 30, development: 30, mid: 60, late: 30 },
+    rootDepth: 0.5, depletionFraction: 0.2, seasonalWaterMm: 1200,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 60, critical: [] },
+      { code: "tillering", name: "Tillering", startGdd: 300, critical: [] },
+      { code: "panicle_initiation", name: "Panicle initiation", startGdd: 700, critical: ["water"] },
+      { code: "flowering", name: "Flowering", startGdd: 1000, critical: ["frost", "water", "heat"] },
+      { code: "grain_fill", name: "Grain fill", startGdd: 1150, critical: ["water"] },
+      { code: "maturity", name: "Maturity", startGdd: 1600, critical: [] }
+    ]
+  },
+  {
+    code: "maize", name: "Maize", category: "cereal",
+    frostKillTemp: -1, heatStressTemp: 35, gddBase: 10, gddUpper: 30,
+    kc: { initial: 0.3, mid: 1.2, end: 0.35 },
+    stageDays: { initial: 20, development: 35, mid: 40, late: 30 },
+    rootDepth: 1.0, depletionFraction: 0.55, seasonalWaterMm: 550,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 65, critical: [] },
+      { code: "vegetative", name: "Vegetative", startGdd: 200, critical: [] },
+      { code: "tasseling", name: "Tasseling", startGdd: 700, critical: ["water", "heat"] },
+      { code: "flowering", name: "Silking", startGdd: 750, critical: ["frost", "water", "heat"] },
+      { code: "grain_fill", name: "Grain fill", startGdd: 900, critical: ["water"] },
+      { code: "maturity", name: "Maturity", startGdd: 1500, critical: [] }
+    ]
+  },
+  {
+    code: "chickpea", name: "Chickpea", category: "pulse",
+    frostKillTemp: -1.5, heatStressTemp: 32, gddBase: 5, gddUpper: 30,
+    kc: { initial: 0.4, mid: 1.0, end: 0.35 },
+    stageDays: { initial: 20, development: 30, mid: 40, late: 25 },
+    rootDepth: 0.8, depletionFraction: 0.5, seasonalWaterMm: 350,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 100, critical: [] },
+      { code: "branching", name: "Branching", startGdd: 300, critical: [] },
+      { code: "flowering", name: "Flowering", startGdd: 750, critical: ["frost", "water", "heat"] },
+      { code: "pod_fill", name: "Pod fill", startGdd: 1000, critical: ["water", "heat"] },
+      { code: "maturity", name: "Maturity", startGdd: 1450, critical: [] }
+    ]
+  },
+  {
+    code: "soybean", name: "Soybean", category: "oilseed",
+    frostKillTemp: -1, heatStressTemp: 35, gddBase: 10, gddUpper: 30,
+    kc: { initial: 0.4, mid: 1.15, end: 0.5 },
+    stageDays: { initial: 20, development: 30, mid: 60, late: 25 },
+    rootDepth: 1.0, depletionFraction: 0.5, seasonalWaterMm: 500,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 90, critical: [] },
+      { code: "vegetative", name: "Vegetative", startGdd: 200, critical: [] },
+      { code: "flowering", name: "Flowering", startGdd: 550, critical: ["frost", "water", "heat"] },
+      { code: "pod_fill", name: "Pod fill", startGdd: 850, critical: ["water"] },
+      { code: "maturity", name: "Maturity", startGdd: 1300, critical: [] }
+    ]
+  },
+  {
+    code: "mustard", name: "Mustard", category: "oilseed",
+    frostKillTemp: -2, heatStressTemp: 32, gddBase: 5, gddUpper: 30,
+    kc: { initial: 0.35, mid: 1.15, end: 0.35 },
+    stageDays: { initial: 20, development: 30, mid: 45, late: 25 },
+    rootDepth: 1.0, depletionFraction: 0.6, seasonalWaterMm: 350,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 80, critical: [] },
+      { code: "rosette", name: "Rosette", startGdd: 250, critical: [] },
+      { code: "flowering", name: "Flowering", startGdd: 600, critical: ["frost", "water"] },
+      { code: "pod_fill", name: "Pod fill", startGdd: 900, critical: ["frost", "water"] },
+      { code: "maturity", name: "Maturity", startGdd: 1300, critical: [] }
+    ]
+  },
+  {
+    code: "cotton", name: "Cotton", category: "fibre",
+    frostKillTemp: 0, heatStressTemp: 38, gddBase: 15.5, gddUpper: 32,
+    kc: { initial: 0.35, mid: 1.15, end: 0.6 },
+    stageDays: { initial: 30, development: 50, mid: 60, late: 55 },
+    rootDepth: 1.2, depletionFraction: 0.65, seasonalWaterMm: 700,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 50, critical: [] },
+      { code: "squaring", name: "Squaring", startGdd: 300, critical: [] },
+      { code: "flowering", name: "Flowering", startGdd: 600, critical: ["water", "heat"] },
+      { code: "boll_development", name: "Boll development", startGdd: 900, critical: ["water"] },
+      { code: "maturity", name: "Boll opening", startGdd: 1400, critical: [] }
+    ]
+  },
+  {
+    code: "sugarcane", name: "Sugarcane", category: "sugar",
+    frostKillTemp: -1, heatStressTemp: 40, gddBase: 12, gddUpper: 35,
+    kc: { initial: 0.4, mid: 1.25, end: 0.75 },
+    stageDays: { initial: 35, development: 60, mid: 190, late: 120 },
+    rootDepth: 1.5, depletionFraction: 0.65, seasonalWaterMm: 1800,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "tillering", name: "Tillering", startGdd: 300, critical: [] },
+      { code: "grand_growth", name: "Grand growth", startGdd: 1000, critical: ["water"] },
+      { code: "maturity", name: "Maturity", startGdd: 3500, critical: [] }
+    ]
+  },
+  {
+    code: "tomato", name: "Tomato", category: "vegetable",
+    frostKillTemp: 0, heatStressTemp: 32, gddBase: 10, gddUpper: 30,
+    kc: { initial: 0.6, mid: 1.15, end: 0.8 },
+    stageDays: { initial: 30, development: 40, mid: 45, late: 30 },
+    rootDepth: 0.9, depletionFraction: 0.4, seasonalWaterMm: 600,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 80, critical: [] },
+      { code: "vegetative", name: "Vegetative", startGdd: 200, critical: [] },
+      { code: "flowering", name: "Flowering", startGdd: 500, critical: ["frost", "water", "heat"] },
+      { code: "fruit_development", name: "Fruit development", startGdd: 750, critical: ["water"] },
+      { code: "maturity", name: "Maturity", startGdd: 1200, critical: [] }
+    ]
+  },
+  {
+    code: "potato", name: "Potato", category: "vegetable",
+    frostKillTemp: -1.5, heatStressTemp: 30, gddBase: 7, gddUpper: 30,
+    kc: { initial: 0.5, mid: 1.15, end: 0.75 },
+    stageDays: { initial: 25, development: 30, mid: 45, late: 30 },
+    rootDepth: 0.5, depletionFraction: 0.35, seasonalWaterMm: 500,
+    stages: [
+      { code: "sprouting", name: "Sprouting", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 200, critical: [] },
+      { code: "tuber_initiation", name: "Tuber initiation", startGdd: 450, critical: ["frost", "water"] },
+      { code: "tuber_bulking", name: "Tuber bulking", startGdd: 650, critical: ["water"] },
+      { code: "maturity", name: "Maturity", startGdd: 1300, critical: [] }
+    ]
+  },
+  {
+    code: "onion", name: "Onion", category: "vegetable",
+    frostKillTemp: -3, heatStressTemp: 35, gddBase: 6, gddUpper: 30,
+    kc: { initial: 0.7, mid: 1.05, end: 0.75 },
+    stageDays: { initial: 15, development: 25, mid: 70, late: 40 },
+    rootDepth: 0.5, depletionFraction: 0.3, seasonalWaterMm: 500,
+    stages: [
+      { code: "germination", name: "Germination", startGdd: 0, critical: [] },
+      { code: "emergence", name: "Emergence", startGdd: 120, critical: [] },
+      { code: "vegetative", name: "Vegetative", startGdd: 300, critical: [] },
+      { code: "bulb_initiation", name: "Bulb initiation", startGdd: 800, critical: ["water"] },
+      { code: "bulb_development", name: "Bulb development", startGdd: 1000, critical: ["water"] },
+      { code: "maturity", name: "Maturity", startGdd: 1600, critical: [] }
+    ]
+  },
+  {
+    code: "mango", name: "Mango", category: "fruit",
+    frostKillTemp: -1, heatStressTemp: 44, gddBase: 10, gddUpper: 35,
+    kc: { initial: 0.6, mid: 0.85, end: 0.75 },
+    stageDays: { initial: 60, development: 90, mid: 120, late: 95 },
+    rootDepth: 1.5, depletionFraction: 0.5, seasonalWaterMm: 1000,
+    stages: [
+      { code: "panicle_emergence", name: "Panicle emergence", startGdd: 0, critical: ["frost"] },
+      { code: "flowering", name: "Flowering", startGdd: 200, critical: ["frost", "heat"] },
+      { code: "fruit_set", name: "Fruit set", startGdd: 400, critical: ["water", "heat"] },
+      { code: "fruit_development", name: "Fruit development", startGdd: 700, critical: ["water"] },
+      { code: "maturity", name: "Maturity", startGdd: 2000, critical: [] }
+    ]
+  }
+];
+
+class CropService {
+
+  /**
+   * List the catalogue, with database profiles overriding built-in ones of the same code
+   */
+  async listCrops(): Promise<CropResponse<CropProfile[]>> {
+    const crops = new Map<string, CropProfile>();
+    CROP_CATALOGUE.forEach(entry => crops.set(entry.code, { ...entry, source: "catalogue" }));
+
+    try {
+      const stored = await prisma.crop.findMany({ orderBy: { code: "asc" } });
+      stored.forEach((crop: any) => crops.set(crop.code, this.toProfile(crop)));
+    } catch (error) {
+      console.error("❌ Failed to load crops from database:", error);
+    }
+
+    return {
+      success: true,
+      data: Array.from(crops.values()).sort((a, b) => a.code.localeCompare(b.code)),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Look up a crop profile by code, preferring a database override
+   */
+  async getCrop(code: string): Promise<CropProfile | null> {
+    const normalized = code.trim().toLowerCase();
+
+    try {
+      const stored = await prisma.crop.findUnique({ where: { code: normalized } });
+      if (stored) {
+        return this.toProfile(stored);
+      }
+    } catch (error) {
+      console.error("❌ Failed to load crop from database:", error);
+    }
+
+    const entry = CROP_CATALOGUE.find(crop => crop.code === normalized);
+    return entry ? { ...entry, source: "catalogue" } : null;
+  }
+
+  /**
+   * Create or replace a crop profile in the database. Without stages an
+   * existing profile keeps its stored ones and a new profile starts from the
+   * catalogue's.
+   */
+  async saveCrop(profile: CropInput): Promise<CropProfile> {
+    const data = {
+      name: profile.name,
+      category: profile.category,
+      frostKillTemp: profile.frostKillTemp,
+      heatStressTemp: profile.heatStressTemp,
+      gddBase: profile.gddBase,
+      gddUpper: profile.gddUpper,
+      kcInitial: profile.kc.initial,
+      kcMid: profile.kc.mid,
+      kcEnd: profile.kc.end,
+      initialDays: profile.stageDays.initial,
+      developmentDays: profile.stageDays.development,
+      midDays: profile.stageDays.mid,
+      lateDays: profile.stageDays.late,
+      rootDepth: profile.rootDepth,
+      depletionFraction: profile.depletionFraction,
+      seasonalWaterMm: profile.seasonalWaterMm,
+    };
+    const stages = profile.stages ?? CROP_CATALOGUE.find(crop => crop.code === profile.code)?.stages ?? [];
+
+    const crop = await prisma.crop.upsert({
+      where: { code: profile.code },
+      update: profile.stages ? { ...data, stages: this.toStagesJson(profile.stages) } : data,
+      create: { code: profile.code, ...data, stages: this.toStagesJson(stages) },
+    });
+
+    return this.toProfile(crop);
+  }
+
+  /**
+   * FAO-56 crop coefficient curve: flat initial stage, linear rise through
+   * development, flat mid-season and linear decline through late season.
+   * Without a crop age the mid-season value is returned.
+   */
+  getCropCoefficient(crop: CropProfile, daysSinceSowing?: number): number {
+    if (daysSinceSowing === undefined) {
+      return crop.kc.mid;
+    }
+
+    const { initial, development, mid, late } = crop.stageDays;
+    const day = Math.max(0, daysSinceSowing);
+
+    if (day <= initial) {
+      return crop.kc.initial;
+    }
+    if (day <= initial + development) {
+      return crop.kc.initial + (crop.kc.mid - crop.kc.initial) * (day - initial) / development;
+    }
+    if (day <= initial + development + mid) {
+      return crop.kc.mid;
+    }
+    if (day <= initial + development + mid + late) {
+      return crop.kc.mid + (crop.kc.end - crop.kc.mid) * (day - initial - development - mid) / late;
+    }
+    return crop.kc.end;
+  }
+
+  /**
+   * Water balance parameters implied by a crop profile and its age
+   */
+  getWaterBalanceOptions(crop: CropProfile, sowingDate?: string): WaterBalanceOptions {
+    const daysSinceSowing = sowingDate
+      ? Math.floor((Date.now() - Date.parse(sowingDate)) / 86400000)
+      : undefined;
+
+    return {
+      rootDepth: crop.rootDepth,
+      managementAllowedDepletion: crop.depletionFraction,
+      cropCoefficient: Math.round(this.getCropCoefficient(crop, daysSinceSowing) * 100) / 100,
+    };
+  }
+
+  private toStagesJson(stages: GrowthStage[]): Prisma.InputJsonValue {
+    return stages.map(stage => ({ code: stage.code, name: stage.name, startGdd: stage.startGdd, critical: stage.critical }));
+  }
+
+  private toProfile(crop: any): CropProfile {
+    return {
+      code: crop.code,
+      name: crop.name,
+      category: crop.category,
+      frostKillTemp: crop.frostKillTemp,
+      heatStressTemp: crop.heatStressTemp,
+      gddBase: crop.gddBase,
+      gddUpper: crop.gddUpper,
+      kc: {
+        initial: crop.kcInitial,
+        mid: crop.kcMid,
+        end: crop.kcEnd,
+      },
+      stageDays: {
+        initial: crop.initialDays,
+        development: crop.developmentDays,
+        mid: crop.midDays,
+        late: crop.lateDays,
+      },
+      rootDepth: crop.rootDepth,
+      depletionFraction: crop.depletionFraction,
+      seasonalWaterMm: crop.seasonalWaterMm,
+      stages: Array.isArray(crop.stages) ? crop.stages : [],
+      source: "database",
+    };
+  }
+}
+
+export const cropService = new CropService();
+export default cropService;
@@ -0,0 +1,439 @@
+import { Language, localizeFields, MessageCodes, MessageRef, msg, nameRef, renderMessages } from "../lib/i18n";
+import { TimezoneInfo } from "../lib/timezone";
+import { CropProfile } from "./crops";
+import { gddService } from "./gdd";
+import { weatherService, WeatherResponse } from "./weather";
+
+export type DiseaseRiskLevel = "none" | "low" | "moderate" | "high";
+
+export interface DiseaseRisk {
+  code: string;
+  name: string;
+  kind: "disease" | "pest";
+  model: string;
+  risk: DiseaseRiskLevel;
+  message: string;
+  action: string;
+  evidence: string;
+  riskDates: string[];
+  codes: MessageCodes<"message" | "action" | "evidence">;
+}
+
+export interface DiseaseRiskReport {
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+    timezone: TimezoneInfo;
+  };
+  crop: {
+    code: string;
+    name: string;
+  } | null;
+  sowingDate: string | null;
+  overallRisk: DiseaseRiskLevel;
+  risks: DiseaseRisk[];
+  period: {
+    start: string;
+    end: string;
+  };
+  language: Language;
+  timestamp: string;
+}
+
+export interface DiseaseRiskOptions {
+  crop?: CropProfile;
+  sowingDate?: string;
+  language?: Language;
+}
+
+interface PestModel {
+  code: string;
+  name: string;
+  crops: string[];
+  baseTemp: number;
+  upperTemp: number;
+  generationDd: number;
+}
+
+/**
+ * One weather row from history (1 h) or forecast (3 h)
+ */
+interface WeatherRow {
+  timestamp: number;
+  date: string;
+  hours: number;
+  temperature: number;
+  humidity: number;
+  precipitation: number;
+  projected: boolean;
+}
+
+interface DayStats {
+  date: string;
+  minTemperature: number;
+  humidHours: number;
+  projected: boolean;
+}
+
+const LATE_BLIGHT_CROPS = ["potato", "tomato"];
+const POWDERY_MILDEW_CROPS = ["wheat", "mustard", "mango", "tomato"];
+const RICE_BLAST_CROPS = ["rice"];
+
+/**
+ * Insect development thresholds (°C) and degree days per generation, counted from sowing
+ */
+export const PEST_MODELS: PestModel[] = [
+  { code: "helicoverpa", name: "Pod borer (Helicoverpa armigera)", crops: ["chickpea", "cotton", "tomato"], baseTemp: 11, upperTemp: 35, generationDd: 500 },
+  { code: "pink_bollworm", name: "Pink bollworm", crops: ["cotton"], baseTemp: 13, upperTemp: 35, generationDd: 500 },
+  { code: "fall_armyworm", name: "Fall armyworm", crops: ["maize"], baseTemp: 10.9, upperTemp: 35, generationDd: 559 }
+];
+
+const RISK_ORDER: DiseaseRiskLevel[] = ["none", "low", "moderate", "high"];
+
+class DiseaseRiskService {
+  private readonly HISTORY_DAYS = 7;
+
+  /**
+   * Run the weather-driven disease and pest models relevant to a crop (all of them without one)
+   */
+  async getDiseaseRisk(lat: number, lon: number, options: DiseaseRiskOptions = {}): Promise<WeatherResponse<DiseaseRiskReport>> {
+    try {
+      const [forecastResponse, historyResponse] = await Promise.all([
+        weatherService.getHourlyForecast(lat, lon),
+        weatherService.getHistoricalWeatherByDays(lat, lon, this.HISTORY_DAYS)
+      ]);
+
+      if (!forecastResponse.success || !forecastResponse.data) {
+        throw new Error("Failed to fetch forecast for disease models");
+      }
+      if (!historyResponse.success) {
+        console.error("❌ Disease models running on forecast only:", historyResponse.error);
+      }
+
+      const history = historyResponse.data?.data || [];
+      const lastObserved = history.length > 0 ? Date.parse(history[history.length - 1].datetime) / 1000 : 0;
+      const rows: WeatherRow[] = [
+        ...history.map(item => ({
+          timestamp: Date.parse(item.datetime) / 1000,
+          date: item.date,
+          hours: 1,
+          temperature: item.temperature,
+          humidity: item.humidity,
+          precipitation: item.precipitation,
+          projected: false
+        })),
+        ...forecastResponse.data.forecast
+          .filter(item => Date.parse(item.datetime) / 1000 > lastObserved)
+          .map(item => ({
+            timestamp: Date.parse(item.datetime) / 1000,
+            date: item.date,
+            hours: 3,
+            temperature: item.temperature,
+            humidity: item.humidity,
+            precipitation: item.precipitation,
+            projected: true
+          }))
+      ];
+
+      const applies = (crops: string[]) => !options.crop || crops.includes(options.crop.code);
+      const risks: DiseaseRisk[] = [];
+
+      if (applies(LATE_BLIGHT_CROPS)) {
+        risks.push(this.assessLateBlight(this.summarizeDays(rows)));
+      }
+      if (applies(POWDERY_MILDEW_CROPS)) {
+        risks.push(this.assessPowderyMildew(rows));
+      }
+      if (applies(RICE_BLAST_CROPS)) {
+        risks.push(this.assessRiceBlast(rows));
+      }
+      if (options.sowingDate) {
+        const pests = PEST_MODELS.filter(pest => applies(pest.crops));
+        const pestRisks = await Promise.all(pests.map(pest => this.assessPest(lat, lon, pest, options.sowingDate!)));
+        pestRisks.forEach(risk => risk && risks.push(risk));
+      }
+
+      const language = options.language || "en";
+      const overallRisk = risks.reduce<DiseaseRiskLevel>(
+        (worst, item) => RISK_ORDER.indexOf(item.risk) > RISK_ORDER.indexOf(worst) ? item.risk : worst,
+        "none"
+      );
+
+      return {
+        success: true,
+        data: {
+          location: forecastResponse.data.location,
+          crop: options.crop ? { code: options.crop.code, name: options.crop.name } : null,
+          sowingDate: options.sowingDate || null,
+          overallRisk,
+          risks: risks.map(item => localizeFields(item, language)),
+          period: {
+            start: rows.length > 0 ? rows[0].date : "",
+            end: rows.length > 0 ? rows[rows.length - 1].date : ""
+          },
+          language,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to assess disease risk:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Disease model error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Minimum temperature and hours at or above 90% relative humidity per local day
+   */
+  private summarizeDays(rows: WeatherRow[]): DayStats[] {
+    const days = new Map<string, DayStats>();
+    rows.forEach(row => {
+      const day = days.get(row.date) || { date: row.date, minTemperature: Infinity, humidHours: 0, projected: false };
+      day.minTemperature = Math.min(day.minTemperature, row.temperature);
+      day.humidHours += row.humidity >= 90 ? row.hours : 0;
+      day.projected = day.projected || row.projected;
+      days.set(row.date, day);
+    });
+
+    return Array.from(days.values());
+  }
+
+  /**
+   * Runs of consecutive rows matching a condition, with their total hours
+   */
+  private findRuns(rows: WeatherRow[], matches: (row: WeatherRow) => boolean): WeatherRow[][] {
+    const runs: WeatherRow[][] = [];
+    let run: WeatherRow[] = [];
+    rows.forEach((row, i) => {
+      const previous = rows[i - 1];
+      const contiguous = previous && row.timestamp === previous.timestamp + previous.hours * 3600;
+      if (matches(row)) {
+        if (run.length > 0 && !contiguous) {
+          runs.push(run);
+          run = [];
+        }
+        run.push(row);
+      } else if (run.length > 0) {
+        runs.push(run);
+        run = [];
+      }
+    });
+    if (run.length > 0) {
+      runs.push(run);
+    }
+
+    return runs;
+  }
+
+  /**
+   * Late blight: a Smith period is two consecutive days with minimum temperature
+   * of at least 10°C and 11+ hours of RH ≥ 90% (Hutton criteria: 6+ hours)
+   */
+  private assessLateBlight(days: DayStats[]): DiseaseRisk {
+    const smithDays = days.map(day => day.minTemperature >= 10 && day.humidHours >= 11);
+    const huttonDays = days.map(day => day.minTemperature >= 10 && day.humidHours >= 6);
+    const smithPeriods = days.filter((day, i) => i > 0 && smithDays[i] && smithDays[i - 1]).map(day => day.date);
+    const huttonPeriods = days.filter((day, i) => i > 0 && huttonDays[i] && huttonDays[i - 1]).map(day => day.date);
+    const favourableDays = days.filter((day, i) => huttonDays[i]).map(day => day.date);
+
+    let risk: DiseaseRiskLevel = "none";
+    let message = msg("disease.late_blight.none");
+    let action = msg("disease.late_blight.action.none");
+    let riskDates: string[] = [];
+
+    if (smithPeriods.length > 0) {
+      risk = "high";
+      message = msg("disease.late_blight.high");
+      action = msg("disease.late_blight.action.high");
+      riskDates = smithPeriods;
+    } else if (huttonPeriods.length > 0) {
+      risk = "moderate";
+      message = msg("disease.late_blight.moderate");
+      action = msg("disease.late_blight.action.moderate");
+      riskDates = huttonPeriods;
+    } else if (favourableDays.length > 0) {
+      risk = "low";
+      message = msg("disease.late_blight.low");
+      action = msg("disease.action.scout");
+      riskDates = favourableDays;
+    }
+
+    const evidence = msg("disease.late_blight.evidence", { smith: smithPeriods.length, hutton: huttonPeriods.length, days: days.length });
+    return this.toRisk({
+      code: "late_blight",
+      name: "Late blight",
+      kind: "disease",
+      model: "Smith period / Hutton criteria",
+      risk,
+      riskDates
+    }, { message: [message], action: [action], evidence: [evidence] });
+  }
+
+  /**
+   * Powdery mildew risk index (Gubler-Thomas): after three consecutive days with
+   * 6+ continuous hours at 21-30°C the index rises 20 points on each such day and
+   * falls 10 otherwise, with a further 10 off for any hour at or above 35°C
+   */
+  private assessPowderyMildew(rows: WeatherRow[]): DiseaseRisk {
+    const dates = Array.from(new Set(rows.map(row => row.date)));
+    let index = 0;
+    let streak = 0;
+    let started = false;
+    let peak = 0;
+    const riskDates: string[] = [];
+
+    dates.forEach(date => {
+      const dayRows = rows.filter(row => row.date === date);
+      const longestRun = Math.max(0, ...this.findRuns(dayRows, row => row.temperature >= 21 && row.temperature <= 30)
+        .map(run => run.reduce((sum, row) => sum + row.hours, 0)));
+      const favourable = longestRun >= 6;
+      const hot = dayRows.some(row => row.temperature >= 35);
+
+      streak = favourable ? streak + 1 : 0;
+      if (!started) {
+        started = streak >= 3;
+        index = started ? 60 : 0;
+      } else {
+        index += favourable ? 20 : -10;
+        index -= hot ? 10 : 0;
+      }
+      index = Math.min(100, Math.max(0, index));
+      peak = Math.max(peak, index);
+      if (index >= 60) {
+        riskDates.push(date);
+      }
+    });
+
+    const risk: DiseaseRiskLevel = peak >= 60 ? "high" : peak >= 40 ? "moderate" : peak > 0 ? "low" : "none";
+
+    return this.toRisk({
+      code: "powdery_mildew",
+      name: "Powdery mildew",
+      kind: "disease",
+      model: "Gubler-Thomas risk index",
+      risk,
+      riskDates
+    }, {
+      message: [msg(`disease.powdery_mildew.${risk}`)],
+      action: [msg(`disease.powdery_mildew.action.${risk}`)],
+      evidence: [msg("disease.powdery_mildew.evidence", { index, peak })]
+    });
+  }
+
+  /**
+   * Rice blast: an infection event needs 10+ hours of leaf wetness (RH ≥ 90% or rain)
+   * at a mean temperature of 20-28°C
+   */
+  private assessRiceBlast(rows: WeatherRow[]): DiseaseRisk {
+    const wetRuns = this.findRuns(rows, row => row.humidity >= 90 || row.precipitation > 0).map(run => ({
+      end: run[run.length - 1].date,
+      hours: run.reduce((sum, row) => sum + row.hours, 0),
+      meanTemperature: run.reduce((sum, row) => sum + row.temperature * row.hours, 0) / run.reduce((sum, row) => sum + row.hours, 0)
+    }));
+    const infections = wetRuns.filter(run => run.hours >= 10 && run.meanTemperature >= 20 && run.meanTemperature <= 28);
+    const marginal = wetRuns.filter(run => run.hours >= 6 && run.meanTemperature >= 18 && run.meanTemperature <= 30);
+    const longestWetness = Math.max(0, ...wetRuns.map(run => run.hours));
+
+    let risk: DiseaseRiskLevel = "none";
+    let message = msg("disease.rice_blast.none");
+    let action = msg("disease.rice_blast.action.none");
+    let riskDates: string[] = [];
+
+    if (infections.length >= 2) {
+      risk = "high";
+      message = msg("disease.rice_blast.high");
+      action = msg("disease.rice_blast.action.high");
+      riskDates = infections.map(run => run.end);
+    } else if (infections.length === 1) {
+      risk = "moderate";
+      message = msg("disease.rice_blast.moderate");
+      action = msg("disease.rice_blast.action.moderate");
+      riskDates = infections.map(run => run.end);
+    } else if (marginal.length > 0) {
+      risk = "low";
+      message = msg("disease.rice_blast.low");
+      action = msg("disease.action.scout");
+      riskDates = marginal.map(run => run.end);
+    }
+
+    const evidence = msg("disease.rice_blast.evidence", { infections: infections.length, hours: longestWetness });
+    return this.toRisk({
+      code: "rice_blast",
+      name: "Rice blast",
+      kind: "disease",
+      model: "Leaf wetness duration",
+      risk,
+      riskDates: Array.from(new Set(riskDates))
+    }, { message: [message], action: [action], evidence: [evidence] });
+  }
+
+  /**
+   * Insect emergence from degree days accumulated since sowing
+   */
+  private async assessPest(lat: number, lon: number, pest: PestModel, sowingDate: string): Promise<DiseaseRisk | null> {
+    const season = await gddService.getSeasonGrowingDegreeDays(lat, lon, sowingDate, {
+      baseTemp: pest.baseTemp,
+      upperTemp: pest.upperTemp,
+      method: "sine"
+    });
+    if (!season.success || !season.data) {
+      return null;
+    }
+
+    const accumulated = season.data.accumulatedToDate;
+    const generation = Math.floor(accumulated / pest.generationDd);
+    const nextThreshold = (generation + 1) * pest.generationDd;
+    const remaining = Math.round((nextThreshold - accumulated) * 10) / 10;
+    const emergence = season.data.daily.find(day => day.projected && day.cumulative >= nextThreshold);
+
+    const name = nameRef(`risk.${pest.code}`, pest.name);
+    let risk: DiseaseRiskLevel;
+    let message: MessageRef;
+    let action: MessageRef;
+
+    if (emergence) {
+      risk = "high";
+      message = msg("disease.pest.high", { pest: name, generation: generation + 1, date: emergence.date });
+      action = msg("disease.pest.action.high");
+    } else if (remaining <= 100) {
+      risk = "moderate";
+      message = msg("disease.pest.moderate", { pest: name, generation: generation + 1, remaining });
+      action = msg("disease.pest.action.moderate");
+    } else {
+      risk = "low";
+      message = msg("disease.pest.low", { pest: name });
+      action = msg("disease.action.scout");
+    }
+
+    const evidence = msg("disease.pest.evidence", { accumulated, next: nextThreshold });
+    return this.toRisk({
+      code: pest.code,
+      name: pest.name,
+      kind: "pest",
+      model: `Degree days above ${pest.baseTemp}°C from sowing`,
+      risk,
+      riskDates: emergence ? [emergence.date] : []
+    }, { message: [message], action: [action], evidence: [evidence] });
+  }
+
+  /**
+   * Model result with English text for each coded field
+   */
+  private toRisk(risk: Omit<DiseaseRisk, "message" | "action" | "evidence" | "codes">, codes: DiseaseRisk["codes"]): DiseaseRisk {
+    return {
+      ...risk,
+      message: renderMessages(codes.message, "en"),
+      action: renderMessages(codes.action, "en"),
+      evidence: renderMessages(codes.evidence, "en"),
+      codes
+    };
+  }
+}
+
+export const diseaseRiskService = new DiseaseRiskService();
+export default diseaseRiskService;
@@ -0,0 +1,256 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { polygonAreaHectares, polygonCentroid } from "../lib/geo";
+import { SoilTexture } from "./waterbalance";
+import { CropAdvisory } from "./agricultural";
+
+export type IrrigationType = "rainfed" | "drip" | "sprinkler" | "furrow" | "flood";
+
+export const IRRIGATION_TYPES: IrrigationType[] = ["rainfed", "drip", "sprinkler", "furrow", "flood"];
+
+export interface GeoPolygon {
+  type: "Polygon";
+  coordinates: [number, number][][];
+}
+
+export interface Field {
+  id: string;
+  farmId: string;
+  name: string;
+  boundary?: GeoPolygon;
+  lat: number;
+  lon: number;
+  areaHa?: number;
+  soil?: SoilTexture;
+  irrigationType?: IrrigationType;
+  cropCode?: string;
+  sowingDate?: string;
+  advisoryPriority?: CropAdvisory["priority"];
+  advisoryCheckedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Farm {
+  id: string;
+  owner: string;
+  name: string;
+  lat?: number;
+  lon?: number;
+  fields?: Field[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FarmInput {
+  owner: string;
+  name: string;
+  lat?: number | null;
+  lon?: number | null;
+}
+
+export interface FieldInput {
+  farmId: string;
+  name: string;
+  boundary?: GeoPolygon | null;
+  lat?: number;
+  lon?: number;
+  areaHa?: number | null;
+  soil?: SoilTexture | null;
+  irrigationType?: IrrigationType | null;
+  cropCode?: string | null;
+  sowingDate?: string | null;
+}
+
+class FarmService {
+
+  /**
+   * List farms, optionally for a single owner
+   */
+  async listFarms(owner?: string): Promise<Farm[]> {
+    const farms = await prisma.farm.findMany({
+      where: owner ? { owner } : undefined,
+      orderBy: { name: "asc" },
+    });
+
+    return farms.map((farm: any) => this.toFarm(farm));
+  }
+
+  /**
+   * Get a farm with its fields
+   */
+  async getFarm(id: string): Promise<Farm | null> {
+    const farm = await prisma.farm.findUnique({
+      where: { id },
+      include: { fields: { orderBy: { name: "asc" } } },
+    });
+
+    return farm ? this.toFarm(farm) : null;
+  }
+
+  async createFarm(input: FarmInput): Promise<Farm> {
+    const farm = await prisma.farm.create({
+      data: {
+        owner: input.owner,
+        name: input.name,
+        lat: input.lat ?? null,
+        lon: input.lon ?? null,
+      },
+    });
+
+    return this.toFarm(farm);
+  }
+
+  /**
+   * Update a farm. Returns null when it does not exist.
+   */
+  async updateFarm(id: string, input: Partial<FarmInput>): Promise<Farm | null> {
+    const existing = await prisma.farm.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const farm = await prisma.farm.update({
+      where: { id },
+      data: input,
+    });
+
+    return this.toFarm(farm);
+  }
+
+  /**
+   * Delete a farm and, through the cascade, its fields
+   */
+  async deleteFarm(id: string): Promise<boolean> {
+    const result = await prisma.farm.deleteMany({ where: { id } });
+    return result.count > 0;
+  }
+
+  /**
+   * List fields, optionally for a single farm
+   */
+  async listFields(farmId?: string): Promise<Field[]> {
+    const fields = await prisma.field.findMany({
+      where: farmId ? { farmId } : undefined,
+      orderBy: { name: "asc" },
+    });
+
+    return fields.map((field: any) => this.toField(field));
+  }
+
+  async getField(id: string): Promise<Field | null> {
+    const field = await prisma.field.findUnique({ where: { id } });
+    return field ? this.toField(field) : null;
+  }
+
+  /**
+   * Create a field. A boundary polygon sets the centroid and, unless given, the area.
+   */
+  async createField(input: FieldInput): Promise<Field> {
+    const field = await prisma.field.create({
+      data: {
+        farmId: input.farmId,
+        name: input.name,
+        soil: input.soil ?? null,
+        irrigationType: input.irrigationType ?? null,
+        cropCode: input.cropCode ?? null,
+        sowingDate: input.sowingDate ?? null,
+        ...this.geometry(input),
+      },
+    });
+
+    return this.toField(field);
+  }
+
+  /**
+   * Update a field. Returns null when it does not exist.
+   */
+  async updateField(id: string, input: Partial<FieldInput>): Promise<Field | null> {
+    const existing = await prisma.field.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const { boundary, lat, lon, areaHa, ...rest } = input;
+    const data: Prisma.FieldUncheckedUpdateInput = { ...rest };
+    if (boundary !== undefined || lat !== undefined || lon !== undefined || areaHa !== undefined) {
+      Object.assign(data, this.geometry({
+        boundary: boundary === undefined ? existing.boundary as unknown as GeoPolygon | null : boundary,
+        lat: lat ?? existing.lat,
+        lon: lon ?? existing.lon,
+        areaHa: areaHa === undefined && boundary === undefined ? existing.areaHa : areaHa,
+      }));
+    }
+
+    const field = await prisma.field.update({
+      where: { id },
+      data,
+    });
+
+    return this.toField(field);
+  }
+
+  async deleteField(id: string): Promise<boolean> {
+    const result = await prisma.field.deleteMany({ where: { id } });
+    return result.count > 0;
+  }
+
+  /**
+   * Boundary, centroid and area columns; a field without a polygon stores a database NULL boundary
+   */
+  private geometry(input: Pick<FieldInput, "boundary" | "lat" | "lon" | "areaHa">): Pick<Prisma.FieldUncheckedCreateInput, "boundary" | "lat" | "lon" | "areaHa"> {
+    if (input.boundary) {
+      const ring = input.boundary.coordinates[0];
+      const centroid = polygonCentroid(ring);
+      return {
+        boundary: { type: input.boundary.type, coordinates: input.boundary.coordinates },
+        lat: Math.round(centroid.lat * 1e6) / 1e6,
+        lon: Math.round(centroid.lon * 1e6) / 1e6,
+        areaHa: input.areaHa ?? Math.round(polygonAreaHectares(ring) * 100) / 100,
+      };
+    }
+
+    return {
+      boundary: Prisma.DbNull,
+      lat: input.lat!,
+      lon: input.lon!,
+      areaHa: input.areaHa ?? null,
+    };
+  }
+
+  private toFarm(farm: any): Farm {
+    return {
+      id: farm.id,
+      owner: farm.owner,
+      name: farm.name,
+      lat: farm.lat ?? undefined,
+      lon: farm.lon ?? undefined,
+      fields: farm.fields ? farm.fields.map((field: any) => this.toField(field)) : undefined,
+      createdAt: farm.createdAt.toISOString(),
+      updatedAt: farm.updatedAt.toISOString(),
+    };
+  }
+
+  private toField(field: any): Field {
+    return {
+      id: field.id,
+      farmId: field.farmId,
+      name: field.name,
+      boundary: field.boundary ?? undefined,
+      lat: field.lat,
+      lon: field.lon,
+      areaHa: field.areaHa ?? undefined,
+      soil: field.soil ?? undefined,
+      irrigationType: field.irrigationType ?? undefined,
+      cropCode: field.cropCode ?? undefined,
+      sowingDate: field.sowingDate ?? undefined,
+      advisoryPriority: field.advisoryPriority ?? undefined,
+      advisoryCheckedAt: field.advisoryCheckedAt ? field.advisoryCheckedAt.toISOString() : undefined,
+      createdAt: field.createdAt.toISOString(),
+      updatedAt: field.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const farmService = new FarmService();
+export default farmService;
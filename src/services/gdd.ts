@@ -0,0 +1,118 @@
+import { growingDegreeDays, GddMethod } from "../lib/agromet";
+import { TimezoneInfo, toLocalDate } from "../lib/timezone";
+import { weatherService, WeatherResponse } from "./weather";
+
+export interface GddOptions {
+  baseTemp: number;
+  upperTemp: number;
+  method: GddMethod;
+}
+
+export interface DailyDegreeDays {
+  date: string;
+  minTemperature: number;
+  maxTemperature: number;
+  gdd: number;
+  cumulative: number;
+  projected: boolean;
+}
+
+export interface SeasonGrowingDegreeDays {
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+    timezone: TimezoneInfo;
+  };
+  sowingDate: string;
+  method: GddMethod;
+  baseTemp: number;
+  upperTemp: number;
+  daily: DailyDegreeDays[];
+  accumulatedToDate: number;
+  projectedTotal: number;
+  projectedThrough: string;
+  timestamp: string;
+}
+
+class GrowingDegreeDayService {
+
+  /**
+   * Accumulate GDD from sowing to today from history, then project ahead over the forecast
+   */
+  async getSeasonGrowingDegreeDays(lat: number, lon: number, sowingDate: string, options: GddOptions): Promise<WeatherResponse<SeasonGrowingDegreeDays>> {
+    try {
+      const forecastResponse = await weatherService.getDailyForecast(lat, lon);
+      if (!forecastResponse.success || !forecastResponse.data) {
+        throw new Error("Failed to fetch forecast for GDD projection");
+      }
+
+      const forecast = forecastResponse.data;
+      const today = toLocalDate(Math.floor(Date.now() / 1000), forecast.location.timezone.offsetSeconds);
+
+      const projectedDays = forecast.forecast
+        .filter(day => day.date >= today && day.date >= sowingDate)
+        .map(day => ({ date: day.date, min: day.temperature.min, max: day.temperature.max }));
+
+      // Today comes from the forecast when it still has rows for it, otherwise from today's observations
+      const todayForecast = projectedDays.some(day => day.date === today);
+      const observedDays: { date: string; min: number; max: number }[] = [];
+      if (sowingDate <= today) {
+        const historyResponse = await weatherService.getHistoricalDailyWeather(lat, lon, sowingDate, new Date().toISOString());
+        if (!historyResponse.success || !historyResponse.data) {
+          throw new Error("Failed to fetch historical weather since sowing");
+        }
+
+        historyResponse.data.data
+          .filter(day => day.date >= sowingDate && (day.date < today || (day.date === today && !todayForecast)))
+          .forEach(day => observedDays.push({ date: day.date, min: day.temperature.min, max: day.temperature.max }));
+      }
+
+      let cumulative = 0;
+      const toDaily = (day: { date: string; min: number; max: number }, projected: boolean): DailyDegreeDays => {
+        const gdd = growingDegreeDays(day.min, day.max, options.baseTemp, options.upperTemp, options.method);
+        cumulative += gdd;
+        return {
+          date: day.date,
+          minTemperature: day.min,
+          maxTemperature: day.max,
+          gdd: Math.round(gdd * 100) / 100,
+          cumulative: Math.round(cumulative * 100) / 100,
+          projected
+        };
+      };
+
+      const observed = observedDays.map(day => toDaily(day, false));
+      const accumulatedToDate = Math.round(cumulative * 100) / 100;
+      const projected = projectedDays.map(day => toDaily(day, true));
+      const daily = [...observed, ...projected];
+
+      return {
+        success: true,
+        data: {
+          location: forecast.location,
+          sowingDate,
+          method: options.method,
+          baseTemp: options.baseTemp,
+          upperTemp: options.upperTemp,
+          daily,
+          accumulatedToDate,
+          projectedTotal: Math.round(cumulative * 100) / 100,
+          projectedThrough: daily.length > 0 ? daily[daily.length - 1].date : today,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to calculate season GDD:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "GDD calculation error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+}
+
+export const gddService = new GrowingDegreeDayService();
+export default gddService;
@@ -0,0 +1,202 @@
+import { Language, localizeFields, MessageCodes, MessageRef, msg, t } from "../lib/i18n";
+import { TimezoneInfo, toLocalHour } from "../lib/timezone";
+import { CropProfile } from "./crops";
+import { weatherService, WeatherResponse } from "./weather";
+
+export type HarvestType = "grain" | "hay" | "cotton" | "curing" | "fresh";
+
+export interface HarvestProfile {
+  type: HarvestType;
+  name: string;
+  dryDays: number;
+  maxHumidity: number;
+  minWindSpeed: number;
+  postHarvestDays: number;
+  heavyRainMm: number;
+}
+
+export interface HarvestWindow {
+  startDate: string;
+  endDate: string;
+  days: number;
+  startTime: string | null;
+  score: number;
+  rating: "excellent" | "good" | "fair";
+  averageHumidity: number;
+  averageWindSpeed: number;
+  rainAfterMm: number;
+  notes: string[];
+  codes: MessageCodes<"notes">;
+}
+
+export interface HarvestPlan {
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+    timezone: TimezoneInfo;
+  };
+  crop: {
+    code: string;
+    name: string;
+  } | null;
+  profile: HarvestProfile;
+  windows: HarvestWindow[];
+  heavyRainDays: string[];
+  message: string;
+  language: Language;
+  timestamp: string;
+  codes: MessageCodes<"message">;
+}
+
+/**
+ * How much dry weather each kind of harvest needs. Humidity and wind are
+ * daytime (09:00-18:00 local) means; dry days allow at most 1 mm of rain.
+ */
+export const HARVEST_PROFILES: Record<HarvestType, HarvestProfile> = {
+  grain: { type: "grain", name: "Grain (combine or threshing)", dryDays: 2, maxHumidity: 70, minWindSpeed: 1.5, postHarvestDays: 1, heavyRainMm: 10 },
+  hay: { type: "hay", name: "Hay and fodder (cut, cure and bale)", dryDays: 3, maxHumidity: 65, minWindSpeed: 2, postHarvestDays: 1, heavyRainMm: 5 },
+  cotton: { type: "cotton", name: "Cotton picking", dryDays: 1, maxHumidity: 75, minWindSpeed: 0, postHarvestDays: 0, heavyRainMm: 10 },
+  curing: { type: "curing", name: "Field-cured bulbs and tubers", dryDays: 3, maxHumidity: 75, minWindSpeed: 1, postHarvestDays: 1, heavyRainMm: 10 },
+  fresh: { type: "fresh", name: "Fresh produce", dryDays: 1, maxHumidity: 85, minWindSpeed: 0, postHarvestDays: 0, heavyRainMm: 20 }
+};
+
+export const CROP_HARVEST_TYPES: Record<string, HarvestType> = {
+  wheat: "grain",
+  rice: "grain",
+  maize: "grain",
+  chickpea: "grain",
+  soybean: "grain",
+  mustard: "grain",
+  cotton: "cotton",
+  onion: "curing",
+  potato: "curing",
+  tomato: "fresh",
+  mango: "fresh",
+  sugarcane: "fresh"
+};
+
+class HarvestService {
+  private readonly DRY_DAY_RAIN_MM = 1;
+
+  /**
+   * Find runs of dry, drying days in the forecast followed by enough dry weather after harvest
+   */
+  async getHarvestWindows(lat: number, lon: number, crop?: CropProfile, harvestType?: HarvestType, language: Language = "en"): Promise<WeatherResponse<HarvestPlan>> {
+    try {
+      const [dailyResponse, hourlyResponse] = await Promise.all([
+        weatherService.getDailyForecast(lat, lon),
+        weatherService.getHourlyForecast(lat, lon)
+      ]);
+
+      if (!dailyResponse.success || !dailyResponse.data || !hourlyResponse.success || !hourlyResponse.data) {
+        throw new Error("Failed to fetch forecast for harvest planning");
+      }
+
+      const profile = HARVEST_PROFILES[harvestType || (crop && CROP_HARVEST_TYPES[crop.code]) || "grain"];
+      const offset = hourlyResponse.data.location.timezone.offsetSeconds;
+      const hourly = hourlyResponse.data.forecast;
+
+      const days = dailyResponse.data.forecast.map(day => {
+        const daytime = hourly.filter(item => {
+          const hour = toLocalHour(Date.parse(item.datetime) / 1000, offset);
+          return item.date === day.date && hour >= 9 && hour < 18;
+        });
+        const rows = daytime.length > 0 ? daytime : hourly.filter(item => item.date === day.date);
+        const humidity = rows.reduce((sum, item) => sum + item.humidity, 0) / rows.length;
+        const windSpeed = rows.reduce((sum, item) => sum + item.windSpeed, 0) / rows.length;
+        const dry = day.precipitation <= this.DRY_DAY_RAIN_MM;
+
+        return {
+          date: day.date,
+          precipitation: day.precipitation,
+          humidity,
+          windSpeed,
+          suitable: dry && humidity <= profile.maxHumidity && windSpeed >= profile.minWindSpeed,
+          // First daytime row once dew has lifted
+          startTime: daytime.find(item => item.humidity <= profile.maxHumidity && item.precipitation === 0)?.localDatetime || null
+        };
+      });
+
+      const windows: HarvestWindow[] = [];
+      days.forEach((day, i) => {
+        const run = days.slice(i, i + profile.dryDays);
+        if (run.length < profile.dryDays || !run.every(item => item.suitable)) {
+          return;
+        }
+
+        const after = days.slice(i + profile.dryDays, i + profile.dryDays + profile.postHarvestDays);
+        const rainAfter = after.reduce((sum, item) => sum + item.precipitation, 0);
+        if (after.some(item => item.precipitation >= profile.heavyRainMm)) {
+          return;
+        }
+
+        const notes: MessageRef[] = [];
+        const averageHumidity = run.reduce((sum, item) => sum + item.humidity, 0) / run.length;
+        const averageWindSpeed = run.reduce((sum, item) => sum + item.windSpeed, 0) / run.length;
+        let score = 100 - Math.max(0, averageHumidity - (profile.maxHumidity - 20));
+        if (rainAfter > 0) {
+          score -= 10;
+          notes.push(msg("harvest.note.rain_after", { rain: Math.round(rainAfter * 10) / 10 }));
+        }
+        if (after.length < profile.postHarvestDays) {
+          score -= 15;
+          notes.push(msg("harvest.note.beyond_forecast"));
+        }
+        score = Math.max(0, Math.round(score));
+
+        windows.push({
+          startDate: run[0].date,
+          endDate: run[run.length - 1].date,
+          days: run.length,
+          startTime: run[0].startTime,
+          score,
+          rating: score >= 85 ? "excellent" : score >= 70 ? "good" : "fair",
+          averageHumidity: Math.round(averageHumidity),
+          averageWindSpeed: Math.round(averageWindSpeed * 10) / 10,
+          rainAfterMm: Math.round(rainAfter * 10) / 10,
+          notes: notes.map(note => t(note, "en")),
+          codes: { notes }
+        });
+      });
+
+      windows.sort((a, b) => b.score - a.score || a.startDate.localeCompare(b.startDate));
+      const heavyRainDays = days.filter(day => day.precipitation >= profile.heavyRainMm).map(day => day.date);
+
+      let message: MessageRef;
+      if (windows.length > 0) {
+        message = msg("harvest.best_window", { date: windows[0].startDate, rating: msg(`spray.rating.${windows[0].rating}`) });
+      } else if (heavyRainDays.length > 0) {
+        message = msg("harvest.heavy_rain", { dates: heavyRainDays.join(", ") });
+      } else {
+        message = msg("harvest.too_wet");
+      }
+
+      return {
+        success: true,
+        data: localizeFields({
+          location: dailyResponse.data.location,
+          crop: crop ? { code: crop.code, name: crop.name } : null,
+          profile,
+          windows: windows.map(window => localizeFields(window, language)),
+          heavyRainDays,
+          message: t(message, "en"),
+          language,
+          timestamp: new Date().toISOString(),
+          codes: { message: [message] }
+        }, language),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to find harvest windows:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Harvest planning error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+}
+
+export const harvestService = new HarvestService();
+export default harvestService;
@@ -0,0 +1,174 @@
+import { prisma } from "../lib/database";
+import { roundCoordinate } from "../lib/geo";
+import { ProviderObservation } from "./providers";
+
+export interface WeatherLocation {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  active: boolean;
+}
+
+class WeatherHistoryService {
+
+  /**
+   * List registered snapshot locations
+   */
+  async listLocations(activeOnly: boolean = false): Promise<WeatherLocation[]> {
+    const locations = await prisma.weatherLocation.findMany({
+      where: activeOnly ? { active: true } : undefined,
+      orderBy: { name: "asc" },
+    });
+
+    return locations.map((location: any) => ({
+      id: location.id,
+      name: location.name,
+      lat: location.lat,
+      lon: location.lon,
+      active: location.active,
+    }));
+  }
+
+  /**
+   * Register a location for scheduled snapshots (re-activates an existing one)
+   */
+  async addLocation(name: string, lat: number, lon: number): Promise<WeatherLocation> {
+    const roundedLat = roundCoordinate(lat);
+    const roundedLon = roundCoordinate(lon);
+
+    const location = await prisma.weatherLocation.upsert({
+      where: { lat_lon: { lat: roundedLat, lon: roundedLon } },
+      update: { name, active: true },
+      create: { name, lat: roundedLat, lon: roundedLon },
+    });
+
+    return {
+      id: location.id,
+      name: location.name,
+      lat: location.lat,
+      lon: location.lon,
+      active: location.active,
+    };
+  }
+
+  /**
+   * Stop snapshotting a location. Stored history is kept.
+   */
+  async deactivateLocation(id: string): Promise<boolean> {
+    const result = await prisma.weatherLocation.updateMany({
+      where: { id },
+      data: { active: false },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Store hourly observations, ignoring hours that are already recorded
+   */
+  async recordObservations(lat: number, lon: number, observations: ProviderObservation[], source: "snapshot" | "history", provider: string): Promise<number> {
+    if (observations.length === 0) {
+      return 0;
+    }
+
+    const roundedLat = roundCoordinate(lat);
+    const roundedLon = roundCoordinate(lon);
+
+    const result = await prisma.weatherObservation.createMany({
+      data: observations.map(item => ({
+        lat: roundedLat,
+        lon: roundedLon,
+        observedAt: new Date(Math.floor(item.timestamp / 3600) * 3600 * 1000),
+        temperature: item.temperature,
+        feelsLike: item.feelsLike ?? null,
+        humidity: item.humidity,
+        pressure: item.pressure,
+        windSpeed: item.windSpeed,
+        windDirection: item.windDirection ?? null,
+        cloudCover: item.cloudCover ?? null,
+        precipitation: item.precipitation,
+        weatherMain: item.weather.main,
+        description: item.weather.description,
+        icon: item.weather.icon,
+        source,
+        provider,
+      })),
+      skipDuplicates: true,
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Store a forecast as issued at the given time
+   */
+  async recordForecast(lat: number, lon: number, issuedAt: Date, forecast: ProviderObservation[], provider: string): Promise<number> {
+    if (forecast.length === 0) {
+      return 0;
+    }
+
+    const roundedLat = roundCoordinate(lat);
+    const roundedLon = roundCoordinate(lon);
+
+    const result = await prisma.forecastSnapshot.createMany({
+      data: forecast.map(item => ({
+        lat: roundedLat,
+        lon: roundedLon,
+        issuedAt,
+        forecastFor: new Date(item.timestamp * 1000),
+        temperature: item.temperature,
+        humidity: item.humidity,
+        pressure: item.pressure,
+        windSpeed: item.windSpeed,
+        cloudCover: item.cloudCover ?? null,
+        precipitation: item.precipitation,
+        weatherMain: item.weather.main,
+        description: item.weather.description,
+        icon: item.weather.icon,
+        provider,
+      })),
+      skipDuplicates: true,
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Load observations stored from a provider for a grid cell between two unix timestamps
+   */
+  async getObservations(lat: number, lon: number, start: number, end: number, provider: string): Promise<ProviderObservation[]> {
+    const observations = await prisma.weatherObservation.findMany({
+      where: {
+        lat: roundCoordinate(lat),
+        lon: roundCoordinate(lon),
+        provider,
+        observedAt: {
+          gte: new Date(start * 1000),
+          lte: new Date(end * 1000),
+        },
+      },
+      orderBy: { observedAt: "asc" },
+    });
+
+    return observations.map((item: any) => ({
+      timestamp: Math.floor(item.observedAt.getTime() / 1000),
+      temperature: item.temperature,
+      feelsLike: item.feelsLike ?? undefined,
+      humidity: item.humidity,
+      pressure: item.pressure,
+      windSpeed: item.windSpeed,
+      windDirection: item.windDirection ?? undefined,
+      cloudCover: item.cloudCover ?? undefined,
+      precipitation: item.precipitation,
+      weather: {
+        main: item.weatherMain,
+        description: item.description,
+        icon: item.icon,
+      },
+    }));
+  }
+}
+
+export const weatherHistoryService = new WeatherHistoryService();
+export default weatherHistoryService;
@@ -1,6 +1,7 @@
 import axios from "axios";
 import * as cheerio from "cheerio";
 import { prisma } from "../lib/database";
+import { eventBus } from "../lib/events";
 
 export interface MarketPrice {
   commodity: string;
@@ -39,8 +40,15 @@ class MarketService {
       const marketPrices = this.parseMarketPricesHTML(response.data);
 
       if (marketPrices.length > 0) {
+        const changed = await this.findChangedPrices(marketPrices);
         await this.saveMarketPricesToDatabase(marketPrices);
-        console.log(`📈 Saved ${marketPrices.length} market prices to database`);
+        console.log(`📈 Saved ${marketPrices.length} market prices to database, ${changed.length} changed`);
+        if (changed.length > 0) {
+          eventBus.publish("market.prices_updated", {
+            totalItems: changed.length,
+            prices: changed
+          });
+        }
       }
 
       return {
@@ -63,6 +71,24 @@ class MarketService {
     }
   }
 
+  /**
+   * Prices that are new or differ from the latest stored quote for the same
+   * commodity and variety, so repeated scrapes of an unchanged ticker stay quiet
+   */
+  private async findChangedPrices(marketPrices: MarketPrice[]): Promise<MarketPrice[]> {
+    const stored = await prisma.marketPrice.findMany({
+      where: { commodity: { in: Array.from(new Set(marketPrices.map(price => price.commodity))) } },
+      orderBy: { date: "desc" },
+      distinct: ["commodity", "variety"],
+    });
+    const latest = new Map(stored.map(price => [`${price.commodity}|${price.variety}`, price]));
+
+    return marketPrices.filter(price => {
+      const previous = latest.get(`${price.commodity}|${price.variety}`);
+      return !previous || previous.maxPrice !== price.maxPrice || previous.minPrice !== price.minPrice;
+    });
+  }
+
   /**
    * Save market prices to database
    */
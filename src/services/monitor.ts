@@ -0,0 +1,112 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { eventBus } from "../lib/events";
+import { t } from "../lib/i18n";
+import { AdvisoryOptions, agriculturalService, CropAdvisory } from "./agricultural";
+import { cropService } from "./crops";
+import { IrrigationType } from "./farm";
+import { SoilTexture } from "./waterbalance";
+
+export interface AdvisoryPriorityChange {
+  advisory: {
+    priority: CropAdvisory["priority"];
+    previousPriority: CropAdvisory["priority"];
+    generalAdvice: string[];
+    generalAdviceCodes: CropAdvisory["generalAdviceCodes"];
+    lastUpdated: string;
+  };
+  field: {
+    id: string;
+    farmId: string;
+    owner: string;
+    name: string;
+    lat: number;
+    lon: number;
+  };
+}
+
+type MonitoredField = Prisma.FieldGetPayload<{ include: { farm: true } }>;
+
+export interface AdvisoryRunSummary {
+  fields: number;
+  changed: number;
+  failed: number;
+}
+
+class AdvisoryMonitorService {
+
+  /**
+   * Recompute the advisory priority of every registered field and publish the
+   * fields whose priority changed
+   */
+  async checkAll(): Promise<AdvisoryRunSummary> {
+    const fields = await prisma.field.findMany({ include: { farm: true } });
+    const summary: AdvisoryRunSummary = { fields: fields.length, changed: 0, failed: 0 };
+
+    for (const field of fields) {
+      try {
+        if (await this.checkField(field)) {
+          summary.changed++;
+        }
+      } catch (error) {
+        summary.failed++;
+        console.error(`❌ Advisory check failed for field ${field.id}:`, error);
+      }
+    }
+
+    console.log(`🧭 Advisories: ${summary.changed} priority changes for ${summary.fields} fields`);
+    return summary;
+  }
+
+  /**
+   * Store the field's current priority. The first check only records a
+   * baseline; later checks publish when the priority differs.
+   */
+  private async checkField(field: MonitoredField): Promise<boolean> {
+    let options: AdvisoryOptions = {
+      fieldId: field.id,
+      soil: (field.soil ?? undefined) as SoilTexture | undefined,
+      irrigationType: (field.irrigationType ?? undefined) as IrrigationType | undefined,
+      sowingDate: field.sowingDate ?? undefined
+    };
+    const crop = field.cropCode ? await cropService.getCrop(field.cropCode) : null;
+    if (crop) {
+      options = { ...options, ...cropService.getWaterBalanceOptions(crop, options.sowingDate), crop };
+    }
+
+    const advisory = await agriculturalService.getAdvisoryPriority(field.lat, field.lon, options);
+    const checkedAt = new Date();
+    const previousPriority = field.advisoryPriority as CropAdvisory["priority"] | null;
+    await prisma.field.update({
+      where: { id: field.id },
+      data: { advisoryPriority: advisory.priority, advisoryCheckedAt: checkedAt },
+    });
+
+    if (!previousPriority || previousPriority === advisory.priority) {
+      return false;
+    }
+
+    const change: AdvisoryPriorityChange = {
+      advisory: {
+        priority: advisory.priority,
+        previousPriority,
+        generalAdvice: advisory.generalAdvice.map(ref => t(ref, "en")),
+        generalAdviceCodes: advisory.generalAdvice,
+        lastUpdated: checkedAt.toISOString()
+      },
+      field: {
+        id: field.id,
+        farmId: field.farmId,
+        owner: field.farm.owner,
+        name: field.name,
+        lat: field.lat,
+        lon: field.lon
+      }
+    };
+    eventBus.publish("advisory.priority_changed", change);
+    return true;
+  }
+}
+
+export const advisoryMonitorService = new AdvisoryMonitorService();
+export default advisoryMonitorService;
@@ -0,0 +1,316 @@
+import { prisma } from "../lib/database";
+import { eventBus, FarmEvent } from "../lib/events";
+import { Alert } from "./alerts";
+import { farmService } from "./farm";
+import { MarketPrice } from "./market";
+import { Language } from "../lib/i18n";
+import { renderAlertMessage, renderPriceMessage, renderTemplate, RenderedMessage } from "./templates";
+import { createNotificationTransport, NotificationChannel, NotificationTransport } from "./transports";
+
+export type NotificationStatus = "sent" | "failed";
+
+export interface NotificationContact {
+  id: string;
+  owner: string;
+  name?: string;
+  phone?: string;
+  email?: string;
+  channels: NotificationChannel[];
+  language: Language;
+  commodities: string[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationContactInput {
+  owner: string;
+  name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  channels: NotificationChannel[];
+  language?: Language;
+  commodities?: string[];
+  active?: boolean;
+}
+
+export interface Notification {
+  id: string;
+  contactId: string;
+  channel: NotificationChannel;
+  transport: string;
+  template: string;
+  language: Language;
+  recipient: string;
+  subject?: string;
+  body: string;
+  status: NotificationStatus;
+  error?: string;
+  providerMessageId?: string;
+  eventId?: string;
+  createdAt: string;
+}
+
+export interface NotificationFilter {
+  contactId?: string;
+  owner?: string;
+  status?: NotificationStatus;
+  limit?: number;
+}
+
+class NotificationService {
+  private transports = new Map<NotificationChannel, NotificationTransport>();
+  private isInitialized = false;
+
+  /**
+   * Start sending alert and market price events to contacts
+   */
+  init() {
+    if (this.isInitialized) {
+      return;
+    }
+
+    eventBus.subscribe(event => this.handle(event));
+    this.isInitialized = true;
+  }
+
+  /**
+   * List contacts, optionally for a single owner
+   */
+  async listContacts(owner?: string): Promise<NotificationContact[]> {
+    const contacts = await prisma.notificationContact.findMany({
+      where: owner ? { owner } : undefined,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return contacts.map((contact: any) => this.toContact(contact));
+  }
+
+  async getContact(id: string): Promise<NotificationContact | null> {
+    const contact = await prisma.notificationContact.findUnique({ where: { id } });
+    return contact ? this.toContact(contact) : null;
+  }
+
+  async createContact(input: NotificationContactInput): Promise<NotificationContact> {
+    const contact = await prisma.notificationContact.create({
+      data: {
+        owner: input.owner,
+        name: input.name ?? null,
+        phone: input.phone ?? null,
+        email: input.email ?? null,
+        channels: input.channels,
+        language: input.language ?? "en",
+        commodities: input.commodities ?? [],
+        active: input.active ?? true,
+      },
+    });
+
+    return this.toContact(contact);
+  }
+
+  /**
+   * Update a contact. Returns null when it does not exist.
+   */
+  async updateContact(id: string, input: Partial<NotificationContactInput>): Promise<NotificationContact | null> {
+    const existing = await prisma.notificationContact.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const contact = await prisma.notificationContact.update({
+      where: { id },
+      data: input,
+    });
+
+    return this.toContact(contact);
+  }
+
+  /**
+   * Delete a contact and, through the cascade, its notification log
+   */
+  async deleteContact(id: string): Promise<boolean> {
+    const result = await prisma.notificationContact.deleteMany({ where: { id } });
+    return result.count > 0;
+  }
+
+  /**
+   * Sent and failed notifications, newest first
+   */
+  async listNotifications(filter: NotificationFilter = {}): Promise<Notification[]> {
+    const notifications = await prisma.notification.findMany({
+      where: {
+        contactId: filter.contactId,
+        status: filter.status,
+        contact: filter.owner ? { owner: filter.owner } : undefined,
+      },
+      orderBy: { createdAt: "desc" },
+      take: filter.limit ?? 100,
+    });
+
+    return notifications.map((notification: any) => this.toNotification(notification));
+  }
+
+  /**
+   * Send a short confirmation over every channel of a contact
+   */
+  async sendTest(contact: NotificationContact): Promise<Notification[]> {
+    const message: RenderedMessage = {
+      template: "notification.test",
+      language: contact.language,
+      subject: renderTemplate("notification.test", contact.language),
+      body: renderTemplate("notification.test", contact.language)
+    };
+
+    return this.sendToContact(contact, message);
+  }
+
+  /**
+   * Render an alert for each active contact of the subscription owner in their language
+   */
+  async notifyAlert(alert: Alert, subscription: { owner: string; name?: string; fieldId?: string }, eventId?: string): Promise<Notification[]> {
+    const contacts = await prisma.notificationContact.findMany({ where: { owner: subscription.owner, active: true } });
+    if (contacts.length === 0) {
+      return [];
+    }
+
+    let place = subscription.name;
+    if (!place && subscription.fieldId) {
+      const field = await farmService.getField(subscription.fieldId);
+      place = field?.name;
+    }
+
+    const sent: Notification[] = [];
+    for (const record of contacts) {
+      const contact = this.toContact(record);
+      sent.push(...await this.sendToContact(contact, renderAlertMessage(alert, place, contact.language), eventId));
+    }
+    return sent;
+  }
+
+  /**
+   * Send contacts following a commodity the new prices for it
+   */
+  async notifyPrices(prices: MarketPrice[], eventId?: string): Promise<Notification[]> {
+    const contacts = await prisma.notificationContact.findMany({ where: { active: true, commodities: { isEmpty: false } } });
+    const sent: Notification[] = [];
+
+    for (const record of contacts) {
+      const contact = this.toContact(record);
+      const followed = contact.commodities.map(commodity => commodity.toLowerCase());
+      const matching = prices.filter(price => followed.some(commodity => price.commodity.toLowerCase().includes(commodity)));
+      if (matching.length > 0) {
+        sent.push(...await this.sendToContact(contact, renderPriceMessage(matching, contact.language), eventId));
+      }
+    }
+    return sent;
+  }
+
+  private async handle(event: FarmEvent) {
+    if (event.type === "market.prices_updated") {
+      await this.notifyPrices(event.data.prices, event.id);
+      return;
+    }
+
+    if (event.type.startsWith("alert.")) {
+      await this.notifyAlert(event.data.alert, event.data.subscription, event.id);
+    }
+  }
+
+  /**
+   * Send a message over each of the contact's channels and log the outcome
+   */
+  private async sendToContact(contact: NotificationContact, message: RenderedMessage, eventId?: string): Promise<Notification[]> {
+    const results: Notification[] = [];
+
+    for (const channel of contact.channels) {
+      const recipient = channel === "email" ? contact.email : contact.phone;
+      let transport: NotificationTransport | null = null;
+      let providerMessageId: string | undefined;
+      let error: string | null = null;
+
+      try {
+        if (!recipient) {
+          throw new Error(`Contact has no ${channel === "email" ? "email address" : "phone number"}`);
+        }
+        transport = this.getTransport(channel);
+        const result = await transport.send({
+          channel,
+          to: recipient,
+          subject: channel === "email" ? message.subject : undefined,
+          body: message.body
+        });
+        providerMessageId = result.providerMessageId;
+      } catch (sendError) {
+        error = sendError instanceof Error ? sendError.message : "Send failed";
+        console.error(`❌ Failed to send ${channel} notification to contact ${contact.id}:`, error);
+      }
+
+      const notification = await prisma.notification.create({
+        data: {
+          contactId: contact.id,
+          channel,
+          transport: transport?.name ?? "none",
+          template: message.template,
+          language: message.language,
+          recipient: recipient ?? "",
+          subject: channel === "email" ? message.subject : null,
+          body: message.body,
+          status: error ? "failed" : "sent",
+          error,
+          providerMessageId: providerMessageId ?? null,
+          eventId: eventId ?? null,
+        },
+      });
+      results.push(this.toNotification(notification));
+    }
+
+    return results;
+  }
+
+  private getTransport(channel: NotificationChannel): NotificationTransport {
+    let transport = this.transports.get(channel);
+    if (!transport) {
+      transport = createNotificationTransport(channel);
+      this.transports.set(channel, transport);
+    }
+    return transport;
+  }
+
+  private toContact(contact: any): NotificationContact {
+    return {
+      id: contact.id,
+      owner: contact.owner,
+      name: contact.name ?? undefined,
+      phone: contact.phone ?? undefined,
+      email: contact.email ?? undefined,
+      channels: contact.channels,
+      language: contact.language,
+      commodities: contact.commodities,
+      active: contact.active,
+      createdAt: contact.createdAt.toISOString(),
+      updatedAt: contact.updatedAt.toISOString(),
+    };
+  }
+
+  private toNotification(notification: any): Notification {
+    return {
+      id: notification.id,
+      contactId: notification.contactId,
+      channel: notification.channel,
+      transport: notification.transport,
+      template: notification.template,
+      language: notification.language,
+      recipient: notification.recipient,
+      subject: notification.subject ?? undefined,
+      body: notification.body,
+      status: notification.status,
+      error: notification.error ?? undefined,
+      providerMessageId: notification.providerMessageId ?? undefined,
+      eventId: notification.eventId ?? undefined,
+      createdAt: notification.createdAt.toISOString(),
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
+export default notificationService;
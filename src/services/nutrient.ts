@@ -0,0 +1,270 @@
+import { TimezoneInfo, toLocalDate, toLocalHour, toLocalISOString } from "../lib/timezone";
+import { SoilTexture } from "./waterbalance";
+import { weatherService, WeatherForecast, WeatherResponse } from "./weather";
+import { Language, localizeFields, MessageCodes, MessageRef, msg, t } from "../lib/i18n";
+
+export type FertilizerType = "urea" | "ammonium_sulphate" | "can" | "dap" | "npk" | "potash" | "manure";
+
+export type NutrientRiskLevel = "none" | "low" | "moderate" | "high";
+
+export interface FertilizerProfile {
+  code: FertilizerType;
+  name: string;
+  volatilizes: boolean;
+  leachesAsNitrate: boolean;
+  benefitsFromRain: boolean;
+}
+
+export interface NutrientWindow {
+  date: string;
+  applyAt: string;
+  applyAtLocal: string;
+  rating: "ideal" | "good" | "fair" | "avoid";
+  rainNext48h: number;
+  maxRain24h: number;
+  leachingRisk: NutrientRiskLevel;
+  volatilizationRisk: NutrientRiskLevel;
+  notes: string[];
+}
+
+export interface NutrientAdvice {
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+    timezone: TimezoneInfo;
+  };
+  fertilizer: FertilizerProfile;
+  soil: SoilTexture;
+  recentRainfall: number;
+  windows: NutrientWindow[];
+  bestWindow: NutrientWindow | null;
+  message: string;
+  language: Language;
+  timestamp: string;
+  codes: MessageCodes<"message">;
+}
+
+/**
+ * How each product behaves after application. Surface urea loses ammonia to
+ * the air until rain or irrigation moves it into the soil; nitrate and
+ * ammonium products leach with heavy rain, and all of them run off.
+ */
+export const FERTILIZER_TYPES: Record<FertilizerType, FertilizerProfile> = {
+  urea: { code: "urea", name: "Urea (46% N)", volatilizes: true, leachesAsNitrate: true, benefitsFromRain: true },
+  ammonium_sulphate: { code: "ammonium_sulphate", name: "Ammonium sulphate", volatilizes: true, leachesAsNitrate: true, benefitsFromRain: true },
+  can: { code: "can", name: "Calcium ammonium nitrate", volatilizes: false, leachesAsNitrate: true, benefitsFromRain: true },
+  dap: { code: "dap", name: "Diammonium phosphate (DAP)", volatilizes: true, leachesAsNitrate: false, benefitsFromRain: false },
+  npk: { code: "npk", name: "NPK complex", volatilizes: false, leachesAsNitrate: true, benefitsFromRain: false },
+  potash: { code: "potash", name: "Muriate of potash (MOP)", volatilizes: false, leachesAsNitrate: false, benefitsFromRain: false },
+  manure: { code: "manure", name: "Farmyard manure or compost", volatilizes: true, leachesAsNitrate: false, benefitsFromRain: false }
+};
+
+// Coarse soils leach at lower rainfall than loams and clays
+const COARSE_SOILS: SoilTexture[] = ["sand", "loamy_sand", "sandy_loam"];
+
+type ForecastRow = WeatherForecast["forecast"][number];
+
+class NutrientAdvisorService {
+  private readonly ROW_HOURS = 3;
+  private readonly RECENT_RAIN_DAYS = 3;
+  private readonly DRY_SOIL_RAIN_MM = 2;
+  private readonly APPLY_HOUR = 7;
+
+  /**
+   * Rate each forecast day for applying a fertilizer from rain, heat and wind after application
+   */
+  async getNutrientAdvice(lat: number, lon: number, fertilizer: FertilizerType = "urea", soil: SoilTexture = "loam", language: Language = "en"): Promise<WeatherResponse<NutrientAdvice>> {
+    try {
+      const [forecastResponse, historyResponse] = await Promise.all([
+        weatherService.getHourlyForecast(lat, lon),
+        weatherService.getHistoricalDailyWeather(
+          lat, lon, new Date(Date.now() - this.RECENT_RAIN_DAYS * 86400000).toISOString(), new Date().toISOString()
+        )
+      ]);
+
+      if (!forecastResponse.success || !forecastResponse.data) {
+        throw new Error("Failed to fetch forecast for nutrient advice");
+      }
+
+      const forecast = forecastResponse.data;
+      const offset = forecast.location.timezone.offsetSeconds;
+      const today = toLocalDate(Math.floor(Date.now() / 1000), offset);
+      const recentRainfall = historyResponse.success && historyResponse.data
+        ? historyResponse.data.data.filter(day => day.date < today).reduce((sum, day) => sum + day.precipitation, 0)
+        : undefined;
+
+      const profile = FERTILIZER_TYPES[fertilizer];
+      const windows = this.findWindows(forecast.forecast, offset, profile, soil, recentRainfall);
+      const bestWindow = this.pickBest(windows);
+      const message = this.describe(profile, windows, bestWindow);
+
+      return {
+        success: true,
+        data: localizeFields({
+          location: forecast.location,
+          fertilizer: profile,
+          soil,
+          recentRainfall: Math.round((recentRainfall ?? 0) * 10) / 10,
+          windows,
+          bestWindow,
+          message: t(message, "en"),
+          language,
+          timestamp: new Date().toISOString(),
+          codes: { message: [message] }
+        }, language),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to generate nutrient advice:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Nutrient advice error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Rate an early-morning application on each forecast day (or the next row
+   * today). Heavy rain within 48 hours leaches and washes off the product;
+   * urea-type products on dry soil lose ammonia in heat and wind unless rain
+   * follows. Light rain just after top-dressing is ideal for those products.
+   */
+  findWindows(forecast: ForecastRow[], timezoneOffset: number, profile: FertilizerProfile, soil: SoilTexture, recentRainfall?: number): NutrientWindow[] {
+    const rows = forecast.map(item => ({ item, start: Date.parse(item.datetime) / 1000 }));
+    const heavyRainMm = COARSE_SOILS.includes(soil) ? 15 : 25;
+    const dates = Array.from(new Set(forecast.map(item => item.date)));
+    const horizonEnd = rows.length > 0 ? rows[rows.length - 1].start + this.ROW_HOURS * 3600 : 0;
+    const windows: NutrientWindow[] = [];
+
+    dates.forEach(date => {
+      const first = rows.findIndex(row => row.item.date === date && toLocalHour(row.start, timezoneOffset) >= this.APPLY_HOUR - 1);
+      if (first < 0) {
+        return;
+      }
+
+      const applyAt = rows[first].start;
+      const rainIn = (hours: number) => rows
+        .filter(row => row.start >= applyAt && row.start < applyAt + hours * 3600)
+        .reduce((sum, row) => sum + (row.item.precipitation || 0), 0);
+      const rainNext48h = rainIn(48);
+      const rain24h = rainIn(24);
+      const maxRain24h = Math.max(rain24h, rainNext48h - rain24h);
+      const notes: string[] = [];
+
+      let leachingRisk: NutrientRiskLevel = "none";
+      if (maxRain24h >= heavyRainMm || rainNext48h >= heavyRainMm * 1.5) {
+        leachingRisk = "high";
+        notes.push(`${Math.round(rainNext48h)}mm rain within 48 hours - fertilizer will ${profile.leachesAsNitrate ? "leach or run off" : "run off"}`);
+      } else if (rainNext48h >= heavyRainMm * 0.6) {
+        leachingRisk = "moderate";
+        notes.push(`${Math.round(rainNext48h)}mm rain within 48 hours - some runoff likely on slopes`);
+      } else if (rainNext48h >= 5) {
+        leachingRisk = "low";
+      }
+
+      let volatilizationRisk: NutrientRiskLevel = "none";
+      if (profile.volatilizes) {
+        const daytime = rows.filter(row => {
+          const hour = toLocalHour(row.start, timezoneOffset);
+          return row.item.date === date && hour >= 9 && hour < 18;
+        });
+        const dayRows = daytime.length > 0 ? daytime : [rows[first]];
+        const maxTemp = Math.max(...dayRows.map(row => row.item.temperature));
+        const meanWind = dayRows.reduce((sum, row) => sum + row.item.windSpeed, 0) / dayRows.length;
+
+        // Soil wetness from rain in the previous days: observed before the forecast starts, forecast after
+        const lookbackStart = applyAt - this.RECENT_RAIN_DAYS * 86400;
+        const reachesHistory = rows.length > 0 && lookbackStart < rows[0].start;
+        const rainBefore = (reachesHistory ? recentRainfall ?? 0 : 0) + rows
+          .filter(row => row.start < applyAt && row.start >= lookbackStart)
+          .reduce((sum, row) => sum + (row.item.precipitation || 0), 0);
+        const drySoil = (!reachesHistory || recentRainfall !== undefined) && rainBefore < this.DRY_SOIL_RAIN_MM;
+        const factors = [drySoil, maxTemp >= 30, meanWind >= 4].filter(Boolean).length;
+
+        if (rainNext48h >= 5 && leachingRisk !== "high") {
+          volatilizationRisk = "none";
+        } else if (factors >= 3 || (factors === 2 && drySoil)) {
+          volatilizationRisk = "high";
+          notes.push(`Dry soil, ${Math.round(maxTemp)}°C and wind - ammonia losses likely; incorporate or irrigate 10-15mm after application`);
+        } else if (factors >= 1) {
+          volatilizationRisk = factors === 2 ? "moderate" : "low";
+          if (factors === 2) {
+            notes.push("Warm or windy conditions - apply early morning and incorporate");
+          }
+        }
+      }
+
+      let rating: NutrientWindow["rating"];
+      if (leachingRisk === "high" || volatilizationRisk === "high") {
+        rating = "avoid";
+      } else if (leachingRisk === "moderate" || volatilizationRisk === "moderate") {
+        rating = "fair";
+      } else if (profile.benefitsFromRain && rainNext48h >= 5) {
+        rating = "ideal";
+        notes.push(`${Math.round(rainNext48h)}mm light rain expected after application will move it into the root zone`);
+      } else {
+        rating = "good";
+      }
+
+      if (applyAt + 48 * 3600 > horizonEnd) {
+        notes.push("48 hours after application extends beyond the forecast - recheck before applying");
+        if (rating === "ideal") {
+          rating = "good";
+        }
+      }
+
+      windows.push({
+        date,
+        applyAt: new Date(applyAt * 1000).toISOString(),
+        applyAtLocal: toLocalISOString(applyAt, timezoneOffset),
+        rating,
+        rainNext48h: Math.round(rainNext48h * 10) / 10,
+        maxRain24h: Math.round(maxRain24h * 10) / 10,
+        leachingRisk,
+        volatilizationRisk,
+        notes
+      });
+    });
+
+    return windows;
+  }
+
+  /**
+   * Earliest day with the best rating, or null when every day should be avoided
+   */
+  pickBest(windows: NutrientWindow[]): NutrientWindow | null {
+    const order: NutrientWindow["rating"][] = ["ideal", "good", "fair"];
+    for (const rating of order) {
+      const window = windows.find(item => item.rating === rating);
+      if (window) {
+        return window;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * One-line summary of the application outlook
+   */
+  describe(profile: FertilizerProfile, windows: NutrientWindow[], bestWindow: NutrientWindow | null): MessageRef {
+    const fertilizer: MessageRef = { code: `fertilizer.${profile.code}`, lowerFirst: true };
+    if (!bestWindow) {
+      return msg("nutrient.avoid", { fertilizer });
+    }
+
+    const avoid = windows.filter(window => window.rating === "avoid" && window.date < bestWindow.date);
+    const prefix = avoid.length > 0
+      ? msg("nutrient.hold", { fertilizer, date: bestWindow.date })
+      : msg("nutrient.best_day", { fertilizer, date: bestWindow.date });
+    if (bestWindow.rating === "ideal") {
+      return msg("nutrient.incorporated", { advice: prefix });
+    }
+    const rating = bestWindow.rating as Exclude<NutrientWindow["rating"], "ideal" | "avoid">;
+    return msg("nutrient.rated", { advice: prefix, rating: msg(`spray.rating.${rating}`) });
+  }
+}
+
+export const nutrientAdvisorService = new NutrientAdvisorService();
+export default nutrientAdvisorService;
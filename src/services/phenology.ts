@@ -0,0 +1,104 @@
+import { TimezoneInfo } from "../lib/timezone";
+import { CropProfile, GrowthStage } from "./crops";
+import { gddService } from "./gdd";
+import { WeatherResponse } from "./weather";
+
+export interface StageProgress extends GrowthStage {
+  reached: boolean;
+  reachedDate: string | null;
+  projected: boolean;
+}
+
+export interface Phenology {
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+    timezone: TimezoneInfo;
+  };
+  crop: {
+    code: string;
+    name: string;
+  };
+  sowingDate: string;
+  daysSinceSowing: number;
+  accumulatedGdd: number;
+  stage: GrowthStage;
+  nextStage: (GrowthStage & { gddRemaining: number; projectedDate: string | null }) | null;
+  stages: StageProgress[];
+  timestamp: string;
+}
+
+class PhenologyService {
+
+  /**
+   * Work out the current growth stage from GDD accumulated since sowing
+   */
+  async getPhenology(lat: number, lon: number, crop: CropProfile, sowingDate: string): Promise<WeatherResponse<Phenology>> {
+    try {
+      if (crop.stages.length === 0) {
+        throw new Error(`No growth stages defined for ${crop.name}`);
+      }
+
+      const gddResponse = await gddService.getSeasonGrowingDegreeDays(lat, lon, sowingDate, {
+        baseTemp: crop.gddBase,
+        upperTemp: crop.gddUpper,
+        method: "modified"
+      });
+      if (!gddResponse.success || !gddResponse.data) {
+        throw new Error(gddResponse.error || "Failed to accumulate GDD since sowing");
+      }
+
+      const season = gddResponse.data;
+      const accumulated = season.accumulatedToDate;
+
+      const stages: StageProgress[] = crop.stages.map(stage => {
+        const day = season.daily.find(entry => entry.cumulative >= stage.startGdd);
+        const reached = accumulated >= stage.startGdd;
+        return {
+          ...stage,
+          reached,
+          reachedDate: stage.startGdd === 0 ? sowingDate : day ? day.date : null,
+          projected: !reached && day !== undefined
+        };
+      });
+
+      const currentIndex = stages.reduce((index, stage, i) => stage.reached ? i : index, 0);
+      const { reached, reachedDate, projected, ...stage } = stages[currentIndex];
+      const next = crop.stages[currentIndex + 1];
+
+      return {
+        success: true,
+        data: {
+          location: season.location,
+          crop: {
+            code: crop.code,
+            name: crop.name
+          },
+          sowingDate,
+          daysSinceSowing: Math.max(0, Math.floor((Date.now() - Date.parse(sowingDate)) / 86400000)),
+          accumulatedGdd: accumulated,
+          stage,
+          nextStage: next ? {
+            ...next,
+            gddRemaining: Math.round((next.startGdd - accumulated) * 10) / 10,
+            projectedDate: stages[currentIndex + 1].reachedDate
+          } : null,
+          stages,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to determine crop phenology:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Phenology error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+}
+
+export const phenologyService = new PhenologyService();
+export default phenologyService;
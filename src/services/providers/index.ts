@@ -0,0 +1,27 @@
+import { LocalWeatherProvider } from "./local";
+import { OpenMeteoProvider } from "./openmeteo";
+import { OpenWeatherMapProvider } from "./openweathermap";
+import { WeatherProvider } from "./types";
+
+export * from "./types";
+
+/**
+ * Create the weather provider selected by WEATHER_PROVIDER (defaults to OpenWeatherMap).
+ * An unknown name falls back to the default with a warning rather than failing at import.
+ */
+export function createWeatherProvider(name: string = process.env.WEATHER_PROVIDER || "openweathermap"): WeatherProvider {
+  switch (name.toLowerCase()) {
+    case "openweathermap":
+    case "owm":
+      return new OpenWeatherMapProvider();
+    case "openmeteo":
+    case "open-meteo":
+      return new OpenMeteoProvider();
+    case "local":
+    case "fixtures":
+      return new LocalWeatherProvider();
+    default:
+      console.warn(`⚠️ Unknown weather provider "${name}" (expected openweathermap, openmeteo or local); falling back to openweathermap`);
+      return new OpenWeatherMapProvider();
+  }
+}
@@ -0,0 +1,83 @@
+import fs from "fs";
+import path from "path";
+import {
+  parseOpenWeatherCurrent,
+  parseOpenWeatherForecast,
+  parseOpenWeatherHistory
+} from "./openweathermap";
+import { ProviderCurrent, ProviderSeries, WeatherProvider } from "./types";
+
+/**
+ * Offline provider backed by OpenWeatherMap-shaped JSON fixtures. Fixture
+ * rows are replayed cyclically onto the requested time range so that
+ * forecasts always lie in the future and any history range can be served.
+ */
+export class LocalWeatherProvider implements WeatherProvider {
+  readonly name = "local";
+  readonly historyPageHours = 31 * 24;
+  private readonly FIXTURES_DIR = process.env.WEATHER_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "weather");
+
+  async getCurrent(lat: number, lon: number): Promise<ProviderCurrent> {
+    const current = parseOpenWeatherCurrent(this.readFixture("current.json"));
+
+    return {
+      location: { ...current.location, lat, lon },
+      observation: {
+        ...current.observation,
+        timestamp: Math.floor(Date.now() / 1000)
+      }
+    };
+  }
+
+  async getForecast(lat: number, lon: number): Promise<ProviderSeries> {
+    const fixture = parseOpenWeatherForecast(this.readFixture("forecast.json"));
+    const step = 3 * 3600;
+    const start = Math.ceil(Date.now() / 1000 / step) * step;
+    const timestamps = Array.from({ length: fixture.observations.length }, (_, i) => start + i * step);
+
+    return {
+      location: { ...fixture.location, lat, lon },
+      observations: this.replay(fixture, timestamps, step)
+    };
+  }
+
+  async getHistory(lat: number, lon: number, start: number, end: number): Promise<ProviderSeries> {
+    const fixture = parseOpenWeatherHistory(this.readFixture("history.json"), lat, lon);
+    const step = 3600;
+    const timestamps: number[] = [];
+
+    for (let ts = Math.ceil(start / step) * step; ts <= end; ts += step) {
+      timestamps.push(ts);
+    }
+
+    return {
+      location: fixture.location,
+      observations: this.replay(fixture, timestamps, step)
+    };
+  }
+
+  /**
+   * Map each requested timestamp onto the fixture row at the same offset within the fixture cycle
+   */
+  private replay(fixture: ProviderSeries, timestamps: number[], step: number) {
+    const rows = fixture.observations;
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const origin = rows[0].timestamp;
+    return timestamps.map(timestamp => {
+      const offset = Math.floor((timestamp - origin) / step);
+      const index = ((offset % rows.length) + rows.length) % rows.length;
+      return { ...rows[index], timestamp };
+    });
+  }
+
+  private readFixture(file: string): any {
+    const fullPath = path.join(this.FIXTURES_DIR, file);
+    if (!fs.existsSync(fullPath)) {
+      throw new Error(`Weather fixture not found: ${fullPath}`);
+    }
+    return JSON.parse(fs.readFileSync(fullPath, "utf-8"));
+  }
+}
@@ -0,0 +1,180 @@
+import axios from "axios";
+import {
+  ProviderCurrent,
+  ProviderObservation,
+  ProviderSeries,
+  WeatherConditions,
+  WeatherProvider
+} from "./types";
+
+const HOURLY_FIELDS = [
+  "temperature_2m",
+  "relative_humidity_2m",
+  "apparent_temperature",
+  "precipitation",
+  "weather_code",
+  "pressure_msl",
+  "cloud_cover",
+  "wind_speed_10m",
+  "wind_direction_10m"
+].join(",");
+
+/**
+ * WMO weather interpretation codes mapped to OpenWeatherMap-style conditions
+ */
+const WMO_CONDITIONS: Record<number, WeatherConditions> = {
+  0: { main: "Clear", description: "clear sky", icon: "01d" },
+  1: { main: "Clouds", description: "mainly clear", icon: "02d" },
+  2: { main: "Clouds", description: "partly cloudy", icon: "03d" },
+  3: { main: "Clouds", description: "overcast clouds", icon: "04d" },
+  45: { main: "Fog", description: "fog", icon: "50d" },
+  48: { main: "Fog", description: "depositing rime fog", icon: "50d" },
+  51: { main: "Drizzle", description: "light drizzle", icon: "09d" },
+  53: { main: "Drizzle", description: "moderate drizzle", icon: "09d" },
+  55: { main: "Drizzle", description: "dense drizzle", icon: "09d" },
+  61: { main: "Rain", description: "light rain", icon: "10d" },
+  63: { main: "Rain", description: "moderate rain", icon: "10d" },
+  65: { main: "Rain", description: "heavy intensity rain", icon: "10d" },
+  71: { main: "Snow", description: "light snow", icon: "13d" },
+  73: { main: "Snow", description: "snow", icon: "13d" },
+  75: { main: "Snow", description: "heavy snow", icon: "13d" },
+  80: { main: "Rain", description: "light shower rain", icon: "09d" },
+  81: { main: "Rain", description: "shower rain", icon: "09d" },
+  82: { main: "Rain", description: "heavy shower rain", icon: "09d" },
+  95: { main: "Thunderstorm", description: "thunderstorm", icon: "11d" },
+  96: { main: "Thunderstorm", description: "thunderstorm with hail", icon: "11d" },
+  99: { main: "Thunderstorm", description: "thunderstorm with heavy hail", icon: "11d" }
+};
+
+function toConditions(code: number): WeatherConditions {
+  return WMO_CONDITIONS[code] || { main: "Unknown", description: `weather code ${code}`, icon: "01d" };
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().split('T')[0];
+}
+
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly name = "openmeteo";
+  readonly historyPageHours = 31 * 24;
+  private readonly BASE_URL = process.env.OPEN_METEO_URL || "https://api.open-meteo.com/v1";
+  private readonly ARCHIVE_URL = process.env.OPEN_METEO_ARCHIVE_URL || "https://archive-api.open-meteo.com/v1";
+
+  async getCurrent(lat: number, lon: number): Promise<ProviderCurrent> {
+    const response = await axios.get(`${this.BASE_URL}/forecast`, {
+      params: {
+        latitude: lat,
+        longitude: lon,
+        current: HOURLY_FIELDS,
+        wind_speed_unit: "ms",
+        timezone: "auto",
+        timeformat: "unixtime"
+      }
+    });
+
+    const current = response.data.current;
+
+    return {
+      location: this.toLocation(response.data, lat, lon),
+      observation: {
+        timestamp: current.time,
+        temperature: current.temperature_2m,
+        feelsLike: current.apparent_temperature,
+        humidity: current.relative_humidity_2m,
+        pressure: current.pressure_msl,
+        windSpeed: current.wind_speed_10m,
+        windDirection: current.wind_direction_10m,
+        cloudCover: current.cloud_cover,
+        precipitation: current.precipitation || 0,
+        weather: toConditions(current.weather_code)
+      }
+    };
+  }
+
+  async getForecast(lat: number, lon: number): Promise<ProviderSeries> {
+    const response = await axios.get(`${this.BASE_URL}/forecast`, {
+      params: {
+        latitude: lat,
+        longitude: lon,
+        hourly: HOURLY_FIELDS,
+        forecast_days: 5,
+        wind_speed_unit: "ms",
+        timezone: "auto",
+        timeformat: "unixtime"
+      }
+    });
+
+    const now = Math.floor(Date.now() / 1000);
+    const hourly = this.parseHourly(response.data.hourly).filter(item => item.timestamp >= now - 3600);
+
+    return {
+      location: this.toLocation(response.data, lat, lon),
+      observations: this.toThreeHourSteps(hourly)
+    };
+  }
+
+  async getHistory(lat: number, lon: number, start: number, end: number): Promise<ProviderSeries> {
+    const response = await axios.get(`${this.ARCHIVE_URL}/archive`, {
+      params: {
+        latitude: lat,
+        longitude: lon,
+        start_date: formatDate(start),
+        end_date: formatDate(end),
+        hourly: HOURLY_FIELDS,
+        wind_speed_unit: "ms",
+        timezone: "auto",
+        timeformat: "unixtime"
+      }
+    });
+
+    return {
+      location: this.toLocation(response.data, lat, lon),
+      observations: this.parseHourly(response.data.hourly)
+        .filter(item => item.timestamp >= start && item.timestamp <= end)
+    };
+  }
+
+  /**
+   * Convert Open-Meteo's column-oriented hourly block into observations
+   */
+  private parseHourly(hourly: any): ProviderObservation[] {
+    return hourly.time.map((time: number, index: number) => ({
+      timestamp: time,
+      temperature: hourly.temperature_2m[index],
+      feelsLike: hourly.apparent_temperature[index],
+      humidity: hourly.relative_humidity_2m[index],
+      pressure: hourly.pressure_msl[index],
+      windSpeed: hourly.wind_speed_10m[index],
+      windDirection: hourly.wind_direction_10m[index],
+      cloudCover: hourly.cloud_cover[index],
+      precipitation: hourly.precipitation[index] || 0,
+      weather: toConditions(hourly.weather_code[index])
+    })).filter((item: ProviderObservation) => item.temperature !== null && item.temperature !== undefined);
+  }
+
+  /**
+   * Resample hourly rows into 3-hour steps to match the provider contract
+   */
+  private toThreeHourSteps(hourly: ProviderObservation[]): ProviderObservation[] {
+    const steps: ProviderObservation[] = [];
+
+    for (let i = 0; i < hourly.length; i += 3) {
+      const block = hourly.slice(i, i + 3);
+      steps.push({
+        ...block[0],
+        precipitation: Math.round(block.reduce((sum, item) => sum + item.precipitation, 0) * 100) / 100
+      });
+    }
+
+    return steps;
+  }
+
+  private toLocation(data: any, lat: number, lon: number) {
+    return {
+      name: `${lat}, ${lon}`,
+      lat: data.latitude ?? lat,
+      lon: data.longitude ?? lon,
+      timezoneOffset: data.utc_offset_seconds
+    };
+  }
+}
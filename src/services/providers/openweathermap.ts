@@ -0,0 +1,135 @@
+import axios from "axios";
+import {
+  ProviderCurrent,
+  ProviderObservation,
+  ProviderSeries,
+  WeatherProvider
+} from "./types";
+
+/**
+ * Map an OpenWeatherMap list item (forecast or history) to an observation
+ */
+export function parseOpenWeatherItem(item: any, rainKey: "1h" | "3h"): ProviderObservation {
+  return {
+    timestamp: item.dt,
+    temperature: item.main.temp,
+    feelsLike: item.main.feels_like,
+    humidity: item.main.humidity,
+    pressure: item.main.pressure,
+    windSpeed: item.wind.speed,
+    windDirection: item.wind.deg || 0,
+    cloudCover: item.clouds ? item.clouds.all : undefined,
+    precipitation: item.rain ? item.rain[rainKey] || 0 : 0,
+    weather: {
+      main: item.weather[0].main,
+      description: item.weather[0].description,
+      icon: item.weather[0].icon
+    }
+  };
+}
+
+/**
+ * Map an OpenWeatherMap /weather response
+ */
+export function parseOpenWeatherCurrent(data: any): ProviderCurrent {
+  return {
+    location: {
+      name: data.name,
+      lat: data.coord.lat,
+      lon: data.coord.lon,
+      country: data.sys.country,
+      timezoneOffset: data.timezone
+    },
+    observation: {
+      ...parseOpenWeatherItem(data, "1h"),
+      visibility: data.visibility / 1000
+    }
+  };
+}
+
+/**
+ * Map an OpenWeatherMap /forecast response
+ */
+export function parseOpenWeatherForecast(data: any): ProviderSeries {
+  return {
+    location: {
+      name: data.city.name,
+      lat: data.city.coord.lat,
+      lon: data.city.coord.lon,
+      country: data.city.country,
+      timezoneOffset: data.city.timezone
+    },
+    observations: data.list.map((item: any) => parseOpenWeatherItem(item, "3h"))
+  };
+}
+
+/**
+ * Map an OpenWeatherMap history/city response
+ */
+export function parseOpenWeatherHistory(data: any, lat: number, lon: number): ProviderSeries {
+  return {
+    location: {
+      name: data.city_name || `${lat}, ${lon}`,
+      lat,
+      lon
+    },
+    observations: data.list.map((item: any) => parseOpenWeatherItem(item, "1h"))
+  };
+}
+
+export class OpenWeatherMapProvider implements WeatherProvider {
+  readonly name = "openweathermap";
+  readonly historyPageHours = 7 * 24;
+  private readonly BASE_URL = "https://api.openweathermap.org/data/2.5";
+  private readonly HISTORY_URL = "https://history.openweathermap.org/data/2.5/history/city";
+  private readonly API_KEY = process.env.OPEN_WEATHER_KEY;
+
+  private get apiKey(): string {
+    if (!this.API_KEY) {
+      throw new Error("OpenWeatherMap API key not found in environment variables");
+    }
+    return this.API_KEY;
+  }
+
+  async getCurrent(lat: number, lon: number): Promise<ProviderCurrent> {
+    const response = await axios.get(`${this.BASE_URL}/weather`, {
+      params: {
+        lat,
+        lon,
+        appid: this.apiKey,
+        units: "metric"
+      }
+    });
+
+    return parseOpenWeatherCurrent(response.data);
+  }
+
+  async getForecast(lat: number, lon: number): Promise<ProviderSeries> {
+    const response = await axios.get(`${this.BASE_URL}/forecast`, {
+      params: {
+        lat,
+        lon,
+        appid: this.apiKey,
+        units: "metric"
+      }
+    });
+
+    return parseOpenWeatherForecast(response.data);
+  }
+
+  async getHistory(lat: number, lon: number, start: number, end: number): Promise<ProviderSeries> {
+    const response = await axios.get(this.HISTORY_URL, {
+      params: {
+        lat,
+        lon,
+        type: "hour",
+        start,
+        end,
+        appid: this.apiKey,
+        units: "metric"
+      }
+    });
+
+    return parseOpenWeatherHistory(response.data, lat, lon);
+  }
+}
@@ -0,0 +1,54 @@
+export interface WeatherConditions {
+  main: string;
+  description: string;
+  icon: string;
+}
+
+export interface ProviderLocation {
+  name: string;
+  lat: number;
+  lon: number;
+  country?: string;
+  timezoneOffset?: number;
+}
+
+/**
+ * A single weather reading normalised to metric units (°C, %, hPa, m/s, mm)
+ */
+export interface ProviderObservation {
+  timestamp: number;
+  temperature: number;
+  feelsLike?: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+  windDirection?: number;
+  visibility?: number;
+  cloudCover?: number;
+  precipitation: number;
+  weather: WeatherConditions;
+}
+
+export interface ProviderCurrent {
+  location: ProviderLocation;
+  observation: ProviderObservation;
+}
+
+export interface ProviderSeries {
+  location: ProviderLocation;
+  observations: ProviderObservation[];
+}
+
+/**
+ * Contract every weather vendor implements. Forecasts are returned in
+ * 3-hour steps (precipitation summed over the step), history in 1-hour steps.
+ * Timestamps are unix seconds. `historyPageHours` is the longest range a
+ * single getHistory call can return without truncation.
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  readonly historyPageHours: number;
+  getCurrent(lat: number, lon: number): Promise<ProviderCurrent>;
+  getForecast(lat: number, lon: number): Promise<ProviderSeries>;
+  getHistory(lat: number, lon: number, start: number, end: number): Promise<ProviderSeries>;
+}
@@ -0,0 +1,352 @@
+import { soilTemperature } from "../lib/agromet";
+import { Language, localizeFields, MessageCodes, MessageRef, msg, nameRef, t } from "../lib/i18n";
+import { TimezoneInfo, toLocalDate } from "../lib/timezone";
+import { CropProfile } from "./crops";
+import { weatherService, WeatherResponse } from "./weather";
+
+export interface SowingRequirement {
+  season: "kharif" | "rabi" | "any";
+  minSoilTemp: number;
+  maxSoilTemp: number;
+  needsRainOnset: boolean;
+}
+
+export interface RainfallOnset {
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+    timezone: TimezoneInfo;
+  };
+  seasonStart: string;
+  status: "not_started" | "provisional" | "confirmed";
+  onsetDate: string | null;
+  projected: boolean;
+  falseStarts: string[];
+  seasonRainfall: number;
+  daily: { date: string; precipitation: number; projected: boolean }[];
+  criteria: {
+    windowDays: number;
+    thresholdMm: number;
+    drySpellDays: number;
+    confirmationDays: number;
+  };
+  timestamp: string;
+}
+
+export interface SowingAdvice {
+  location: RainfallOnset["location"];
+  crop: {
+    code: string;
+    name: string;
+  };
+  recommendation: "sow_now" | "prepare" | "wait";
+  message: string;
+  reasons: string[];
+  language: Language;
+  soilTemperature: number;
+  soilTemperatureRange: {
+    min: number;
+    max: number;
+  };
+  expectedSuitableDate: string | null;
+  onset: Omit<RainfallOnset, "location" | "daily" | "timestamp"> | null;
+  timestamp: string;
+  codes: MessageCodes<"message" | "reasons">;
+}
+
+export interface SowingOptions {
+  seasonStart?: string;
+  irrigated?: boolean;
+  language?: Language;
+}
+
+/**
+ * Germination soil temperature band (°C, ~10 cm) and whether rainfed sowing waits for monsoon onset
+ */
+export const SOWING_REQUIREMENTS: Record<string, SowingRequirement> = {
+  rice: { season: "kharif", minSoilTemp: 20, maxSoilTemp: 38, needsRainOnset: true },
+  maize: { season: "kharif", minSoilTemp: 18, maxSoilTemp: 35, needsRainOnset: true },
+  soybean: { season: "kharif", minSoilTemp: 18, maxSoilTemp: 35, needsRainOnset: true },
+  cotton: { season: "kharif", minSoilTemp: 18, maxSoilTemp: 38, needsRainOnset: true },
+  mango: { season: "kharif", minSoilTemp: 20, maxSoilTemp: 38, needsRainOnset: true },
+  wheat: { season: "rabi", minSoilTemp: 10, maxSoilTemp: 25, needsRainOnset: false },
+  chickpea: { season: "rabi", minSoilTemp: 10, maxSoilTemp: 28, needsRainOnset: false },
+  mustard: { season: "rabi", minSoilTemp: 10, maxSoilTemp: 28, needsRainOnset: false },
+  potato: { season: "rabi", minSoilTemp: 10, maxSoilTemp: 25, needsRainOnset: false },
+  onion: { season: "any", minSoilTemp: 12, maxSoilTemp: 30, needsRainOnset: false },
+  tomato: { season: "any", minSoilTemp: 16, maxSoilTemp: 32, needsRainOnset: false },
+  sugarcane: { season: "any", minSoilTemp: 20, maxSoilTemp: 35, needsRainOnset: false }
+};
+
+/**
+ * Usual sowing months (1-12) for each season in peninsular and northern India
+ */
+const SOWING_MONTHS: Record<Exclude<SowingRequirement["season"], "any">, number[]> = {
+  kharif: [5, 6, 7, 8],
+  rabi: [10, 11, 12]
+};
+
+const ONSET_WINDOW_DAYS = 3;
+const ONSET_THRESHOLD_MM = 20;
+const WET_DAY_MM = 1;
+const DRY_SPELL_DAYS = 7;
+const CONFIRMATION_DAYS = 30;
+
+class SowingService {
+  private readonly SOIL_WINDOW_DAYS = 11;
+
+  /**
+   * Detect local rainfall onset since the season start: the first 3-day spell
+   * with 20mm+ over at least two wet days that is not followed by a 7-day dry
+   * spell within 30 days. History covers complete days up to today, so after
+   * the first request it comes from stored observations; the forecast extends
+   * the series from today.
+   */
+  async getRainfallOnset(lat: number, lon: number, seasonStart?: string): Promise<WeatherResponse<RainfallOnset>> {
+    try {
+      const forecastResponse = await weatherService.getDailyForecast(lat, lon);
+      if (!forecastResponse.success || !forecastResponse.data) {
+        throw new Error("Failed to fetch forecast for rainfall onset");
+      }
+
+      const forecast = forecastResponse.data;
+      const today = toLocalDate(Math.floor(Date.now() / 1000), forecast.location.timezone.offsetSeconds);
+      const start = seasonStart || this.defaultSeasonStart(today);
+
+      const historyResponse = await weatherService.getHistoricalDailyWeather(lat, lon, start, today);
+      if (!historyResponse.success || !historyResponse.data) {
+        throw new Error("Failed to fetch rainfall history since season start");
+      }
+
+      const todayInForecast = forecast.forecast.some(day => day.date === today);
+      const daily = [
+        ...historyResponse.data.data
+          .filter(day => day.date >= start && (day.date < today || (day.date === today && !todayInForecast)))
+          .map(day => ({ date: day.date, precipitation: day.precipitation, projected: false })),
+        ...forecast.forecast
+          .filter(day => day.date >= today && day.date >= start)
+          .map(day => ({ date: day.date, precipitation: day.precipitation, projected: true }))
+      ];
+
+      const falseStarts: string[] = [];
+      let onsetIndex = -1;
+      let confirmed = false;
+
+      for (let i = 0; i + ONSET_WINDOW_DAYS <= daily.length; i++) {
+        const window = daily.slice(i, i + ONSET_WINDOW_DAYS);
+        const total = window.reduce((sum, day) => sum + day.precipitation, 0);
+        const wetDays = window.filter(day => day.precipitation >= WET_DAY_MM).length;
+        if (total < ONSET_THRESHOLD_MM || wetDays < 2) {
+          continue;
+        }
+
+        const following = daily.slice(i + ONSET_WINDOW_DAYS, i + ONSET_WINDOW_DAYS + CONFIRMATION_DAYS);
+        const drySpellEnd = this.findDrySpellEnd(following);
+        if (drySpellEnd >= 0) {
+          falseStarts.push(daily[i].date);
+          i += ONSET_WINDOW_DAYS + drySpellEnd - 1;
+          continue;
+        }
+
+        onsetIndex = i;
+        confirmed = following.length >= CONFIRMATION_DAYS && following.every(day => !day.projected);
+        break;
+      }
+
+      const onset = onsetIndex >= 0 ? daily[onsetIndex] : null;
+      const onsetWindow = onsetIndex >= 0 ? daily.slice(onsetIndex, onsetIndex + ONSET_WINDOW_DAYS) : [];
+
+      return {
+        success: true,
+        data: {
+          location: forecast.location,
+          seasonStart: start,
+          status: onset ? (confirmed ? "confirmed" : "provisional") : "not_started",
+          onsetDate: onset ? onset.date : null,
+          projected: onsetWindow.some(day => day.projected),
+          falseStarts,
+          seasonRainfall: Math.round(daily.filter(day => !day.projected).reduce((sum, day) => sum + day.precipitation, 0) * 10) / 10,
+          daily,
+          criteria: {
+            windowDays: ONSET_WINDOW_DAYS,
+            thresholdMm: ONSET_THRESHOLD_MM,
+            drySpellDays: DRY_SPELL_DAYS,
+            confirmationDays: CONFIRMATION_DAYS
+          },
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to detect rainfall onset:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Rainfall onset error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Decide whether to sow a crop now from estimated soil temperature, rain in
+   * the next days and, for rainfed kharif crops, monsoon onset
+   */
+  async getSowingAdvice(lat: number, lon: number, crop: CropProfile, options: SowingOptions = {}): Promise<WeatherResponse<SowingAdvice>> {
+    try {
+      const requirement = SOWING_REQUIREMENTS[crop.code] || { season: "any", minSoilTemp: crop.gddBase + 5, maxSoilTemp: crop.heatStressTemp, needsRainOnset: false };
+      const needsOnset = requirement.needsRainOnset && !options.irrigated;
+
+      const forecastResponse = await weatherService.getDailyForecast(lat, lon);
+      if (!forecastResponse.success || !forecastResponse.data) {
+        throw new Error("Failed to fetch forecast for sowing advice");
+      }
+
+      // Complete days only, so the soil window is read from stored observations once archived
+      const offset = forecastResponse.data.location.timezone.offsetSeconds;
+      const now = Math.floor(Date.now() / 1000);
+      const [historyResponse, onsetResponse] = await Promise.all([
+        weatherService.getHistoricalDailyWeather(
+          lat, lon, toLocalDate(now - this.SOIL_WINDOW_DAYS * 86400, offset), toLocalDate(now, offset)
+        ),
+        needsOnset ? this.getRainfallOnset(lat, lon, options.seasonStart) : Promise.resolve(null)
+      ]);
+
+      if (onsetResponse && (!onsetResponse.success || !onsetResponse.data)) {
+        throw new Error(onsetResponse.error || "Failed to detect rainfall onset");
+      }
+
+      const forecast = forecastResponse.data.forecast;
+      const firstForecastDate = forecast[0]?.date;
+      const observedMeans = historyResponse.success && historyResponse.data
+        ? historyResponse.data.data
+          .filter(day => !firstForecastDate || day.date < firstForecastDate)
+          .map(day => day.temperature.average)
+        : [];
+      const means = [...observedMeans, ...forecast.map(day => day.temperature.average)];
+      const currentSoilTemp = soilTemperature(means.slice(0, observedMeans.length + 1), this.SOIL_WINDOW_DAYS);
+      const inRange = (temp: number) => temp >= requirement.minSoilTemp && temp <= requirement.maxSoilTemp;
+
+      // Project soil temperature across the forecast to find when it enters the germination band
+      let expectedSuitableDate: string | null = null;
+      if (!inRange(currentSoilTemp)) {
+        const day = forecast.find((_, i) => inRange(soilTemperature(means.slice(0, observedMeans.length + i + 1), this.SOIL_WINDOW_DAYS)));
+        expectedSuitableDate = day ? day.date : null;
+      }
+
+      const month = parseInt((firstForecastDate || new Date().toISOString()).slice(5, 7));
+      const inSeason = requirement.season === "any" || SOWING_MONTHS[requirement.season].includes(month);
+      const heavyRainSoon = forecast.slice(0, 2).some(day => day.precipitation >= 25);
+      const onset = onsetResponse ? onsetResponse.data! : null;
+      const language = options.language || "en";
+      const cropName = nameRef(`crop.${crop.code}`, crop.name, true);
+      const reasons: MessageRef[] = [];
+      let recommendation: SowingAdvice["recommendation"];
+      let message: MessageRef;
+
+      reasons.push(msg("sowing.reason.soil_temp", { temp: Math.round(currentSoilTemp * 10) / 10, min: requirement.minSoilTemp, max: requirement.maxSoilTemp }));
+      if (onset) {
+        if (onset.onsetDate && onset.status !== "not_started") {
+          reasons.push(msg(onset.projected ? "sowing.reason.onset_forecast" : "sowing.reason.onset", { status: msg(`sowing.onset.${onset.status}`), date: onset.onsetDate }));
+        } else {
+          reasons.push(msg("sowing.reason.no_onset", { start: onset.seasonStart, threshold: ONSET_THRESHOLD_MM, days: ONSET_WINDOW_DAYS }));
+        }
+        if (onset.falseStarts.length > 0) {
+          reasons.push(msg("sowing.reason.false_starts", { dates: onset.falseStarts.join(", ") }));
+        }
+      }
+
+      if (!inSeason && requirement.season !== "any") {
+        recommendation = "wait";
+        message = msg("sowing.out_of_season", { season: msg(`sowing.season.${requirement.season}`), crop: cropName });
+      } else if (onset && !onset.onsetDate) {
+        recommendation = "wait";
+        message = msg("sowing.wait_onset", { crop: cropName });
+      } else if (onset && onset.projected) {
+        recommendation = "prepare";
+        message = msg("sowing.prepare_onset", { crop: cropName });
+      } else if (!inRange(currentSoilTemp)) {
+        recommendation = expectedSuitableDate ? "prepare" : "wait";
+        message = currentSoilTemp > requirement.maxSoilTemp
+          ? msg("sowing.too_warm", { crop: cropName })
+          : msg("sowing.too_cold", { crop: cropName });
+        if (expectedSuitableDate) {
+          message = msg("sowing.suitable_from", { advice: message, date: expectedSuitableDate });
+        }
+      } else if (heavyRainSoon) {
+        recommendation = "wait";
+        message = msg("sowing.heavy_rain");
+        reasons.push(msg("sowing.reason.heavy_rain"));
+      } else {
+        recommendation = "sow_now";
+        message = msg("sowing.suitable", { crop: cropName });
+      }
+
+      return {
+        success: true,
+        data: localizeFields({
+          location: forecastResponse.data.location,
+          crop: {
+            code: crop.code,
+            name: crop.name
+          },
+          recommendation,
+          message: t(message, "en"),
+          reasons: reasons.map(reason => t(reason, "en")),
+          language,
+          soilTemperature: Math.round(currentSoilTemp * 10) / 10,
+          soilTemperatureRange: {
+            min: requirement.minSoilTemp,
+            max: requirement.maxSoilTemp
+          },
+          expectedSuitableDate,
+          onset: onset ? {
+            seasonStart: onset.seasonStart,
+            status: onset.status,
+            onsetDate: onset.onsetDate,
+            projected: onset.projected,
+            falseStarts: onset.falseStarts,
+            seasonRainfall: onset.seasonRainfall,
+            criteria: onset.criteria
+          } : null,
+          timestamp: new Date().toISOString(),
+          codes: { message: [message], reasons }
+        }, language),
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to generate sowing advice:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Sowing advice error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Index of the last day of the first dry spell in the series, or -1
+   */
+  private findDrySpellEnd(days: { precipitation: number }[]): number {
+    let run = 0;
+    for (let i = 0; i < days.length; i++) {
+      run = days[i].precipitation < WET_DAY_MM ? run + 1 : 0;
+      if (run >= DRY_SPELL_DAYS) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Kharif season starts on 15 May; before that date the previous season is used
+   */
+  private defaultSeasonStart(today: string): string {
+    const year = parseInt(today.slice(0, 4));
+    const start = `${year}-05-15`;
+    return today >= start ? start : `${year - 1}-05-15`;
+  }
+}
+
+export const sowingService = new SowingService();
+export default sowingService;
@@ -0,0 +1,226 @@
+import { Language, localizeFields, MessageCodes, MessageRef, msg, t } from "../lib/i18n";
+import { TimezoneInfo, toLocalHour, toLocalISOString } from "../lib/timezone";
+import { weatherService, WeatherForecast, WeatherResponse } from "./weather";
+
+export type ProductClass =
+  | "contact_fungicide"
+  | "systemic_fungicide"
+  | "contact_herbicide"
+  | "systemic_herbicide"
+  | "insecticide"
+  | "foliar_fertilizer";
+
+export interface ProductProfile {
+  code: ProductClass;
+  name: string;
+  rainfastHours: number;
+  minTemp: number;
+  maxTemp: number;
+  minWindKmh: number;
+  maxWindKmh: number;
+  maxDeltaT: number;
+}
+
+export interface SpraySlot {
+  start: string;
+  end: string;
+  localStart: string;
+  localEnd: string;
+  durationHours: number;
+  rainfastUntil: string;
+  rainfastUntilLocal: string;
+  score: number;
+  rating: "excellent" | "good" | "fair";
+  conditions: {
+    minTemperature: number;
+    maxTemperature: number;
+    minWindKmh: number;
+    maxWindKmh: number;
+    minDeltaT: number;
+    maxDeltaT: number;
+  };
+  notes: string[];
+  codes: MessageCodes<"notes">;
+}
+
+export interface SprayPlan {
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+    timezone: TimezoneInfo;
+  };
+  product: ProductProfile;
+  slots: SpraySlot[];
+  horizon: {
+    start: string;
+    end: string;
+  };
+  language: Language;
+  timestamp: string;
+}
+
+/**
+ * Application limits per product class. Rainfast periods are typical label
+ * values; contact products wash off more easily and glyphosate-type systemic
+ * herbicides need active growth and lower Delta T.
+ */
+export const PRODUCT_CLASSES: Record<ProductClass, ProductProfile> = {
+  contact_fungicide: { code: "contact_fungicide", name: "Contact fungicide", rainfastHours: 6, minTemp: 10, maxTemp: 30, minWindKmh: 3, maxWindKmh: 15, maxDeltaT: 10 },
+  systemic_fungicide: { code: "systemic_fungicide", name: "Systemic fungicide", rainfastHours: 2, minTemp: 10, maxTemp: 30, minWindKmh: 3, maxWindKmh: 15, maxDeltaT: 10 },
+  contact_herbicide: { code: "contact_herbicide", name: "Contact herbicide", rainfastHours: 2, minTemp: 10, maxTemp: 30, minWindKmh: 3, maxWindKmh: 12, maxDeltaT: 10 },
+  systemic_herbicide: { code: "systemic_herbicide", name: "Systemic herbicide", rainfastHours: 6, minTemp: 15, maxTemp: 28, minWindKmh: 3, maxWindKmh: 12, maxDeltaT: 8 },
+  insecticide: { code: "insecticide", name: "Insecticide", rainfastHours: 4, minTemp: 10, maxTemp: 28, minWindKmh: 3, maxWindKmh: 15, maxDeltaT: 10 },
+  foliar_fertilizer: { code: "foliar_fertilizer", name: "Foliar fertilizer", rainfastHours: 4, minTemp: 10, maxTemp: 27, minWindKmh: 3, maxWindKmh: 15, maxDeltaT: 8 }
+};
+
+type ForecastRow = WeatherForecast["forecast"][number];
+
+class SprayPlannerService {
+  private readonly ROW_HOURS = 3;
+  private readonly RAIN_THRESHOLD = 0.1;
+
+  /**
+   * Plan ranked spray slots for a product class across the whole forecast
+   */
+  async getSprayPlan(lat: number, lon: number, productClass: ProductClass = "contact_fungicide", limit: number = 10, language: Language = "en"): Promise<WeatherResponse<SprayPlan>> {
+    try {
+      const forecastResponse = await weatherService.getHourlyForecast(lat, lon);
+      if (!forecastResponse.success || !forecastResponse.data) {
+        throw new Error("Failed to fetch forecast for spray planning");
+      }
+
+      const forecast = forecastResponse.data;
+      const product = PRODUCT_CLASSES[productClass];
+      const slots = this.findSlots(forecast.forecast, forecast.location.timezone.offsetSeconds, product);
+      const last = forecast.forecast[forecast.forecast.length - 1];
+
+      return {
+        success: true,
+        data: {
+          location: forecast.location,
+          product,
+          slots: slots.slice(0, limit).map(slot => localizeFields(slot, language)),
+          horizon: {
+            start: forecast.forecast.length > 0 ? forecast.forecast[0].datetime : new Date().toISOString(),
+            end: last ? new Date(Date.parse(last.datetime) + this.ROW_HOURS * 3600000).toISOString() : new Date().toISOString()
+          },
+          language,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to plan spray slots:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Spray planning error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Find daytime runs of forecast rows that meet the product's limits and stay
+   * dry for its rainfast period after application, ranked best first
+   */
+  findSlots(forecast: ForecastRow[], timezoneOffset: number, product: ProductProfile): SpraySlot[] {
+    const rows = forecast.map(item => ({ item, start: Date.parse(item.datetime) / 1000 }));
+    const horizonEnd = rows.length > 0 ? rows[rows.length - 1].start + this.ROW_HOURS * 3600 : 0;
+
+    const rainfast = (index: number) => {
+      const until = rows[index].start + (this.ROW_HOURS + product.rainfastHours) * 3600;
+      return rows
+        .slice(index)
+        .filter(row => row.start < until)
+        .every(row => (row.item.precipitation || 0) < this.RAIN_THRESHOLD);
+    };
+
+    const suitable = rows.map((row, index) => {
+      const { item } = row;
+      const hour = toLocalHour(row.start, timezoneOffset);
+      const windKmh = item.windSpeed * 3.6;
+      return hour >= 5 && hour < 19 &&
+        item.temperature >= product.minTemp && item.temperature <= product.maxTemp &&
+        windKmh <= product.maxWindKmh &&
+        item.deltaT >= 2 && item.deltaT <= product.maxDeltaT &&
+        rainfast(index);
+    });
+
+    const runs: (typeof rows)[] = [];
+    let run: typeof rows = [];
+    rows.forEach((row, index) => {
+      const contiguous = run.length > 0 && row.start === run[run.length - 1].start + this.ROW_HOURS * 3600;
+      if (suitable[index] && (run.length === 0 || contiguous)) {
+        run.push(row);
+        return;
+      }
+      if (run.length > 0) {
+        runs.push(run);
+      }
+      run = suitable[index] ? [row] : [];
+    });
+    if (run.length > 0) {
+      runs.push(run);
+    }
+
+    return runs
+      .map(slotRows => this.toSlot(slotRows.map(row => row.item), slotRows[0].start, timezoneOffset, product, horizonEnd))
+      .sort((a, b) => b.score - a.score || a.start.localeCompare(b.start));
+  }
+
+  private toSlot(items: ForecastRow[], startTimestamp: number, timezoneOffset: number, product: ProductProfile, horizonEnd: number): SpraySlot {
+    const endTimestamp = startTimestamp + items.length * this.ROW_HOURS * 3600;
+    const rainfastUntil = endTimestamp + product.rainfastHours * 3600;
+    const winds = items.map(item => Math.round(item.windSpeed * 36) / 10);
+    const notes: MessageRef[] = [];
+
+    const rowScores = items.map((item, i) => {
+      let score = 100;
+      if (winds[i] < product.minWindKmh) score -= 20;
+      if (winds[i] > 10) score -= 10;
+      if (item.deltaT > 8) score -= 15;
+      if (item.temperature > product.maxTemp - 2 || item.temperature < product.minTemp + 2) score -= 10;
+      return score;
+    });
+    let score = rowScores.reduce((sum, value) => sum + value, 0) / rowScores.length;
+
+    if (winds.some(wind => wind < product.minWindKmh)) {
+      notes.push(msg("spray.note.inversion"));
+    }
+    if (items.some(item => item.deltaT > 8)) {
+      notes.push(msg("spray.note.delta_t"));
+    }
+    if (rainfastUntil > horizonEnd) {
+      score -= 20;
+      notes.push(msg("spray.note.rainfast_beyond_forecast"));
+    }
+
+    score = Math.max(0, Math.round(score));
+
+    return {
+      start: new Date(startTimestamp * 1000).toISOString(),
+      end: new Date(endTimestamp * 1000).toISOString(),
+      localStart: toLocalISOString(startTimestamp, timezoneOffset),
+      localEnd: toLocalISOString(endTimestamp, timezoneOffset),
+      durationHours: items.length * this.ROW_HOURS,
+      rainfastUntil: new Date(rainfastUntil * 1000).toISOString(),
+      rainfastUntilLocal: toLocalISOString(rainfastUntil, timezoneOffset),
+      score,
+      rating: score >= 85 ? "excellent" : score >= 70 ? "good" : "fair",
+      conditions: {
+        minTemperature: Math.min(...items.map(item => item.temperature)),
+        maxTemperature: Math.max(...items.map(item => item.temperature)),
+        minWindKmh: Math.min(...winds),
+        maxWindKmh: Math.max(...winds),
+        minDeltaT: Math.min(...items.map(item => item.deltaT)),
+        maxDeltaT: Math.max(...items.map(item => item.deltaT))
+      },
+      notes: notes.map(note => t(note, "en")),
+      codes: { notes }
+    };
+  }
+}
+
+export const sprayPlannerService = new SprayPlannerService();
+export default sprayPlannerService;
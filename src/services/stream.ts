@@ -0,0 +1,111 @@
+import { eventBus, FarmEvent, FarmEventType } from "../lib/events";
+import { distanceKm } from "../lib/geo";
+import { MarketPrice } from "./market";
+
+export interface StreamFilter {
+  fieldIds: string[];
+  locations: { lat: number; lon: number }[];
+  radiusKm: number;
+  owner?: string;
+  commodities: string[];
+  events: FarmEventType[];
+}
+
+/**
+ * Anything server-sent event text can be written to, such as an Express response
+ */
+export interface StreamConnection {
+  write(chunk: string): boolean;
+}
+
+class StreamService {
+  private readonly HEARTBEAT_MS = 25000;
+  private readonly RETRY_MS = 5000;
+  private readonly REPLAY_SIZE = 200;
+  private clients = new Map<StreamConnection, StreamFilter>();
+  private recent: FarmEvent[] = [];
+  private isInitialized = false;
+
+  /**
+   * Start forwarding published events to connected clients
+   */
+  init() {
+    if (this.isInitialized) {
+      return;
+    }
+
+    eventBus.subscribe(event => this.broadcast(event));
+    setInterval(() => {
+      this.clients.forEach((_, connection) => connection.write(": keep-alive\n\n"));
+    }, this.HEARTBEAT_MS).unref();
+    this.isInitialized = true;
+  }
+
+  /**
+   * Register a client. A reconnecting client passes the id of the last event it
+   * received and gets the matching events it missed from the replay buffer.
+   * Returns a function that removes the client.
+   */
+  connect(connection: StreamConnection, filter: StreamFilter, lastEventId?: string): () => void {
+    connection.write(`retry: ${this.RETRY_MS}\nevent: ready\ndata: ${JSON.stringify({ filter })}\n\n`);
+
+    if (lastEventId) {
+      const index = this.recent.findIndex(event => event.id === lastEventId);
+      if (index >= 0) {
+        this.recent.slice(index + 1).forEach(event => this.send(connection, filter, event));
+      }
+    }
+
+    this.clients.set(connection, filter);
+    return () => {
+      this.clients.delete(connection);
+    };
+  }
+
+  private broadcast(event: FarmEvent) {
+    this.recent.push(event);
+    if (this.recent.length > this.REPLAY_SIZE) {
+      this.recent.shift();
+    }
+
+    this.clients.forEach((filter, connection) => this.send(connection, filter, event));
+  }
+
+  private send(connection: StreamConnection, filter: StreamFilter, event: FarmEvent) {
+    const selected = this.select(event, filter);
+    if (selected) {
+      connection.write(`id: ${selected.id}\nevent: ${selected.type}\ndata: ${JSON.stringify(selected)}\n\n`);
+    }
+  }
+
+  /**
+   * The part of an event a client asked for: market updates narrowed to its
+   * commodities, alerts and advisories for its fields, owner or nearby locations
+   */
+  private select(event: FarmEvent, filter: StreamFilter): FarmEvent | null {
+    if (!filter.events.includes(event.type)) {
+      return null;
+    }
+
+    if (event.type === "market.prices_updated") {
+      const prices = (event.data.prices as MarketPrice[]).filter(price =>
+        filter.commodities.some(commodity => price.commodity.toLowerCase().includes(commodity))
+      );
+      return prices.length > 0 ? { ...event, data: { ...event.data, prices } } : null;
+    }
+
+    const target = event.type === "advisory.priority_changed"
+      ? { fieldId: event.data.field.id, owner: event.data.field.owner, lat: event.data.field.lat, lon: event.data.field.lon }
+      : { fieldId: event.data.subscription.fieldId, owner: event.data.subscription.owner, lat: event.data.location?.lat, lon: event.data.location?.lon };
+
+    const matches = (target.fieldId !== undefined && filter.fieldIds.includes(target.fieldId)) ||
+      (filter.owner !== undefined && target.owner === filter.owner) ||
+      (target.lat !== undefined && target.lon !== undefined &&
+        filter.locations.some(location => distanceKm(location.lat, location.lon, target.lat, target.lon) <= filter.radiusKm));
+
+    return matches ? event : null;
+  }
+}
+
+export const streamService = new StreamService();
+export default streamService;
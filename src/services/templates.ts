@@ -0,0 +1,269 @@
+import { Alert } from "./alerts";
+import { MarketPrice } from "./market";
+import { interpolate, Language } from "../lib/i18n";
+
+export type TemplateCode =
+  | "alert.frost"
+  | "alert.frost_watch"
+  | "alert.heat"
+  | "alert.irrigation"
+  | "alert.irrigation_check"
+  | "alert.resolved"
+  | "market.price"
+  | "notification.test"
+  | "subject.alert"
+  | "subject.market"
+  | "when.tonight"
+  | "when.tomorrow"
+  | "when.date"
+  | "timing.now"
+  | "timing.24h"
+  | "timing.48h"
+  | "action.frost_cover"
+  | "action.frost_ready"
+  | "action.heat_critical"
+  | "action.heat"
+  | "type.frost"
+  | "type.heat"
+  | "type.irrigation"
+  | "place.farm";
+
+export interface RenderedMessage {
+  template: TemplateCode;
+  language: Language;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Short message templates sized for a single SMS. Placeholders in braces are
+ * filled by renderTemplate; English is the fallback for a missing translation.
+ */
+const TEMPLATES: Record<TemplateCode, Partial<Record<Language, string>>> = {
+  "alert.frost": {
+    en: "Frost {when} {temp}°C from {time} – {action}",
+    hi: "{when} पाला {temp}°C, {time} से – {action}",
+    mr: "{when} दंव {temp}°C, {time} पासून – {action}",
+    pa: "{when} ਕੋਰਾ {temp}°C, {time} ਤੋਂ – {action}",
+    te: "{when} మంచు {temp}°C, {time} నుండి – {action}",
+    ta: "{when} உறைபனி {temp}°C, {time} முதல் – {action}"
+  },
+  "alert.frost_watch": {
+    en: "Frost watch: down to {temp}°C in coming nights – {action}",
+    hi: "पाले की चेतावनी: आने वाली रातों में {temp}°C तक – {action}",
+    mr: "दंवाचा इशारा: पुढील रात्रींमध्ये {temp}°C पर्यंत – {action}",
+    pa: "ਕੋਰੇ ਦੀ ਚੇਤਾਵਨੀ: ਆਉਣ ਵਾਲੀਆਂ ਰਾਤਾਂ ਵਿੱਚ {temp}°C ਤੱਕ – {action}",
+    te: "మంచు హెచ్చరిక: రాబోయే రాత్రుల్లో {temp}°C వరకు – {action}",
+    ta: "உறைபனி எச்சரிக்கை: வரும் இரவுகளில் {temp}°C வரை – {action}"
+  },
+  "alert.heat": {
+    en: "Heat stress {temp}°C – {action}",
+    hi: "तेज़ गर्मी {temp}°C – {action}",
+    mr: "उष्णतेचा ताण {temp}°C – {action}",
+    pa: "ਗਰਮੀ ਦਾ ਦਬਾਅ {temp}°C – {action}",
+    te: "వేడి ఒత్తిడి {temp}°C – {action}",
+    ta: "வெப்ப அழுத்தம் {temp}°C – {action}"
+  },
+  "alert.irrigation": {
+    en: "{place}: irrigate {timing} – about {mm}mm",
+    hi: "{place}: {timing} सिंचाई करें – लगभग {mm} मिमी",
+    mr: "{place}: {timing} पाणी द्या – सुमारे {mm} मिमी",
+    pa: "{place}: {timing} ਸਿੰਚਾਈ ਕਰੋ – ਲਗਭਗ {mm} ਮਿ.ਮੀ.",
+    te: "{place}: {timing} నీరు పెట్టండి – సుమారు {mm} మి.మీ",
+    ta: "{place}: {timing} நீர் பாய்ச்சவும் – சுமார் {mm} மி.மீ"
+  },
+  "alert.irrigation_check": {
+    en: "{place}: irrigate {timing} – check soil moisture",
+    hi: "{place}: {timing} सिंचाई करें – मिट्टी की नमी जाँचें",
+    mr: "{place}: {timing} पाणी द्या – जमिनीतील ओलावा तपासा",
+    pa: "{place}: {timing} ਸਿੰਚਾਈ ਕਰੋ – ਮਿੱਟੀ ਦੀ ਨਮੀ ਜਾਂਚੋ",
+    te: "{place}: {timing} నీరు పెట్టండి – నేల తేమ చూడండి",
+    ta: "{place}: {timing} நீர் பாய்ச்சவும் – மண் ஈரத்தை சரிபார்க்கவும்"
+  },
+  "alert.resolved": {
+    en: "{place}: {type} alert over",
+    hi: "{place}: {type} चेतावनी समाप्त",
+    mr: "{place}: {type} इशारा संपला",
+    pa: "{place}: {type} ਚੇਤਾਵਨੀ ਖ਼ਤਮ",
+    te: "{place}: {type} హెచ్చరిక ముగిసింది",
+    ta: "{place}: {type} எச்சரிக்கை முடிந்தது"
+  },
+  "market.price": {
+    en: "{commodity} ({variety}) ₹{min}-{max}/qtl {date}",
+    hi: "{commodity} ({variety}) ₹{min}-{max}/क्विंटल {date}",
+    mr: "{commodity} ({variety}) ₹{min}-{max}/क्विंटल {date}",
+    pa: "{commodity} ({variety}) ₹{min}-{max}/ਕੁਇੰਟਲ {date}",
+    te: "{commodity} ({variety}) ₹{min}-{max}/క్వింటాల్ {date}",
+    ta: "{commodity} ({variety}) ₹{min}-{max}/குவிண்டால் {date}"
+  },
+  "notification.test": {
+    en: "FarmAssist: alerts will reach you here",
+    hi: "FarmAssist: चेतावनियाँ आपको यहाँ मिलेंगी",
+    mr: "FarmAssist: इशारे तुम्हाला येथे मिळतील",
+    pa: "FarmAssist: ਚੇਤਾਵਨੀਆਂ ਤੁਹਾਨੂੰ ਇੱਥੇ ਮਿਲਣਗੀਆਂ",
+    te: "FarmAssist: హెచ్చరికలు మీకు ఇక్కడ అందుతాయి",
+    ta: "FarmAssist: எச்சரிக்கைகள் உங்களுக்கு இங்கே வரும்"
+  },
+  "subject.alert": {
+    en: "FarmAssist: {type} alert",
+    hi: "FarmAssist: {type} चेतावनी",
+    mr: "FarmAssist: {type} इशारा",
+    pa: "FarmAssist: {type} ਚੇਤਾਵਨੀ",
+    te: "FarmAssist: {type} హెచ్చరిక",
+    ta: "FarmAssist: {type} எச்சரிக்கை"
+  },
+  "subject.market": {
+    en: "FarmAssist: market prices",
+    hi: "FarmAssist: मंडी भाव",
+    mr: "FarmAssist: बाजारभाव",
+    pa: "FarmAssist: ਮੰਡੀ ਭਾਅ",
+    te: "FarmAssist: మార్కెట్ ధరలు",
+    ta: "FarmAssist: சந்தை விலைகள்"
+  },
+  "when.tonight": { en: "tonight", hi: "आज रात", mr: "आज रात्री", pa: "ਅੱਜ ਰਾਤ", te: "ఈ రాత్రి", ta: "இன்றிரவு" },
+  "when.tomorrow": { en: "tomorrow night", hi: "कल रात", mr: "उद्या रात्री", pa: "ਕੱਲ੍ਹ ਰਾਤ", te: "రేపు రాత్రి", ta: "நாளை இரவு" },
+  "when.date": { en: "on {date}", hi: "{date} को", mr: "{date} रोजी", pa: "{date} ਨੂੰ", te: "{date}న", ta: "{date} அன்று" },
+  "timing.now": { en: "now", hi: "अभी", mr: "आत्ता", pa: "ਹੁਣੇ", te: "ఇప్పుడే", ta: "இப்போதே" },
+  "timing.24h": { en: "within 24h", hi: "24 घंटे में", mr: "24 तासांत", pa: "24 ਘੰਟਿਆਂ ਵਿੱਚ", te: "24 గంటల్లో", ta: "24 மணி நேரத்தில்" },
+  "timing.48h": { en: "within 48h", hi: "48 घंटे में", mr: "48 तासांत", pa: "48 ਘੰਟਿਆਂ ਵਿੱਚ", te: "48 గంటల్లో", ta: "48 மணி நேரத்தில்" },
+  "action.frost_cover": {
+    en: "cover nursery",
+    hi: "नर्सरी ढकें",
+    mr: "रोपवाटिका झाका",
+    pa: "ਨਰਸਰੀ ਢੱਕੋ",
+    te: "నారుమడిని కప్పండి",
+    ta: "நாற்றங்காலை மூடவும்"
+  },
+  "action.frost_ready": {
+    en: "keep covers ready",
+    hi: "ढकने का सामान तैयार रखें",
+    mr: "झाकण्याचे साहित्य तयार ठेवा",
+    pa: "ਢੱਕਣ ਦਾ ਸਮਾਨ ਤਿਆਰ ਰੱਖੋ",
+    te: "కప్పే సామగ్రి సిద్ధంగా ఉంచండి",
+    ta: "மூடும் பொருட்களை தயாராக வைக்கவும்"
+  },
+  "action.heat_critical": {
+    en: "irrigate and shade seedlings",
+    hi: "सिंचाई करें और पौध को छाया दें",
+    mr: "पाणी द्या आणि रोपांना सावली द्या",
+    pa: "ਸਿੰਚਾਈ ਕਰੋ ਅਤੇ ਪਨੀਰੀ ਨੂੰ ਛਾਂ ਦਿਓ",
+    te: "నీరు పెట్టి నారుకు నీడ కల్పించండి",
+    ta: "நீர் பாய்ச்சி நாற்றுகளுக்கு நிழல் தரவும்"
+  },
+  "action.heat": {
+    en: "irrigate early morning",
+    hi: "सुबह जल्दी सिंचाई करें",
+    mr: "सकाळी लवकर पाणी द्या",
+    pa: "ਸਵੇਰੇ ਜਲਦੀ ਸਿੰਚਾਈ ਕਰੋ",
+    te: "తెల్లవారుజామున నీరు పెట్టండి",
+    ta: "அதிகாலையில் நீர் பாய்ச்சவும்"
+  },
+  "type.frost": { en: "Frost", hi: "पाला", mr: "दंव", pa: "ਕੋਰਾ", te: "మంచు", ta: "உறைபனி" },
+  "type.heat": { en: "Heat", hi: "गर्मी", mr: "उष्णता", pa: "ਗਰਮੀ", te: "వేడి", ta: "வெப்பம்" },
+  "type.irrigation": { en: "Irrigation", hi: "सिंचाई", mr: "सिंचन", pa: "ਸਿੰਚਾਈ", te: "నీటిపారుదల", ta: "நீர்ப்பாசனம்" },
+  "place.farm": { en: "Your farm", hi: "आपका खेत", mr: "तुमचे शेत", pa: "ਤੁਹਾਡਾ ਖੇਤ", te: "మీ పొలం", ta: "உங்கள் வயல்" }
+};
+
+/**
+ * Fill a template's {placeholders} in the given language, falling back to English
+ */
+export function renderTemplate(code: TemplateCode, language: Language, vars: Record<string, string | number> = {}): string {
+  return interpolate(TEMPLATES[code][language] ?? TEMPLATES[code].en!, vars);
+}
+
+/**
+ * DD/MM from a YYYY-MM-DD date; other strings are returned unchanged
+ */
+function shortDate(date: string): string {
+  const match = /^\d{4}-(\d{2})-(\d{2})/.exec(date);
+  return match ? `${match[2]}/${match[1]}` : date;
+}
+
+/**
+ * "tonight", "tomorrow night" or a date for a frost period. A night runs from
+ * local noon to the next noon, so 02:00 tomorrow is still tonight.
+ */
+function describeNight(start: string, localStart: string, language: Language): string {
+  const startTs = Date.parse(start) / 1000;
+  const offset = (Date.parse(`${localStart.slice(0, 19)}Z`) - Date.parse(start)) / 1000;
+  const nightOf = (ts: number) => new Date((ts + offset - 12 * 3600) * 1000).toISOString().split('T')[0];
+  const tonight = nightOf(Date.now() / 1000);
+  const night = nightOf(startTs);
+
+  if (night === tonight) {
+    return renderTemplate("when.tonight", language);
+  }
+  if (night === nightOf(Date.now() / 1000 + 86400)) {
+    return renderTemplate("when.tomorrow", language);
+  }
+  return renderTemplate("when.date", language, { date: shortDate(night) });
+}
+
+/**
+ * Short text for an alert, e.g. "Frost tonight 1°C from 02:00 – cover nursery"
+ */
+export function renderAlertMessage(alert: Alert, place: string | undefined, language: Language): RenderedMessage {
+  const type = renderTemplate(`type.${alert.type}` as TemplateCode, language);
+  const subject = renderTemplate("subject.alert", language, { type });
+  const placeName = place || renderTemplate("place.farm", language);
+  const severe = alert.severity === "high" || alert.severity === "critical";
+  const details = alert.details || {};
+  const render = (template: TemplateCode, vars: Record<string, string | number>): RenderedMessage => ({
+    template,
+    language,
+    subject,
+    body: renderTemplate(template, language, vars)
+  });
+
+  if (alert.status === "resolved") {
+    return render("alert.resolved", { place: placeName, type });
+  }
+
+  if (alert.type === "frost") {
+    const action = renderTemplate(severe ? "action.frost_cover" : "action.frost_ready", language);
+    const period = details.periods?.[0];
+    if (period) {
+      return render("alert.frost", {
+        when: describeNight(period.start, period.localStart, language),
+        temp: Math.round(period.minCanopyTemperature),
+        time: period.localStart.slice(11, 16),
+        action
+      });
+    }
+    return render("alert.frost_watch", { temp: Math.round(details.minCanopyTemperature ?? 0), action });
+  }
+
+  if (alert.type === "heat") {
+    return render("alert.heat", {
+      temp: Math.round(details.temperature ?? 0),
+      action: renderTemplate(alert.severity === "critical" ? "action.heat_critical" : "action.heat", language)
+    });
+  }
+
+  const timing = renderTemplate(alert.severity === "high" || alert.severity === "critical" ? "timing.now" : alert.severity === "moderate" ? "timing.24h" : "timing.48h", language);
+  // The depth to run through the field's system when its irrigation type is known
+  const depth = details.grossMm ?? details.applyMm;
+  return depth
+    ? render("alert.irrigation", { place: placeName, timing, mm: Math.round(depth) })
+    : render("alert.irrigation_check", { place: placeName, timing });
+}
+
+/**
+ * One line per price, at most `maxLines`, for a market update message
+ */
+export function renderPriceMessage(prices: MarketPrice[], language: Language, maxLines: number = 3): RenderedMessage {
+  const lines = prices.slice(0, maxLines).map(price => renderTemplate("market.price", language, {
+    commodity: price.commodity,
+    variety: price.variety,
+    min: Math.round(price.minPrice).toLocaleString("en-IN"),
+    max: Math.round(price.maxPrice).toLocaleString("en-IN"),
+    date: shortDate(price.date)
+  }));
+
+  return {
+    template: "market.price",
+    language,
+    subject: renderTemplate("subject.market", language),
+    body: lines.join("\n")
+  };
+}
@@ -0,0 +1,31 @@
+import axios from "axios";
+import { NotificationTransport, OutboundMessage, TransportResult } from "./types";
+
+/**
+ * Plain-text email through an HTTP mail API using the SendGrid v3 request
+ * shape, which most transactional mail services also accept
+ */
+export class EmailTransport implements NotificationTransport {
+  readonly name = "email-api";
+  private readonly API_URL = process.env.EMAIL_API_URL || "https://api.sendgrid.com/v3/mail/send";
+  private readonly API_KEY = process.env.EMAIL_API_KEY;
+  private readonly FROM = process.env.EMAIL_FROM;
+
+  async send(message: OutboundMessage): Promise<TransportResult> {
+    if (!this.API_KEY || !this.FROM) {
+      throw new Error("EMAIL_API_KEY and EMAIL_FROM must be set");
+    }
+
+    const response = await axios.post(this.API_URL, {
+      personalizations: [{ to: [{ email: message.to }] }],
+      from: { email: this.FROM },
+      subject: message.subject || "FarmAssist",
+      content: [{ type: "text/plain", value: message.body }]
+    }, {
+      headers: { Authorization: `Bearer ${this.API_KEY}` },
+      timeout: 10000
+    });
+
+    return { providerMessageId: response.headers?.["x-message-id"] };
+  }
+}
@@ -0,0 +1,34 @@
+import { EmailTransport } from "./email";
+import { LocalTransport } from "./local";
+import { SmsGatewayTransport } from "./sms";
+import { NotificationChannel, NotificationTransport } from "./types";
+import { WhatsAppTransport } from "./whatsapp";
+
+export * from "./types";
+
+/**
+ * Create the transport for a channel. NOTIFICATION_TRANSPORT=local routes
+ * every channel to the local outbox instead of a real gateway.
+ */
+export function createNotificationTransport(channel: NotificationChannel, mode: string = process.env.NOTIFICATION_TRANSPORT || "live"): NotificationTransport {
+  switch (mode.toLowerCase()) {
+    case "local":
+    case "console":
+      return new LocalTransport();
+    case "live":
+      break;
+    default:
+      throw new Error(`Unknown notification transport: ${mode}`);
+  }
+
+  switch (channel) {
+    case "sms":
+      return new SmsGatewayTransport();
+    case "whatsapp":
+      return new WhatsAppTransport();
+    case "email":
+      return new EmailTransport();
+    default:
+      throw new Error(`Unknown notification channel: ${channel}`);
+  }
+}
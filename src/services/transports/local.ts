@@ -0,0 +1,25 @@
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { NotificationTransport, OutboundMessage, TransportResult } from "./types";
+
+/**
+ * Development transport that delivers nothing: messages are appended as JSON
+ * lines to NOTIFICATION_OUTBOX when set, otherwise printed to the console
+ */
+export class LocalTransport implements NotificationTransport {
+  readonly name = "local";
+  private readonly OUTBOX = process.env.NOTIFICATION_OUTBOX;
+
+  async send(message: OutboundMessage): Promise<TransportResult> {
+    const providerMessageId = randomUUID();
+
+    if (this.OUTBOX) {
+      const line = JSON.stringify({ id: providerMessageId, sentAt: new Date().toISOString(), ...message });
+      await fs.promises.appendFile(this.OUTBOX, line + "\n", "utf8");
+    } else {
+      console.log(`📨 [${message.channel} → ${message.to}] ${message.subject ? `${message.subject}: ` : ""}${message.body}`);
+    }
+
+    return { providerMessageId };
+  }
+}
@@ -0,0 +1,33 @@
+import axios from "axios";
+import { NotificationTransport, OutboundMessage, TransportResult } from "./types";
+
+/**
+ * Generic HTTP SMS gateway: POSTs JSON { sender, to, message, unicode } with a
+ * bearer key. Most Indian bulk SMS providers accept this shape; `unicode` is
+ * set for Indic scripts, which the gateway sends as UCS-2.
+ */
+export class SmsGatewayTransport implements NotificationTransport {
+  readonly name = "sms-gateway";
+  private readonly GATEWAY_URL = process.env.SMS_GATEWAY_URL;
+  private readonly API_KEY = process.env.SMS_API_KEY;
+  private readonly SENDER = process.env.SMS_SENDER_ID || "FRMAST";
+
+  async send(message: OutboundMessage): Promise<TransportResult> {
+    if (!this.GATEWAY_URL || !this.API_KEY) {
+      throw new Error("SMS_GATEWAY_URL and SMS_API_KEY must be set");
+    }
+
+    const response = await axios.post(this.GATEWAY_URL, {
+      sender: this.SENDER,
+      to: message.to,
+      message: message.body,
+      unicode: /[^\x00-\x7F]/.test(message.body)
+    }, {
+      headers: { Authorization: `Bearer ${this.API_KEY}` },
+      timeout: 10000
+    });
+
+    const id = response.data?.messageId ?? response.data?.id;
+    return { providerMessageId: id !== undefined ? String(id) : undefined };
+  }
+}
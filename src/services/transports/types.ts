@@ -0,0 +1,28 @@
+export type NotificationChannel = "sms" | "whatsapp" | "email";
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ["sms", "whatsapp", "email"];
+
+/**
+ * A rendered message addressed to a single recipient. `to` is an E.164 phone
+ * number for sms and whatsapp and an address for email; `subject` is only
+ * used by email.
+ */
+export interface OutboundMessage {
+  channel: NotificationChannel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+export interface TransportResult {
+  providerMessageId?: string;
+}
+
+/**
+ * Contract every notification gateway implements. `send` resolves once the
+ * gateway has accepted the message and throws when it is rejected.
+ */
+export interface NotificationTransport {
+  readonly name: string;
+  send(message: OutboundMessage): Promise<TransportResult>;
+}
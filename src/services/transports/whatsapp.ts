@@ -0,0 +1,32 @@
+import axios from "axios";
+import { NotificationTransport, OutboundMessage, TransportResult } from "./types";
+
+/**
+ * WhatsApp Business Cloud API text message. Free-form text is only delivered
+ * inside the 24 hour customer service window; outside it the API rejects the
+ * message and the failure is recorded.
+ */
+export class WhatsAppTransport implements NotificationTransport {
+  readonly name = "whatsapp-cloud";
+  private readonly API_URL = process.env.WHATSAPP_API_URL || "https://graph.facebook.com/v19.0";
+  private readonly PHONE_NUMBER_ID = process.env.WHATSAPP_PHONE_NUMBER_ID;
+  private readonly ACCESS_TOKEN = process.env.WHATSAPP_ACCESS_TOKEN;
+
+  async send(message: OutboundMessage): Promise<TransportResult> {
+    if (!this.PHONE_NUMBER_ID || !this.ACCESS_TOKEN) {
+      throw new Error("WHATSAPP_PHONE_NUMBER_ID and WHATSAPP_ACCESS_TOKEN must be set");
+    }
+
+    const response = await axios.post(`${this.API_URL}/${this.PHONE_NUMBER_ID}/messages`, {
+      messaging_product: "whatsapp",
+      to: message.to.replace(/^\+/, ""),
+      type: "text",
+      text: { body: message.body }
+    }, {
+      headers: { Authorization: `Bearer ${this.ACCESS_TOKEN}` },
+      timeout: 10000
+    });
+
+    return { providerMessageId: response.data?.messages?.[0]?.id };
+  }
+}
@@ -0,0 +1,262 @@
+import { prisma } from "../lib/database";
+import { roundCoordinate } from "../lib/geo";
+import { toLocalDate } from "../lib/timezone";
+import { weatherService, WeatherResponse } from "./weather";
+import { activityService } from "./activity";
+
+export type SoilTexture = "sand" | "loamy_sand" | "sandy_loam" | "loam" | "silt_loam" | "clay_loam" | "clay";
+
+/**
+ * Volumetric water content (m³/m³) at field capacity and wilting point, FAO-56 table 19 mid-range
+ */
+export const SOIL_PRESETS: Record<SoilTexture, { fieldCapacity: number; wiltingPoint: number }> = {
+  sand: { fieldCapacity: 0.10, wiltingPoint: 0.04 },
+  loamy_sand: { fieldCapacity: 0.14, wiltingPoint: 0.06 },
+  sandy_loam: { fieldCapacity: 0.23, wiltingPoint: 0.10 },
+  loam: { fieldCapacity: 0.25, wiltingPoint: 0.12 },
+  silt_loam: { fieldCapacity: 0.29, wiltingPoint: 0.15 },
+  clay_loam: { fieldCapacity: 0.32, wiltingPoint: 0.20 },
+  clay: { fieldCapacity: 0.36, wiltingPoint: 0.22 }
+};
+
+export interface WaterBalanceOptions {
+  soil?: SoilTexture;
+  rootDepth?: number;
+  managementAllowedDepletion?: number;
+  cropCoefficient?: number;
+  startDate?: string;
+  initialDepletion?: number;
+  fieldId?: string;
+}
+
+export interface IrrigationEvent {
+  id: string;
+  lat: number;
+  lon: number;
+  date: string;
+  amountMm: number;
+  note?: string;
+}
+
+export interface WaterBalanceDay {
+  date: string;
+  et0: number;
+  etc: number;
+  rainfall: number;
+  effectiveRainfall: number;
+  irrigation: number;
+  deepPercolation: number;
+  depletion: number;
+  projected: boolean;
+}
+
+export interface WaterBalance {
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+  };
+  soil: {
+    texture: SoilTexture;
+    rootDepth: number;
+    totalAvailableWater: number;
+    readilyAvailableWater: number;
+    managementAllowedDepletion: number;
+  };
+  cropCoefficient: number;
+  startDate: string;
+  currentDepletion: number;
+  availableWater: number;
+  belowThreshold: boolean;
+  thresholdDate: string | null;
+  recommendedApplication: number;
+  daily: WaterBalanceDay[];
+  assumptions: string[];
+  timestamp: string;
+}
+
+class SoilWaterBalanceService {
+  private readonly DEFAULT_ROOT_DEPTH = 0.6;
+  private readonly DEFAULT_MAD = 0.5;
+  private readonly DEFAULT_HISTORY_DAYS = 30;
+
+  /**
+   * Run the root-zone depletion bucket model from the start date through the forecast
+   */
+  async getWaterBalance(lat: number, lon: number, options: WaterBalanceOptions = {}): Promise<WeatherResponse<WaterBalance>> {
+    try {
+      const texture = options.soil || "loam";
+      const preset = SOIL_PRESETS[texture];
+      if (!preset) {
+        throw new Error(`Unknown soil texture: ${texture}`);
+      }
+
+      const rootDepth = options.rootDepth ?? this.DEFAULT_ROOT_DEPTH;
+      const mad = options.managementAllowedDepletion ?? this.DEFAULT_MAD;
+      const kc = options.cropCoefficient ?? 1.0;
+      const taw = 1000 * (preset.fieldCapacity - preset.wiltingPoint) * rootDepth;
+      const raw = mad * taw;
+
+      const forecastResponse = await weatherService.getDailyForecast(lat, lon, kc);
+      if (!forecastResponse.success || !forecastResponse.data) {
+        throw new Error("Failed to fetch forecast for water balance");
+      }
+
+      const forecast = forecastResponse.data;
+      const offset = forecast.location.timezone.offsetSeconds;
+      const today = toLocalDate(Math.floor(Date.now() / 1000), offset);
+      const startDate = options.startDate
+        || toLocalDate(Math.floor(Date.now() / 1000) - this.DEFAULT_HISTORY_DAYS * 86400, offset);
+
+      const historyResponse = await weatherService.getHistoricalDailyWeather(lat, lon, startDate, new Date().toISOString(), kc);
+      if (!historyResponse.success || !historyResponse.data) {
+        throw new Error("Failed to fetch historical weather for water balance");
+      }
+
+      // A field's diary is its irrigation record; location events cover a whole grid cell
+      // and would count the same watering twice
+      const irrigations = options.fieldId
+        ? await activityService.listIrrigations(options.fieldId, startDate)
+        : await this.listIrrigations(lat, lon, startDate);
+      const irrigationByDate = new Map<string, number>();
+      irrigations.forEach(event => {
+        irrigationByDate.set(event.date, (irrigationByDate.get(event.date) || 0) + event.amountMm);
+      });
+
+      const todayInForecast = forecast.forecast.some(day => day.date === today);
+      const inputs = [
+        ...historyResponse.data.data
+          .filter(day => day.date >= startDate && (day.date < today || (day.date === today && !todayInForecast)))
+          .map(day => ({ date: day.date, et0: day.et0, rainfall: day.precipitation, projected: false })),
+        ...forecast.forecast
+          .filter(day => day.date >= today)
+          .map(day => ({ date: day.date, et0: day.et0, rainfall: day.precipitation, projected: true }))
+      ];
+
+      let depletion = Math.min(taw, Math.max(0, options.initialDepletion ?? 0));
+      let currentDepletion = depletion;
+      let thresholdDate: string | null = null;
+
+      const daily: WaterBalanceDay[] = inputs.map(input => {
+        const etc = input.et0 * kc;
+        // Light showers below 20% of ET0 are lost to interception and evaporation (FAO-56 §8)
+        const effectiveRainfall = input.rainfall >= 0.2 * input.et0 ? input.rainfall : 0;
+        // Today's row comes from the forecast but still counts water already applied today
+        const irrigation = input.date > today ? 0 : irrigationByDate.get(input.date) || 0;
+
+        const unbounded = depletion - effectiveRainfall - irrigation + etc;
+        const deepPercolation = unbounded < 0 ? -unbounded : 0;
+        depletion = Math.min(taw, Math.max(0, unbounded));
+
+        if (!input.projected || input.date === today) {
+          currentDepletion = depletion;
+        }
+        if (thresholdDate === null && input.date >= today && depletion >= raw) {
+          thresholdDate = input.date;
+        }
+
+        return {
+          date: input.date,
+          et0: input.et0,
+          etc: Math.round(etc * 100) / 100,
+          rainfall: input.rainfall,
+          effectiveRainfall: Math.round(effectiveRainfall * 100) / 100,
+          irrigation,
+          deepPercolation: Math.round(deepPercolation * 100) / 100,
+          depletion: Math.round(depletion * 10) / 10,
+          projected: input.projected
+        };
+      });
+
+      const assumptions = [
+        options.initialDepletion !== undefined
+          ? `Root zone depleted by ${options.initialDepletion}mm on ${startDate}`
+          : `Root zone at field capacity on ${startDate}`,
+        "Capillary rise and runoff are not modelled"
+      ];
+
+      return {
+        success: true,
+        data: {
+          location: {
+            name: forecast.location.name,
+            lat,
+            lon
+          },
+          soil: {
+            texture,
+            rootDepth,
+            totalAvailableWater: Math.round(taw * 10) / 10,
+            readilyAvailableWater: Math.round(raw * 10) / 10,
+            managementAllowedDepletion: mad
+          },
+          cropCoefficient: kc,
+          startDate,
+          currentDepletion: Math.round(currentDepletion * 10) / 10,
+          availableWater: Math.round((taw - currentDepletion) * 10) / 10,
+          belowThreshold: currentDepletion >= raw,
+          thresholdDate,
+          recommendedApplication: Math.round(currentDepletion),
+          daily,
+          assumptions,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error("❌ Failed to calculate water balance:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Water balance error",
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Record an irrigation applied at a location
+   */
+  async logIrrigation(lat: number, lon: number, date: string, amountMm: number, note?: string): Promise<IrrigationEvent> {
+    const event = await prisma.irrigationEvent.create({
+      data: {
+        lat: roundCoordinate(lat),
+        lon: roundCoordinate(lon),
+        date,
+        amountMm,
+        note: note || null,
+      },
+    });
+
+    return this.toIrrigationEvent(event);
+  }
+
+  /**
+   * List irrigations logged at a location since a date
+   */
+  async listIrrigations(lat: number, lon: number, since: string): Promise<IrrigationEvent[]> {
+    const events = await prisma.irrigationEvent.findMany({
+      where: {
+        lat: roundCoordinate(lat),
+        lon: roundCoordinate(lon),
+        date: { gte: since },
+      },
+      orderBy: { date: "asc" },
+    });
+
+    return events.map((event: any) => this.toIrrigationEvent(event));
+  }
+
+  private toIrrigationEvent(event: any): IrrigationEvent {
+    return {
+      id: event.id,
+      lat: event.lat,
+      lon: event.lon,
+      date: event.date,
+      amountMm: event.amountMm,
+      note: event.note ?? undefined,
+    };
+  }
+}
+
+export const waterBalanceService = new SoilWaterBalanceService();
+export default waterBalanceService;
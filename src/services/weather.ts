@@ -1,4 +1,24 @@
-import axios from "axios";
+import { CacheStatus, TtlCache } from "../lib/cache";
+import { mapWithConcurrency } from "../lib/concurrency";
+import {
+  dayOfYear,
+  growingDegreeDays,
+  GddMethod,
+  moistureIndices,
+  referenceEvapotranspiration,
+  soilTemperature
+} from "../lib/agromet";
+import { roundCoordinate } from "../lib/geo";
+import {
+  describeOffset,
+  estimateOffset,
+  localMidnight,
+  TimezoneInfo,
+  toLocalDate,
+  toLocalISOString
+} from "../lib/timezone";
+import { weatherHistoryService } from "./history";
+import { createWeatherProvider, ProviderObservation, ProviderSeries, WeatherProvider } from "./providers";
 
 
 export interface CurrentWeather {
@@ -7,6 +27,7 @@ export interface CurrentWeather {
     lat: number;
     lon: number;
     country: string;
+    timezone: TimezoneInfo;
   };
   current: {
     temperature: number;
@@ -17,11 +38,17 @@ export interface CurrentWeather {
     windDirection: number;
     visibility: number;
     uvIndex: number;
+    cloudCover: number | null;
+    dewPoint: number;
+    vpd: number;
+    deltaT: number;
     weather: {
       main: string;
       description: string;
       icon: string;
     };
+    observedAt: string;
+    localTime: string;
   };
   timestamp: string;
 }
@@ -31,15 +58,21 @@ export interface WeatherForecast {
     name: string;
     lat: number;
     lon: number;
+    timezone: TimezoneInfo;
   };
   forecast: {
     date: string;
     datetime: string;
+    localDatetime: string;
     temperature: number;
     humidity: number;
     pressure: number;
     windSpeed: number;
     precipitation: number;
+    cloudCover: number | null;
+    dewPoint: number;
+    vpd: number;
+    deltaT: number;
     weather: {
       main: string;
       description: string;
@@ -54,6 +87,7 @@ export interface DailyForecast {
     name: string;
     lat: number;
     lon: number;
+    timezone: TimezoneInfo;
   };
   forecast: {
     date: string;
@@ -66,6 +100,8 @@ export interface DailyForecast {
     pressure: number;
     windSpeed: number;
     precipitation: number;
+    et0: number;
+    etc?: number;
     weather: {
       main: string;
       description: string;
@@ -80,15 +116,21 @@ export interface HistoricalWeather {
     name: string;
     lat: number;
     lon: number;
+    timezone: TimezoneInfo;
   };
   data: {
     datetime: string;
+    localDatetime: string;
     date: string;
     temperature: number;
     humidity: number;
     pressure: number;
     windSpeed: number;
     precipitation: number;
+    cloudCover: number | null;
+    dewPoint: number;
+    vpd: number;
+    deltaT: number;
     weather: {
       main: string;
       description: string;
@@ -99,14 +141,26 @@ export interface HistoricalWeather {
     start: string;
     end: string;
   };
+  source: HistorySource;
+  pages: number;
+  gaps: HistoryGap[];
   timestamp: string;
 }
 
+export type HistorySource = "local" | "provider" | "mixed";
+
+export interface HistoryGap {
+  start: string;
+  end: string;
+  missingHours: number;
+}
+
 export interface HistoricalDailyWeather {
   location: {
     name: string;
     lat: number;
     lon: number;
+    timezone: TimezoneInfo;
   };
   data: {
     date: string;
@@ -119,6 +173,8 @@ export interface HistoricalDailyWeather {
     pressure: number;
     windSpeed: number;
     precipitation: number;
+    et0: number;
+    etc?: number;
     weather: {
       main: string;
       description: string;
@@ -128,6 +184,8 @@ export interface HistoricalDailyWeather {
     start: string;
     end: string;
   };
+  source: HistorySource;
+  gaps: HistoryGap[];
   timestamp: string;
 }
 
@@ -135,6 +193,7 @@ export interface WeatherResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  cache?: CacheStatus;
   timestamp: string;
 }
 
@@ -161,14 +220,30 @@ export interface AgriculturalWeatherResponse {
 }
 
 class WeatherService {
-  private readonly BASE_URL = "https://api.openweathermap.org/data/2.5";
-  private readonly HISTORY_URL = "https://history.openweathermap.org/data/2.5/history/city";
-  private readonly API_KEY = process.env.OPEN_WEATHER_KEY;
+  private readonly provider: WeatherProvider = createWeatherProvider();
+  private readonly CACHE_TTL = parseInt(process.env.WEATHER_CACHE_TTL || "600") * 1000;
+  private readonly cache = new TtlCache(this.CACHE_TTL);
+  private readonly HISTORY_CONCURRENCY = parseInt(process.env.WEATHER_HISTORY_CONCURRENCY || "3");
+  private readonly LOCAL_HISTORY_MIN_COVERAGE = parseFloat(process.env.LOCAL_HISTORY_MIN_COVERAGE || "0.9");
 
-  constructor() {
-    if (!this.API_KEY) {
-      throw new Error("OpenWeatherMap API key not found in environment variables");
-    }
+  /**
+   * Name of the configured weather provider
+   */
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Fetch from the provider through the shared cache. Coordinates are rounded
+   * so nearby fields share one upstream call; the rounded values are what the
+   * provider is queried with.
+   */
+  private fetchCached<T>(endpoint: string, lat: number, lon: number, loader: (lat: number, lon: number) => Promise<T>, extra: (string | number)[] = []) {
+    const roundedLat = roundCoordinate(lat);
+    const roundedLon = roundCoordinate(lon);
+    const key = [this.provider.name, endpoint, roundedLat, roundedLon, ...extra].join(":");
+
+    return this.cache.getOrLoad(key, () => loader(roundedLat, roundedLon));
   }
 
   /**
@@ -176,38 +251,33 @@ class WeatherService {
    */
   async getCurrentWeather(lat: number, lon: number): Promise<WeatherResponse<CurrentWeather>> {
     try {
-      const response = await axios.get(`${this.BASE_URL}/weather`, {
-        params: {
-          lat,
-          lon,
-          appid: this.API_KEY,
-          units: "metric"
-        }
-      });
-
-      const data = response.data;
+      const { value: data, status: cache } = await this.fetchCached("current", lat, lon,
+        (qLat, qLon) => this.provider.getCurrent(qLat, qLon));
+      const observation = data.observation;
+      const offset = data.location.timezoneOffset ?? estimateOffset(lon);
       
       const currentWeather: CurrentWeather = {
         location: {
-          name: data.name,
-          lat: data.coord.lat,
-          lon: data.coord.lon,
-          country: data.sys.country
+          name: data.location.name,
+          lat: data.location.lat,
+          lon: data.location.lon,
+          country: data.location.country || "",
+          timezone: describeOffset(offset)
         },
         current: {
-          temperature: data.main.temp,
-          feelsLike: data.main.feels_like,
-          humidity: data.main.humidity,
-          pressure: data.main.pressure,
-          windSpeed: data.wind.speed,
-          windDirection: data.wind.deg || 0,
-          visibility: data.visibility / 1000, 
+          temperature: observation.temperature,
+          feelsLike: observation.feelsLike ?? observation.temperature,
+          humidity: observation.humidity,
+          pressure: observation.pressure,
+          windSpeed: observation.windSpeed,
+          windDirection: observation.windDirection || 0,
+          visibility: observation.visibility ?? 0, 
           uvIndex: 0, 
-          weather: {
-            main: data.weather[0].main,
-            description: data.weather[0].description,
-            icon: data.weather[0].icon
-          }
+          cloudCover: observation.cloudCover ?? null,
+          ...moistureIndices(observation.temperature, observation.humidity),
+          weather: observation.weather,
+          observedAt: new Date(observation.timestamp * 1000).toISOString(),
+          localTime: toLocalISOString(observation.timestamp, offset)
         },
         timestamp: new Date().toISOString()
       };
@@ -215,6 +285,7 @@ class WeatherService {
       return {
         success: true,
         data: currentWeather,
+        cache,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -232,36 +303,29 @@ class WeatherService {
    */
   async getHourlyForecast(lat: number, lon: number): Promise<WeatherResponse<WeatherForecast>> {
     try {
-      const response = await axios.get(`${this.BASE_URL}/forecast`, {
-        params: {
-          lat,
-          lon,
-          appid: this.API_KEY,
-          units: "metric"
-        }
-      });
-
-      const data = response.data;
+      const { value: data, status: cache } = await this.fetchCached("forecast", lat, lon,
+        (qLat, qLon) => this.provider.getForecast(qLat, qLon));
+      const offset = data.location.timezoneOffset ?? estimateOffset(lon);
       
       const forecast: WeatherForecast = {
         location: {
-          name: data.city.name,
-          lat: data.city.coord.lat,
-          lon: data.city.coord.lon
+          name: data.location.name,
+          lat: data.location.lat,
+          lon: data.location.lon,
+          timezone: describeOffset(offset)
         },
-        forecast: data.list.map((item: any) => ({
-          date: new Date(item.dt * 1000).toISOString().split('T')[0],
-          datetime: new Date(item.dt * 1000).toISOString(),
-          temperature: item.main.temp,
-          humidity: item.main.humidity,
-          pressure: item.main.pressure,
-          windSpeed: item.wind.speed,
-          precipitation: item.rain ? item.rain["3h"] || 0 : 0,
-          weather: {
-            main: item.weather[0].main,
-            description: item.weather[0].description,
-            icon: item.weather[0].icon
-          }
+        forecast: data.observations.map(item => ({
+          date: toLocalDate(item.timestamp, offset),
+          datetime: new Date(item.timestamp * 1000).toISOString(),
+          localDatetime: toLocalISOString(item.timestamp, offset),
+          temperature: item.temperature,
+          humidity: item.humidity,
+          pressure: item.pressure,
+          windSpeed: item.windSpeed,
+          precipitation: item.precipitation,
+          cloudCover: item.cloudCover ?? null,
+          ...moistureIndices(item.temperature, item.humidity),
+          weather: item.weather
         })),
         timestamp: new Date().toISOString()
       };
@@ -269,6 +333,7 @@ class WeatherService {
       return {
         success: true,
         data: forecast,
+        cache,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -284,7 +349,7 @@ class WeatherService {
   /**
    * Get daily forecast by aggregating hourly data
    */
-  async getDailyForecast(lat: number, lon: number): Promise<WeatherResponse<DailyForecast>> {
+  async getDailyForecast(lat: number, lon: number, cropCoefficient?: number): Promise<WeatherResponse<DailyForecast>> {
     try {
       const hourlyResponse = await this.getHourlyForecast(lat, lon);
       
@@ -313,6 +378,9 @@ class WeatherService {
           const avgHumidity = items.reduce((sum, item) => sum + item.humidity, 0) / items.length;
           const avgPressure = items.reduce((sum, item) => sum + item.pressure, 0) / items.length;
           const avgWindSpeed = items.reduce((sum, item) => sum + item.windSpeed, 0) / items.length;
+          const evapotranspiration = this.calculateDailyEvapotranspiration(
+            date, Math.min(...temperatures), Math.max(...temperatures), avgHumidity, avgWindSpeed, avgPressure, hourlyData.location.lat, cropCoefficient
+          );
           
           return {
             date,
@@ -325,6 +393,7 @@ class WeatherService {
             pressure: Math.round(avgPressure),
             windSpeed: Math.round(avgWindSpeed * 100) / 100,
             precipitation: Math.round(precipitationSum * 100) / 100,
+            ...evapotranspiration,
             weather: {
               main: items[Math.floor(items.length / 2)].weather.main,
               description: items[Math.floor(items.length / 2)].weather.description,
@@ -338,6 +407,7 @@ class WeatherService {
       return {
         success: true,
         data: dailyForecast,
+        cache: hourlyResponse.cache,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -351,57 +421,38 @@ class WeatherService {
   }
 
   /**
-   * Get historical weather data using History API
+   * Get historical weather data from the provider's history endpoint
    */
   async getHistoricalWeather(lat: number, lon: number, startDate: string, endDate: string): Promise<WeatherResponse<HistoricalWeather>> {
     try {
-      const startTimestamp = Math.floor(new Date(startDate).getTime() / 1000);
-      const endTimestamp = Math.floor(new Date(endDate).getTime() / 1000);
+      const offset = await this.resolveTimezoneOffset(lat, lon);
+      const startTimestamp = this.parseRangeBoundary(startDate, offset);
+      const endTimestamp = this.parseRangeBoundary(endDate, offset);
       
-      const response = await axios.get(`${this.HISTORY_URL}`, {
-        params: {
-          lat,
-          lon,
-          type: "hour",
-          start: startTimestamp,
-          end: endTimestamp,
-          appid: this.API_KEY,
-          units: "metric"
-        }
-      });
-
-      const data = response.data;
+      const { series: data, source, cache, pages, gaps } = await this.loadHistory(lat, lon, startTimestamp, endTimestamp);
       
       const historical: HistoricalWeather = {
         location: {
-          name: data.city_name || `${lat}, ${lon}`,
+          name: data.location.name,
           lat,
-          lon
+          lon,
+          timezone: describeOffset(offset)
         },
-        data: data.list.map((item: any) => ({
-          datetime: new Date(item.dt * 1000).toISOString(),
-          date: new Date(item.dt * 1000).toISOString().split('T')[0],
-          temperature: item.main.temp,
-          humidity: item.main.humidity,
-          pressure: item.main.pressure,
-          windSpeed: item.wind.speed,
-          precipitation: item.rain ? item.rain["1h"] || 0 : 0,
-          weather: {
-            main: item.weather[0].main,
-            description: item.weather[0].description,
-            icon: item.weather[0].icon
-          }
-        })),
+        data: data.observations.map(item => this.toHistoricalRow(item, offset)),
         period: {
           start: startDate,
           end: endDate
         },
+        source,
+        pages,
+        gaps,
         timestamp: new Date().toISOString()
       };
 
       return {
         success: true,
         data: historical,
+        cache,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -422,53 +473,33 @@ class WeatherService {
       const endDate = new Date();
       const startDate = new Date(endDate.getTime() - (days * 24 * 60 * 60 * 1000));
       
-      const startTimestamp = Math.floor(startDate.getTime() / 1000);
-      const cnt = days * 24; 
-      
-      const response = await axios.get(`${this.HISTORY_URL}`, {
-        params: {
-          lat,
-          lon,
-          type: "hour",
-          start: startTimestamp,
-          cnt: cnt,
-          appid: this.API_KEY,
-          units: "metric"
-        }
-      });
-
-      const data = response.data;
+      const startTimestamp = Math.floor(startDate.getTime() / 3600000) * 3600;
+      const endTimestamp = Math.floor(endDate.getTime() / 3600000) * 3600;
+      const { series: data, source, cache, pages, gaps } = await this.loadHistory(lat, lon, startTimestamp, endTimestamp);
+      const offset = data.location.timezoneOffset ?? await this.resolveTimezoneOffset(lat, lon);
       
       const historical: HistoricalWeather = {
         location: {
-          name: data.city_name || `${lat}, ${lon}`,
+          name: data.location.name,
           lat,
-          lon
+          lon,
+          timezone: describeOffset(offset)
         },
-        data: data.list.map((item: any) => ({
-          datetime: new Date(item.dt * 1000).toISOString(),
-          date: new Date(item.dt * 1000).toISOString().split('T')[0],
-          temperature: item.main.temp,
-          humidity: item.main.humidity,
-          pressure: item.main.pressure,
-          windSpeed: item.wind.speed,
-          precipitation: item.rain ? item.rain["1h"] || 0 : 0,
-          weather: {
-            main: item.weather[0].main,
-            description: item.weather[0].description,
-            icon: item.weather[0].icon
-          }
-        })),
+        data: data.observations.map(item => this.toHistoricalRow(item, offset)),
         period: {
           start: startDate.toISOString().split('T')[0],
           end: endDate.toISOString().split('T')[0]
         },
+        source,
+        pages,
+        gaps,
         timestamp: new Date().toISOString()
       };
 
       return {
         success: true,
         data: historical,
+        cache,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -481,10 +512,205 @@ class WeatherService {
     }
   }
 
+  /**
+   * Load hourly history for any range by splitting it into provider-sized
+   * pages, fetching them with bounded concurrency and merging by timestamp
+   */
+  private async loadHistory(lat: number, lon: number, startTimestamp: number, endTimestamp: number): Promise<{ series: ProviderSeries; source: HistorySource; cache?: CacheStatus; pages: number; gaps: HistoryGap[] }> {
+    const pageSeconds = this.provider.historyPageHours * 3600;
+    const ranges: [number, number][] = [];
+
+    // Pages are whole multiples of the page size, the last one ending on the
+    // hour, so every request at a location within the hour (such as the water
+    // balance, disease and phenology lookups of one advisory) loads the same
+    // pages once and shares them through the cache
+    const rangeEnd = Math.max(startTimestamp, Math.floor(endTimestamp / 3600) * 3600);
+    let pageStart = Math.floor(startTimestamp / pageSeconds) * pageSeconds;
+    while (pageStart < rangeEnd) {
+      const pageEnd = Math.min(pageStart + pageSeconds, rangeEnd);
+      ranges.push([pageStart, pageEnd]);
+      pageStart = pageEnd;
+    }
+    if (ranges.length === 0) {
+      ranges.push([startTimestamp, endTimestamp]);
+    }
+
+    const pages = await mapWithConcurrency(ranges, this.HISTORY_CONCURRENCY,
+      ([start, end]) => this.loadHistoryPage(lat, lon, start, end));
+
+    const merged = new Map<number, ProviderObservation>();
+    pages.forEach(page => {
+      page.series.observations.forEach(item => {
+        if (item.timestamp >= startTimestamp && item.timestamp <= endTimestamp && !merged.has(item.timestamp)) {
+          merged.set(item.timestamp, item);
+        }
+      });
+    });
+    const observations = Array.from(merged.values()).sort((a, b) => a.timestamp - b.timestamp);
+
+    const sources = new Set(pages.map(page => page.source));
+    const source: HistorySource = sources.size > 1 ? "mixed" : pages[0].source;
+    const providerPage = pages.find(page => page.source === "provider");
+
+    return {
+      series: {
+        location: (providerPage || pages[0]).series.location,
+        observations
+      },
+      source,
+      cache: pages.length === 1 ? pages[0].cache : undefined,
+      pages: pages.length,
+      gaps: this.findGaps(observations, startTimestamp, endTimestamp)
+    };
+  }
+
+  /**
+   * Report runs of missing hours, including before the first and after the last row
+   */
+  private findGaps(observations: ProviderObservation[], startTimestamp: number, endTimestamp: number): HistoryGap[] {
+    const gaps: HistoryGap[] = [];
+    const tolerance = 5400;
+    // `from` and `to` are the present rows either side of the gap
+    const toGap = (from: number, to: number): HistoryGap => ({
+      start: new Date((from + 3600) * 1000).toISOString(),
+      end: new Date((to - 3600) * 1000).toISOString(),
+      missingHours: Math.max(1, Math.round((to - from) / 3600) - 1)
+    });
+
+    if (observations.length === 0) {
+      return endTimestamp > startTimestamp ? [toGap(startTimestamp - 3600, endTimestamp + 3600)] : [];
+    }
+
+    if (observations[0].timestamp - startTimestamp > tolerance) {
+      gaps.push(toGap(startTimestamp - 3600, observations[0].timestamp));
+    }
+    for (let i = 1; i < observations.length; i++) {
+      if (observations[i].timestamp - observations[i - 1].timestamp > tolerance) {
+        gaps.push(toGap(observations[i - 1].timestamp, observations[i].timestamp));
+      }
+    }
+    const last = observations[observations.length - 1].timestamp;
+    if (endTimestamp - last > tolerance) {
+      gaps.push(toGap(last, endTimestamp + 3600));
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Load one page of history, serving from stored observations when they cover
+   * the range and otherwise fetching from the provider and archiving the result
+   */
+  private async loadHistoryPage(lat: number, lon: number, startTimestamp: number, endTimestamp: number): Promise<{ series: ProviderSeries; source: "local" | "provider"; cache?: CacheStatus }> {
+    const local = await this.loadLocalHistory(lat, lon, startTimestamp, endTimestamp);
+    if (local) {
+      return { series: local, source: "local" };
+    }
+
+    const { value, status } = await this.fetchCached("history", lat, lon,
+      (qLat, qLon) => this.provider.getHistory(qLat, qLon, startTimestamp, endTimestamp),
+      [startTimestamp, endTimestamp]);
+
+    // Local fixture history is replayed test data, never observed weather
+    if (!status.hit && !status.coalesced && this.provider.name !== "local") {
+      weatherHistoryService.recordObservations(lat, lon, value.observations, "history", this.provider.name)
+        .catch(error => console.error("❌ Failed to archive historical weather:", error));
+    }
+
+    return { series: value, source: "provider", cache: status };
+  }
+
+  /**
+   * Read observations stored from the configured provider, returning null when
+   * coverage of the range is insufficient
+   */
+  private async loadLocalHistory(lat: number, lon: number, startTimestamp: number, endTimestamp: number): Promise<ProviderSeries | null> {
+    const expectedHours = Math.floor((endTimestamp - startTimestamp) / 3600);
+    if (expectedHours <= 0) {
+      return null;
+    }
+
+    try {
+      const observations = await weatherHistoryService.getObservations(lat, lon, startTimestamp, endTimestamp, this.provider.name);
+      if (observations.length < expectedHours * this.LOCAL_HISTORY_MIN_COVERAGE) {
+        return null;
+      }
+
+      return {
+        location: { name: `${lat}, ${lon}`, lat, lon },
+        observations
+      };
+    } catch (error) {
+      console.error("❌ Failed to read stored weather history:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store current conditions and the 5-day forecast for a location
+   */
+  async captureSnapshot(lat: number, lon: number): Promise<{ observations: number; forecastRows: number }> {
+    const [current, forecast] = await Promise.all([
+      this.fetchCached("current", lat, lon, (qLat, qLon) => this.provider.getCurrent(qLat, qLon)),
+      this.fetchCached("forecast", lat, lon, (qLat, qLon) => this.provider.getForecast(qLat, qLon))
+    ]);
+
+    const observations = await weatherHistoryService.recordObservations(
+      lat, lon, [current.value.observation], "snapshot", this.provider.name
+    );
+    const forecastRows = await weatherHistoryService.recordForecast(
+      lat, lon, new Date(), forecast.value.observations, this.provider.name
+    );
+
+    return { observations, forecastRows };
+  }
+
+  /**
+   * Resolve a location's UTC offset from the (cached) forecast, falling back to a longitude estimate
+   */
+  private async resolveTimezoneOffset(lat: number, lon: number): Promise<number> {
+    try {
+      const { value } = await this.fetchCached("forecast", lat, lon,
+        (qLat, qLon) => this.provider.getForecast(qLat, qLon));
+      return value.location.timezoneOffset ?? estimateOffset(lon);
+    } catch (error) {
+      return estimateOffset(lon);
+    }
+  }
+
+  /**
+   * Plain YYYY-MM-DD dates are taken as local midnight; anything else is parsed as-is
+   */
+  private parseRangeBoundary(value: string, offset: number): number {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return localMidnight(value, offset);
+    }
+    return Math.floor(new Date(value).getTime() / 1000);
+  }
+
+  /**
+   * Map a provider observation to a historical data row
+   */
+  private toHistoricalRow(item: ProviderObservation, offset: number): HistoricalWeather["data"][number] {
+    return {
+      datetime: new Date(item.timestamp * 1000).toISOString(),
+      localDatetime: toLocalISOString(item.timestamp, offset),
+      date: toLocalDate(item.timestamp, offset),
+      temperature: item.temperature,
+      humidity: item.humidity,
+      pressure: item.pressure,
+      windSpeed: item.windSpeed,
+      precipitation: item.precipitation,
+      cloudCover: item.cloudCover ?? null,
+      ...moistureIndices(item.temperature, item.humidity),
+      weather: item.weather
+    };
+  }
+
   /**
    * Get historical daily weather by aggregating hourly historical data
    */
-  async getHistoricalDailyWeather(lat: number, lon: number, startDate: string, endDate: string): Promise<WeatherResponse<HistoricalDailyWeather>> {
+  async getHistoricalDailyWeather(lat: number, lon: number, startDate: string, endDate: string, cropCoefficient?: number): Promise<WeatherResponse<HistoricalDailyWeather>> {
     try {
       const historicalResponse = await this.getHistoricalWeather(lat, lon, startDate, endDate);
       
@@ -513,6 +739,9 @@ class WeatherService {
           const avgHumidity = items.reduce((sum, item) => sum + item.humidity, 0) / items.length;
           const avgPressure = items.reduce((sum, item) => sum + item.pressure, 0) / items.length;
           const avgWindSpeed = items.reduce((sum, item) => sum + item.windSpeed, 0) / items.length;
+          const evapotranspiration = this.calculateDailyEvapotranspiration(
+            date, Math.min(...temperatures), Math.max(...temperatures), avgHumidity, avgWindSpeed, avgPressure, historicalData.location.lat, cropCoefficient
+          );
           
           return {
             date,
@@ -525,6 +754,7 @@ class WeatherService {
             pressure: Math.round(avgPressure),
             windSpeed: Math.round(avgWindSpeed * 100) / 100,
             precipitation: Math.round(precipitationSum * 100) / 100,
+            ...evapotranspiration,
             weather: {
               main: items[Math.floor(items.length / 2)].weather.main,
               description: items[Math.floor(items.length / 2)].weather.description
@@ -532,12 +762,15 @@ class WeatherService {
           };
         }).sort((a, b) => a.date.localeCompare(b.date)),
         period: historicalData.period,
+        source: historicalData.source,
+        gaps: historicalData.gaps,
         timestamp: new Date().toISOString()
       };
 
       return {
         success: true,
         data: dailyData,
+        cache: historicalResponse.cache,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -550,37 +783,56 @@ class WeatherService {
     }
   }
 
+  /**
+   * FAO-56 reference ET0 for one day, plus crop ET when a crop coefficient is given
+   */
+  private calculateDailyEvapotranspiration(date: string, tmin: number, tmax: number, humidity: number, windSpeed: number, pressure: number, lat: number, cropCoefficient?: number): { et0: number; etc?: number } {
+    const et0 = referenceEvapotranspiration({
+      tmin,
+      tmax,
+      humidity,
+      windSpeed,
+      pressure,
+      lat,
+      dayOfYear: dayOfYear(date)
+    });
+
+    return {
+      et0: Math.round(et0 * 100) / 100,
+      ...(cropCoefficient !== undefined ? { etc: Math.round(et0 * cropCoefficient * 100) / 100 } : {})
+    };
+  }
+
   /**
    * Calculate Growing Degree Days from historical data
    */
-  calculateGrowingDegreeDays(historicalData: HistoricalDailyWeather, baseTemp: number = 10): number {
+  calculateGrowingDegreeDays(historicalData: HistoricalDailyWeather, baseTemp: number = 10, upperTemp: number = 30, method: GddMethod = "average"): number {
     return historicalData.data.reduce((total, day) => {
-      const avgTemp = day.temperature.average;
-      const gdd = Math.max(0, avgTemp - baseTemp);
+      const gdd = growingDegreeDays(day.temperature.min, day.temperature.max, baseTemp, upperTemp, method);
       return total + gdd;
     }, 0);
   }
 
   /**
-   * Calculate agricultural insights from weather data
+   * Calculate agricultural insights from weather data. Recent daily mean air
+   * temperatures (oldest first, before today) drive the soil temperature estimate.
    */
-  calculateAgriculturalInsights(current: CurrentWeather, forecast: DailyForecast): AgriculturalInsights {
+  calculateAgriculturalInsights(current: CurrentWeather, forecast: DailyForecast, recentDailyMeans: number[] = []): AgriculturalInsights {
     const temp = current.current.temperature;
     const humidity = current.current.humidity;
     const windSpeed = current.current.windSpeed;
     
     
-    const baseTemp = 10;
-    const growingDegreeDays = Math.max(0, temp - baseTemp);
+    const today = forecast.forecast[0];
+    const growingDegreeDaysToday = today
+      ? growingDegreeDays(today.temperature.min, today.temperature.max, 10, 30, "modified")
+      : Math.max(0, temp - 10);
     
     
-    const evapotranspiration = Math.max(0, 
-      (0.0023 * (temp + 17.8) * Math.sqrt(Math.abs(forecast.forecast[0]?.temperature.max - forecast.forecast[0]?.temperature.min || 10)) * 
-      (temp + 273.16) / 273.16) * 2.45
-    );
+    const evapotranspiration = today?.et0 ?? 0;
     
     
-    const soilTemperature = temp * 0.85; 
+    const soilTemperatureEstimate = soilTemperature([...recentDailyMeans, today ? today.temperature.average : temp]);
     
     
     const frostRisk = forecast.forecast.slice(0, 3).some(day => day.temperature.min < 2);
@@ -597,15 +849,16 @@ class WeatherService {
     
     
     const sprayingWindow = windSpeed < 15 && 
+      current.current.deltaT >= 2 && current.current.deltaT <= 10 &&
       !forecast.forecast.slice(0, 1).some(day => day.precipitation > 0);
     
     
     const heatStress = temp > 35 || (temp > 30 && humidity > 70);
     
     return {
-      growingDegreeDays,
+      growingDegreeDays: Math.round(growingDegreeDaysToday * 100) / 100,
       evapotranspiration,
-      soilTemperature,
+      soilTemperature: Math.round(soilTemperatureEstimate * 10) / 10,
       frostRisk,
       irrigationRecommendation,
       sprayingWindow,
@@ -614,21 +867,52 @@ class WeatherService {
   }
 
   /**
-   * Get comprehensive weather data for agricultural planning
+   * Daily mean temperatures from stored observations only. Used on hot paths
+   * that must not page provider history; days without stored rows are skipped.
+   */
+  private async getStoredDailyMeans(lat: number, lon: number, startTimestamp: number, endTimestamp: number, offset: number): Promise<{ date: string; mean: number }[]> {
+    try {
+      const observations = await weatherHistoryService.getObservations(lat, lon, startTimestamp, endTimestamp, this.provider.name);
+      const byDate = new Map<string, number[]>();
+      observations.forEach(item => {
+        const date = toLocalDate(item.timestamp, offset);
+        byDate.set(date, [...(byDate.get(date) || []), item.temperature]);
+      });
+      return Array.from(byDate.entries()).map(([date, temperatures]) => ({
+        date,
+        mean: temperatures.reduce((sum, temp) => sum + temp, 0) / temperatures.length
+      }));
+    } catch (error) {
+      console.error("❌ Failed to read stored weather history:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get comprehensive weather data for agricultural planning. The soil
+   * temperature estimate uses stored recent observations, so this never pages
+   * provider history.
    */
   async getAgriculturalWeather(lat: number, lon: number): Promise<AgriculturalWeatherResponse> {
     try {
-      const [current, forecast, dailyForecast] = await Promise.all([
+      const offset = await this.resolveTimezoneOffset(lat, lon);
+      const now = Math.floor(Date.now() / 1000);
+      const [current, forecast, dailyForecast, recentDays] = await Promise.all([
         this.getCurrentWeather(lat, lon),
         this.getHourlyForecast(lat, lon),
-        this.getDailyForecast(lat, lon)
+        this.getDailyForecast(lat, lon),
+        this.getStoredDailyMeans(lat, lon, now - 10 * 86400, now, offset)
       ]);
 
       if (!current.success || !forecast.success || !dailyForecast.success) {
         throw new Error("Failed to fetch complete weather data");
       }
 
-      const insights = this.calculateAgriculturalInsights(current.data!, dailyForecast.data!);
+      const firstForecastDate = dailyForecast.data!.forecast[0]?.date;
+      const recentDailyMeans = recentDays
+        .filter(day => !firstForecastDate || day.date < firstForecastDate)
+        .map(day => day.mean);
+      const insights = this.calculateAgriculturalInsights(current.data!, dailyForecast.data!, recentDailyMeans);
 
       return {
         success: true,
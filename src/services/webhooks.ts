@@ -0,0 +1,336 @@
+import axios from "axios";
+import { createHmac, randomBytes } from "crypto";
+import { Prisma, WebhookDelivery as WebhookDeliveryRecord, WebhookEndpoint as WebhookEndpointRecord } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { eventBus, FarmEvent, FarmEventType } from "../lib/events";
+import { resolvesToPrivateNetwork } from "../lib/network";
+
+export type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  events: (FarmEventType | "*")[];
+  description?: string;
+  active: boolean;
+  secret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: (FarmEventType | "*")[];
+  description?: string | null;
+  active?: boolean;
+  secret?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: FarmEventType;
+  payload: FarmEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  statusCode?: number;
+  error?: string;
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  redeliveryOf?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Signature header value for a webhook body: HMAC-SHA256 over
+ * "<timestamp>.<body>" with the endpoint secret, hex encoded
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+class WebhookService {
+  private readonly MAX_ATTEMPTS = 6;
+  private readonly BASE_DELAY_SECONDS = 60;
+  private readonly TIMEOUT_MS = 10000;
+  private isInitialized = false;
+  private isRetrying = false;
+
+  /**
+   * Start delivering published events to registered endpoints
+   */
+  init() {
+    if (this.isInitialized) {
+      return;
+    }
+
+    eventBus.subscribe(event => this.dispatch(event));
+    this.isInitialized = true;
+  }
+
+  async listEndpoints(): Promise<WebhookEndpoint[]> {
+    const endpoints = await prisma.webhookEndpoint.findMany({ orderBy: { createdAt: "asc" } });
+    return endpoints.map(endpoint => this.toEndpoint(endpoint));
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id } });
+    return endpoint ? this.toEndpoint(endpoint) : null;
+  }
+
+  /**
+   * Register an endpoint. The signing secret is generated unless given and is
+   * only returned here.
+   */
+  async createEndpoint(input: WebhookEndpointInput): Promise<WebhookEndpoint> {
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        url: input.url,
+        secret: input.secret || randomBytes(24).toString("hex"),
+        events: input.events,
+        description: input.description ?? null,
+        active: input.active ?? true,
+      },
+    });
+
+    return this.toEndpoint(endpoint, true);
+  }
+
+  /**
+   * Update an endpoint. Returns null when it does not exist.
+   */
+  async updateEndpoint(id: string, input: Partial<WebhookEndpointInput>): Promise<WebhookEndpoint | null> {
+    const existing = await prisma.webhookEndpoint.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: input,
+    });
+
+    return this.toEndpoint(endpoint, input.secret !== undefined);
+  }
+
+  /**
+   * Delete an endpoint and, through the cascade, its delivery log
+   */
+  async deleteEndpoint(id: string): Promise<boolean> {
+    const result = await prisma.webhookEndpoint.deleteMany({ where: { id } });
+    return result.count > 0;
+  }
+
+  /**
+   * Delivery log for an endpoint, newest first
+   */
+  async listDeliveries(endpointId: string, filter: { status?: DeliveryStatus; limit?: number } = {}): Promise<WebhookDelivery[]> {
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { endpointId, status: filter.status },
+      orderBy: { createdAt: "desc" },
+      take: filter.limit ?? 50,
+    });
+
+    return deliveries.map(delivery => this.toDelivery(delivery));
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    const delivery = await prisma.webhookDelivery.findUnique({ where: { id } });
+    return delivery ? this.toDelivery(delivery) : null;
+  }
+
+  /**
+   * Send a logged event again as a new delivery. Returns null when the delivery does not exist.
+   */
+  async redeliver(id: string): Promise<WebhookDelivery | null> {
+    const original = await prisma.webhookDelivery.findUnique({ where: { id }, include: { endpoint: true } });
+    if (!original) {
+      return null;
+    }
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        endpointId: original.endpointId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload as Prisma.InputJsonValue,
+        status: "pending",
+        redeliveryOf: original.id,
+      },
+    });
+
+    return this.attempt(delivery, original.endpoint);
+  }
+
+  /**
+   * Retry pending deliveries whose backoff has elapsed, and first attempts
+   * that never recorded an outcome. A run is skipped while the previous one is
+   * still sending, and each delivery is claimed before it is sent so other
+   * instances leave it alone.
+   */
+  async retryDue(): Promise<{ retried: number; succeeded: number }> {
+    if (this.isRetrying) {
+      return { retried: 0, succeeded: 0 };
+    }
+
+    this.isRetrying = true;
+    try {
+      const now = new Date();
+      const due = await prisma.webhookDelivery.findMany({
+        where: {
+          status: "pending",
+          OR: [
+            { nextAttemptAt: { lte: now } },
+            { nextAttemptAt: null, createdAt: { lte: new Date(now.getTime() - this.BASE_DELAY_SECONDS * 1000) } },
+          ],
+        },
+        include: { endpoint: true },
+        orderBy: { createdAt: "asc" },
+      });
+
+      let retried = 0;
+      let succeeded = 0;
+      for (const delivery of due) {
+        // Push the next attempt past the request timeout; an interrupted attempt is picked up again then
+        const claim = await prisma.webhookDelivery.updateMany({
+          where: { id: delivery.id, status: "pending", nextAttemptAt: delivery.nextAttemptAt },
+          data: { nextAttemptAt: new Date(Date.now() + this.BASE_DELAY_SECONDS * 1000) },
+        });
+        if (claim.count === 0) {
+          continue;
+        }
+
+        retried++;
+        const result = await this.attempt(delivery, delivery.endpoint);
+        if (result.status === "succeeded") {
+          succeeded++;
+        }
+      }
+
+      if (retried > 0) {
+        console.log(`🔁 Webhook retries: ${succeeded}/${retried} delivered`);
+      }
+      return { retried, succeeded };
+    } finally {
+      this.isRetrying = false;
+    }
+  }
+
+  /**
+   * Log a delivery for every active endpoint subscribed to the event and send it
+   */
+  private async dispatch(event: FarmEvent) {
+    const endpoints = await prisma.webhookEndpoint.findMany({ where: { active: true } });
+    const subscribed = endpoints.filter(endpoint => endpoint.events.includes("*") || endpoint.events.includes(event.type));
+
+    for (const endpoint of subscribed) {
+      try {
+        const delivery = await prisma.webhookDelivery.create({
+          data: {
+            endpointId: endpoint.id,
+            eventId: event.id,
+            eventType: event.type,
+            payload: { id: event.id, type: event.type, occurredAt: event.occurredAt, data: event.data },
+            status: "pending",
+          },
+        });
+        await this.attempt(delivery, endpoint);
+      } catch (error) {
+        console.error(`❌ Failed to deliver ${event.type} to ${endpoint.url}:`, error);
+      }
+    }
+  }
+
+  /**
+   * POST the signed event once and record the outcome. Failures are retried
+   * after 1, 2, 4, 8 and 16 minutes before the delivery is marked failed.
+   * Endpoints resolving to a private network are never contacted.
+   */
+  private async attempt(delivery: WebhookDeliveryRecord, endpoint: WebhookEndpointRecord): Promise<WebhookDelivery> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      if (await resolvesToPrivateNetwork(new URL(endpoint.url).hostname)) {
+        throw new Error("Endpoint resolves to a private network address");
+      }
+
+      const response = await axios.post(endpoint.url, body, {
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "FarmAssist-Webhooks/1.0",
+          "X-FarmAssist-Event": delivery.eventType,
+          "X-FarmAssist-Delivery": delivery.id,
+          "X-FarmAssist-Timestamp": String(timestamp),
+          "X-FarmAssist-Signature": signWebhookPayload(endpoint.secret, timestamp, body),
+        },
+        timeout: this.TIMEOUT_MS,
+        maxRedirects: 0,
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : "Request failed";
+    }
+
+    const attempts = delivery.attempts + 1;
+    let data: Prisma.WebhookDeliveryUpdateInput;
+    if (!error) {
+      data = { status: "succeeded", attempts, statusCode, error: null, nextAttemptAt: null, deliveredAt: new Date() };
+    } else if (attempts >= this.MAX_ATTEMPTS) {
+      data = { status: "failed", attempts, statusCode, error, nextAttemptAt: null };
+    } else {
+      const delaySeconds = this.BASE_DELAY_SECONDS * Math.pow(2, attempts - 1);
+      data = { status: "pending", attempts, statusCode, error, nextAttemptAt: new Date(Date.now() + delaySeconds * 1000) };
+    }
+
+    const updated = await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data,
+    });
+
+    return this.toDelivery(updated);
+  }
+
+  private toEndpoint(endpoint: WebhookEndpointRecord, includeSecret: boolean = false): WebhookEndpoint {
+    return {
+      id: endpoint.id,
+      url: endpoint.url,
+      events: endpoint.events as WebhookEndpoint["events"],
+      description: endpoint.description ?? undefined,
+      active: endpoint.active,
+      secret: includeSecret ? endpoint.secret : undefined,
+      createdAt: endpoint.createdAt.toISOString(),
+      updatedAt: endpoint.updatedAt.toISOString(),
+    };
+  }
+
+  private toDelivery(delivery: WebhookDeliveryRecord): WebhookDelivery {
+    return {
+      id: delivery.id,
+      endpointId: delivery.endpointId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType as FarmEventType,
+      payload: delivery.payload as unknown as FarmEvent,
+      status: delivery.status as DeliveryStatus,
+      attempts: delivery.attempts,
+      statusCode: delivery.statusCode ?? undefined,
+      error: delivery.error ?? undefined,
+      nextAttemptAt: delivery.nextAttemptAt ? delivery.nextAttemptAt.toISOString() : undefined,
+      deliveredAt: delivery.deliveredAt ? delivery.deliveredAt.toISOString() : undefined,
+      redeliveryOf: delivery.redeliveryOf ?? undefined,
+      createdAt: delivery.createdAt.toISOString(),
+      updatedAt: delivery.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
+export default webhookService;